@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import type { FeedSyncProgress, FeedSyncResult } from '@/lib/feed-sync';
+import { parseSseEvents } from '@/lib/sse';
+
+interface SyncDone {
+  status: string;
+  errors: string[];
+}
+
+const PHASE_LABELS: Record<FeedSyncProgress['phase'], string> = {
+  starting: 'Starting',
+  upserting: 'Syncing vehicles',
+  deactivating: 'Deactivating removed vehicles',
+  finished: 'Finished',
+};
+
+/**
+ * Run a feed sync from the dashboard with live progress (POST /api/admin/feed-sync, SSE)
+ * Cancel stops the run at its next checkpoint (every 1000 feed rows).
+ */
+export function FeedSyncControl() {
+  const router = useRouter();
+  const [running, setRunning] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [progress, setProgress] = useState<FeedSyncProgress | null>(null);
+  const [results, setResults] = useState<FeedSyncResult[]>([]);
+  const [done, setDone] = useState<SyncDone | null>(null);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setProgress(null);
+    setResults([]);
+    setDone(null);
+
+    try {
+      const response = await fetch('/api/admin/feed-sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done: streamDone } = await reader.read();
+        if (streamDone) break;
+
+        const parsed = parseSseEvents(buffer + value);
+        buffer = parsed.rest;
+        for (const { event, data } of parsed.events) {
+          if (event === 'progress') setProgress(data as FeedSyncProgress);
+          if (event === 'result') setResults((previous) => [...previous, data as FeedSyncResult]);
+          if (event === 'done') setDone(data as SyncDone);
+        }
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Feed sync error:', error);
+      setDone({ status: 'failed', errors: [error instanceof Error ? error.message : 'Unknown error'] });
+    } finally {
+      setRunning(false);
+      setCancelling(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Cancel the running feed sync? Vehicles already written stay updated.')) return;
+
+    setCancelling(true);
+    try {
+      const response = await fetch('/api/admin/feed-sync/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(progress ? { source: progress.source } : {}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Cancel feed sync error:', error);
+      alert(`Cancel failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-white rounded-xl border border-slate-200 p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900">Feed Sync</h2>
+          <p className="text-sm text-slate-600">
+            Runs every 6 hours; start one now to pick up feed changes immediately.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {running && (
+            <Button variant="outline" size="sm" onClick={handleCancel} disabled={cancelling}>
+              {cancelling ? 'Cancelling…' : 'Cancel'}
+            </Button>
+          )}
+          <Button variant="brand" size="sm" onClick={handleRun} disabled={running}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Syncing…' : 'Run feed sync'}
+          </Button>
+        </div>
+      </div>
+
+      {running && progress && (
+        <div className="mt-4 text-sm text-slate-700" aria-live="polite">
+          <p className="font-semibold">
+            {progress.source}: {PHASE_LABELS[progress.phase]}
+          </p>
+          <p className="text-slate-600 mt-1">
+            {progress.rowsProcessed.toLocaleString()} rows read · {progress.batches} batches written ·{' '}
+            {progress.added} added · {progress.updated} updated · {progress.unchanged} unchanged ·{' '}
+            {progress.rejected} rejected · {progress.removed} removed
+          </p>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm text-slate-700">
+          {results.map((result) => (
+            <li key={result.source}>
+              <span className="font-semibold">{result.source}</span>: {result.cancelled ? 'cancelled' : result.status}
+              {result.success &&
+                ` - ${result.added} added, ${result.updated} updated, ${result.removed} removed, ${result.rejected} rejected in ${(result.duration / 1000).toFixed(1)}s`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {done && done.errors.length > 0 && (
+        <ul role="alert" className="mt-4 space-y-1 text-sm text-red-700">
+          {done.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
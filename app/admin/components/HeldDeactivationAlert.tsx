@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import type { HeldDeactivation } from '@/lib/admin-data';
+
+interface HeldDeactivationAlertProps {
+  held: HeldDeactivation[];
+}
+
+/**
+ * Banner for syncs the deactivation circuit breaker held back
+ * Lets an admin push the skipped deactivation through once the feed is confirmed good.
+ */
+export function HeldDeactivationAlert({ held }: HeldDeactivationAlertProps) {
+  const router = useRouter();
+  const [forcing, setForcing] = useState<string | null>(null);
+
+  if (held.length === 0) return null;
+
+  const handleForce = async (item: HeldDeactivation) => {
+    const confirmed = confirm(
+      `Deactivate ~${item.vehicles_pending_removal} ${item.source} vehicles missing from the last feed?`
+    );
+    if (!confirmed) return;
+
+    setForcing(item.source);
+    try {
+      const response = await fetch('/api/admin/force-deactivation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: item.source }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Force deactivation error:', error);
+      alert(`Force deactivation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setForcing(null);
+    }
+  };
+
+  return (
+    <div className="mb-8 space-y-4">
+      {held.map((item) => (
+        <div
+          key={item.source}
+          role="alert"
+          className="flex items-start justify-between gap-4 bg-red-50 border-2 border-red-200 rounded-xl p-6"
+        >
+          <div className="flex items-start gap-3">
+            <ShieldAlert className="w-6 h-6 text-red-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="font-bold text-slate-900">
+                Feed sync circuit breaker tripped ({item.source})
+              </p>
+              <p className="text-sm text-slate-700 mt-1">
+                {item.vehicles_pending_removal} vehicles missing from the feed were kept active.
+              </p>
+              {item.alert_message && (
+                <p className="text-sm text-slate-500 mt-1">{item.alert_message}</p>
+              )}
+              <p className="text-xs text-slate-400 mt-2">
+                Sync started {new Date(item.sync_started_at).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleForce(item)}
+            disabled={forcing !== null}
+          >
+            {forcing === item.source ? 'Deactivating…' : 'Force deactivation'}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { AlertTriangle, ShieldX } from "lucide-react";
+import { getFeedRejections, type FeedRejectionsData } from "@/lib/admin-data";
+import {
+  REJECTION_REASONS,
+  REJECTION_REASON_LABELS,
+  type RejectionReason,
+} from "@/lib/feed-validation";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Feed Rejections | Carzo Admin",
+  description: "Feed rows quarantined by sync validation",
+};
+
+const PAGE_SIZE = 50;
+
+interface FeedRejectionsPageProps {
+  searchParams: Promise<{
+    reason?: string;
+    source?: string;
+    sync_run_id?: string;
+    page?: string;
+  }>;
+}
+
+function buildHref(params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  const queryString = query.toString();
+  return queryString ? `/admin/feed-rejections?${queryString}` : "/admin/feed-rejections";
+}
+
+export default async function FeedRejectionsPage({ searchParams }: FeedRejectionsPageProps) {
+  // Check authentication (server-side)
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get("carzo_admin_auth");
+
+  if (!authCookie || authCookie.value !== process.env.ADMIN_PASSWORD) {
+    redirect("/admin/login");
+  }
+
+  const params = await searchParams;
+  const reason = REJECTION_REASONS.includes(params.reason as RejectionReason)
+    ? (params.reason as RejectionReason)
+    : undefined;
+  const page = Math.max(parseInt(params.page || "1") || 1, 1);
+
+  let data: FeedRejectionsData;
+  try {
+    data = await getFeedRejections({
+      reason,
+      source: params.source,
+      syncRunId: params.sync_run_id,
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error("Error fetching feed rejections:", error);
+    data = { rejections: [], total: 0, latest_syncs: [] };
+  }
+
+  const filters = { reason, source: params.source, sync_run_id: params.sync_run_id };
+  const totalPages = Math.max(Math.ceil(data.total / PAGE_SIZE), 1);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900">Feed Rejections</h1>
+              <p className="text-slate-600 mt-1">
+                Feed rows quarantined by sync validation (kept for 30 days)
+              </p>
+            </div>
+            <a
+              href="/admin"
+              className="px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded-lg transition-colors"
+            >
+              Back to Analytics
+            </a>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Latest sync summary per source */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {data.latest_syncs.map((sync) => (
+            <div key={sync.source} className="bg-white rounded-xl border border-slate-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <AlertTriangle className="w-6 h-6 text-orange-500" />
+                  <h2 className="text-xl font-bold text-slate-900">{sync.source}</h2>
+                </div>
+                <span className="text-xs text-slate-400">
+                  {sync.synced_at ? new Date(sync.synced_at).toLocaleString() : "Never"}
+                </span>
+              </div>
+              <p className="text-3xl font-bold text-slate-900">{sync.vehicles_rejected}</p>
+              <p className="text-sm text-slate-600 mb-4">rows rejected in last sync</p>
+              <div className="space-y-2">
+                {Object.entries(sync.rejections_by_rule).map(([rule, count]) => (
+                  <a
+                    key={rule}
+                    href={buildHref({ reason: rule, source: sync.source, sync_run_id: sync.sync_run_id || undefined })}
+                    className="flex items-center justify-between text-sm p-2 bg-slate-50 hover:bg-slate-100 rounded-lg"
+                  >
+                    <span className="text-slate-700">
+                      {REJECTION_REASON_LABELS[rule as RejectionReason] || rule}
+                    </span>
+                    <span className="font-semibold text-slate-900">{count}</span>
+                  </a>
+                ))}
+              </div>
+            </div>
+          ))}
+          {data.latest_syncs.length === 0 && (
+            <p className="text-slate-500 text-center py-8 lg:col-span-2">No syncs logged yet</p>
+          )}
+        </div>
+
+        {/* Rule filter */}
+        <div className="flex flex-wrap items-center gap-2">
+          <a
+            href={buildHref({ ...filters, reason: undefined })}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${
+              !reason ? "bg-brand text-white" : "bg-white border border-slate-200 text-slate-700"
+            }`}
+          >
+            All rules
+          </a>
+          {REJECTION_REASONS.map((rule) => (
+            <a
+              key={rule}
+              href={buildHref({ ...filters, reason: rule })}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                reason === rule ? "bg-brand text-white" : "bg-white border border-slate-200 text-slate-700"
+              }`}
+            >
+              {REJECTION_REASON_LABELS[rule]}
+            </a>
+          ))}
+        </div>
+
+        {/* Rejected rows */}
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <div className="flex items-center gap-3 mb-6">
+            <ShieldX className="w-6 h-6 text-red-600" />
+            <h2 className="text-xl font-bold text-slate-900">
+              Rejected Rows <span className="text-slate-400 font-normal">({data.total})</span>
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-4">VIN</th>
+                  <th className="py-2 pr-4">Dealer</th>
+                  <th className="py-2 pr-4">Source</th>
+                  <th className="py-2 pr-4">Reasons</th>
+                  <th className="py-2">Rejected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.rejections.map((rejection) => (
+                  <tr key={rejection.id} className="border-b border-slate-100 align-top">
+                    <td className="py-3 pr-4 font-mono text-slate-900">{rejection.vin || "—"}</td>
+                    <td className="py-3 pr-4 text-slate-700">
+                      {rejection.dealer_name || "Unknown"}
+                      {rejection.dealer_id && (
+                        <span className="block text-xs text-slate-400">{rejection.dealer_id}</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-slate-700">{rejection.source}</td>
+                    <td className="py-3 pr-4">
+                      <ul className="space-y-1">
+                        {rejection.reasons.map((rule, i) => (
+                          <li key={rule}>
+                            <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs font-semibold rounded">
+                              {REJECTION_REASON_LABELS[rule] || rule}
+                            </span>
+                            <span className="ml-2 text-slate-500">{rejection.messages[i]}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="py-3 text-xs text-slate-400 whitespace-nowrap">
+                      {new Date(rejection.created_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {data.rejections.length === 0 && (
+              <p className="text-slate-500 text-center py-8">No rejected rows</p>
+            )}
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6 text-sm">
+              {page > 1 ? (
+                <a href={buildHref({ ...filters, page: String(page - 1) })} className="text-brand hover:underline">
+                  ← Previous
+                </a>
+              ) : (
+                <span />
+              )}
+              <span className="text-slate-500">
+                Page {page} of {totalPages}
+              </span>
+              {page < totalPages ? (
+                <a href={buildHref({ ...filters, page: String(page + 1) })} className="text-brand hover:underline">
+                  Next →
+                </a>
+              ) : (
+                <span />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { cookies } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { AlertTriangle, Columns3, ShieldX, Timer } from "lucide-react";
+import { getFeedSyncRun, type FeedSyncRunDetail } from "@/lib/admin-data";
+import { formatSchemaDrift, hasSchemaDrift } from "@/lib/feed-schema";
+import { SYNC_STAGES, SYNC_STAGE_LABELS, formatDuration } from "@/lib/feed-sync-history";
+import { REJECTION_REASON_LABELS, type RejectionReason } from "@/lib/feed-validation";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Sync Run | Carzo Admin",
+  description: "Feed sync run details",
+};
+
+interface FeedSyncRunPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function FeedSyncRunPage({ params }: FeedSyncRunPageProps) {
+  // Check authentication (server-side)
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get("carzo_admin_auth");
+
+  if (!authCookie || authCookie.value !== process.env.ADMIN_PASSWORD) {
+    redirect("/admin/login");
+  }
+
+  const { id } = await params;
+
+  let run: FeedSyncRunDetail | null = null;
+  try {
+    run = await getFeedSyncRun(id);
+  } catch (error) {
+    console.error("Error fetching feed sync run:", error);
+  }
+
+  if (!run) {
+    notFound();
+  }
+
+  const stageTotal = SYNC_STAGES.reduce((sum, stage) => sum + run.stage_timings[stage], 0);
+  const counts: Array<[string, number | null]> = [
+    ["Rows read", run.rows_read],
+    ["Active vehicles", run.total_vehicles],
+    ["Added", run.vehicles_added],
+    ["Updated", run.vehicles_updated],
+    ["Unchanged", run.vehicles_unchanged],
+    ["Reactivated", run.vehicles_reactivated],
+    ["Removed", run.vehicles_removed],
+    ["Pending removal", run.vehicles_pending_removal],
+    ["Rejected", run.vehicles_rejected],
+    ["Price changes", run.price_changes],
+    ["VINs filled", run.vins_filled],
+    ["VINs mismatched", run.vins_mismatched],
+  ];
+  const rejections = Object.entries(run.rejections_by_rule).sort(([, a], [, b]) => (b || 0) - (a || 0));
+  const nullRates = Object.entries(run.column_null_rates || {})
+    .filter(([, rate]) => rate > 0)
+    .sort(([, a], [, b]) => b - a);
+  const rejectionsHref = (reason?: string) => {
+    const query = new URLSearchParams({ source: run.source });
+    if (run.sync_run_id) query.set("sync_run_id", run.sync_run_id);
+    if (reason) query.set("reason", reason);
+    return `/admin/feed-rejections?${query.toString()}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900">
+                {run.source} sync <span className="text-slate-400 font-normal">({run.status})</span>
+              </h1>
+              <p className="text-slate-600 mt-1">
+                {run.sync_started_at ? new Date(run.sync_started_at).toLocaleString() : "—"}
+                {" → "}
+                {run.sync_completed_at ? new Date(run.sync_completed_at).toLocaleString() : "—"}
+                {run.duration_seconds !== null && ` (${formatDuration(run.duration_seconds * 1000)})`}
+              </p>
+              {run.sync_run_id && <p className="text-xs font-mono text-slate-400 mt-1">{run.sync_run_id}</p>}
+            </div>
+            <Link
+              href="/admin/feed-syncs"
+              className="px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded-lg transition-colors"
+            >
+              Back to Sync History
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Errors and alerts */}
+        {(run.error_message || run.alert_message) && (
+          <div className="bg-white rounded-xl border border-red-200 p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <AlertTriangle className="w-6 h-6 text-red-600" />
+              <h2 className="text-xl font-bold text-slate-900">Errors &amp; Alerts</h2>
+            </div>
+            {run.error_message && (
+              <p className="text-sm text-red-700 whitespace-pre-wrap mb-2">{run.error_message}</p>
+            )}
+            {run.alert_message && (
+              <p className="text-sm text-amber-700 whitespace-pre-wrap">{run.alert_message}</p>
+            )}
+            {run.deactivation_forced_at && (
+              <p className="text-xs text-slate-500 mt-2">
+                Held deactivation forced {new Date(run.deactivation_forced_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Counts */}
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+          {counts.map(([label, value]) => (
+            <div key={label} className="bg-white rounded-xl border border-slate-200 p-4">
+              <p className="text-sm text-slate-500">{label}</p>
+              <p className="text-2xl font-bold text-slate-900">{value ?? "—"}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Stage timings */}
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <div className="flex items-center gap-3 mb-2">
+            <Timer className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-bold text-slate-900">Stage Timings</h2>
+          </div>
+          <p className="text-sm text-slate-500 mb-6">
+            Busy time per stage. The feed is streamed, so download, extract and parse overlap.
+          </p>
+          {stageTotal > 0 ? (
+            <div className="space-y-3">
+              {SYNC_STAGES.map((stage) => {
+                const ms = run.stage_timings[stage];
+                return (
+                  <div key={stage} className="flex items-center gap-4 text-sm">
+                    <span className="w-24 text-slate-700">{SYNC_STAGE_LABELS[stage]}</span>
+                    <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-500" style={{ width: `${(ms / stageTotal) * 100}%` }} />
+                    </div>
+                    <span className="w-20 text-right font-semibold text-slate-900">{formatDuration(ms)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-slate-500 text-center py-4">No stage timings recorded for this run</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Rejections by rule */}
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <ShieldX className="w-6 h-6 text-red-600" />
+                <h2 className="text-xl font-bold text-slate-900">Rejections</h2>
+              </div>
+              {rejections.length > 0 && (
+                <a href={rejectionsHref()} className="text-sm text-brand hover:underline">
+                  View rows →
+                </a>
+              )}
+            </div>
+            <div className="space-y-2">
+              {rejections.map(([rule, count]) => (
+                <a
+                  key={rule}
+                  href={rejectionsHref(rule)}
+                  className="flex items-center justify-between text-sm p-2 bg-slate-50 hover:bg-slate-100 rounded-lg"
+                >
+                  <span className="text-slate-700">{REJECTION_REASON_LABELS[rule as RejectionReason] || rule}</span>
+                  <span className="font-semibold text-slate-900">{count}</span>
+                </a>
+              ))}
+            </div>
+            {rejections.length === 0 && <p className="text-slate-500 text-center py-4">No rows rejected</p>}
+          </div>
+
+          {/* Feed columns */}
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <Columns3 className="w-6 h-6 text-slate-600" />
+              <h2 className="text-xl font-bold text-slate-900">Feed Columns</h2>
+            </div>
+            {run.schema_drift && hasSchemaDrift(run.schema_drift) ? (
+              <ul className="text-sm text-amber-700 space-y-1 mb-4">
+                {formatSchemaDrift(run.schema_drift).map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-500 mb-4">Header matched the column contract</p>
+            )}
+            <div className="space-y-2">
+              {nullRates.map(([column, rate]) => (
+                <div key={column} className="flex items-center justify-between text-sm p-2 bg-slate-50 rounded-lg">
+                  <span className="font-mono text-slate-700">{column}</span>
+                  <span className="text-slate-900">{(rate * 100).toFixed(1)}% empty</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
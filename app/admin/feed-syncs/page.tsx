@@ -0,0 +1,268 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { Activity, History } from "lucide-react";
+import {
+  FEED_SYNC_LOG_STATUSES,
+  getFeedSyncRuns,
+  type FeedSyncLogStatus,
+  type FeedSyncRunsData,
+} from "@/lib/admin-data";
+import {
+  FEED_FRESHNESS_LABELS,
+  SYNC_INTERVAL_HOURS,
+  SYNC_STAGES,
+  SYNC_STAGE_LABELS,
+  formatDuration,
+  type FeedFreshness,
+} from "@/lib/feed-sync-history";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Sync History | Carzo Admin",
+  description: "Feed sync runs with per-stage timings",
+};
+
+const PAGE_SIZE = 50;
+
+const FRESHNESS_STYLES: Record<FeedFreshness, string> = {
+  fresh: "bg-green-100 text-green-700",
+  delayed: "bg-amber-100 text-amber-700",
+  stale: "bg-red-100 text-red-700",
+};
+
+const STATUS_STYLES: Record<FeedSyncLogStatus, string> = {
+  success: "bg-green-100 text-green-700",
+  partial: "bg-amber-100 text-amber-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+interface FeedSyncsPageProps {
+  searchParams: Promise<{
+    source?: string;
+    status?: string;
+    page?: string;
+  }>;
+}
+
+function buildHref(params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  const queryString = query.toString();
+  return queryString ? `/admin/feed-syncs?${queryString}` : "/admin/feed-syncs";
+}
+
+export default async function FeedSyncsPage({ searchParams }: FeedSyncsPageProps) {
+  // Check authentication (server-side)
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get("carzo_admin_auth");
+
+  if (!authCookie || authCookie.value !== process.env.ADMIN_PASSWORD) {
+    redirect("/admin/login");
+  }
+
+  const params = await searchParams;
+  const status = FEED_SYNC_LOG_STATUSES.includes(params.status as FeedSyncLogStatus)
+    ? (params.status as FeedSyncLogStatus)
+    : undefined;
+  const page = Math.max(parseInt(params.page || "1") || 1, 1);
+
+  let data: FeedSyncRunsData;
+  try {
+    data = await getFeedSyncRuns({
+      source: params.source,
+      status,
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error("Error fetching feed sync runs:", error);
+    data = { runs: [], total: 0, freshness: [] };
+  }
+
+  const filters = { source: params.source, status };
+  const totalPages = Math.max(Math.ceil(data.total / PAGE_SIZE), 1);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900">Sync History</h1>
+              <p className="text-slate-600 mt-1">
+                Feed sync runs with per-stage timings (scheduled every {SYNC_INTERVAL_HOURS} hours)
+              </p>
+            </div>
+            <a
+              href="/admin"
+              className="px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded-lg transition-colors"
+            >
+              Back to Analytics
+            </a>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Freshness per source */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {data.freshness.map((source) => (
+            <div key={source.source} className="bg-white rounded-xl border border-slate-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <Activity className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-xl font-bold text-slate-900">{source.source}</h2>
+                </div>
+                <div className="flex items-center gap-2">
+                  {source.running && (
+                    <span className="px-2 py-0.5 bg-blue-100 text-blue-700 text-xs font-semibold rounded">
+                      Running
+                    </span>
+                  )}
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded ${FRESHNESS_STYLES[source.freshness]}`}>
+                    {FEED_FRESHNESS_LABELS[source.freshness]}
+                  </span>
+                </div>
+              </div>
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-slate-500">Last successful sync</dt>
+                  <dd className="font-semibold text-slate-900">
+                    {source.last_success_at ? new Date(source.last_success_at).toLocaleString() : "Never"}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500">Last run</dt>
+                  <dd className="font-semibold text-slate-900">
+                    {source.last_run_at ? new Date(source.last_run_at).toLocaleString() : "Never"}
+                    {source.last_status && (
+                      <span className={`ml-2 px-2 py-0.5 text-xs rounded ${STATUS_STYLES[source.last_status]}`}>
+                        {source.last_status}
+                      </span>
+                    )}
+                  </dd>
+                </div>
+              </dl>
+            </div>
+          ))}
+          {data.freshness.length === 0 && (
+            <p className="text-slate-500 text-center py-8 lg:col-span-2">No syncs logged yet</p>
+          )}
+        </div>
+
+        {/* Status filter */}
+        <div className="flex flex-wrap items-center gap-2">
+          <a
+            href={buildHref({ ...filters, status: undefined })}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${
+              !status ? "bg-brand text-white" : "bg-white border border-slate-200 text-slate-700"
+            }`}
+          >
+            All runs
+          </a>
+          {FEED_SYNC_LOG_STATUSES.map((value) => (
+            <a
+              key={value}
+              href={buildHref({ ...filters, status: value })}
+              className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${
+                status === value ? "bg-brand text-white" : "bg-white border border-slate-200 text-slate-700"
+              }`}
+            >
+              {value}
+            </a>
+          ))}
+        </div>
+
+        {/* Runs */}
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <div className="flex items-center gap-3 mb-6">
+            <History className="w-6 h-6 text-slate-600" />
+            <h2 className="text-xl font-bold text-slate-900">
+              Runs <span className="text-slate-400 font-normal">({data.total})</span>
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-4">Completed</th>
+                  <th className="py-2 pr-4">Source</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4 text-right">Rows</th>
+                  <th className="py-2 pr-4 text-right">Added</th>
+                  <th className="py-2 pr-4 text-right">Updated</th>
+                  <th className="py-2 pr-4 text-right">Removed</th>
+                  <th className="py-2 pr-4 text-right">Rejected</th>
+                  {SYNC_STAGES.map((stage) => (
+                    <th key={stage} className="py-2 pr-4 text-right">
+                      {SYNC_STAGE_LABELS[stage]}
+                    </th>
+                  ))}
+                  <th className="py-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.runs.map((run) => (
+                  <tr key={run.id} className="border-b border-slate-100 hover:bg-slate-50">
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      <a href={`/admin/feed-syncs/${run.id}`} className="text-brand hover:underline">
+                        {run.sync_completed_at ? new Date(run.sync_completed_at).toLocaleString() : "—"}
+                      </a>
+                    </td>
+                    <td className="py-3 pr-4 text-slate-700">{run.source}</td>
+                    <td className="py-3 pr-4">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded ${STATUS_STYLES[run.status]}`}>
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-right text-slate-900">{run.rows_read ?? "—"}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{run.vehicles_added}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{run.vehicles_updated}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{run.vehicles_removed}</td>
+                    <td className="py-3 pr-4 text-right text-slate-700">{run.vehicles_rejected}</td>
+                    {SYNC_STAGES.map((stage) => (
+                      <td key={stage} className="py-3 pr-4 text-right text-slate-500 whitespace-nowrap">
+                        {run.stage_timings[stage] > 0 ? formatDuration(run.stage_timings[stage]) : "—"}
+                      </td>
+                    ))}
+                    <td className="py-3 text-right font-semibold text-slate-900 whitespace-nowrap">
+                      {run.duration_seconds !== null ? formatDuration(run.duration_seconds * 1000) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {data.runs.length === 0 && <p className="text-slate-500 text-center py-8">No sync runs</p>}
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6 text-sm">
+              {page > 1 ? (
+                <a href={buildHref({ ...filters, page: String(page - 1) })} className="text-brand hover:underline">
+                  ← Previous
+                </a>
+              ) : (
+                <span />
+              )}
+              <span className="text-slate-500">
+                Page {page} of {totalPages}
+              </span>
+              {page < totalPages ? (
+                <a href={buildHref({ ...filters, page: String(page + 1) })} className="text-brand hover:underline">
+                  Next →
+                </a>
+              ) : (
+                <span />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
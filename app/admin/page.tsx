@@ -1,5 +1,10 @@
 import { supabaseAdmin } from "@/lib/supabase";
+import { getHeldDeactivations, type HeldDeactivation } from "@/lib/admin-data";
+import { sumBillableRevenue } from "@/lib/payout";
+import { HeldDeactivationAlert } from "./components/HeldDeactivationAlert";
+import { FeedSyncControl } from "./components/FeedSyncControl";
 import { cookies } from "next/headers";
+import Link from "next/link";
 import { redirect } from "next/navigation";
 import {
   TrendingUp,
@@ -104,13 +109,13 @@ async function getAnalyticsData(): Promise<AnalyticsData> {
   // Get total clicks with flow information
   const { data: allClicks } = await supabaseAdmin
     .from("clicks")
-    .select("id, is_billable, user_id, flow");
+    .select("id, is_billable, user_id, flow, payout");
 
   const totalClicks = allClicks?.length || 0;
   const billableClicks = allClicks?.filter((c) => c.is_billable).length || 0;
   const wastedClicks = totalClicks - billableClicks;
   const uniqueUsers = new Set(allClicks?.map((c) => c.user_id)).size;
-  const revenue = billableClicks * 0.8;
+  const revenue = sumBillableRevenue(allClicks || []);
 
   // Calculate flow performance (treat null/undefined as 'full' for backward compatibility)
   const directClicks = allClicks?.filter((c) => c.flow === "direct") || [];
@@ -134,7 +139,7 @@ async function getAnalyticsData(): Promise<AnalyticsData> {
     direct: {
       clicks: directClicks.length,
       billable: directBillable,
-      revenue: directBillable * 0.8,
+      revenue: sumBillableRevenue(directClicks),
       billableRate:
         directClicks.length > 0
           ? (directBillable / directClicks.length) * 100
@@ -144,7 +149,7 @@ async function getAnalyticsData(): Promise<AnalyticsData> {
       clicks: vdpOnlyClicks.length,
       impressions: vdpImpressions?.length || 0,
       billable: vdpOnlyBillable,
-      revenue: vdpOnlyBillable * 0.8,
+      revenue: sumBillableRevenue(vdpOnlyClicks),
       billableRate:
         vdpOnlyClicks.length > 0
           ? (vdpOnlyBillable / vdpOnlyClicks.length) * 100
@@ -157,7 +162,7 @@ async function getAnalyticsData(): Promise<AnalyticsData> {
     full: {
       clicks: fullClicks.length,
       billable: fullBillable,
-      revenue: fullBillable * 0.8,
+      revenue: sumBillableRevenue(fullClicks),
       billableRate:
         fullClicks.length > 0 ? (fullBillable / fullClicks.length) * 100 : 0,
     },
@@ -268,6 +273,14 @@ export default async function AdminDashboard() {
 
   const analytics = await getAnalyticsData();
 
+  // Sync problems should never hide the analytics page
+  let heldDeactivations: HeldDeactivation[] = [];
+  try {
+    heldDeactivations = await getHeldDeactivations();
+  } catch (error) {
+    console.error("Error fetching held deactivations:", error);
+  }
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Header */}
@@ -289,6 +302,18 @@ export default async function AdminDashboard() {
               >
                 Campaign Planning
               </a>
+              <a
+                href="/admin/feed-rejections"
+                className="px-4 py-2 bg-brand hover:bg-brand-hover text-white rounded-lg transition-colors"
+              >
+                Feed Rejections
+              </a>
+              <Link
+                href="/admin/feed-syncs"
+                className="px-4 py-2 bg-brand hover:bg-brand-hover text-white rounded-lg transition-colors"
+              >
+                Sync History
+              </Link>
               <a
                 href="/api/admin/logout"
                 className="px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded-lg transition-colors"
@@ -302,6 +327,10 @@ export default async function AdminDashboard() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Feed sync alerts */}
+        <HeldDeactivationAlert held={heldDeactivations} />
+        <FeedSyncControl />
+
         {/* Key Metrics */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
           {/* Revenue */}
@@ -121,6 +121,35 @@ describe('GET /api/admin/calculate-budget', () => {
     expect(data.note).toBeDefined();
   });
 
+  it('should project revenue from each metro average payout', async () => {
+    const { createClient } = await import('@supabase/supabase-js');
+    vi.mocked(createClient).mockReturnValue({
+      rpc: vi.fn(() =>
+        Promise.resolve({
+          data: [
+            { metro: 'Tampa, FL', vehicle_count: 1000, dealer_count: 20, avg_payout: 1.6 },
+            { metro: 'Dallas, TX', vehicle_count: 1000, dealer_count: 20, avg_payout: null },
+          ],
+          error: null,
+        })
+      ),
+    } as unknown as SupabaseClient<unknown, never, never>);
+
+    const request = new NextRequest('http://localhost/api/admin/calculate-budget?total_budget=3000&weight_by_payout=true');
+    const response = await GET(request);
+    const data = await response.json();
+
+    const tampa = data.allocations.find((a: { metro: string }) => a.metro === 'Tampa, FL');
+    const dallas = data.allocations.find((a: { metro: string }) => a.metro === 'Dallas, TX');
+
+    expect(data.assumptions.weight_by_payout).toBe(true);
+    expect(tampa.expected_payout).toBe(1.6);
+    expect(dallas.expected_payout).toBe(0.8); // Flat rate fallback
+    // Budget split 1.6 : 0.8
+    expect(tampa.monthly_budget).toBe(2000);
+    expect(dallas.monthly_budget).toBe(1000);
+  });
+
   it('should calculate correct ROI projections', async () => {
     const request = new NextRequest('http://localhost/api/admin/calculate-budget?total_budget=3000&cpc=0.50&conversion_rate=0.35');
     const response = await GET(request);
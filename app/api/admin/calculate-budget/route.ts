@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { validateAdminAuth } from '@/lib/admin-auth';
+import { DEFAULT_PAYOUT, resolvePayout } from '@/lib/payout';
 import type { MetroInventoryRow, BudgetAllocation, BudgetSummary } from '@/lib/types/campaign-planning';
 
 export const dynamic = 'force-dynamic';
@@ -12,6 +13,9 @@ export const dynamic = 'force-dynamic';
  * - total_budget: Monthly budget (default: 7500)
  * - cpc: Assumed CPC (default: 0.50)
  * - conversion_rate: Assumed conversion rate (default: 0.35)
+ * - weight_by_payout: "true" to weight each metro's budget share by its average payout
+ *
+ * Revenue uses each metro's average vehicle payout (flat rate when the feed has none).
  *
  * @returns Budget allocation recommendations with ROI projections
  */
@@ -28,6 +32,7 @@ export async function GET(request: NextRequest) {
   const totalBudget = Math.max(0, Number(searchParams.get('total_budget') || 7500));
   const cpcAssumption = Math.max(0.01, Number(searchParams.get('cpc') || 0.50));
   const conversionRate = Math.max(0, Math.min(1, Number(searchParams.get('conversion_rate') || 0.35)));
+  const weightByPayout = searchParams.get('weight_by_payout') === 'true';
 
   // Validate all parameters are valid numbers
   if (isNaN(totalBudget) || isNaN(cpcAssumption) || isNaN(conversionRate)) {
@@ -65,7 +70,8 @@ export async function GET(request: NextRequest) {
           total_monthly_budget: totalBudget,
           cpc: cpcAssumption,
           conversion_rate: conversionRate,
-          revenue_per_billable_click: 0.80,
+          weight_by_payout: weightByPayout,
+          default_payout: DEFAULT_PAYOUT,
         },
         allocations: [],
         summary: {
@@ -78,21 +84,28 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Inventory score, optionally weighted by what a click in the metro earns
+    const scoreOf = (metro: MetroInventoryRow) => {
+      const score = Number(metro.vehicle_count) * Number(metro.dealer_count);
+      return weightByPayout ? score * resolvePayout(metro.avg_payout) : score;
+    };
+
     // Calculate total score for budget allocation
     const totalScore = viableCampaigns.reduce(
-      (sum: number, metro: MetroInventoryRow) => sum + Number(metro.vehicle_count) * Number(metro.dealer_count),
+      (sum: number, metro: MetroInventoryRow) => sum + scoreOf(metro),
       0
     );
 
     // Calculate allocations
     const allocations: BudgetAllocation[] = viableCampaigns.map((metro: MetroInventoryRow) => {
-      const inventoryScore = Number(metro.vehicle_count) * Number(metro.dealer_count);
+      const inventoryScore = scoreOf(metro);
+      const expectedPayout = resolvePayout(metro.avg_payout);
       const budgetProportion = inventoryScore / totalScore;
       const monthlyBudget = totalBudget * budgetProportion;
       const dailyBudget = monthlyBudget / 30;
       const dailyClicks = dailyBudget / cpcAssumption;
       const dealerClicks = dailyClicks * conversionRate;
-      const dailyRevenue = dealerClicks * 0.80;
+      const dailyRevenue = dealerClicks * expectedPayout;
       const monthlyRevenue = dailyRevenue * 30;
       const monthlyProfit = monthlyRevenue - monthlyBudget;
       const roiPct = (monthlyProfit / monthlyBudget) * 100;
@@ -102,6 +115,7 @@ export async function GET(request: NextRequest) {
         metro: metro.metro,
         monthly_budget: Math.round(monthlyBudget * 100) / 100,
         daily_budget: Math.round(dailyBudget * 100) / 100,
+        expected_payout: expectedPayout,
         expected_clicks: Math.round(dailyClicks * 30),
         expected_revenue: Math.round(monthlyRevenue * 100) / 100,
         expected_profit: Math.round(monthlyProfit * 100) / 100,
@@ -127,7 +141,8 @@ export async function GET(request: NextRequest) {
         total_monthly_budget: totalBudget,
         cpc: cpcAssumption,
         conversion_rate: conversionRate,
-        revenue_per_billable_click: 0.80,
+        weight_by_payout: weightByPayout,
+        default_payout: DEFAULT_PAYOUT,
       },
       allocations,
       summary,
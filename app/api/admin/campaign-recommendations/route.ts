@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { validateAdminAuth } from '@/lib/admin-auth';
+import { resolvePayout } from '@/lib/payout';
 import type { MetroInventoryRow, CampaignRecommendation } from '@/lib/types/campaign-planning';
 
 export const dynamic = 'force-dynamic';
@@ -8,6 +9,9 @@ export const dynamic = 'force-dynamic';
 /**
  * Generate campaign recommendations based on current inventory
  *
+ * Query params:
+ * - weight_by_payout: "true" to weight each metro's budget share by its average payout
+ *
  * @returns JSON with tier-based campaign recommendations
  */
 export async function GET(request: NextRequest) {
@@ -17,6 +21,8 @@ export async function GET(request: NextRequest) {
     return authResult.response!;
   }
 
+  const weightByPayout = new URL(request.url).searchParams.get('weight_by_payout') === 'true';
+
   const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -33,15 +39,21 @@ export async function GET(request: NextRequest) {
     const totalMonthlyBudget = 7500; // Default budget
     const recommendations: CampaignRecommendation[] = [];
 
-    // Calculate total inventory score (weight by dealer count for better distribution)
+    // Inventory score (weight by dealer count for better distribution, optionally by payout)
+    const scoreOf = (metro: MetroInventoryRow) => {
+      const score = metro.vehicle_count * metro.dealer_count;
+      return weightByPayout ? score * resolvePayout(metro.avg_payout) : score;
+    };
+
+    // Calculate total inventory score
     const totalScore = metros.reduce(
-      (sum: number, metro: MetroInventoryRow) => sum + metro.vehicle_count * metro.dealer_count,
+      (sum: number, metro: MetroInventoryRow) => sum + scoreOf(metro),
       0
     );
 
     // Generate recommendations
     for (const metro of metros as MetroInventoryRow[]) {
-      const inventoryScore = metro.vehicle_count * metro.dealer_count;
+      const inventoryScore = scoreOf(metro);
       const budgetProportion = totalScore > 0 ? inventoryScore / totalScore : 0; // Protected from division by zero
       const recommendedDailyBudget = Math.round((totalMonthlyBudget * budgetProportion) / 30);
 
@@ -72,6 +84,7 @@ export async function GET(request: NextRequest) {
         dealers: Number(metro.dealer_count),
         dealer_concentration: Number(metro.dealer_concentration),
         recommended_daily_budget: recommendedDailyBudget,
+        expected_payout: resolvePayout(metro.avg_payout),
         trend: 'stable',
         reason,
       });
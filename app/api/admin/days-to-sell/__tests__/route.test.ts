@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { getDaysToSell } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data
+vi.mock('@/lib/admin-data', () => ({
+  getDaysToSell: vi.fn(),
+}));
+
+describe('GET /api/admin/days-to-sell', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(getDaysToSell).mockResolvedValue([
+      { make: 'Toyota', model: 'Camry', dma: null, delisted_count: 42, avg_days: 18.4, median_days: 15 },
+      { make: 'Ford', model: 'F-150', dma: null, delisted_count: 30, avg_days: 27.1, median_days: 24 },
+    ]);
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const request = new NextRequest('http://localhost/api/admin/days-to-sell');
+    const response = await GET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should default to make over the last 90 days', async () => {
+    const request = new NextRequest('http://localhost/api/admin/days-to-sell');
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    expect(getDaysToSell).toHaveBeenCalledWith({ groupBy: 'make', days: 90, minCount: 5 });
+
+    const data = await response.json();
+    expect(data.group_by).toBe('make');
+    expect(data.segments).toHaveLength(2);
+    expect(data.segments[0].median_days).toBe(15);
+  });
+
+  it('should pass grouping and clamp the window', async () => {
+    const request = new NextRequest('http://localhost/api/admin/days-to-sell?group_by=model&days=5000&min_count=0');
+    await GET(request);
+
+    expect(getDaysToSell).toHaveBeenCalledWith({ groupBy: 'model', days: 365, minCount: 5 });
+  });
+
+  it('should return 400 for an unknown grouping', async () => {
+    const request = new NextRequest('http://localhost/api/admin/days-to-sell?group_by=dealer');
+    const response = await GET(request);
+
+    expect(response.status).toBe(400);
+    expect(getDaysToSell).not.toHaveBeenCalled();
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(getDaysToSell).mockRejectedValue(new Error('DB error'));
+
+    const request = new NextRequest('http://localhost/api/admin/days-to-sell?group_by=dma');
+    const response = await GET(request);
+
+    expect(response.status).toBe(500);
+    const data = await response.json();
+    expect(data.error).toBe('Failed to fetch days to sell');
+    expect(data.details).toBe('DB error');
+  });
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { getDaysToSell } from '@/lib/admin-data';
+import { DAYS_TO_SELL_GROUPS, type DaysToSellGroup } from '@/lib/vehicle-lifecycle';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_DAYS = 365;
+
+/**
+ * Days-to-sell aggregates from vehicle lifecycle events
+ *
+ * Query params: group_by (make | model | dma, default make), days (lookback, max 365, default 90),
+ * min_count (minimum delistings per segment, default 5)
+ * @returns Segments ordered fastest-turning first
+ */
+export async function GET(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const groupBy = searchParams.get('group_by') || 'make';
+  const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90') || 90, 1), MAX_DAYS);
+  const minCount = Math.max(parseInt(searchParams.get('min_count') || '5') || 5, 1);
+
+  if (!DAYS_TO_SELL_GROUPS.includes(groupBy as DaysToSellGroup)) {
+    return NextResponse.json(
+      { error: `Invalid group_by. Must be one of: ${DAYS_TO_SELL_GROUPS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const segments = await getDaysToSell({ groupBy: groupBy as DaysToSellGroup, days, minCount });
+    return NextResponse.json({ group_by: groupBy, days, min_count: minCount, segments });
+  } catch (error: unknown) {
+    console.error('Error fetching days to sell:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch days to sell', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, PATCH } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { getDealerDetail, updateDealerSettings } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data
+vi.mock('@/lib/admin-data', () => ({
+  getDealerDetail: vi.fn(),
+  updateDealerSettings: vi.fn(),
+}));
+
+const dealer = {
+  dealer_id: 'D1',
+  name: 'Test Motors',
+  active_vehicle_count: 2,
+  total_vehicle_count: 3,
+  settings: { notes: 'Prefers email' },
+};
+
+function context(dealerId: string) {
+  return { params: Promise.resolve({ dealerId }) };
+}
+
+function patchRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/admin/dealers/D1', {
+    method: 'PATCH',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('GET /api/admin/dealers/[dealerId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(getDealerDetail).mockResolvedValue({
+      dealer,
+      inventory: { vehicles: [], total: 2, page: 1, totalPages: 1 },
+      billing: { unique_users: 5, billable_clicks: 5, revenue: 6.5, window_days: 30 },
+    });
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers/D1'), context('D1'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return the dealer, inventory and billing', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost/api/admin/dealers/D1?page=2&page_size=500&sort_by=price_asc'),
+      context('D1')
+    );
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.dealer.settings).toEqual({ notes: 'Prefers email' });
+    expect(data.billing.revenue).toBe(6.5);
+    expect(getDealerDetail).toHaveBeenCalledWith('D1', { page: 2, pageSize: 100, sortBy: 'price_asc' });
+  });
+
+  it('should return 400 for an invalid sort', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers/D1?sort_by=bogus'), context('D1'));
+
+    expect(response.status).toBe(400);
+    expect(getDealerDetail).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown dealer', async () => {
+    vi.mocked(getDealerDetail).mockResolvedValue(null);
+
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers/NOPE'), context('NOPE'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(getDealerDetail).mockRejectedValue(new Error('DB error'));
+
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers/D1'), context('D1'));
+
+    expect(response.status).toBe(500);
+    const data = await response.json();
+    expect(data.error).toBe('Failed to fetch dealer');
+    expect(data.details).toBe('DB error');
+  });
+});
+
+describe('PATCH /api/admin/dealers/[dealerId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(updateDealerSettings).mockResolvedValue(dealer);
+  });
+
+  it('should merge settings', async () => {
+    const response = await PATCH(patchRequest({ settings: { notes: 'Prefers email' } }), context('D1'));
+
+    expect(response.status).toBe(200);
+    expect(updateDealerSettings).toHaveBeenCalledWith('D1', { notes: 'Prefers email' });
+    const data = await response.json();
+    expect(data.dealer.dealer_id).toBe('D1');
+  });
+
+  it('should reject bodies without a settings object', async () => {
+    expect((await PATCH(patchRequest('not json'), context('D1'))).status).toBe(400);
+    expect((await PATCH(patchRequest({ settings: ['a'] }), context('D1'))).status).toBe(400);
+    expect((await PATCH(patchRequest({}), context('D1'))).status).toBe(400);
+    expect(updateDealerSettings).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown dealer', async () => {
+    vi.mocked(updateDealerSettings).mockResolvedValue(null);
+
+    const response = await PATCH(patchRequest({ settings: { notes: 'x' } }), context('NOPE'));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { getDealerDetail, updateDealerSettings } from '@/lib/admin-data';
+import { isDealerInventorySort, parseDealerId } from '@/lib/dealers';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PAGE_SIZE = 100;
+
+interface RouteContext {
+  params: Promise<{ dealerId: string }>;
+}
+
+/**
+ * Dealer detail: settings, a page of active inventory (same query as /dealers/[dealerId]),
+ * and billing over the dealer_click_history window
+ *
+ * Query params: page, page_size (max 100), sort_by (newest | price_asc | price_desc | year_desc | mileage_asc)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const dealerId = parseDealerId((await params).dealerId);
+  if (!dealerId) {
+    return NextResponse.json({ error: 'Invalid dealer id' }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const sortBy = searchParams.get('sort_by') || 'newest';
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+  const pageSize = Math.min(Math.max(parseInt(searchParams.get('page_size') || '24') || 24, 1), MAX_PAGE_SIZE);
+
+  if (!isDealerInventorySort(sortBy)) {
+    return NextResponse.json({ error: 'Invalid sort_by' }, { status: 400 });
+  }
+
+  try {
+    const detail = await getDealerDetail(dealerId, { page, pageSize, sortBy });
+
+    if (!detail) {
+      return NextResponse.json({ error: `Dealer "${dealerId}" not found` }, { status: 404 });
+    }
+
+    return NextResponse.json(detail);
+  } catch (error: unknown) {
+    console.error('Error fetching dealer:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch dealer', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update per-dealer settings
+ *
+ * Body: { "settings": { "key": value } } - keys are merged into the stored settings, null removes a key
+ * @returns Updated dealer
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const dealerId = parseDealerId((await params).dealerId);
+  if (!dealerId) {
+    return NextResponse.json({ error: 'Invalid dealer id' }, { status: 400 });
+  }
+
+  let settings: unknown;
+  try {
+    ({ settings } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return NextResponse.json({ error: 'settings must be an object' }, { status: 400 });
+  }
+
+  try {
+    const dealer = await updateDealerSettings(dealerId, settings as Record<string, unknown>);
+
+    if (!dealer) {
+      return NextResponse.json({ error: `Dealer "${dealerId}" not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ dealer });
+  } catch (error: unknown) {
+    console.error('Error updating dealer settings:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to update dealer settings', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
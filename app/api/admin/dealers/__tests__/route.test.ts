@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { getDealers } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data
+vi.mock('@/lib/admin-data', () => ({
+  getDealers: vi.fn(),
+}));
+
+describe('GET /api/admin/dealers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(getDealers).mockResolvedValue({
+      dealers: [
+        {
+          dealer_id: 'D1',
+          name: 'Test Motors',
+          city: 'Tampa',
+          state: 'FL',
+          active_vehicle_count: 42,
+          total_vehicle_count: 60,
+          settings: {},
+        },
+      ],
+      total: 1,
+    });
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return dealers with active inventory by default', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers'));
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.total).toBe(1);
+    expect(data.dealers[0].active_vehicle_count).toBe(42);
+    expect(getDealers).toHaveBeenCalledWith({
+      search: undefined,
+      state: undefined,
+      activeOnly: true,
+      limit: 50,
+      offset: 0,
+    });
+  });
+
+  it('should pass filters and clamp pagination', async () => {
+    await GET(
+      new NextRequest(
+        'http://localhost/api/admin/dealers?search=motors&state=fl&include_inactive=true&limit=5000&offset=-10'
+      )
+    );
+
+    expect(getDealers).toHaveBeenCalledWith({
+      search: 'motors',
+      state: 'fl',
+      activeOnly: false,
+      limit: 200,
+      offset: 0,
+    });
+  });
+
+  it('should return 400 for an invalid state', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers?state=Florida'));
+
+    expect(response.status).toBe(400);
+    expect(getDealers).not.toHaveBeenCalled();
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(getDealers).mockRejectedValue(new Error('DB error'));
+
+    const response = await GET(new NextRequest('http://localhost/api/admin/dealers'));
+
+    expect(response.status).toBe(500);
+    const data = await response.json();
+    expect(data.error).toBe('Failed to fetch dealers');
+    expect(data.details).toBe('DB error');
+  });
+});
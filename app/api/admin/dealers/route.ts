@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { getDealers } from '@/lib/admin-data';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 200;
+
+/**
+ * Browse dealers maintained by the feed sync
+ *
+ * Query params: search (name or city), state, include_inactive (true = dealers with no active
+ * vehicles too), limit (max 200), offset
+ * @returns Dealers (largest active inventory first, including settings) and total count
+ */
+export async function GET(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const search = searchParams.get('search');
+  const state = searchParams.get('state');
+  const includeInactive = searchParams.get('include_inactive') === 'true';
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), MAX_LIMIT);
+  const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+  if (state && !/^[A-Za-z]{2}$/.test(state)) {
+    return NextResponse.json({ error: 'Invalid state. Must be a 2-letter code' }, { status: 400 });
+  }
+
+  try {
+    const data = await getDealers({
+      search: search || undefined,
+      state: state || undefined,
+      activeOnly: !includeInactive,
+      limit,
+      offset,
+    });
+    return NextResponse.json(data);
+  } catch (error: unknown) {
+    console.error('Error fetching dealers:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch dealers', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
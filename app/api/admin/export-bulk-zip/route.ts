@@ -6,6 +6,7 @@ import { checkMultipleRateLimits, getClientIdentifier } from '@/lib/rate-limit';
 import {
   calculateMetroLocations,
   generateDestinationUrl,
+  parseCampaignValue,
   generateCsvContent,
   CampaignType,
   Platform,
@@ -92,18 +93,12 @@ export async function POST(request: NextRequest) {
         // Build query based on campaign type
         let query = supabase.from('vehicles').select('*').eq('is_active', true);
 
-        if (item.campaignType === 'body_style') {
-          query = query.eq('body_style', trimmedCampaignValue);
-        } else if (item.campaignType === 'make') {
-          query = query.eq('make', trimmedCampaignValue);
-        } else if (item.campaignType === 'make_body_style') {
-          const parts = trimmedCampaignValue.split(' ');
-          if (parts.length < 2) throw new Error('Invalid make_body_style format');
-          query = query.eq('make', parts[0]).eq('body_style', parts.slice(1).join(' '));
-        } else if (item.campaignType === 'make_model') {
-          const parts = trimmedCampaignValue.split(' ');
-          if (parts.length < 2) throw new Error('Invalid make_model format');
-          query = query.eq('make', parts[0]).eq('model', parts.slice(1).join(' '));
+        const filters = parseCampaignValue(item.campaignType, trimmedCampaignValue);
+        if (!filters) throw new Error(`Invalid ${item.campaignType} format`);
+
+        // One value: equality, several: any of them
+        for (const [column, values] of Object.entries(filters)) {
+          query = values.length === 1 ? query.eq(column, values[0]) : query.in(column, values);
         }
 
         const { data: vehiclesData, error } = await query;
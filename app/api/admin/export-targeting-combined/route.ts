@@ -6,6 +6,7 @@ import {
   calculateMetroLocations,
   generateDestinationUrl,
   generateCsvContent,
+  parseCampaignValue,
   VALID_CAMPAIGN_TYPES,
   VALID_PLATFORMS,
   CampaignType,
@@ -18,6 +19,14 @@ export const dynamic = 'force-dynamic';
 // Input validation limits (prevent DoS via large inputs)
 const MAX_CAMPAIGN_VALUE_LENGTH = 100;
 
+// Expected campaign_value shape, for 400 messages
+const CAMPAIGN_VALUE_FORMATS: Record<CampaignType, string> = {
+  body_style: '"BodyStyle" (e.g., "suv")',
+  make: '"Make" (e.g., "Toyota")',
+  make_body_style: '"Make BodyStyle" (e.g., "Kia suv")',
+  make_model: '"Make Model" (e.g., "Jeep Wrangler")',
+};
+
 /**
  * Export combined multi-metro targeting for a campaign type
  * Returns ONE CSV with all metros that have sufficient inventory
@@ -25,6 +34,7 @@ const MAX_CAMPAIGN_VALUE_LENGTH = 100;
  * Query params:
  * - campaign_type: body_style | make | make_body_style | make_model
  * - campaign_value: e.g., "suv", "Kia", "Kia suv", "Jeep Grand Cherokee"
+ *   (comma-separated lists target several values: "Honda,Toyota", "Kia,Hyundai suv")
  * - platform: facebook | google | tiktok
  * - min_vehicles: minimum vehicles per metro (default: 6)
  * - max_metros: safety limit (default: 100)
@@ -115,56 +125,17 @@ export async function GET(request: NextRequest) {
     // Build query based on campaign type
     let query = supabase.from('vehicles').select('*').eq('is_active', true);
 
-    if (campaignType === 'body_style') {
-      query = query.eq('body_style', trimmedCampaignValue);
-    } else if (campaignType === 'make') {
-      query = query.eq('make', trimmedCampaignValue);
-    } else if (campaignType === 'make_body_style') {
-      const parts = trimmedCampaignValue.split(' ');
-
-      // Validate we have at least 2 parts (make + body_style)
-      if (parts.length < 2) {
-        return NextResponse.json(
-          { error: 'make_body_style requires format: "Make BodyStyle" (e.g., "Kia suv")' },
-          { status: 400 }
-        );
-      }
-
-      const make = parts[0];
-      const bodyStyle = parts.slice(1).join(' '); // Handle multi-word body styles
-
-      // Validate neither part is empty
-      if (!make || !bodyStyle) {
-        return NextResponse.json(
-          { error: 'make_body_style format invalid: both make and body_style are required' },
-          { status: 400 }
-        );
-      }
-
-      query = query.eq('make', make).eq('body_style', bodyStyle);
-    } else if (campaignType === 'make_model') {
-      const parts = trimmedCampaignValue.split(' ');
-
-      // Validate we have at least 2 parts (make + model)
-      if (parts.length < 2) {
-        return NextResponse.json(
-          { error: 'make_model requires format: "Make Model" (e.g., "Jeep Wrangler")' },
-          { status: 400 }
-        );
-      }
-
-      const make = parts[0];
-      const model = parts.slice(1).join(' '); // Handle multi-word models
-
-      // Validate neither part is empty
-      if (!make || !model) {
-        return NextResponse.json(
-          { error: 'make_model format invalid: both make and model are required' },
-          { status: 400 }
-        );
-      }
+    const filters = parseCampaignValue(campaignType, trimmedCampaignValue);
+    if (!filters) {
+      return NextResponse.json(
+        { error: `${campaignType} requires format: ${CAMPAIGN_VALUE_FORMATS[campaignType]}` },
+        { status: 400 }
+      );
+    }
 
-      query = query.eq('make', make).eq('model', model);
+    // One value: equality, several: any of them
+    for (const [column, values] of Object.entries(filters)) {
+      query = values.length === 1 ? query.eq(column, values[0]) : query.in(column, values);
     }
 
     const { data: vehiclesData, error } = await query;
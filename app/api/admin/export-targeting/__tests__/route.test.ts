@@ -190,7 +190,7 @@ describe('GET /api/admin/export-targeting', () => {
 
       expect(text).toContain('destination_url');
       // Check that the URL is correctly constructed with both params
-      expect(text).toContain('https://carzo.net/search?make=Toyota&body_style=suv');
+      expect(text).toContain('https://carzo.net/search?make=Toyota&bodyStyle=suv');
     });
 
     it('should return 404 when no dealers found', async () => {
@@ -356,7 +356,7 @@ describe('GET /api/admin/export-targeting', () => {
       expect(response.status).toBe(200);
       expect(response.headers.get('Content-Type')).toBe('text/csv');
       expect(text).toContain('"dma","destination_url"');
-      expect(text).toContain('"Tampa, FL","https://carzo.net/search?make=Ford&body_style=truck"');
+      expect(text).toContain('"Tampa, FL","https://carzo.net/search?make=Ford&bodyStyle=truck"');
     });
 
     it('should return 404 when TikTok export has no matching vehicles', async () => {
@@ -24,8 +24,9 @@ function generateDestinationUrl(make: string | null, bodyStyle: string | null):
     url.searchParams.set('make', make);
   }
   
+  // The search page reads bodyStyle, not the column name
   if (bodyStyle) {
-    url.searchParams.set('body_style', bodyStyle);
+    url.searchParams.set('bodyStyle', bodyStyle);
   }
 
   return url.toString();
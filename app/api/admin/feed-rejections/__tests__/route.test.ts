@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { getFeedRejections } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data
+vi.mock('@/lib/admin-data', () => ({
+  getFeedRejections: vi.fn(),
+}));
+
+describe('GET /api/admin/feed-rejections', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(getFeedRejections).mockResolvedValue({
+      rejections: [
+        {
+          id: 'r1',
+          sync_run_id: 'run-1',
+          source: 'lotlinx',
+          vin: 'BADVIN',
+          dealer_id: 'D1',
+          dealer_name: 'Test Motors',
+          reasons: ['invalid_vin', 'price_out_of_range'],
+          messages: ['VIN "BADVIN" is not 17 valid characters', 'Price 0 outside 500-500000'],
+          vehicle: null,
+          created_at: new Date().toISOString(),
+        },
+      ],
+      total: 1,
+      latest_syncs: [
+        {
+          sync_run_id: 'run-1',
+          source: 'lotlinx',
+          synced_at: new Date().toISOString(),
+          vehicles_rejected: 1,
+          rejections_by_rule: { invalid_vin: 1, price_out_of_range: 1 },
+        },
+      ],
+    });
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const request = new NextRequest('http://localhost/api/admin/feed-rejections');
+    const response = await GET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return rejections and latest sync summaries', async () => {
+    const request = new NextRequest('http://localhost/api/admin/feed-rejections');
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.total).toBe(1);
+    expect(data.rejections[0].reasons).toEqual(['invalid_vin', 'price_out_of_range']);
+    expect(data.latest_syncs[0].rejections_by_rule).toEqual({ invalid_vin: 1, price_out_of_range: 1 });
+  });
+
+  it('should pass filters and clamp pagination', async () => {
+    const request = new NextRequest(
+      'http://localhost/api/admin/feed-rejections?reason=invalid_vin&source=lotlinx&sync_run_id=run-1&limit=5000&offset=-10'
+    );
+    await GET(request);
+
+    expect(getFeedRejections).toHaveBeenCalledWith({
+      reason: 'invalid_vin',
+      source: 'lotlinx',
+      syncRunId: 'run-1',
+      limit: 200,
+      offset: 0,
+    });
+  });
+
+  it('should return 400 for an unknown reason code', async () => {
+    const request = new NextRequest('http://localhost/api/admin/feed-rejections?reason=bogus');
+    const response = await GET(request);
+
+    expect(response.status).toBe(400);
+    expect(getFeedRejections).not.toHaveBeenCalled();
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(getFeedRejections).mockRejectedValue(new Error('DB error'));
+
+    const request = new NextRequest('http://localhost/api/admin/feed-rejections');
+    const response = await GET(request);
+
+    expect(response.status).toBe(500);
+    const data = await response.json();
+    expect(data.error).toBe('Failed to fetch feed rejections');
+    expect(data.details).toBe('DB error');
+  });
+});
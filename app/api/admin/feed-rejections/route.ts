@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { getFeedRejections } from '@/lib/admin-data';
+import { REJECTION_REASONS, type RejectionReason } from '@/lib/feed-validation';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 200;
+
+/**
+ * Browse feed rows quarantined by sync validation
+ *
+ * Query params: reason, source, sync_run_id, limit (max 200), offset
+ * @returns Matching rejections (newest first), total count, and the latest sync summary per source
+ */
+export async function GET(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const reason = searchParams.get('reason');
+  const source = searchParams.get('source');
+  const syncRunId = searchParams.get('sync_run_id');
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), MAX_LIMIT);
+  const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+  if (reason && !REJECTION_REASONS.includes(reason as RejectionReason)) {
+    return NextResponse.json(
+      { error: `Invalid reason. Must be one of: ${REJECTION_REASONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await getFeedRejections({
+      reason: (reason as RejectionReason) || undefined,
+      source: source || undefined,
+      syncRunId: syncRunId || undefined,
+      limit,
+      offset,
+    });
+    return NextResponse.json(data);
+  } catch (error: unknown) {
+    console.error('Error fetching feed rejections:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch feed rejections', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { loadFeedSources, type FeedSource } from '@/lib/feed-sources';
+import type { FeedSyncOptions, FeedSyncResult } from '@/lib/feed-sync';
+import { parseSseEvents } from '@/lib/sse';
+
+const syncs = vi.hoisted(() => ({
+  /** Result per source id */
+  results: {} as Record<string, Partial<FeedSyncResult>>,
+  started: [] as string[],
+}));
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+vi.mock('@/lib/feed-sources', () => ({
+  loadFeedSources: vi.fn(),
+}));
+
+// Each sync reports one progress update, then returns the canned result
+vi.mock('@/lib/feed-sync', () => ({
+  FeedSyncService: class {
+    constructor(
+      _url: string,
+      _key: string,
+      private source: FeedSource,
+      private options: FeedSyncOptions
+    ) {}
+
+    async syncFeed() {
+      syncs.started.push(this.source.id);
+      this.options.onProgress?.({
+        source: this.source.id,
+        syncRunId: `run-${this.source.id}`,
+        phase: 'upserting',
+        rowsProcessed: 1000,
+        rowsWritten: 40,
+        batches: 1,
+        added: 10,
+        updated: 30,
+        unchanged: 960,
+        reactivated: 0,
+        rejected: 0,
+        removed: 0,
+        errors: [],
+      });
+      return { source: this.source.id, success: true, status: 'success', errors: [], ...syncs.results[this.source.id] };
+    }
+  },
+}));
+
+function buildRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/admin/feed-sync', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+async function readEvents(response: Response) {
+  return parseSseEvents(await response.text()).events;
+}
+
+describe('POST /api/admin/feed-sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    syncs.results = {};
+    syncs.started = [];
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://localhost';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'key';
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(loadFeedSources).mockReturnValue([{ id: 'lotlinx' }, { id: 'acme' }] as FeedSource[]);
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(401);
+    expect(syncs.started).toEqual([]);
+  });
+
+  it('should stream progress, results and the overall status', async () => {
+    syncs.results.acme = { status: 'partial' };
+
+    const response = await POST(buildRequest({}));
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const events = await readEvents(response);
+    expect(events.map(e => e.event)).toEqual(['progress', 'result', 'progress', 'result', 'done']);
+    expect(events[0].data).toMatchObject({ source: 'lotlinx', phase: 'upserting', batches: 1 });
+    expect(events[3].data).toMatchObject({ source: 'acme', status: 'partial' });
+    expect(events[4].data).toEqual({ status: 'partial', errors: [] });
+  });
+
+  it('should sync every source when the body is empty', async () => {
+    const response = await POST(buildRequest(undefined));
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(syncs.started).toEqual(['lotlinx', 'acme']);
+  });
+
+  it('should sync only the requested source', async () => {
+    const response = await POST(buildRequest({ source: 'acme' }));
+    await response.text();
+
+    expect(syncs.started).toEqual(['acme']);
+  });
+
+  it('should stop after a cancelled run', async () => {
+    syncs.results.lotlinx = {
+      success: false,
+      status: 'failed',
+      cancelled: true,
+      errors: ['Sync cancelled by an admin during upserting after 3000 feed rows'],
+    };
+
+    const events = await readEvents(await POST(buildRequest({})));
+
+    expect(syncs.started).toEqual(['lotlinx']);
+    expect(events.at(-1)?.data).toEqual({
+      status: 'cancelled',
+      errors: ['[lotlinx] Sync cancelled by an admin during upserting after 3000 feed rows'],
+    });
+  });
+
+  it('should return 400 for an unknown source or invalid JSON', async () => {
+    expect((await POST(buildRequest({ source: 'nope' }))).status).toBe(400);
+    expect((await POST(buildRequest('not json'))).status).toBe(400);
+    expect(syncs.started).toEqual([]);
+  });
+
+  it('should return 500 when FEED_SOURCES is invalid', async () => {
+    vi.mocked(loadFeedSources).mockImplementation(() => {
+      throw new Error('FEED_SOURCES is not valid JSON');
+    });
+
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: 'Failed to start feed sync' });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { cancelFeedSync } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data
+vi.mock('@/lib/admin-data', () => ({
+  cancelFeedSync: vi.fn(),
+}));
+
+function buildRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/admin/feed-sync/cancel', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/admin/feed-sync/cancel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(cancelFeedSync).mockResolvedValue([{ source: 'lotlinx', sync_run_id: 'run-1' }]);
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(401);
+    expect(cancelFeedSync).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the running syncs', async () => {
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(200);
+    expect(cancelFeedSync).toHaveBeenCalledWith(undefined);
+    expect(await response.json()).toEqual({
+      success: true,
+      cancelled: [{ source: 'lotlinx', sync_run_id: 'run-1' }],
+    });
+  });
+
+  it('should cancel every running sync when the body is empty', async () => {
+    const response = await POST(buildRequest(undefined));
+
+    expect(response.status).toBe(200);
+    expect(cancelFeedSync).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should cancel one source', async () => {
+    await POST(buildRequest({ source: ' lotlinx ' }));
+
+    expect(cancelFeedSync).toHaveBeenCalledWith('lotlinx');
+  });
+
+  it('should return 400 for an invalid source', async () => {
+    const response = await POST(buildRequest({ source: 42 }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 409 when nothing is running', async () => {
+    vi.mocked(cancelFeedSync).mockResolvedValue([]);
+
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(cancelFeedSync).mockRejectedValue(new Error('DB error'));
+
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to cancel feed sync', details: 'DB error' });
+  });
+});
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { cancelFeedSync } from '@/lib/admin-data';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cancel a running feed sync (admin-triggered or cron)
+ * The run stops at its next checkpoint and is logged as failed.
+ *
+ * Body: { "source": "lotlinx" } (optional; default: every running source)
+ * @returns The runs asked to stop
+ */
+export async function POST(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  let source: unknown;
+  try {
+    // The body is optional: an empty one means every source
+    const text = await request.text();
+    ({ source } = text.trim() ? JSON.parse(text) : {});
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (source !== undefined && (typeof source !== 'string' || !source.trim())) {
+    return NextResponse.json({ error: 'source must be a non-empty string' }, { status: 400 });
+  }
+
+  try {
+    const cancelled = await cancelFeedSync(typeof source === 'string' ? source.trim() : undefined);
+
+    if (cancelled.length === 0) {
+      return NextResponse.json({ error: 'No feed sync is running' }, { status: 409 });
+    }
+
+    console.log(`⏹️  Admin cancelled feed sync: ${cancelled.map((run) => run.source).join(', ')}`);
+    return NextResponse.json({ success: true, cancelled });
+  } catch (error: unknown) {
+    console.error('Error cancelling feed sync:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to cancel feed sync', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { FeedSyncService, type FeedSyncResult, type FeedSyncStatus } from '@/lib/feed-sync';
+import { loadFeedSources, type FeedSource } from '@/lib/feed-sources';
+import { formatSseEvent } from '@/lib/sse';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // Same budget as the cron sync
+
+/**
+ * Overall status of an admin run (worst source wins)
+ */
+function getRunStatus(results: FeedSyncResult[]): FeedSyncStatus | 'cancelled' {
+  if (results.some((result) => result.cancelled)) return 'cancelled';
+  if (results.some((result) => result.status === 'failed')) return 'failed';
+  if (results.some((result) => result.status === 'partial')) return 'partial';
+  if (results.every((result) => result.status === 'skipped')) return 'skipped';
+  return 'success';
+}
+
+/**
+ * Run a feed sync from the admin dashboard, streaming progress as Server-Sent Events
+ * Cancel it with POST /api/admin/feed-sync/cancel.
+ *
+ * Body: { "source": "lotlinx" } (optional; default: every source, in turn)
+ *
+ * Events:
+ * - progress - FeedSyncProgress (phase, rows, batches, counts, errors)
+ * - result   - FeedSyncResult for each source as it finishes
+ * - done     - { status, errors } once every source has run (a cancelled run stops the rest)
+ *
+ * Closing the stream doesn't stop the sync: it runs to the end (or its lease) like a cron run.
+ */
+export async function POST(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  let source: unknown;
+  try {
+    // The body is optional: an empty one means every source
+    const text = await request.text();
+    ({ source } = text.trim() ? JSON.parse(text) : {});
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (source !== undefined && (typeof source !== 'string' || !source.trim())) {
+    return NextResponse.json({ error: 'source must be a non-empty string' }, { status: 400 });
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Missing Supabase environment variables for admin feed sync');
+    return NextResponse.json({ error: 'Supabase not configured' }, { status: 500 });
+  }
+
+  let sources: FeedSource[];
+  try {
+    sources = loadFeedSources();
+  } catch (error: unknown) {
+    console.error('Error starting admin feed sync:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to start feed sync', details: errorMessage },
+      { status: 500 }
+    );
+  }
+
+  if (typeof source === 'string') {
+    sources = sources.filter((feedSource) => feedSource.id === source.trim());
+    if (sources.length === 0) {
+      return NextResponse.json({ error: `Unknown feed source "${source.trim()}"` }, { status: 400 });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+        } catch {
+          open = false;
+        }
+      };
+
+      console.log(`🚀 Admin triggered feed sync (${sources.map((feedSource) => feedSource.id).join(', ')})`);
+
+      const results: FeedSyncResult[] = [];
+      for (const feedSource of sources) {
+        const syncService = new FeedSyncService(supabaseUrl, supabaseKey, feedSource, {
+          onProgress: (progress) => send('progress', progress),
+        });
+        const result = await syncService.syncFeed();
+        results.push(result);
+        send('result', result);
+
+        if (result.cancelled) break;
+      }
+
+      send('done', {
+        status: getRunStatus(results),
+        errors: results.flatMap((result) => result.errors.map((error) => `[${result.source}] ${error}`)),
+      });
+
+      if (open) controller.close();
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
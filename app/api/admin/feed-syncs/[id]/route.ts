@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { getFeedSyncRun } from '@/lib/admin-data';
+
+export const dynamic = 'force-dynamic';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * One sync run: counts, stage timings, errors/alerts, schema drift, null rates and rejections by rule
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const { id } = await params;
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: 'Invalid sync run id' }, { status: 400 });
+  }
+
+  try {
+    const run = await getFeedSyncRun(id);
+
+    if (!run) {
+      return NextResponse.json({ error: `Sync run "${id}" not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error: unknown) {
+    console.error('Error fetching feed sync run:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch feed sync run', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
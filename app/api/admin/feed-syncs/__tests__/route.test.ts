@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '../route';
+import { GET as GET_RUN } from '../[id]/route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { getFeedSyncRun, getFeedSyncRuns, type FeedSyncRun } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data (keep the status list)
+vi.mock('@/lib/admin-data', () => ({
+  FEED_SYNC_LOG_STATUSES: ['success', 'partial', 'failed'],
+  getFeedSyncRuns: vi.fn(),
+  getFeedSyncRun: vi.fn(),
+}));
+
+const RUN_ID = '7d9f3c1e-2b4a-4c6d-8e0f-1a2b3c4d5e6f';
+
+const run: FeedSyncRun = {
+  id: RUN_ID,
+  sync_run_id: '0f1e2d3c-4b5a-4968-8776-655443322110',
+  source: 'lotlinx',
+  status: 'success',
+  sync_started_at: '2025-12-04T03:00:00Z',
+  sync_completed_at: '2025-12-04T03:02:10Z',
+  duration_seconds: 130,
+  rows_read: 1200,
+  total_vehicles: 1190,
+  vehicles_added: 10,
+  vehicles_updated: 40,
+  vehicles_unchanged: 1140,
+  vehicles_reactivated: 0,
+  vehicles_removed: 5,
+  vehicles_pending_removal: 0,
+  vehicles_rejected: 10,
+  price_changes: 12,
+  stage_timings: { download: 41000, extract: 9000, parse: 30000, upsert: 45000, deactivate: 2000 },
+  error_message: null,
+  alert_message: null,
+};
+
+describe('GET /api/admin/feed-syncs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(getFeedSyncRuns).mockResolvedValue({
+      runs: [run],
+      total: 1,
+      freshness: [
+        {
+          source: 'lotlinx',
+          freshness: 'fresh',
+          last_success_at: run.sync_completed_at,
+          last_run_at: run.sync_completed_at,
+          last_status: 'success',
+          running: false,
+        },
+      ],
+    });
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const request = new NextRequest('http://localhost/api/admin/feed-syncs');
+    const response = await GET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return runs with stage timings and freshness', async () => {
+    const request = new NextRequest('http://localhost/api/admin/feed-syncs');
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.total).toBe(1);
+    expect(data.runs[0].stage_timings.parse).toBe(30000);
+    expect(data.freshness[0].freshness).toBe('fresh');
+  });
+
+  it('should pass filters and clamp pagination', async () => {
+    const request = new NextRequest(
+      'http://localhost/api/admin/feed-syncs?source=lotlinx&status=failed&limit=5000&offset=-10'
+    );
+    await GET(request);
+
+    expect(getFeedSyncRuns).toHaveBeenCalledWith({
+      source: 'lotlinx',
+      status: 'failed',
+      limit: 200,
+      offset: 0,
+    });
+  });
+
+  it('should return 400 for an unknown status', async () => {
+    const request = new NextRequest('http://localhost/api/admin/feed-syncs?status=skipped');
+    const response = await GET(request);
+
+    expect(response.status).toBe(400);
+    expect(getFeedSyncRuns).not.toHaveBeenCalled();
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(getFeedSyncRuns).mockRejectedValue(new Error('DB error'));
+
+    const request = new NextRequest('http://localhost/api/admin/feed-syncs');
+    const response = await GET(request);
+
+    expect(response.status).toBe(500);
+    const data = await response.json();
+    expect(data.error).toBe('Failed to fetch feed sync runs');
+    expect(data.details).toBe('DB error');
+  });
+});
+
+describe('GET /api/admin/feed-syncs/[id]', () => {
+  const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(getFeedSyncRun).mockResolvedValue({
+      ...run,
+      rejections_by_rule: { invalid_vin: 10 },
+      vins_filled: 0,
+      vins_mismatched: 0,
+      schema_drift: null,
+      column_null_rates: { Vin: 0, Payout: 0.02 },
+      deactivation_forced_at: null,
+    });
+  });
+
+  it('should return the run', async () => {
+    const request = new NextRequest(`http://localhost/api/admin/feed-syncs/${RUN_ID}`);
+    const response = await GET_RUN(request, context(RUN_ID));
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.run.rejections_by_rule).toEqual({ invalid_vin: 10 });
+    expect(getFeedSyncRun).toHaveBeenCalledWith(RUN_ID);
+  });
+
+  it('should return 400 for an id that is not a UUID', async () => {
+    const request = new NextRequest('http://localhost/api/admin/feed-syncs/42');
+    const response = await GET_RUN(request, context('42'));
+
+    expect(response.status).toBe(400);
+    expect(getFeedSyncRun).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown run', async () => {
+    vi.mocked(getFeedSyncRun).mockResolvedValue(null);
+
+    const request = new NextRequest(`http://localhost/api/admin/feed-syncs/${RUN_ID}`);
+    const response = await GET_RUN(request, context(RUN_ID));
+
+    expect(response.status).toBe(404);
+  });
+});
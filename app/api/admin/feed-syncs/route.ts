@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { FEED_SYNC_LOG_STATUSES, getFeedSyncRuns, type FeedSyncLogStatus } from '@/lib/admin-data';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 200;
+
+/**
+ * Feed sync run history
+ *
+ * Query params: source, status (success | partial | failed), limit (max 200), offset
+ * @returns Runs (newest first) with stage timings, total count, and freshness per source
+ */
+export async function GET(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const source = searchParams.get('source');
+  const status = searchParams.get('status');
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), MAX_LIMIT);
+  const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+  if (status && !FEED_SYNC_LOG_STATUSES.includes(status as FeedSyncLogStatus)) {
+    return NextResponse.json(
+      { error: `Invalid status. Must be one of: ${FEED_SYNC_LOG_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await getFeedSyncRuns({
+      source: source || undefined,
+      status: (status as FeedSyncLogStatus) || undefined,
+      limit,
+      offset,
+    });
+    return NextResponse.json(data);
+  } catch (error: unknown) {
+    console.error('Error fetching feed sync runs:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch feed sync runs', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../route';
+import { NextRequest } from 'next/server';
+import * as adminAuth from '@/lib/admin-auth';
+import { forceHeldDeactivation } from '@/lib/admin-data';
+
+// Mock admin auth
+vi.mock('@/lib/admin-auth');
+
+// Mock admin-data
+vi.mock('@/lib/admin-data', () => ({
+  forceHeldDeactivation: vi.fn(),
+}));
+
+function buildRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/admin/force-deactivation', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/admin/force-deactivation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: true,
+    });
+
+    vi.mocked(forceHeldDeactivation).mockResolvedValue(4200);
+  });
+
+  it('should return 401 if not authorized', async () => {
+    vi.mocked(adminAuth.validateAdminAuth).mockResolvedValue({
+      authorized: false,
+      response: new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 }),
+    });
+
+    const response = await POST(buildRequest({ source: 'lotlinx' }));
+
+    expect(response.status).toBe(401);
+    expect(forceHeldDeactivation).not.toHaveBeenCalled();
+  });
+
+  it('should deactivate held vehicles for the source', async () => {
+    const response = await POST(buildRequest({ source: 'lotlinx' }));
+
+    expect(response.status).toBe(200);
+    expect(forceHeldDeactivation).toHaveBeenCalledWith('lotlinx');
+
+    const data = await response.json();
+    expect(data).toEqual({ success: true, source: 'lotlinx', removed: 4200 });
+  });
+
+  it('should return 400 when source is missing', async () => {
+    const response = await POST(buildRequest({}));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 400 for invalid JSON', async () => {
+    const response = await POST(buildRequest('not json'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 409 when the source has no held sync', async () => {
+    vi.mocked(forceHeldDeactivation).mockResolvedValue(null);
+
+    const response = await POST(buildRequest({ source: 'lotlinx' }));
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(forceHeldDeactivation).mockRejectedValue(new Error('DB error'));
+
+    const response = await POST(buildRequest({ source: 'lotlinx' }));
+
+    expect(response.status).toBe(500);
+    const data = await response.json();
+    expect(data.error).toBe('Failed to force deactivation');
+    expect(data.details).toBe('DB error');
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminAuth } from '@/lib/admin-auth';
+import { forceHeldDeactivation } from '@/lib/admin-data';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Override the feed sync circuit breaker for a source
+ * Deactivates the vehicles its latest (partial) sync held back.
+ *
+ * Body: { "source": "lotlinx" }
+ * @returns Number of vehicles deactivated
+ */
+export async function POST(request: NextRequest) {
+  // Validate auth and rate limiting
+  const authResult = await validateAdminAuth(request);
+  if (!authResult.authorized) {
+    return authResult.response!;
+  }
+
+  let source: unknown;
+  try {
+    ({ source } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof source !== 'string' || !source.trim()) {
+    return NextResponse.json({ error: 'source is required' }, { status: 400 });
+  }
+
+  try {
+    const removed = await forceHeldDeactivation(source.trim());
+
+    if (removed === null) {
+      return NextResponse.json(
+        { error: `No held deactivation for source "${source.trim()}"` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`⚠️  Admin forced deactivation of ${removed} ${source.trim()} vehicles`);
+    return NextResponse.json({ success: true, source: source.trim(), removed });
+  } catch (error: unknown) {
+    console.error('Error forcing deactivation:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to force deactivation', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
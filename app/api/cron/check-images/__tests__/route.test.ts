@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { ImageHealthService } from '@/lib/image-health-service';
+
+// Mock the job (image checks themselves are covered in lib/__tests__/image-health.test.ts)
+vi.mock('@/lib/image-health-service', () => ({
+  ImageHealthService: vi.fn(),
+  getImageHealthOptions: vi.fn(() => ({ batchSize: 500 })),
+}));
+
+const run = vi.fn();
+
+describe('GET /api/cron/check-images', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.CRON_SECRET = 'test-secret';
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://localhost';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'key';
+    vi.mocked(ImageHealthService).mockImplementation(function () {
+      return { run } as unknown as ImageHealthService;
+    });
+  });
+
+  const createRequest = (authHeader?: string) =>
+    new NextRequest('http://localhost/api/cron/check-images', {
+      headers: authHeader ? { authorization: authHeader } : {},
+    });
+
+  it('should reject requests without CRON_SECRET', async () => {
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(401);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to run when CRON_SECRET is not configured', async () => {
+    delete process.env.CRON_SECRET;
+
+    const response = await GET(createRequest('Bearer undefined'));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Cron secret not configured');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should run one batch and return its summary', async () => {
+    run.mockResolvedValue({
+      success: true,
+      checked: 3,
+      noPhoto: 1,
+      issues: { dead: 2, stock: 1, tiny: 0 },
+      errors: [],
+      duration: 1200,
+    });
+
+    const response = await GET(createRequest('Bearer test-secret'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.result).toMatchObject({ checked: 3, noPhoto: 1 });
+    expect(ImageHealthService).toHaveBeenCalledWith('http://localhost', 'key', { batchSize: 500 });
+  });
+
+  it('should return 500 when nothing could be checked', async () => {
+    run.mockResolvedValue({
+      success: false,
+      checked: 0,
+      noPhoto: 0,
+      issues: { dead: 0, stock: 0, tiny: 0 },
+      errors: ['Failed to load vehicles for image check: timeout'],
+      duration: 50,
+    });
+
+    const response = await GET(createRequest('Bearer test-secret'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageHealthService, getImageHealthOptions } from '@/lib/image-health-service';
+
+export const maxDuration = 300; // The job stops taking new vehicles after 240s
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron endpoint for the dealer photo health check
+ * Vercel Cron: Runs hourly at :30 (between feed syncs), one batch per run
+ *
+ * To test manually:
+ * curl http://localhost:3000/api/cron/check-images \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron secret not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or missing CRON_SECRET' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing required environment variables');
+    }
+
+    const service = new ImageHealthService(supabaseUrl, supabaseKey, getImageHealthOptions());
+    const result = await service.run();
+
+    return NextResponse.json(
+      {
+        success: result.success,
+        result,
+        timestamp: new Date().toISOString(),
+      },
+      { status: result.success || result.checked > 0 ? 200 : 500 }
+    );
+  } catch (error) {
+    console.error('Image health check error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Image health check failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
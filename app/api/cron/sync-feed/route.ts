@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { FeedSyncService } from '@/lib/feed-sync';
+import { FeedSyncService, type FeedSyncResult } from '@/lib/feed-sync';
+import { loadFeedSources } from '@/lib/feed-sources';
+import { createSyncFailedNotification, sendNotifications } from '@/lib/notifications';
 
 /**
  * Cron endpoint for feed synchronization
@@ -36,49 +38,97 @@ export async function GET(request: NextRequest) {
     // Get environment variables
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    const feedUsername = process.env.LOTLINX_FEED_USERNAME;
-    const feedPassword = process.env.LOTLINX_FEED_PASSWORD;
-    const publisherId = process.env.LOTLINX_PUBLISHER_ID;
 
-    if (!supabaseUrl || !supabaseKey || !feedUsername || !feedPassword || !publisherId) {
+    if (!supabaseUrl || !supabaseKey) {
       throw new Error('Missing required environment variables');
     }
 
-    // Initialize sync service
-    const syncService = new FeedSyncService(
-      supabaseUrl,
-      supabaseKey,
-      feedUsername,
-      feedPassword,
-      publisherId
-    );
+    // LotLinx + any FEED_SOURCES publishers
+    const sources = loadFeedSources();
+
+    if (sources.length === 0) {
+      throw new Error('No feed sources configured');
+    }
+
+    // Run each source sequentially (one sync at a time keeps DB load predictable)
+    const results: FeedSyncResult[] = [];
+    for (const source of sources) {
+      const syncService = new FeedSyncService(supabaseUrl, supabaseKey, source);
+      results.push(await syncService.syncFeed());
+    }
 
-    // Run sync
-    const result = await syncService.syncFeed();
+    // Skipped = another run (e.g. a manual trigger) holds the source's sync lock; not an error
+    const skipped = results.filter((result) => result.status === 'skipped');
+    const failed = results.filter((result) => !result.success && result.status !== 'skipped');
+
+    if (failed.length === 0) {
+      const alerts = results.flatMap((result) => result.alerts);
+      const status = results.some((result) => result.status === 'partial')
+        ? 'partial'
+        : skipped.length === results.length
+          ? 'skipped'
+          : 'success';
+
+      if (status === 'partial') {
+        console.error('🚨 Feed sync completed with deactivation held back:', alerts);
+      } else if (skipped.length > 0) {
+        console.warn('⏭️  Feed sync skipped (already running):', skipped.map((result) => result.source));
+      } else {
+        console.log('✅ Feed sync completed successfully');
+      }
 
-    if (result.success) {
-      console.log('✅ Feed sync completed successfully');
       return NextResponse.json({
         success: true,
+        status,
+        alerts,
+        skipped: skipped.map((result) => result.source),
         result: {
+          added: results.reduce((sum, result) => sum + result.added, 0),
+          updated: results.reduce((sum, result) => sum + result.updated, 0),
+          unchanged: results.reduce((sum, result) => sum + result.unchanged, 0),
+          reactivated: results.reduce((sum, result) => sum + result.reactivated, 0),
+          removed: results.reduce((sum, result) => sum + result.removed, 0),
+          priceChanges: results.reduce((sum, result) => sum + result.priceChanges, 0),
+          pendingRemoval: results.reduce((sum, result) => sum + result.pendingRemoval, 0),
+          rejected: results.reduce((sum, result) => sum + result.rejected, 0),
+          duration: results.reduce((sum, result) => sum + result.duration, 0),
+        },
+        sources: results.map((result) => ({
+          source: result.source,
+          status: result.status,
           added: result.added,
           updated: result.updated,
+          unchanged: result.unchanged,
+          reactivated: result.reactivated,
           removed: result.removed,
+          priceChanges: result.priceChanges,
+          pendingRemoval: result.pendingRemoval,
+          rejected: result.rejected,
+          rejectionsByRule: result.rejectionsByRule,
+          rowsRead: result.rowsRead,
+          stageTimings: result.stageTimings,
           duration: result.duration,
-        },
+        })),
       });
     } else {
-      console.error('❌ Feed sync failed:', result.errors);
+      const errors = failed.flatMap((result) =>
+        result.errors.map((error) => `[${result.source}] ${error}`)
+      );
+      console.error('❌ Feed sync failed:', errors);
       return NextResponse.json(
         {
           success: false,
-          errors: result.errors,
+          errors,
         },
         { status: 500 }
       );
     }
   } catch (error) {
     console.error('❌ Cron job error:', error);
+    // Per-source failures are notified by FeedSyncService; this covers runs that never started one
+    await sendNotifications([
+      createSyncFailedNotification('all', [error instanceof Error ? error.message : String(error)]),
+    ]);
     return NextResponse.json(
       {
         success: false,
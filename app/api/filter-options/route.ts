@@ -5,11 +5,22 @@ import {
   checkMultipleRateLimits,
   RATE_LIMITS,
 } from '@/lib/rate-limit';
+import { isFeatureId } from '@/lib/vehicle-features';
+import {
+  MAX_QUERY_LENGTH,
+  parseMultiValueField,
+  parseSearchRadius,
+  SEARCH_RADIUS_OPTIONS,
+  toRadiusMiles,
+} from '@/lib/search-utils';
+import { buildSearchFacets } from '@/lib/search-facets';
 
 /**
  * POST /api/filter-options
  *
- * Proxied endpoint for get_filter_options_by_location RPC call
+ * Proxied endpoint for get_search_facets RPC call
+ * Returns each filter option with its vehicle count under the other filters
+ * ("exclude own dimension"); zero-count options are omitted.
  * Implements rate limiting to prevent DoS and scraping attacks
  *
  * Rate Limits:
@@ -19,14 +30,27 @@ import {
  * Body Parameters:
  * - user_lat: number (required)
  * - user_lon: number (required)
- * - make?: string
- * - model?: string
- * - condition?: string
- * - body_style?: string
+ * - make?: string | string[] (any of the listed makes)
+ * - model?: string | string[]
+ * - condition?: string | string[]
+ * - body_style?: string | string[]
  * - min_price?: number
  * - max_price?: number
  * - min_year?: number
  * - max_year?: number
+ * - features?: string[] (canonical feature ids)
+ * - min_mpg?: number
+ * - q?: string (keyword; max 100 chars)
+ * - max_miles?: number
+ * - transmission?: string
+ * - fuel_type?: string
+ * - drive_type?: string
+ * - exterior_color?: string
+ * - doors?: number
+ * - certified?: boolean
+ * - radius?: 10 | 25 | 50 | 100 | 'any' (miles; default: each dealer's targeting radius)
+ *
+ * Response: { data: SearchFacets, success: true }
  */
 export async function POST(request: NextRequest) {
   // Get client identifier (IP or user ID)
@@ -75,6 +99,17 @@ export async function POST(request: NextRequest) {
       max_price,
       min_year,
       max_year,
+      features,
+      min_mpg,
+      q,
+      max_miles,
+      transmission,
+      fuel_type,
+      drive_type,
+      exterior_color,
+      doors,
+      certified,
+      radius,
     } = body;
 
     // Validate required parameters
@@ -85,25 +120,108 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const makes = parseMultiValueField(make);
+    const models = parseMultiValueField(model);
+    const conditions = parseMultiValueField(condition);
+    const bodyStyles = parseMultiValueField(body_style);
+    const invalidField = (
+      [
+        ['make', makes],
+        ['model', models],
+        ['condition', conditions],
+        ['body_style', bodyStyles],
+      ] as const
+    ).find(([, values]) => values === null)?.[0];
+    if (invalidField) {
+      return NextResponse.json(
+        { error: `Invalid ${invalidField}: expected a string or an array of strings` },
+        { status: 400, headers }
+      );
+    }
+
+    if (
+      features != null &&
+      (!Array.isArray(features) || !features.every((f) => typeof f === 'string' && isFeatureId(f)))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid features: expected an array of known feature ids' },
+        { status: 400, headers }
+      );
+    }
+
+    if (min_mpg != null && (!Number.isInteger(min_mpg) || min_mpg < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid min_mpg: expected a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    if (q != null && (typeof q !== 'string' || q.trim().length > MAX_QUERY_LENGTH)) {
+      return NextResponse.json(
+        { error: `Invalid q: expected a string of at most ${MAX_QUERY_LENGTH} characters` },
+        { status: 400, headers }
+      );
+    }
+
+    if (max_miles != null && (!Number.isInteger(max_miles) || max_miles < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid max_miles: expected a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    if (doors != null && (!Number.isInteger(doors) || doors < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid doors: expected a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    if (certified != null && typeof certified !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Invalid certified: expected a boolean' },
+        { status: 400, headers }
+      );
+    }
+
+    const searchRadius = parseSearchRadius(radius);
+    if (radius != null && searchRadius === null) {
+      return NextResponse.json(
+        { error: `Invalid radius: expected one of ${SEARCH_RADIUS_OPTIONS.join(', ')} or "any"` },
+        { status: 400, headers }
+      );
+    }
+
     // Call Supabase RPC function
     const { data, error } = await supabase.rpc(
-      'get_filter_options_by_location',
+      'get_search_facets',
       {
         user_lat,
         user_lon,
-        p_make: make || null,
-        p_model: model || null,
-        p_condition: condition || null,
-        p_body_style: body_style || null,
+        p_make: makes?.length ? makes : null,
+        p_model: models?.length ? models : null,
+        p_condition: conditions?.length ? conditions : null,
+        p_body_style: bodyStyles?.length ? bodyStyles : null,
         p_min_price: min_price || null,
         p_max_price: max_price || null,
         p_min_year: min_year || null,
         p_max_year: max_year || null,
+        p_features: features?.length ? features : null,
+        p_min_mpg: min_mpg ?? null,
+        p_query: q?.trim() || null,
+        p_max_miles: max_miles ?? null,
+        p_transmission: transmission || null,
+        p_fuel_type: fuel_type || null,
+        p_drive_type: drive_type || null,
+        p_exterior_color: exterior_color || null,
+        p_doors: doors ?? null,
+        p_certified: certified ?? null,
+        p_radius_miles: toRadiusMiles(searchRadius),
       }
     );
 
     if (error) {
-      console.error('Error calling get_filter_options_by_location:', error);
+      console.error('Error calling get_search_facets:', error);
       return NextResponse.json(
         { error: 'Database query failed', details: error.message },
         { status: 500, headers }
@@ -111,7 +229,7 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json(
-      { data, success: true },
+      { data: buildSearchFacets(data), success: true },
       { status: 200, headers }
     );
   } catch (error) {
@@ -5,6 +5,14 @@ import {
   checkMultipleRateLimits,
   RATE_LIMITS,
 } from '@/lib/rate-limit';
+import { isFeatureId } from '@/lib/vehicle-features';
+import {
+  MAX_QUERY_LENGTH,
+  parseMultiValueField,
+  parseSearchRadius,
+  SEARCH_RADIUS_OPTIONS,
+  toRadiusMiles,
+} from '@/lib/search-utils';
 
 /**
  * POST /api/search-vehicles
@@ -19,14 +27,25 @@ import {
  * Body Parameters:
  * - user_lat: number (required)
  * - user_lon: number (required)
- * - make?: string
- * - model?: string
- * - condition?: string
- * - body_style?: string
+ * - make?: string | string[] (any of the listed makes)
+ * - model?: string | string[]
+ * - condition?: string | string[]
+ * - body_style?: string | string[]
  * - min_price?: number
  * - max_price?: number
  * - min_year?: number
  * - max_year?: number
+ * - features?: string[] (canonical feature ids, vehicle must have all of them)
+ * - min_mpg?: number (minimum EPA combined MPG; vehicles without EPA data are excluded)
+ * - q?: string (keyword search over make/model/trim/options/description, typo tolerant; max 100 chars)
+ * - max_miles?: number (vehicles without a mileage are excluded)
+ * - transmission?: string
+ * - fuel_type?: string
+ * - drive_type?: string
+ * - exterior_color?: string
+ * - doors?: number
+ * - certified?: boolean (true = certified pre-owned only)
+ * - radius?: 10 | 25 | 50 | 100 | 'any' (miles; replaces each dealer's targeting radius, default: targeting radius capped at 100)
  * - limit?: number (default: 10000)
  * - offset?: number (default: 0)
  */
@@ -77,6 +96,17 @@ export async function POST(request: NextRequest) {
       max_price,
       min_year,
       max_year,
+      features,
+      min_mpg,
+      q,
+      max_miles,
+      transmission,
+      fuel_type,
+      drive_type,
+      exterior_color,
+      doors,
+      certified,
+      radius,
       limit = 10000,
       offset = 0,
     } = body;
@@ -89,18 +119,101 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const makes = parseMultiValueField(make);
+    const models = parseMultiValueField(model);
+    const conditions = parseMultiValueField(condition);
+    const bodyStyles = parseMultiValueField(body_style);
+    const invalidField = (
+      [
+        ['make', makes],
+        ['model', models],
+        ['condition', conditions],
+        ['body_style', bodyStyles],
+      ] as const
+    ).find(([, values]) => values === null)?.[0];
+    if (invalidField) {
+      return NextResponse.json(
+        { error: `Invalid ${invalidField}: expected a string or an array of strings` },
+        { status: 400, headers }
+      );
+    }
+
+    if (
+      features != null &&
+      (!Array.isArray(features) || !features.every((f) => typeof f === 'string' && isFeatureId(f)))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid features: expected an array of known feature ids' },
+        { status: 400, headers }
+      );
+    }
+
+    if (min_mpg != null && (!Number.isInteger(min_mpg) || min_mpg < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid min_mpg: expected a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    if (q != null && (typeof q !== 'string' || q.trim().length > MAX_QUERY_LENGTH)) {
+      return NextResponse.json(
+        { error: `Invalid q: expected a string of at most ${MAX_QUERY_LENGTH} characters` },
+        { status: 400, headers }
+      );
+    }
+
+    if (max_miles != null && (!Number.isInteger(max_miles) || max_miles < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid max_miles: expected a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    if (doors != null && (!Number.isInteger(doors) || doors < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid doors: expected a positive integer' },
+        { status: 400, headers }
+      );
+    }
+
+    if (certified != null && typeof certified !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Invalid certified: expected a boolean' },
+        { status: 400, headers }
+      );
+    }
+
+    const searchRadius = parseSearchRadius(radius);
+    if (radius != null && searchRadius === null) {
+      return NextResponse.json(
+        { error: `Invalid radius: expected one of ${SEARCH_RADIUS_OPTIONS.join(', ')} or "any"` },
+        { status: 400, headers }
+      );
+    }
+
     // Call Supabase RPC function
     const { data, error } = await supabase.rpc('search_vehicles_by_location', {
       user_lat,
       user_lon,
-      p_make: make || null,
-      p_model: model || null,
-      p_condition: condition || null,
-      p_body_style: body_style || null,
+      p_make: makes?.length ? makes : null,
+      p_model: models?.length ? models : null,
+      p_condition: conditions?.length ? conditions : null,
+      p_body_style: bodyStyles?.length ? bodyStyles : null,
       p_min_price: min_price || null,
       p_max_price: max_price || null,
       p_min_year: min_year || null,
       p_max_year: max_year || null,
+      p_features: features?.length ? features : null,
+      p_min_mpg: min_mpg ?? null,
+      p_query: q?.trim() || null,
+      p_max_miles: max_miles ?? null,
+      p_transmission: transmission || null,
+      p_fuel_type: fuel_type || null,
+      p_drive_type: drive_type || null,
+      p_exterior_color: exterior_color || null,
+      p_doors: doors ?? null,
+      p_certified: certified ?? null,
+      p_radius_miles: toRadiusMiles(searchRadius),
       p_limit: limit,
       p_offset: offset,
     });
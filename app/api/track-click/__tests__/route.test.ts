@@ -218,6 +218,29 @@ describe('POST /api/track-click', () => {
       );
     });
 
+    it('should snapshot the vehicle payout on billable clicks', async () => {
+      mockNoClickHistory();
+      mockSupabase.single
+        .mockResolvedValueOnce({ data: null, error: null }) // no click history
+        .mockResolvedValueOnce({ data: { payout: '1.35' }, error: null }); // vehicle payout
+      mockSuccessfulClickInsert();
+
+      const request = createMockRequest({
+        vehicleId: 'vehicle-123',
+        dealerId: 'dealer-123',
+        userId: 'user-456',
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(data.payout).toBe(1.35);
+      expect(mockSupabase.from).toHaveBeenCalledWith('vehicles');
+      expect(mockSupabase.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ is_billable: true, payout: 1.35 })
+      );
+    });
+
     it('should mark duplicate click to same dealer as non-billable', async () => {
       // Mock existing click history (within 30 days)
       const existingHistory = {
@@ -256,9 +279,9 @@ describe('POST /api/track-click', () => {
       expect(data.message).toContain('not billable');
       expect(data.message).toContain('duplicate dealer');
 
-      // Verify click was inserted with is_billable: false
+      // Verify click was inserted with is_billable: false and no payout
       expect(mockSupabase.insert).toHaveBeenCalledWith(
-        expect.objectContaining({ is_billable: false })
+        expect.objectContaining({ is_billable: false, payout: null })
       );
     });
 
@@ -513,6 +536,7 @@ describe('POST /api/track-click', () => {
       expect(data).toEqual({
         success: true,
         billable: true,
+        payout: 0.8,
         message: 'Click tracked and billable',
         dealerId: 'dealer-456',
         userId: 'user-789',
@@ -551,6 +575,7 @@ describe('POST /api/track-click', () => {
       expect(data).toEqual({
         success: true,
         billable: false,
+        payout: 0,
         message: 'Click tracked but not billable (duplicate dealer within 30 days)',
         dealerId: 'dealer-456',
         userId: 'user-789',
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { anonymizeIp } from '@/lib/utils'; // Import anonymizeIp from utils
+import { resolvePayout } from '@/lib/payout';
 
 export async function POST(request: NextRequest) {
   try {
@@ -85,6 +86,21 @@ export async function POST(request: NextRequest) {
     // Determine if this click is billable (first time clicking this dealer in 30 days)
     const isBillable = !clickHistory;
 
+    // Snapshot the vehicle's payout on billable clicks so revenue reflects what the click earned
+    let payout: number | null = null;
+    if (isBillable) {
+      const { data: vehicle, error: vehicleError } = await supabaseAdmin
+        .from('vehicles')
+        .select('payout')
+        .eq('id', vehicleId)
+        .single();
+
+      if (vehicleError && vehicleError.code !== 'PGRST116') {
+        console.warn('Track Click: Could not load vehicle payout, using default:', vehicleError);
+      }
+      payout = resolvePayout(vehicle?.payout);
+    }
+
     // Log the click event
     const { error: clickError } = await supabaseAdmin.from('clicks').insert({
       vehicle_id: vehicleId,
@@ -92,6 +108,7 @@ export async function POST(request: NextRequest) {
       user_id: userId,
       session_id: sessionId || null,
       is_billable: isBillable,
+      payout,
       cta_clicked: ctaClicked || 'primary',
       flow: normalizedFlow,
       user_agent: userAgent,
@@ -146,6 +163,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       billable: isBillable,
+      payout: payout ?? 0,
       message: isBillable
         ? 'Click tracked and billable'
         : 'Click tracked but not billable (duplicate dealer within 30 days)',
@@ -0,0 +1,195 @@
+import { Suspense } from 'react';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Car, ChevronLeft, ChevronRight, MapPin } from 'lucide-react';
+import VehicleCard from '@/components/Search/VehicleCard';
+import { Button } from '@/components/ui';
+import { supabase } from '@/lib/supabase';
+import {
+  formatDealerAddress,
+  getDealer,
+  getDealerInventory,
+  getDealerPath,
+  isDealerInventorySort,
+  parseDealerId,
+} from '@/lib/dealers';
+
+interface PageProps {
+  params: Promise<{ dealerId: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+const SORT_OPTIONS = [
+  { value: 'newest', label: 'Newest Listings' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'year_desc', label: 'Year: Newest First' },
+  { value: 'mileage_asc', label: 'Mileage: Low to High' },
+];
+
+// Dealer lookup by route param (unparseable ids 404 without a query)
+async function loadDealer(rawDealerId: string) {
+  let decoded = rawDealerId;
+  try {
+    decoded = decodeURIComponent(rawDealerId);
+  } catch {
+    // Malformed escape: use the raw segment
+  }
+  const dealerId = parseDealerId(decoded);
+  return dealerId ? getDealer(supabase, dealerId) : null;
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { dealerId } = await params;
+  const dealer = await loadDealer(dealerId);
+
+  if (!dealer) {
+    return {
+      title: 'Dealer Not Found',
+    };
+  }
+
+  const location = [dealer.city, dealer.state].filter(Boolean).join(', ');
+  const title = `${dealer.name}${location ? ` in ${location}` : ''} - Used & New Inventory`;
+
+  return {
+    title,
+    description: `Browse ${dealer.active_vehicle_count.toLocaleString()} vehicles for sale at ${dealer.name}${location ? `, ${location}` : ''}.`,
+    // A dealer with nothing listed is a thin page
+    robots: dealer.active_vehicle_count > 0 ? undefined : { index: false },
+  };
+}
+
+/**
+ * Public dealer page: the dealer's active inventory, paged
+ * Cards link to the VDP like search results, so clicks are billed per dealer as usual
+ * (first click per user per 30 days, see dealer_click_history).
+ */
+export default async function DealerPage({ params, searchParams }: PageProps) {
+  const { dealerId } = await params;
+  const sp = await searchParams;
+  const flow = typeof sp.flow === 'string' ? sp.flow : undefined;
+  const sortBy = typeof sp.sortBy === 'string' && isDealerInventorySort(sp.sortBy) ? sp.sortBy : 'newest';
+  const page = Math.max(parseInt(typeof sp.page === 'string' ? sp.page : '1') || 1, 1);
+
+  const dealer = await loadDealer(dealerId);
+
+  if (!dealer) {
+    notFound();
+  }
+
+  const inventory = await getDealerInventory(supabase, dealer.dealer_id, { page, sortBy });
+  const address = formatDealerAddress(dealer);
+
+  const pageHref = (target: { page?: number; sortBy?: string }) => {
+    const query = new URLSearchParams();
+    if (flow && flow !== 'full') query.set('flow', flow);
+    const targetSort = target.sortBy ?? sortBy;
+    if (targetSort !== 'newest') query.set('sortBy', targetSort);
+    if (target.page && target.page > 1) query.set('page', String(target.page));
+    const queryString = query.toString();
+    const path = getDealerPath(dealer.dealer_id);
+    return queryString ? `${path}?${queryString}` : path;
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F3F4F6] dark:bg-zinc-900">
+      {/* Header */}
+      <div className="bg-trust-card border-b border-trust-border">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-2xl lg:text-3xl font-bold text-trust-text">{dealer.name}</h1>
+          {address && (
+            <p className="flex items-center gap-1 text-sm text-trust-muted mt-2">
+              <MapPin className="w-4 h-4" />
+              {address}
+            </p>
+          )}
+          <p className="text-sm text-trust-muted mt-1">
+            {inventory.total.toLocaleString()} vehicles available
+          </p>
+        </div>
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {inventory.total === 0 ? (
+          <div className="bg-trust-card border border-border rounded-lg p-10 text-center">
+            <Car className="w-10 h-10 mx-auto text-trust-muted mb-3" />
+            <p className="text-lg font-semibold text-trust-text mb-4">
+              {dealer.name} has no vehicles listed right now
+            </p>
+            <Button asChild variant="primary">
+              <Link href={flow && flow !== 'full' ? `/search?flow=${encodeURIComponent(flow)}` : '/search'}>
+                Browse All Inventory
+              </Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            {/* Sort */}
+            <nav aria-label="Sort vehicles" className="flex flex-wrap gap-2 mb-6">
+              {SORT_OPTIONS.map((option) => (
+                <Link
+                  key={option.value}
+                  href={pageHref({ sortBy: option.value })}
+                  aria-current={option.value === sortBy ? 'true' : undefined}
+                  className={
+                    option.value === sortBy
+                      ? 'px-3 py-1.5 rounded-full text-sm font-semibold bg-trust-blue text-white'
+                      : 'px-3 py-1.5 rounded-full text-sm font-medium bg-white border border-border text-trust-text hover:border-foreground/30'
+                  }
+                >
+                  {option.label}
+                </Link>
+              ))}
+            </nav>
+
+            {/* Inventory Grid */}
+            <Suspense fallback={<div>Loading...</div>}>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {inventory.vehicles.map((vehicle) => (
+                  <div key={vehicle.id} role="article">
+                    <VehicleCard vehicle={vehicle} />
+                  </div>
+                ))}
+              </div>
+            </Suspense>
+
+            {/* Pagination */}
+            {inventory.totalPages > 1 && (
+              <nav aria-label="Pagination" className="flex items-center justify-center gap-4 mt-8">
+                {inventory.page > 1 ? (
+                  <Button asChild variant="outline" size="sm" className="gap-1">
+                    <Link href={pageHref({ page: inventory.page - 1 })}>
+                      <ChevronLeft className="w-4 h-4" />
+                      Previous
+                    </Link>
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <span className="text-sm text-trust-muted">
+                  Page {inventory.page} of {inventory.totalPages}
+                </span>
+                {inventory.page < inventory.totalPages ? (
+                  <Button asChild variant="outline" size="sm" className="gap-1">
+                    <Link href={pageHref({ page: inventory.page + 1 })}>
+                      Next
+                      <ChevronRight className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                ) : (
+                  <span />
+                )}
+              </nav>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// Enable ISR: Revalidate every 1 hour (inventory changes with each feed sync)
+export const revalidate = 3600;
@@ -38,6 +38,8 @@ vi.mock('@/lib/supabase', () => {
   return {
     supabase: {
       from: vi.fn(() => createRecursiveMock(mockResult)),
+      // get_search_facets (filter options)
+      rpc: vi.fn(() => Promise.resolve({ data: [], error: null })),
     },
   };
 });
@@ -70,3 +72,24 @@ describe('Search Page - Conditional Diversification', () => {
     expect(spy).not.toHaveBeenCalled();
   });
 });
+
+describe('Search Page - Filter options', () => {
+  it('should drop invalid numbers before asking the filter-options route', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response(JSON.stringify({ data: [] })));
+
+    await SearchPage({
+      searchParams: Promise.resolve({
+        lat: '40.7',
+        lon: '-74.0',
+        minMpg: '0',
+        maxMiles: '50000.5',
+        doors: 'four',
+        minPrice: '15000',
+      }),
+    });
+
+    const call = vi.mocked(fetch).mock.calls.find(([url]) => String(url).endsWith('/api/filter-options'));
+    const body = JSON.parse(call?.[1]?.body as string);
+    expect(body).toMatchObject({ user_lat: 40.7, user_lon: -74, min_mpg: null, max_miles: null, doors: null, min_price: 15000 });
+  });
+});
@@ -2,7 +2,17 @@ import { Suspense } from "react";
 import { supabase } from "@/lib/supabase";
 import { Vehicle, VehicleWithDistance } from "@/lib/supabase";
 import { diversifyByDealer } from "@/lib/dealer-diversity";
-import { shouldApplyDiversification } from "@/lib/search-utils";
+import {
+  compareByRelevance,
+  MAX_QUERY_LENGTH,
+  parseAndValidateNumber,
+  parseIntegerParam,
+  parseMultiValueParam,
+  parseSearchRadius,
+  shouldApplyDiversification,
+} from "@/lib/search-utils";
+import { buildSearchFacets, emptySearchFacets, type SearchFacets } from "@/lib/search-facets";
+import { parseFeatureParam } from "@/lib/vehicle-features";
 import SearchResults from "@/components/Search/SearchResults";
 import FilterSidebar from "@/components/Search/FilterSidebar";
 import { LocationSelector } from "@/components/Search/LocationSelector";
@@ -17,13 +27,56 @@ interface SearchPageProps {
     minYear?: string;
     maxYear?: string;
     bodyStyle?: string;
+    features?: string;
+    minMpg?: string;
+    q?: string;
+    maxMiles?: string;
+    transmission?: string;
+    fuelType?: string;
+    driveType?: string;
+    exteriorColor?: string;
+    doors?: string;
+    certified?: string;
+    radius?: string;
     page?: string;
     lat?: string;
     lon?: string;
   }>;
 }
 
-// Get unique filter options based on current filters and location
+// Trimmed keyword query, capped like the search-vehicles API
+function parseKeywordQuery(q?: string): string | null {
+  return q?.trim().slice(0, MAX_QUERY_LENGTH) || null;
+}
+
+// Multi-value URL param ("Honda,Toyota") as a filter list, null when unset
+function multiValueParam(value?: string): string[] | null {
+  const values = parseMultiValueParam(value);
+  return values.length > 0 ? values : null;
+}
+
+function vehicleTable() {
+  return supabase.from("vehicles").select("*", { count: "exact" }).eq("is_active", true);
+}
+
+// RETURNS SETOF vehicles: same rows (and filters) as the table query
+function keywordMatches(keyword: string) {
+  return supabase.rpc("search_vehicles_by_keyword", { p_query: keyword }, { count: "exact" });
+}
+
+// Either builder takes the same column filters
+type VehicleQuery = ReturnType<typeof vehicleTable> | ReturnType<typeof keywordMatches>;
+
+// Active vehicles, narrowed to keyword matches when there is a query
+function activeVehicles(keyword: string | null): VehicleQuery {
+  return keyword ? keywordMatches(keyword) : vehicleTable();
+}
+
+// Filter options with counts for the current filters and location
+//
+// Both paths use get_search_facets(): without a location it counts every active vehicle,
+// with one it applies the same radius rule as search_vehicles_by_location.
+// Each facet is counted under every filter except its own ("exclude own dimension").
 async function getFilterOptions(params?: {
   make?: string;
   model?: string;
@@ -33,70 +86,60 @@ async function getFilterOptions(params?: {
   minYear?: string;
   maxYear?: string;
   bodyStyle?: string;
+  features?: string;
+  minMpg?: string;
+  q?: string;
+  maxMiles?: string;
+  transmission?: string;
+  fuelType?: string;
+  driveType?: string;
+  exteriorColor?: string;
+  doors?: string;
+  certified?: string;
+  radius?: string;
   lat?: string;
   lon?: string;
-}) {
-  // Parse user location if provided
+}): Promise<SearchFacets> {
   const userLat = params?.lat ? parseFloat(params.lat) : null;
   const userLon = params?.lon ? parseFloat(params.lon) : null;
+  const features = parseFeatureParam(params?.features);
 
-  // OPTIMIZATION: Two-path approach
-  // Path 1: No location = Use database-level DISTINCT queries (10x faster)
-  // Path 2: With location = Use PostGIS spatial function (100x faster than old approach)
   if (!userLat || !userLon) {
-    // Build base query with current filters
-    const buildFilterQuery = () => {
-      let q = supabase.from("vehicles").select("*").eq("is_active", true);
-      if (params?.make) q = q.eq("make", params.make);
-      if (params?.model) q = q.eq("model", params.model);
-      if (params?.condition) q = q.eq("condition", params.condition);
-      if (params?.bodyStyle) q = q.eq("body_style", params.bodyStyle);
-      if (params?.minPrice) q = q.gte("price", parseFloat(params.minPrice));
-      if (params?.maxPrice) q = q.lte("price", parseFloat(params.maxPrice));
-      if (params?.minYear) q = q.gte("year", parseInt(params.minYear));
-      if (params?.maxYear) q = q.lte("year", parseInt(params.maxYear));
-      return q;
-    };
+    const { data, error } = await supabase.rpc("get_search_facets", {
+      user_lat: null,
+      user_lon: null,
+      p_make: multiValueParam(params?.make),
+      p_model: multiValueParam(params?.model),
+      p_condition: multiValueParam(params?.condition),
+      p_body_style: multiValueParam(params?.bodyStyle),
+      p_min_price: params?.minPrice ? parseFloat(params.minPrice) : null,
+      p_max_price: params?.maxPrice ? parseFloat(params.maxPrice) : null,
+      p_min_year: params?.minYear ? parseInt(params.minYear) : null,
+      p_max_year: params?.maxYear ? parseInt(params.maxYear) : null,
+      p_features: features.length > 0 ? features : null,
+      p_min_mpg: params?.minMpg ? parseInt(params.minMpg) : null,
+      p_query: parseKeywordQuery(params?.q),
+      p_max_miles: params?.maxMiles ? parseInt(params.maxMiles) : null,
+      p_transmission: params?.transmission || null,
+      p_fuel_type: params?.fuelType || null,
+      p_drive_type: params?.driveType || null,
+      p_exterior_color: params?.exteriorColor || null,
+      p_doors: params?.doors ? parseInt(params.doors) : null,
+      p_certified: params?.certified === "true" ? true : null,
+      p_radius_miles: null,
+    });
+
+    if (error) {
+      console.error("Error fetching filter options:", error);
+      return emptySearchFacets();
+    }
 
-    // Run 4 parallel DISTINCT queries for each filter option
-    // Use buildFilterQuery to respect current filters, avoiding 'any' casts
-    const [makesResult, bodyStylesResult, conditionsResult, yearsResult] =
-      await Promise.all([
-        buildFilterQuery().select("make").limit(1000),
-        buildFilterQuery().select("body_style").limit(1000),
-        buildFilterQuery().select("condition").limit(1000),
-        buildFilterQuery().select("year").limit(1000),
-      ]);
-
-    // Extract unique values using Sets
-    const makes = [
-      ...new Set(makesResult.data?.map((v) => v.make).filter(Boolean)),
-    ].sort();
-    const bodyStyles = [
-      ...new Set(
-        bodyStylesResult.data?.map((v) => v.body_style).filter(Boolean)
-      ),
-    ].sort();
-    const conditions = [
-      ...new Set(
-        conditionsResult.data?.map((v) => v.condition).filter(Boolean)
-      ),
-    ].sort();
-    const years = [
-      ...new Set(yearsResult.data?.map((v) => v.year).filter(Boolean)),
-    ].sort((a, b) => b - a);
-
-    return { makes, bodyStyles, conditions, years };
+    return buildSearchFacets(data);
   }
 
-  // LOCATION-BASED FILTERING: Use PostGIS spatial function (100x faster)
-  // Calls get_filter_options_by_location() stored procedure via rate-limited API proxy
+  // LOCATION-BASED FILTERING: get_search_facets() via rate-limited API proxy
   // Uses ST_DWithin with GIST spatial index for fast radius queries
-  //
-  // DESIGN DECISION: No fallback for sparse areas
-  // Previous implementation showed 5K closest vehicles when radius search returned nothing.
-  // Removed for paid ad traffic use case - users expect local results, not vehicles 500+ miles away.
-  // Better UX to show "no results" than irrelevant distant vehicles.
+  // Invalid numbers are dropped: the route would reject the whole request with a 400
   //
   // SECURITY: Rate-limited API proxy prevents DoS and scraping attacks
   try {
@@ -108,40 +151,40 @@ async function getFilterOptions(params?: {
         body: JSON.stringify({
           user_lat: userLat,
           user_lon: userLon,
-          make: params?.make || null,
-          model: params?.model || null,
-          condition: params?.condition || null,
-          body_style: params?.bodyStyle || null,
-          min_price: params?.minPrice ? parseFloat(params.minPrice) : null,
-          max_price: params?.maxPrice ? parseFloat(params.maxPrice) : null,
-          min_year: params?.minYear ? parseInt(params.minYear) : null,
-          max_year: params?.maxYear ? parseInt(params.maxYear) : null,
+          make: multiValueParam(params?.make),
+          model: multiValueParam(params?.model),
+          condition: multiValueParam(params?.condition),
+          body_style: multiValueParam(params?.bodyStyle),
+          min_price: parseAndValidateNumber(params?.minPrice, 0),
+          max_price: parseAndValidateNumber(params?.maxPrice, 0),
+          min_year: parseAndValidateNumber(params?.minYear, 1990),
+          max_year: parseAndValidateNumber(params?.maxYear, 1990),
+          features: features.length > 0 ? features : null,
+          min_mpg: parseIntegerParam(params?.minMpg, 1),
+          q: parseKeywordQuery(params?.q),
+          max_miles: parseIntegerParam(params?.maxMiles, 1),
+          transmission: params?.transmission || null,
+          fuel_type: params?.fuelType || null,
+          drive_type: params?.driveType || null,
+          exterior_color: params?.exteriorColor || null,
+          doors: parseIntegerParam(params?.doors, 1),
+          certified: params?.certified === "true" ? true : null,
+          radius: parseSearchRadius(params?.radius),
         }),
       }
     );
 
     if (!response.ok) {
       console.error("Error calling filter-options API:", response.statusText);
-      return { makes: [], bodyStyles: [], conditions: [], years: [] };
+      return emptySearchFacets();
     }
 
+    // The proxy already groups the RPC rows (buildSearchFacets)
     const { data } = await response.json();
-
-    if (!data || data.length === 0) {
-      return { makes: [], bodyStyles: [], conditions: [], years: [] };
-    }
-
-    // PostGIS function returns single row with arrays
-    const result = data[0];
-    return {
-      makes: result.makes || [],
-      bodyStyles: result.body_styles || [],
-      conditions: result.conditions || [],
-      years: result.years || [],
-    };
+    return data ?? emptySearchFacets();
   } catch (error) {
     console.error("Error fetching filter options:", error);
-    return { makes: [], bodyStyles: [], conditions: [], years: [] };
+    return emptySearchFacets();
   }
 }
 
@@ -155,6 +198,17 @@ async function searchVehicles(params: {
   minYear?: string;
   maxYear?: string;
   bodyStyle?: string;
+  features?: string;
+  minMpg?: string;
+  q?: string;
+  maxMiles?: string;
+  transmission?: string;
+  fuelType?: string;
+  driveType?: string;
+  exteriorColor?: string;
+  doors?: string;
+  certified?: string;
+  radius?: string;
   page?: string;
   lat?: string;
   lon?: string;
@@ -167,6 +221,8 @@ async function searchVehicles(params: {
   // Parse user location if provided
   const userLat = params.lat ? parseFloat(params.lat) : null;
   const userLon = params.lon ? parseFloat(params.lon) : null;
+  const features = parseFeatureParam(params.features);
+  const keyword = parseKeywordQuery(params.q);
 
   // Two-path approach: PostGIS for location-based, regular query for non-location
   if (userLat && userLon) {
@@ -178,6 +234,7 @@ async function searchVehicles(params: {
     // and perform dealer diversification in memory before slicing for current page.
     // This prevents pagination duplicates that occur when diversifying overlapping windows.
     // With 100-mile cap, result sets are typically small enough for memory (< 5K vehicles).
+    // An "any" radius lifts the cap; the 10K limit keeps the nearest vehicles.
     //
     // SECURITY: Rate-limited API proxy prevents DoS and scraping attacks
     let spatialVehicles;
@@ -190,15 +247,26 @@ async function searchVehicles(params: {
           body: JSON.stringify({
             user_lat: userLat,
             user_lon: userLon,
-            make: params.make || null,
-            model: params.model || null,
-            condition: params.condition || null,
-            body_style: params.bodyStyle || null,
+            make: multiValueParam(params.make),
+            model: multiValueParam(params.model),
+            condition: multiValueParam(params.condition),
+            body_style: multiValueParam(params.bodyStyle),
             min_price: params.minPrice ? parseFloat(params.minPrice) : null,
             max_price: params.maxPrice ? parseFloat(params.maxPrice) : null,
             min_year: params.minYear ? parseInt(params.minYear) : null,
             max_year: params.maxYear ? parseInt(params.maxYear) : null,
-            limit: 10000, // Fetch all results within 100-mile radius (typically < 5K)
+            features: features.length > 0 ? features : null,
+            min_mpg: params.minMpg ? parseInt(params.minMpg) : null,
+            q: keyword,
+            max_miles: params.maxMiles ? parseInt(params.maxMiles) : null,
+            transmission: params.transmission || null,
+            fuel_type: params.fuelType || null,
+            drive_type: params.driveType || null,
+            exterior_color: params.exteriorColor || null,
+            doors: params.doors ? parseInt(params.doors) : null,
+            certified: params.certified === "true" ? true : null,
+            radius: parseSearchRadius(params.radius),
+            limit: 10000, // Fetch all results within the radius (typically < 5K)
             offset: 0,
           }),
         }
@@ -238,13 +306,10 @@ async function searchVehicles(params: {
     const vehiclesWithDistance = (spatialVehicles ||
       []) as VehicleWithDistance[];
 
-    // PostGIS already sorted by distance, just apply user-selected sort if needed
-    if (
-      params.sortBy &&
-      params.sortBy !== "distance" &&
-      params.sortBy !== "relevance"
-    ) {
-      applySorting(vehiclesWithDistance, params.sortBy);
+    // PostGIS already sorted by distance; anything else (including the default
+    // relevance order, which weighs payout against distance) is re-sorted here
+    if (params.sortBy !== "distance") {
+      applySorting(vehiclesWithDistance, params.sortBy || "relevance");
     }
 
     // Apply dealer diversification to FULL result set to ensure stable pagination
@@ -276,20 +341,32 @@ async function searchVehicles(params: {
   // PAGINATION STRATEGY: Similar to location search - fetch larger set,
   // diversify, then paginate to prevent duplicates across pages.
   // Limit to 5000 results to prevent memory issues on broad searches.
-  let query = supabase
-    .from("vehicles")
-    .select("*", { count: "exact" })
-    .eq("is_active", true);
+  // Keyword queries go through search_vehicles_by_keyword (full-text + trigram match)
+  let query = activeVehicles(keyword);
 
   // Apply filters
-  if (params.make) query = query.eq("make", params.make);
-  if (params.model) query = query.eq("model", params.model);
-  if (params.condition) query = query.eq("condition", params.condition);
-  if (params.bodyStyle) query = query.eq("body_style", params.bodyStyle);
+  // Multi-value filters match any of their values
+  const makes = multiValueParam(params.make);
+  const models = multiValueParam(params.model);
+  const conditions = multiValueParam(params.condition);
+  const bodyStyles = multiValueParam(params.bodyStyle);
+  if (makes) query = query.in("make", makes);
+  if (models) query = query.in("model", models);
+  if (conditions) query = query.in("condition", conditions);
+  if (bodyStyles) query = query.in("body_style", bodyStyles);
   if (params.minPrice) query = query.gte("price", parseFloat(params.minPrice));
   if (params.maxPrice) query = query.lte("price", parseFloat(params.maxPrice));
   if (params.minYear) query = query.gte("year", parseInt(params.minYear));
   if (params.maxYear) query = query.lte("year", parseInt(params.maxYear));
+  if (features.length > 0) query = query.contains("features", features);
+  if (params.minMpg) query = query.gte("mpg_combined", parseInt(params.minMpg));
+  if (params.maxMiles) query = query.lte("miles", parseInt(params.maxMiles));
+  if (params.transmission) query = query.eq("transmission", params.transmission);
+  if (params.fuelType) query = query.eq("fuel_type", params.fuelType);
+  if (params.driveType) query = query.eq("drive_type", params.driveType);
+  if (params.exteriorColor) query = query.eq("exterior_color", params.exteriorColor);
+  if (params.doors) query = query.eq("doors", parseInt(params.doors));
+  if (params.certified === "true") query = query.eq("certified", true);
 
   // Apply default sort (newest first)
   query = query.order("year", { ascending: false });
@@ -297,10 +374,11 @@ async function searchVehicles(params: {
   // Fetch up to 5000 results for dealer diversification
   const { data: allVehicles, count } = await query.limit(5000);
 
-  // Apply user-selected sorting if different from default
+  // Apply user-selected sorting if different from the query order
+  // (default relevance keeps newest first and breaks ties by payout)
   const vehiclesWithDistance = allVehicles || [];
-  if (params.sortBy && params.sortBy !== "year_desc") {
-    applySorting(vehiclesWithDistance, params.sortBy);
+  if (params.sortBy !== "year_desc") {
+    applySorting(vehiclesWithDistance, params.sortBy || "relevance");
   }
 
   // Apply dealer diversification to FULL result set to ensure stable pagination
@@ -342,6 +420,10 @@ async function searchVehicles(params: {
       case "mileage_desc":
         vehicles.sort((a, b) => (b.miles || 0) - (a.miles || 0));
         break;
+      case "mpg_desc":
+        // Vehicles without EPA data last
+        vehicles.sort((a, b) => (b.mpg_combined || 0) - (a.mpg_combined || 0));
+        break;
       case "distance":
         vehicles.sort(
           (a, b) =>
@@ -350,15 +432,8 @@ async function searchVehicles(params: {
         break;
       case "relevance":
       default:
-        // Relevance = distance if available, otherwise year
-        if (vehicles[0]?.distance_miles !== undefined) {
-          vehicles.sort(
-            (a, b) =>
-              (a.distance_miles || Infinity) - (b.distance_miles || Infinity)
-          );
-        } else {
-          vehicles.sort((a, b) => b.year - a.year);
-        }
+        // Relevance = expected payout discounted by distance (year when no location)
+        vehicles.sort(compareByRelevance);
     }
   }
 
@@ -371,6 +446,11 @@ async function searchVehicles(params: {
   };
 }
 
+// "Honda,Toyota" -> "Honda or Toyota"
+function formatValueList(value: string): string {
+  return new Intl.ListFormat("en", { type: "disjunction" }).format(parseMultiValueParam(value));
+}
+
 export default async function SearchPage({ searchParams }: SearchPageProps) {
   const params = await searchParams;
   const [searchResults, filterOptions] = await Promise.all([
@@ -395,10 +475,12 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
             <div>
               <h1 className="text-2xl lg:text-3xl font-bold text-trust-text">
                 {params.make
-                  ? `${params.make}${
-                      params.model ? ` ${params.model}` : ""
+                  ? `${formatValueList(params.make)}${
+                      params.model ? ` ${formatValueList(params.model)}` : ""
                     } Vehicles`
-                  : "Inventory"}
+                  : params.q?.trim()
+                    ? `Results for “${params.q.trim()}”`
+                    : "Inventory"}
               </h1>
               <p className="text-sm text-trust-muted mt-1">
                 {searchResults.total.toLocaleString()} vehicles found
@@ -427,10 +509,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
           <aside className="lg:w-64 flex-shrink-0">
             <Suspense fallback={<div>Loading filters...</div>}>
               <FilterSidebar
-                makes={filterOptions.makes}
-                bodyStyles={filterOptions.bodyStyles}
-                conditions={filterOptions.conditions}
-                years={filterOptions.years}
+                facets={filterOptions}
                 currentFilters={params}
               />
             </Suspense>
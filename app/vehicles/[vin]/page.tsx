@@ -3,6 +3,11 @@ import { notFound } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
 import { Vehicle } from '@/lib/supabase';
 import VehicleBridgePage from '@/components/VDP/VehicleBridgePage';
+import SoldVehiclePage from '@/components/VDP/SoldVehiclePage';
+import { isRecentlySold } from '@/lib/vehicle-lifecycle';
+import { isValidVin, normalizeVin } from '@/lib/vin';
+
+const MAX_SIMILAR_VEHICLES = 4;
 
 interface PageProps {
   params: Promise<{ vin: string }>;
@@ -13,12 +18,7 @@ interface PageProps {
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
   const { vin } = await params;
 
-  const { data: vehicle } = await supabase
-    .from('vehicles')
-    .select('*')
-    .eq('vin', vin)
-    .eq('is_active', true)
-    .single();
+  const vehicle = await getVehicle(vin);
 
   if (!vehicle) {
     return {
@@ -26,6 +26,14 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     };
   }
 
+  // Sold pages stay reachable for ad traffic but shouldn't be indexed
+  if (!vehicle.is_active) {
+    return {
+      title: `Sold: ${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim || ''}`.trim(),
+      robots: { index: false },
+    };
+  }
+
   const title = `${vehicle.condition || 'Used'} ${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim || ''} for Sale in ${vehicle.dealer_city}, ${vehicle.dealer_state}`.trim();
   const description = vehicle.description
     ? vehicle.description.substring(0, 160) + '...'
@@ -42,22 +50,51 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
   };
 }
 
-// Fetch vehicle data
-async function getVehicle(vin: string): Promise<Vehicle | null> {
+// Fetch vehicle data (active, or delisted within the recently-sold window)
+// Malformed VINs and check-digit failures 404 without a query (the sync never stores them)
+async function getVehicle(rawVin: string): Promise<Vehicle | null> {
+  const vin = normalizeVin(rawVin);
+  if (!isValidVin(vin)) {
+    return null;
+  }
+
   const { data: vehicle, error } = await supabase
     .from('vehicles')
     .select('*')
     .eq('vin', vin)
-    .eq('is_active', true)
     .single();
 
   if (error || !vehicle) {
     return null;
   }
 
+  if (!vehicle.is_active && !isRecentlySold(vehicle)) {
+    return null;
+  }
+
   return vehicle as Vehicle;
 }
 
+// Active vehicles of the same make/model for the sold page
+async function getSimilarVehicles(vehicle: Vehicle): Promise<Vehicle[]> {
+  const { data, error } = await supabase
+    .from('vehicles')
+    .select('*')
+    .eq('is_active', true)
+    .eq('make', vehicle.make)
+    .eq('model', vehicle.model)
+    .neq('vin', vehicle.vin)
+    .order('dol', { ascending: true, nullsFirst: false })
+    .limit(MAX_SIMILAR_VEHICLES);
+
+  if (error) {
+    console.error('Error fetching similar vehicles:', error);
+    return [];
+  }
+
+  return (data as Vehicle[] | null) || [];
+}
+
 // Main page component
 export default async function VehicleDetailPage({ params, searchParams }: PageProps) {
   const { vin } = await params;
@@ -70,6 +107,11 @@ export default async function VehicleDetailPage({ params, searchParams }: PagePr
     notFound();
   }
 
+  if (!vehicle.is_active) {
+    const similarVehicles = await getSimilarVehicles(vehicle);
+    return <SoldVehiclePage vehicle={vehicle} similarVehicles={similarVehicles} flow={flow} />;
+  }
+
   // Generate Schema.org/Vehicle structured data for Rich Snippets
   const structuredData = {
     '@context': 'https://schema.org',
@@ -96,6 +138,21 @@ export default async function VehicleDetailPage({ params, searchParams }: PagePr
           unitCode: 'SMI', // Statute mile
         }
       : undefined,
+    // EPA figures (lib/fuel-economy.ts)
+    fuelEfficiency: vehicle.mpg_city || vehicle.mpg_highway
+      ? [
+          { value: vehicle.mpg_city, name: 'City' },
+          { value: vehicle.mpg_highway, name: 'Highway' },
+          { value: vehicle.mpg_combined, name: 'Combined' },
+        ]
+          .filter(({ value }) => value)
+          .map(({ value, name }) => ({
+            '@type': 'QuantitativeValue',
+            value,
+            unitText: 'MPG',
+            name,
+          }))
+      : undefined,
     itemCondition: vehicle.condition === 'New'
       ? 'https://schema.org/NewCondition'
       : 'https://schema.org/UsedCondition',
@@ -116,7 +173,7 @@ export default async function VehicleDetailPage({ params, searchParams }: PagePr
         },
       },
     },
-    image: vehicle.primary_image_url || undefined,
+    image: vehicle.image_urls?.length ? vehicle.image_urls : vehicle.primary_image_url || undefined,
   };
 
   return (
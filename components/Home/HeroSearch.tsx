@@ -5,6 +5,7 @@ import { Search } from "lucide-react";
 import { useRouter } from "next/navigation";
 import ZipCodeInput from "@/components/Location/ZipCodeInput";
 import { Button } from "@/components/ui";
+import { MAX_QUERY_LENGTH } from "@/lib/search-utils";
 
 export default function HeroSearch() {
   const router = useRouter();
@@ -19,8 +20,8 @@ export default function HeroSearch() {
       return;
     }
 
-    // Simple parsing logic: detect if it's likely a make or body style
-    const query = searchQuery.trim().toLowerCase();
+    // A bare body style maps to its filter; anything else is a keyword search
+    const query = searchQuery.trim();
     const params = new URLSearchParams();
 
     // Common body styles
@@ -36,12 +37,11 @@ export default function HeroSearch() {
       "hatchback",
     ];
 
-    if (bodyStyles.includes(query)) {
-      params.set("bodyStyle", query);
+    if (bodyStyles.includes(query.toLowerCase())) {
+      params.set("bodyStyle", query.toLowerCase());
     } else {
-      // Assume it's a make or model - capitalize first letter
-      const capitalized = query.charAt(0).toUpperCase() + query.slice(1);
-      params.set("make", capitalized);
+      // Full-text + typo-tolerant match on make, model, trim, options and description
+      params.set("q", query);
     }
 
     router.push(`/search?${params.toString()}`);
@@ -61,6 +61,7 @@ export default function HeroSearch() {
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             placeholder="Search by make, model, or type..."
+            maxLength={MAX_QUERY_LENGTH}
             className="flex-1 text-base sm:text-lg text-slate-900 placeholder:text-slate-500 bg-transparent outline-none"
           />
         </div>
@@ -2,12 +2,76 @@
 
 import { Input } from "@/components/ui";
 import { cn } from "@/lib/utils";
+import { MAX_QUERY_LENGTH, parseMultiValueParam, type MultiValueFilter } from "@/lib/search-utils";
+import { visibleFacetOptions, type FacetOption, type SearchFacets } from "@/lib/search-facets";
+import { FEATURE_IDS, getFeatureLabel, parseFeatureParam, type FeatureId } from "@/lib/vehicle-features";
+
+/** Minimum combined MPG choices (EPA figures, see lib/fuel-economy.ts) */
+const MIN_MPG_OPTIONS = [20, 25, 30, 35, 40, 50];
+
+/** Maximum mileage choices */
+const MAX_MILES_OPTIONS = [10000, 25000, 50000, 75000, 100000, 150000];
+
+/** "Under 50k miles" */
+export function formatMaxMiles(miles: string | number): string {
+  return `Under ${Math.round(Number(miles) / 1000)}k miles`;
+}
+
+/** "Toyota (1,247)" */
+function formatFacetOption(option: FacetOption, label = option.value): string {
+  return `${label} (${option.count.toLocaleString()})`;
+}
+
+/**
+ * Checkbox list for a multi-value filter (any checked value matches)
+ * The URL param holds the checked values, comma-separated.
+ */
+function FacetCheckboxList({
+  legend,
+  filterKey,
+  options,
+  value,
+  updateFilter,
+}: {
+  legend: string;
+  filterKey: MultiValueFilter;
+  options: FacetOption[];
+  value?: string;
+  updateFilter: (key: string, value: string) => void;
+}) {
+  const selected = parseMultiValueParam(value);
+  const visibleOptions = visibleFacetOptions(options, selected);
+  if (visibleOptions.length === 0) return null;
+
+  const toggle = (option: string) => {
+    const next = selected.includes(option)
+      ? selected.filter((v) => v !== option)
+      : [...selected, option];
+    updateFilter(filterKey, next.join(","));
+  };
+
+  return (
+    <fieldset>
+      <legend className="block text-sm font-semibold text-trust-text mb-2">{legend}</legend>
+      <div className="max-h-48 overflow-y-auto space-y-2">
+        {visibleOptions.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-sm text-trust-text cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(option.value)}
+              onChange={() => toggle(option.value)}
+              className="h-4 w-4 rounded border-border accent-trust-blue cursor-pointer"
+            />
+            {formatFacetOption(option)}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
 
 interface FilterInputsProps {
-  makes: string[];
-  conditions: string[];
-  bodyStyles: string[];
-  years: number[];
+  facets: SearchFacets;
   currentFilters: {
     make?: string;
     model?: string;
@@ -17,8 +81,19 @@ interface FilterInputsProps {
     minYear?: string;
     maxYear?: string;
     bodyStyle?: string;
+    features?: string;
+    minMpg?: string;
+    maxMiles?: string;
+    transmission?: string;
+    fuelType?: string;
+    driveType?: string;
+    exteriorColor?: string;
+    doors?: string;
+    certified?: string;
   };
   updateFilter: (key: string, value: string) => void;
+  keyword: string;
+  setKeyword: (val: string) => void;
   minPrice: string;
   maxPrice: string;
   setMinPrice: (val: string) => void;
@@ -26,35 +101,61 @@ interface FilterInputsProps {
 }
 
 export function FilterControls({
-  makes,
-  conditions,
-  bodyStyles,
-  years,
+  facets,
   currentFilters,
   updateFilter,
+  keyword,
+  setKeyword,
   minPrice,
   maxPrice,
   setMinPrice,
   setMaxPrice,
 }: FilterInputsProps) {
+  const selectedFeatures = parseFeatureParam(currentFilters.features);
+
+  const toggleFeature = (id: FeatureId) => {
+    const next = selectedFeatures.includes(id)
+      ? selectedFeatures.filter((f) => f !== id)
+      : FEATURE_IDS.filter((f) => f === id || selectedFeatures.includes(f));
+    updateFilter("features", next.join(","));
+  };
+
   return (
     <div className="space-y-6">
-      {/* Make */}
+      {/* Keyword */}
       <div>
-        <label className="block text-sm font-semibold text-trust-text mb-2">Make</label>
-        <select
-          value={currentFilters.make || ""}
-          onChange={(e) => updateFilter("make", e.target.value)}
-          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
-          aria-label="Filter by Make"
-        >
-          <option value="">All Makes</option>
-          {makes.map((m) => (
-            <option key={m} value={m}>{m}</option>
-          ))}
-        </select>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Keyword</label>
+        <Input
+          type="search"
+          placeholder="e.g. Camry, sunroof, tow package"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          maxLength={MAX_QUERY_LENGTH}
+          className="text-sm bg-white"
+          aria-label="Search by keyword"
+        />
       </div>
 
+      {/* Make */}
+      <FacetCheckboxList
+        legend="Make"
+        filterKey="make"
+        options={facets.makes}
+        value={currentFilters.make}
+        updateFilter={updateFilter}
+      />
+
+      {/* Model (once a make is chosen; the facet only lists that make's models) */}
+      {(currentFilters.make || currentFilters.model) && (
+        <FacetCheckboxList
+          legend="Model"
+          filterKey="model"
+          options={facets.models}
+          value={currentFilters.model}
+          updateFilter={updateFilter}
+        />
+      )}
+
       {/* Price Range */}
       <div>
         <label className="block text-sm font-semibold text-trust-text mb-2">Price Range</label>
@@ -78,33 +179,50 @@ export function FilterControls({
         </div>
       </div>
 
-      {/* Condition */}
+      {/* Mileage */}
       <div>
-        <label className="block text-sm font-semibold text-trust-text mb-2">Condition</label>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Mileage</label>
         <select
-          value={currentFilters.condition || ""}
-          onChange={(e) => updateFilter("condition", e.target.value)}
+          value={currentFilters.maxMiles || ""}
+          onChange={(e) => updateFilter("maxMiles", e.target.value)}
           className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
-          aria-label="Filter by Condition"
+          aria-label="Maximum Mileage"
         >
-          <option value="">Any</option>
-          {conditions.map((c) => <option key={c} value={c}>{c}</option>)}
+          <option value="">Any Mileage</option>
+          {MAX_MILES_OPTIONS.map((miles) => <option key={miles} value={miles}>{formatMaxMiles(miles)}</option>)}
         </select>
       </div>
 
+      {/* Condition */}
+      <FacetCheckboxList
+        legend="Condition"
+        filterKey="condition"
+        options={facets.conditions}
+        value={currentFilters.condition}
+        updateFilter={updateFilter}
+      />
+
+      {/* Certified (hidden when no vehicle would match) */}
+      {(facets.certifiedCount > 0 || currentFilters.certified === "true") && (
+        <label className="flex items-center gap-2 text-sm font-semibold text-trust-text cursor-pointer">
+          <input
+            type="checkbox"
+            checked={currentFilters.certified === "true"}
+            onChange={(e) => updateFilter("certified", e.target.checked ? "true" : "")}
+            className="h-4 w-4 rounded border-border accent-trust-blue cursor-pointer"
+          />
+          {formatFacetOption({ value: "true", count: facets.certifiedCount }, "Certified Pre-Owned only")}
+        </label>
+      )}
+
       {/* Body Style */}
-      <div>
-        <label className="block text-sm font-semibold text-trust-text mb-2">Body Style</label>
-        <select
-          value={currentFilters.bodyStyle || ""}
-          onChange={(e) => updateFilter("bodyStyle", e.target.value)}
-          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
-          aria-label="Filter by Body Style"
-        >
-          <option value="">Any</option>
-          {bodyStyles.map((b) => <option key={b} value={b}>{b}</option>)}
-        </select>
-      </div>
+      <FacetCheckboxList
+        legend="Body Style"
+        filterKey="bodyStyle"
+        options={facets.bodyStyles}
+        value={currentFilters.bodyStyle}
+        updateFilter={updateFilter}
+      />
 
       {/* Year Range */}
       <div>
@@ -117,7 +235,7 @@ export function FilterControls({
             aria-label="Minimum Year"
           >
             <option value="">Min</option>
-            {years.map((y) => <option key={y} value={y}>{y}</option>)}
+            {visibleFacetOptions(facets.years, currentFilters.minYear).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option)}</option>)}
           </select>
           <select
             value={currentFilters.maxYear || ""}
@@ -126,10 +244,112 @@ export function FilterControls({
             aria-label="Maximum Year"
           >
             <option value="">Max</option>
-            {years.map((y) => <option key={y} value={y}>{y}</option>)}
+            {visibleFacetOptions(facets.years, currentFilters.maxYear).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option)}</option>)}
           </select>
         </div>
       </div>
+
+      {/* Transmission */}
+      <div>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Transmission</label>
+        <select
+          value={currentFilters.transmission || ""}
+          onChange={(e) => updateFilter("transmission", e.target.value)}
+          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
+          aria-label="Filter by Transmission"
+        >
+          <option value="">Any</option>
+          {visibleFacetOptions(facets.transmissions, currentFilters.transmission).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option)}</option>)}
+        </select>
+      </div>
+
+      {/* Fuel Type */}
+      <div>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Fuel Type</label>
+        <select
+          value={currentFilters.fuelType || ""}
+          onChange={(e) => updateFilter("fuelType", e.target.value)}
+          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
+          aria-label="Filter by Fuel Type"
+        >
+          <option value="">Any</option>
+          {visibleFacetOptions(facets.fuelTypes, currentFilters.fuelType).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option)}</option>)}
+        </select>
+      </div>
+
+      {/* Drivetrain */}
+      <div>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Drivetrain</label>
+        <select
+          value={currentFilters.driveType || ""}
+          onChange={(e) => updateFilter("driveType", e.target.value)}
+          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
+          aria-label="Filter by Drivetrain"
+        >
+          <option value="">Any</option>
+          {visibleFacetOptions(facets.driveTypes, currentFilters.driveType).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option)}</option>)}
+        </select>
+      </div>
+
+      {/* Exterior Color */}
+      <div>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Exterior Color</label>
+        <select
+          value={currentFilters.exteriorColor || ""}
+          onChange={(e) => updateFilter("exteriorColor", e.target.value)}
+          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
+          aria-label="Filter by Exterior Color"
+        >
+          <option value="">Any</option>
+          {visibleFacetOptions(facets.exteriorColors, currentFilters.exteriorColor).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option)}</option>)}
+        </select>
+      </div>
+
+      {/* Doors */}
+      <div>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Doors</label>
+        <select
+          value={currentFilters.doors || ""}
+          onChange={(e) => updateFilter("doors", e.target.value)}
+          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
+          aria-label="Filter by Doors"
+        >
+          <option value="">Any</option>
+          {visibleFacetOptions(facets.doors, currentFilters.doors).map((option) => <option key={option.value} value={option.value}>{formatFacetOption(option, `${option.value}-door`)}</option>)}
+        </select>
+      </div>
+
+      {/* Fuel Economy */}
+      <div>
+        <label className="block text-sm font-semibold text-trust-text mb-2">Fuel Economy</label>
+        <select
+          value={currentFilters.minMpg || ""}
+          onChange={(e) => updateFilter("minMpg", e.target.value)}
+          className="w-full p-2 border border-border rounded-md text-sm bg-white text-trust-text cursor-pointer"
+          aria-label="Minimum Combined MPG"
+        >
+          <option value="">Any MPG</option>
+          {MIN_MPG_OPTIONS.map((mpg) => <option key={mpg} value={mpg}>{mpg}+ MPG</option>)}
+        </select>
+      </div>
+
+      {/* Features */}
+      <fieldset>
+        <legend className="block text-sm font-semibold text-trust-text mb-2">Features</legend>
+        <div className="space-y-2">
+          {FEATURE_IDS.map((id) => (
+            <label key={id} className="flex items-center gap-2 text-sm text-trust-text cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedFeatures.includes(id)}
+                onChange={() => toggleFeature(id)}
+                className="h-4 w-4 rounded border-border accent-trust-blue cursor-pointer"
+              />
+              {getFeatureLabel(id)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
     </div>
   );
 }
\ No newline at end of file
@@ -1,18 +1,23 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { X, SlidersHorizontal } from "lucide-react";
 import { Input, Badge, Button } from "@/components/ui";
 import { cn } from "@/lib/utils";
-import { FilterControls } from "./FilterControls";
+import { FilterControls, formatMaxMiles } from "./FilterControls";
 import * as gtag from "@/lib/google-analytics";
+import { getFeatureLabel, parseFeatureParam } from "@/lib/vehicle-features";
+import {
+  formatSearchRadius,
+  MULTI_VALUE_FILTERS,
+  parseMultiValueParam,
+  parseSearchRadius,
+} from "@/lib/search-utils";
+import { keepOfferedValues, type SearchFacets } from "@/lib/search-facets";
 
 interface FilterSidebarProps {
-  makes: string[];
-  bodyStyles: string[];
-  conditions: string[];
-  years: number[];
+  facets: SearchFacets;
   currentFilters: {
     make?: string;
     model?: string;
@@ -22,10 +27,88 @@ interface FilterSidebarProps {
     minYear?: string;
     maxYear?: string;
     bodyStyle?: string;
+    features?: string;
+    minMpg?: string;
+    q?: string;
+    maxMiles?: string;
+    transmission?: string;
+    fuelType?: string;
+    driveType?: string;
+    exteriorColor?: string;
+    doors?: string;
+    certified?: string;
+    radius?: string;
     sortBy?: string;
   };
 }
 
+interface ActiveFilter {
+  key: string;
+  label: string;
+  /** Remaining value once this badge is removed (features and multi-value filters hold several) */
+  nextValue?: string;
+}
+
+/**
+ * One badge per active filter, in sidebar order
+ */
+function getActiveFilters(filters: FilterSidebarProps["currentFilters"]): ActiveFilter[] {
+  const formatPrice = (value: string) => `$${Number(value).toLocaleString()}`;
+  // null = not a valid value, no badge
+  const labels: [keyof typeof filters, (value: string) => string | null][] = [
+    ["q", (value) => `“${value}”`],
+    ["radius", (value) => {
+      const radius = parseSearchRadius(value);
+      return radius && formatSearchRadius(radius);
+    }],
+    ["make", (value) => value],
+    ["model", (value) => value],
+    ["minPrice", (value) => `From ${formatPrice(value)}`],
+    ["maxPrice", (value) => `Up to ${formatPrice(value)}`],
+    ["maxMiles", formatMaxMiles],
+    ["condition", (value) => value],
+    ["certified", () => "Certified Pre-Owned"],
+    ["bodyStyle", (value) => value],
+    ["minYear", (value) => `${value} or newer`],
+    ["maxYear", (value) => `${value} or older`],
+    ["transmission", (value) => value],
+    ["fuelType", (value) => value],
+    ["driveType", (value) => value],
+    ["exteriorColor", (value) => value],
+    ["doors", (value) => `${value}-door`],
+    ["minMpg", (value) => `${value}+ MPG`],
+  ];
+
+  const active: ActiveFilter[] = labels.flatMap(([key, format]) => {
+    const value = filters[key];
+    if (!value) return [];
+
+    // Multi-value filters (make=Honda,Toyota) get one badge per value
+    if ((MULTI_VALUE_FILTERS as readonly string[]).includes(key)) {
+      const values = parseMultiValueParam(value);
+      return values.map((item) => ({
+        key,
+        label: format(item) ?? item,
+        nextValue: values.filter((v) => v !== item).join(","),
+      }));
+    }
+
+    const label = format(value);
+    return label ? [{ key, label }] : [];
+  });
+
+  const features = parseFeatureParam(filters.features);
+  for (const id of features) {
+    active.push({
+      key: "features",
+      label: getFeatureLabel(id),
+      nextValue: features.filter((f) => f !== id).join(","),
+    });
+  }
+
+  return active;
+}
+
 const ActiveFilterBadge = ({
   label,
   onRemove,
@@ -48,14 +131,12 @@ const ActiveFilterBadge = ({
 );
 
 export default function FilterSidebar({
-  makes,
-  bodyStyles,
-  conditions,
-  years,
+  facets,
   currentFilters,
 }: FilterSidebarProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const [keyword, setKeyword] = useState(currentFilters.q || "");
   const [minPrice, setMinPrice] = useState(currentFilters.minPrice || "");
   const [maxPrice, setMaxPrice] = useState(currentFilters.maxPrice || "");
   const [isMobileDrawerOpen, setIsMobileDrawerOpen] = useState(false);
@@ -83,7 +164,7 @@ export default function FilterSidebar({
         params.set(key, value);
         
         // Map URL keys to GA filter types
-        const filterTypeMap: Record<string, 'make' | 'model' | 'body_style' | 'condition' | 'price' | 'year' | 'sort'> = {
+        const filterTypeMap: Record<string, gtag.FilterType> = {
           make: 'make',
           model: 'model',
           bodyStyle: 'body_style',
@@ -92,6 +173,16 @@ export default function FilterSidebar({
           maxPrice: 'price',
           minYear: 'year',
           maxYear: 'year',
+          features: 'features',
+          minMpg: 'mpg',
+          q: 'keyword',
+          maxMiles: 'mileage',
+          transmission: 'transmission',
+          fuelType: 'fuel_type',
+          driveType: 'drivetrain',
+          exteriorColor: 'color',
+          doors: 'doors',
+          certified: 'certified',
           sortBy: 'sort'
         };
 
@@ -111,10 +202,36 @@ export default function FilterSidebar({
     [router, searchParams]
   );
 
+  // Unchecking a make leaves its models in the URL, matching nothing alongside the remaining
+  // makes. Once the facets for the new makes arrive, drop the models they no longer list.
+  const previousMake = useRef(currentFilters.make);
+  useEffect(() => {
+    if (previousMake.current === currentFilters.make) return;
+    previousMake.current = currentFilters.make;
+
+    const models = parseMultiValueParam(currentFilters.model);
+    const kept = keepOfferedValues(models, facets.models);
+    if (kept.length === models.length) return;
+
+    const params = new URLSearchParams(searchParams.toString());
+    if (kept.length > 0) params.set("model", kept.join(","));
+    else params.delete("model");
+    router.replace(`/search?${params.toString()}`);
+  }, [currentFilters.make, currentFilters.model, facets.models, router, searchParams]);
+
   const updateSort = (sortBy: string) => {
     updateFilter("sortBy", sortBy);
   };
 
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (keyword.trim() !== (currentFilters.q || "")) {
+        updateFilter("q", keyword.trim());
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [keyword, currentFilters.q, updateFilter]);
+
   useEffect(() => {
     const timer = setTimeout(() => {
       if (minPrice !== (currentFilters.minPrice || "")) {
@@ -143,14 +260,34 @@ export default function FilterSidebar({
     (key) => key !== "sortBy" && key !== "page" && key !== "lat" && key !== "lon" && currentFilters[key as keyof typeof currentFilters]
   );
 
+  // Price and keyword inputs are debounced from local state, so clear that instead
+  const removeFilter = ({ key, nextValue = "" }: ActiveFilter) => {
+    if (key === "q") setKeyword("");
+    else if (key === "minPrice") setMinPrice("");
+    else if (key === "maxPrice") setMaxPrice("");
+    else updateFilter(key, nextValue);
+  };
+
+  const activeFilterBadges = getActiveFilters(currentFilters);
+  const activeFilterList = activeFilterBadges.length > 0 && (
+    <div className="flex flex-wrap gap-2" aria-label="Active filters">
+      {activeFilterBadges.map((filter) => (
+        <ActiveFilterBadge
+          key={`${filter.key}:${filter.label}`}
+          label={filter.label}
+          onRemove={() => removeFilter(filter)}
+        />
+      ))}
+    </div>
+  );
+
   // Prepare shared props for FilterControls
   const filterControlProps = {
-    makes,
-    bodyStyles,
-    conditions,
-    years,
+    facets,
     currentFilters,
     updateFilter,
+    keyword,
+    setKeyword,
     minPrice,
     maxPrice,
     setMinPrice,
@@ -183,6 +320,7 @@ export default function FilterSidebar({
             <option value="price_desc">Sort: Price High-Low</option>
             <option value="year_desc">Sort: Newest</option>
             <option value="mileage_asc">Sort: Lowest Mileage</option>
+            <option value="mpg_desc">Sort: Best MPG</option>
           </select>
           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500">
             <svg className="h-4 w-4 fill-current" viewBox="0 0 20 20">
@@ -219,6 +357,7 @@ export default function FilterSidebar({
           </Button>
         </div>
         <div className="p-6 space-y-6">
+          {activeFilterList}
           <FilterControls {...filterControlProps} />
 
           {hasActiveFilters && (
@@ -245,7 +384,8 @@ export default function FilterSidebar({
             </button>
           )}
         </div>
-        
+
+        {activeFilterList && <div className="mb-6">{activeFilterList}</div>}
         <FilterControls {...filterControlProps} />
       </div>
     </>
@@ -5,6 +5,12 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { MapPin, Loader2, X } from "lucide-react";
 import { Button } from "@/components/ui";
 import { cn } from "@/lib/utils";
+import { trackRadiusChange } from "@/lib/google-analytics";
+import {
+  formatSearchRadius,
+  parseSearchRadius,
+  SEARCH_RADIUS_OPTIONS,
+} from "@/lib/search-utils";
 
 interface UserLocation {
   city: string;
@@ -118,6 +124,21 @@ export function LocationSelector() {
     }
   }, [isEditing]);
 
+  const radius = parseSearchRadius(searchParams.get("radius"));
+
+  const handleRadiusChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    const nextRadius = parseSearchRadius(value);
+    if (nextRadius) {
+      params.set("radius", String(nextRadius));
+      trackRadiusChange(nextRadius === "any" ? 0 : nextRadius);
+    } else {
+      params.delete("radius");
+    }
+    params.delete("page");
+    router.push(`/search?${params.toString()}`, { scroll: false });
+  };
+
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -230,6 +251,21 @@ export function LocationSelector() {
           </span>
         </div>
       </button>
+      {location && (
+        <select
+          value={radius ?? ""}
+          onChange={(e) => handleRadiusChange(e.target.value)}
+          aria-label="Search radius"
+          className="ml-2 py-1.5 pl-3 pr-8 text-sm font-semibold text-gray-900 bg-white border border-gray-200 rounded-full hover:border-blue-300 cursor-pointer"
+        >
+          {/* Default: each dealer's own targeting radius */}
+          <option value="">Local area</option>
+          {SEARCH_RADIUS_OPTIONS.map((miles) => (
+            <option key={miles} value={miles}>{formatSearchRadius(miles)}</option>
+          ))}
+          <option value="any">{formatSearchRadius("any")}</option>
+        </select>
+      )}
     </div>
   );
 }
\ No newline at end of file
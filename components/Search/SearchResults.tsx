@@ -8,19 +8,18 @@ import { Button } from "@/components/ui";
 import { diversifyByDealer } from "@/lib/dealer-diversity";
 import * as gtag from "@/lib/google-analytics";
 import { getFlowFromUrl } from "@/lib/flow-detection";
+import {
+  MAX_QUERY_LENGTH,
+  parseAndValidateNumber,
+  parseMultiValueParam,
+  parseSearchRadius,
+  toRadiusMiles,
+} from "@/lib/search-utils";
+import { parseFeatureParam } from "@/lib/vehicle-features";
 
 const DEBOUNCE_MS = 300;
 const RESULTS_PER_PAGE = 24;
 
-export const parseAndValidateNumber = (value: string | undefined | null, min?: number, max?: number): number | null => {
-  if (!value) return null;
-  const parsed = parseFloat(value);
-  if (isNaN(parsed)) return null;
-  if (min !== undefined && parsed < min) return null;
-  if (max !== undefined && parsed > max) return null;
-  return parsed;
-};
-
 interface SearchResultsProps {
   vehicles: Vehicle[];
   total: number;
@@ -55,6 +54,7 @@ export default function SearchResults({
     
     // Track search query
     gtag.trackSearch({
+      query: currentFilters.q,
       make: currentFilters.make,
       model: currentFilters.model,
       condition: currentFilters.condition,
@@ -63,6 +63,7 @@ export default function SearchResults({
       maxPrice: parseAndValidateNumber(currentFilters.maxPrice) || undefined,
       minYear: parseAndValidateNumber(currentFilters.minYear) || undefined,
       maxYear: parseAndValidateNumber(currentFilters.maxYear) || undefined,
+      radius: toRadiusMiles(parseSearchRadius(currentFilters.radius)) ?? undefined,
       // We don't have direct access to zipCode here (it's in cookies/session), but lat/lon is in params
       // implicit location tracking happens via trackLocationDetected in ZipCodeInput
       flow: flow,
@@ -87,21 +88,30 @@ export default function SearchResults({
     const nextPage = page + 1;
 
     try {
-      // Construct body for API call with validation
+      // Construct body for API call: each URL filter converted to the field the route validates
+      const features = parseFeatureParam(currentFilters.features);
       const body = {
-        ...currentFilters,
-        page: nextPage.toString(),
-        // Convert filters to appropriate types with validation
         min_price: parseAndValidateNumber(currentFilters.minPrice, 0),
         max_price: parseAndValidateNumber(currentFilters.maxPrice, 0),
         min_year: parseAndValidateNumber(currentFilters.minYear, 1990),
         max_year: parseAndValidateNumber(currentFilters.maxYear, 1990),
+        features: features.length > 0 ? features : null,
+        min_mpg: parseAndValidateNumber(currentFilters.minMpg, 1),
         user_lat: parseAndValidateNumber(currentFilters.lat, -90, 90),
         user_lon: parseAndValidateNumber(currentFilters.lon, -180, 180),
-        make: currentFilters.make || null,
-        model: currentFilters.model || null,
-        condition: currentFilters.condition || null,
-        body_style: currentFilters.bodyStyle || null,
+        make: parseMultiValueParam(currentFilters.make),
+        model: parseMultiValueParam(currentFilters.model),
+        condition: parseMultiValueParam(currentFilters.condition),
+        body_style: parseMultiValueParam(currentFilters.bodyStyle),
+        q: currentFilters.q?.trim().slice(0, MAX_QUERY_LENGTH) || null,
+        max_miles: parseAndValidateNumber(currentFilters.maxMiles, 1),
+        transmission: currentFilters.transmission || null,
+        fuel_type: currentFilters.fuelType || null,
+        drive_type: currentFilters.driveType || null,
+        exterior_color: currentFilters.exteriorColor || null,
+        doors: parseAndValidateNumber(currentFilters.doors, 1),
+        certified: currentFilters.certified === "true" ? true : null,
+        radius: parseSearchRadius(currentFilters.radius),
         sort_by: currentFilters.sortBy || 'relevance',
         limit: RESULTS_PER_PAGE,
         offset: (nextPage - 1) * RESULTS_PER_PAGE,
@@ -212,6 +222,7 @@ export default function SearchResults({
             <option value="year_asc">Year: Oldest First</option>
             <option value="mileage_asc">Mileage: Low to High</option>
             <option value="mileage_desc">Mileage: High to Low</option>
+            <option value="mpg_desc">MPG: Best First</option>
           </select>
         </div>
       </div>
@@ -2,7 +2,7 @@
 
 import { Vehicle } from "@/lib/supabase";
 import Link from "next/link";
-import { Camera, ChevronRight } from "lucide-react";
+import { Camera, ChevronRight, TrendingDown } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui";
 import { useSearchParams } from "next/navigation";
@@ -13,6 +13,9 @@ import {
 } from "@/lib/flow-detection";
 import { getUserId, getSessionId, getUtmParams } from "@/lib/user-tracking";
 import { trackPurchase } from "@/lib/facebook-pixel";
+import { resolvePayout } from "@/lib/payout";
+import { getRecentPriceDrop } from "@/lib/price-history";
+import { getKeywordExcerpt, getKeywordTerms, splitHighlights } from "@/lib/search-utils";
 
 const fetchWithRetry = async (url: string, options: RequestInit, retries = 2, delay = 500) => {
   try {
@@ -28,6 +31,25 @@ const fetchWithRetry = async (url: string, options: RequestInit, retries = 2, de
   }
 };
 
+/**
+ * Text with the keyword search terms wrapped in <mark>
+ */
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
 interface VehicleCardProps {
   vehicle: Vehicle & { distance_miles?: number };
 }
@@ -35,6 +57,13 @@ interface VehicleCardProps {
 export default function VehicleCard({ vehicle }: VehicleCardProps) {
   const searchParams = useSearchParams();
   const flow = (searchParams.get("flow") as UserFlow) || "full";
+  const keywordTerms = getKeywordTerms(searchParams.get("q"));
+  // Matched only in the description: show where, since the title has nothing to highlight
+  const keywordExcerpt =
+    keywordTerms.length > 0 &&
+    !getKeywordExcerpt(`${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim ?? ""}`, keywordTerms)
+      ? getKeywordExcerpt(vehicle.description, keywordTerms)
+      : null;
 
   const formattedPrice =
     vehicle.price && vehicle.price > 0
@@ -46,6 +75,16 @@ export default function VehicleCard({ vehicle }: VehicleCardProps) {
         }).format(vehicle.price)
       : "Call for Price";
 
+  const priceDrop = getRecentPriceDrop(vehicle);
+  const formattedPriceDrop = priceDrop
+    ? new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(priceDrop)
+    : null;
+
   const formattedMileage = vehicle.miles
     ? new Intl.NumberFormat("en-US").format(vehicle.miles)
     : null;
@@ -60,7 +99,7 @@ export default function VehicleCard({ vehicle }: VehicleCardProps) {
 
   const handleClick = () => {
     if (isDirect) {
-      trackPurchase();
+      trackPurchase(resolvePayout(vehicle.payout));
       fetchWithRetry("/api/track-click", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -104,7 +143,14 @@ export default function VehicleCard({ vehicle }: VehicleCardProps) {
             e.currentTarget.src = "/placeholder-vehicle.svg";
           }}
         />
-        
+
+        {formattedPriceDrop && (
+          <div className="absolute top-2 left-2 flex items-center gap-1 px-2 py-1 bg-success text-white text-xs font-semibold rounded-sm">
+            <TrendingDown className="w-3 h-3" />
+            Price dropped {formattedPriceDrop}
+          </div>
+        )}
+
         {vehicle.total_photos && (
           <div className="absolute bottom-2 right-2 flex items-center gap-1 px-2 py-1 bg-black/50 text-white text-xs font-medium rounded-sm backdrop-blur-sm">
             <Camera className="w-3 h-3" />
@@ -118,11 +164,19 @@ export default function VehicleCard({ vehicle }: VehicleCardProps) {
         <div className="flex justify-between items-start mb-2">
           <div>
             <h3 className="text-base font-semibold text-gray-900 line-clamp-1">
-              {vehicle.year} {vehicle.make} {vehicle.model}
+              <Highlight
+                text={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+                terms={keywordTerms}
+              />
             </h3>
             <p className="text-sm text-muted-foreground line-clamp-1">
-              {vehicle.trim}
+              {vehicle.trim && <Highlight text={vehicle.trim} terms={keywordTerms} />}
             </p>
+            {keywordExcerpt && (
+              <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
+                <Highlight text={keywordExcerpt} terms={keywordTerms} />
+              </p>
+            )}
           </div>
         </div>
 
@@ -4,13 +4,27 @@ import userEvent from '@testing-library/user-event';
 import { FilterControls } from '../FilterControls';
 
 describe('FilterControls', () => {
+  const options = (...values: (string | number)[]) =>
+    values.map((value, i) => ({ value: String(value), count: 10 * (i + 1) }));
+
   const defaultProps = {
-    makes: ['Toyota', 'Honda', 'Ford'],
-    conditions: ['New', 'Used'],
-    bodyStyles: ['SUV', 'Sedan', 'Truck'],
-    years: [2024, 2023, 2022],
+    facets: {
+      makes: options('Ford', 'Honda', 'Toyota'),
+      models: options('Accord', 'Civic'),
+      conditions: options('New', 'Used'),
+      bodyStyles: options('SUV', 'Sedan', 'Truck'),
+      years: options(2024, 2023, 2022),
+      transmissions: options('Automatic', 'Manual'),
+      fuelTypes: options('Gasoline', 'Hybrid'),
+      driveTypes: options('AWD', 'FWD'),
+      exteriorColors: options('Black', 'White'),
+      doors: options(2, 4),
+      certifiedCount: 12,
+    },
     currentFilters: {},
     updateFilter: vi.fn(),
+    keyword: '',
+    setKeyword: vi.fn(),
     minPrice: '',
     maxPrice: '',
     setMinPrice: vi.fn(),
@@ -20,28 +34,42 @@ describe('FilterControls', () => {
   it('should render all filter options', () => {
     render(<FilterControls {...defaultProps} />);
     
-    expect(screen.getByLabelText('Filter by Make')).toBeInTheDocument();
-    expect(screen.getByLabelText('Filter by Condition')).toBeInTheDocument();
-    expect(screen.getByLabelText('Filter by Body Style')).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Make' })).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Condition' })).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Body Style' })).toBeInTheDocument();
     expect(screen.getByLabelText('Minimum Year')).toBeInTheDocument();
     expect(screen.getByLabelText('Maximum Year')).toBeInTheDocument();
     expect(screen.getByLabelText('Minimum Price')).toBeInTheDocument();
     expect(screen.getByLabelText('Maximum Price')).toBeInTheDocument();
   });
 
-  it('should call updateFilter when a dropdown changes', async () => {
+  it('should add and remove values of multi-value filters', async () => {
     const updateFilter = vi.fn();
     const user = userEvent.setup();
-    
-    render(<FilterControls {...defaultProps} updateFilter={updateFilter} />);
-    
-    await user.selectOptions(screen.getByLabelText('Filter by Make'), 'Toyota');
-    expect(updateFilter).toHaveBeenCalledWith('make', 'Toyota');
 
-    await user.selectOptions(screen.getByLabelText('Filter by Condition'), 'New');
+    render(
+      <FilterControls {...defaultProps} currentFilters={{ make: 'Honda' }} updateFilter={updateFilter} />
+    );
+
+    await user.click(screen.getByLabelText('Toyota (30)'));
+    expect(updateFilter).toHaveBeenCalledWith('make', 'Honda,Toyota');
+
+    await user.click(screen.getByLabelText('Honda (20)'));
+    expect(updateFilter).toHaveBeenCalledWith('make', '');
+
+    await user.click(screen.getByLabelText('New (10)'));
     expect(updateFilter).toHaveBeenCalledWith('condition', 'New');
   });
 
+  it('should list models once a make is chosen', () => {
+    const { rerender } = render(<FilterControls {...defaultProps} />);
+    expect(screen.queryByRole('group', { name: 'Model' })).not.toBeInTheDocument();
+
+    rerender(<FilterControls {...defaultProps} currentFilters={{ make: 'Honda', model: 'Civic' }} />);
+    expect(screen.getByLabelText('Civic (20)')).toBeChecked();
+    expect(screen.getByLabelText('Accord (10)')).not.toBeChecked();
+  });
+
   it('should call setMinPrice/setMaxPrice when price inputs change', async () => {
     const setMinPrice = vi.fn();
     const setMaxPrice = vi.fn();
@@ -66,15 +94,102 @@ describe('FilterControls', () => {
     render(
       <FilterControls 
         {...defaultProps} 
-        currentFilters={{ make: 'Honda', condition: 'Used' }}
+        currentFilters={{ make: 'Honda,Toyota', condition: 'Used' }}
         minPrice="5000"
         maxPrice="20000"
       />
     );
     
-    expect(screen.getByLabelText('Filter by Make')).toHaveValue('Honda');
-    expect(screen.getByLabelText('Filter by Condition')).toHaveValue('Used');
+    expect(screen.getByLabelText('Honda (20)')).toBeChecked();
+    expect(screen.getByLabelText('Toyota (30)')).toBeChecked();
+    expect(screen.getByLabelText('Ford (10)')).not.toBeChecked();
+    expect(screen.getByLabelText('Used (20)')).toBeChecked();
     expect(screen.getByLabelText('Minimum Price')).toHaveValue(5000); // Number input
     expect(screen.getByLabelText('Maximum Price')).toHaveValue(20000);
   });
+
+  it('should toggle features in taxonomy order', async () => {
+    const updateFilter = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <FilterControls
+        {...defaultProps}
+        currentFilters={{ features: 'leather' }}
+        updateFilter={updateFilter}
+      />
+    );
+
+    expect(screen.getByLabelText('Leather Seats')).toBeChecked();
+
+    await user.click(screen.getByLabelText('Sunroof / Moonroof'));
+    expect(updateFilter).toHaveBeenCalledWith('features', 'sunroof,leather');
+
+    await user.click(screen.getByLabelText('Leather Seats'));
+    expect(updateFilter).toHaveBeenCalledWith('features', '');
+  });
+
+  it('should filter by minimum combined MPG', async () => {
+    const updateFilter = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FilterControls {...defaultProps} currentFilters={{ minMpg: '30' }} updateFilter={updateFilter} />);
+
+    expect(screen.getByLabelText('Minimum Combined MPG')).toHaveValue('30');
+
+    await user.selectOptions(screen.getByLabelText('Minimum Combined MPG'), '40+ MPG');
+    expect(updateFilter).toHaveBeenCalledWith('minMpg', '40');
+  });
+
+  it('should filter by maximum mileage and certified status', async () => {
+    const updateFilter = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FilterControls {...defaultProps} currentFilters={{ certified: 'true' }} updateFilter={updateFilter} />);
+
+    await user.selectOptions(screen.getByLabelText('Maximum Mileage'), 'Under 50k miles');
+    expect(updateFilter).toHaveBeenCalledWith('maxMiles', '50000');
+
+    expect(screen.getByLabelText('Certified Pre-Owned only (12)')).toBeChecked();
+    await user.click(screen.getByLabelText('Certified Pre-Owned only (12)'));
+    expect(updateFilter).toHaveBeenCalledWith('certified', '');
+  });
+
+  it('should list the available transmission, fuel, drivetrain, color and door options', async () => {
+    const updateFilter = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FilterControls {...defaultProps} updateFilter={updateFilter} />);
+
+    await user.selectOptions(screen.getByLabelText('Filter by Transmission'), 'Manual (20)');
+    await user.selectOptions(screen.getByLabelText('Filter by Fuel Type'), 'Hybrid (20)');
+    await user.selectOptions(screen.getByLabelText('Filter by Drivetrain'), 'AWD (10)');
+    await user.selectOptions(screen.getByLabelText('Filter by Exterior Color'), 'White (20)');
+    await user.selectOptions(screen.getByLabelText('Filter by Doors'), '2-door (10)');
+
+    expect(updateFilter.mock.calls).toEqual([
+      ['transmission', 'Manual'],
+      ['fuelType', 'Hybrid'],
+      ['driveType', 'AWD'],
+      ['exteriorColor', 'White'],
+      ['doors', '2'],
+    ]);
+  });
+
+  it('should hide zero-count options but keep the selected one', () => {
+    render(
+      <FilterControls
+        {...defaultProps}
+        facets={{ ...defaultProps.facets, makes: options('Honda'), certifiedCount: 0 }}
+        currentFilters={{ make: 'Tesla' }}
+      />
+    );
+
+    const makeOptions = Array.from(screen.getByRole('group', { name: 'Make' }).querySelectorAll('label')).map(
+      (option) => option.textContent
+    );
+    expect(makeOptions).toEqual(['Tesla (0)', 'Honda (10)']);
+    expect(screen.getByLabelText('Tesla (0)')).toBeChecked();
+    expect(screen.queryByLabelText(/Certified Pre-Owned only/)).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render } from '@testing-library/react';
+import FilterSidebar from '../FilterSidebar';
+import { emptySearchFacets } from '@/lib/search-facets';
+
+const mockPush = vi.fn();
+const mockReplace = vi.fn();
+let mockSearchParams = new URLSearchParams();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush, replace: mockReplace }),
+  useSearchParams: () => mockSearchParams,
+}));
+
+vi.mock('@/lib/google-analytics', () => ({
+  trackFilterChange: vi.fn(),
+}));
+
+const facetsWithModels = (...models: string[]) => ({
+  ...emptySearchFacets(),
+  makes: [{ value: 'Honda', count: 3 }, { value: 'Toyota', count: 5 }],
+  models: models.map((value) => ({ value, count: 1 })),
+});
+
+describe('FilterSidebar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('drops models of an unchecked make once the new facets arrive', () => {
+    mockSearchParams = new URLSearchParams('make=Honda,Toyota&model=Civic,Camry');
+    const { rerender } = render(
+      <FilterSidebar
+        facets={facetsWithModels('Civic', 'Camry')}
+        currentFilters={{ make: 'Honda,Toyota', model: 'Civic,Camry' }}
+      />
+    );
+    expect(mockReplace).not.toHaveBeenCalled();
+
+    mockSearchParams = new URLSearchParams('make=Toyota&model=Civic,Camry');
+    rerender(
+      <FilterSidebar facets={facetsWithModels('Camry')} currentFilters={{ make: 'Toyota', model: 'Civic,Camry' }} />
+    );
+
+    expect(mockReplace).toHaveBeenCalledWith('/search?make=Toyota&model=Camry');
+  });
+
+  it('keeps models the remaining makes still have', () => {
+    mockSearchParams = new URLSearchParams('make=Honda&model=Civic');
+    const { rerender } = render(
+      <FilterSidebar facets={facetsWithModels('Civic')} currentFilters={{ make: 'Honda', model: 'Civic' }} />
+    );
+
+    rerender(
+      <FilterSidebar facets={facetsWithModels('Civic', 'Camry')} currentFilters={{ make: 'Honda,Toyota', model: 'Civic' }} />
+    );
+
+    expect(mockReplace).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { LocationSelector } from '../LocationSelector';
+import { trackRadiusChange } from '@/lib/google-analytics';
 
 // Mock dependencies
 const mockPush = vi.fn();
@@ -16,6 +17,10 @@ vi.mock('next/navigation', () => ({
   useSearchParams: () => mockSearchParams,
 }));
 
+vi.mock('@/lib/google-analytics', () => ({
+  trackRadiusChange: vi.fn(),
+}));
+
 global.fetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
   const url = typeof input === 'string' ? input : input.url;
 
@@ -61,6 +66,23 @@ describe('LocationSelector', () => {
     expect(screen.getByTitle('Change location')).toBeInTheDocument();
   });
 
+  it('should set the radius URL param and track the change', async () => {
+    mockSearchParams.set('page', '3');
+    const user = userEvent.setup();
+    render(<LocationSelector />);
+
+    const select = await screen.findByLabelText('Search radius');
+    expect(select).toHaveValue('');
+
+    await user.selectOptions(select, 'Within 50 mi');
+    expect(mockPush).toHaveBeenCalledWith('/search?radius=50', { scroll: false });
+    expect(trackRadiusChange).toHaveBeenCalledWith(50);
+
+    await user.selectOptions(select, 'Any distance');
+    expect(mockPush).toHaveBeenLastCalledWith('/search?radius=any', { scroll: false });
+    expect(trackRadiusChange).toHaveBeenLastCalledWith(0);
+  });
+
   it('should switch to edit mode when clicked', async () => {
     const user = userEvent.setup();
     render(<LocationSelector />);
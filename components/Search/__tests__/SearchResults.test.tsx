@@ -88,6 +88,35 @@ describe('SearchResults', () => {
     expect(diversifyByDealer).toHaveBeenCalled();
   });
 
+  it('should send load more filters in the API format', async () => {
+    const user = userEvent.setup();
+    render(
+      <SearchResults
+        vehicles={mockVehicles as any}
+        total={10}
+        page={1}
+        totalPages={2}
+        currentFilters={{ lat: '40.7', lon: '-74.0', make: 'Toyota', features: 'sunroof,heated_seats,bogus', minPrice: '15000' }}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /Load More Vehicles/i }));
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body).toMatchObject({
+      user_lat: 40.7,
+      user_lon: -74,
+      make: ['Toyota'],
+      features: ['sunroof', 'heated_seats'],
+      min_price: 15000,
+      offset: 24,
+    });
+    // Raw URL params are not forwarded
+    expect(body).not.toHaveProperty('minPrice');
+    expect(body).not.toHaveProperty('lat');
+  });
+
   it('should handle empty results and allow clearing filters', async () => {
     // Window location mock for clearFilters
     Object.defineProperty(window, 'location', {
@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import VehicleCard from '../VehicleCard';
 import * as pixelModule from '@/lib/facebook-pixel';
 import * as userTrackingModule from '@/lib/user-tracking';
+import type { Vehicle } from '@/lib/supabase';
 
 // Mock dependencies
 const mockPush = vi.fn();
@@ -27,7 +28,7 @@ vi.mock('@/lib/user-tracking', () => ({
 // Mock global fetch
 global.fetch = vi.fn(() => Promise.resolve({ ok: true })) as any;
 
-const mockVehicle = {
+const mockVehicle: Vehicle = {
   id: 'v1',
   vin: 'VIN123',
   year: 2023,
@@ -37,18 +38,20 @@ const mockVehicle = {
   price: 25000,
   miles: 10000,
   dealer_id: 'd1',
+  dealer_name: 'Test Motors',
   dealer_vdp_url: 'https://dealer.com/vdp/123',
   primary_image_url: '/test.jpg',
   transmission: 'Automatic',
+  certified: false,
   is_active: true,
   created_at: '2023-01-01',
-  updated_at: '2023-01-01',
 };
 
 describe('VehicleCard', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockSearchParams.delete('flow');
+    mockSearchParams.delete('q');
   });
 
   it('tracks click correctly for direct flow', async () => {
@@ -97,6 +100,26 @@ describe('VehicleCard', () => {
     expect(global.fetch).not.toHaveBeenCalledWith('/api/track-click', expect.anything());
   });
 
+  it('shows a badge for a recent price drop', () => {
+    render(
+      <VehicleCard
+        vehicle={{ ...mockVehicle, price_drop: 1500, last_price_change: new Date().toISOString() }}
+      />
+    );
+
+    expect(screen.getByText(/Price dropped \$1,500/)).toBeInTheDocument();
+  });
+
+  it('hides the price drop badge when the drop is stale', () => {
+    render(
+      <VehicleCard
+        vehicle={{ ...mockVehicle, price_drop: 1500, last_price_change: '2020-01-01T00:00:00Z' }}
+      />
+    );
+
+    expect(screen.queryByText(/Price dropped/)).not.toBeInTheDocument();
+  });
+
   it('includes dealer_id in tracking payload', async () => {
     mockSearchParams.set('flow', 'direct');
     render(<VehicleCard vehicle={mockVehicle} />);
@@ -107,4 +130,24 @@ describe('VehicleCard', () => {
       body: expect.stringContaining(`"dealerId":"${mockVehicle.dealer_id}"`),
     }));
   });
+
+  it('highlights keyword search terms in the title and trim', () => {
+    mockSearchParams.set('q', 'camry le');
+
+    const { container } = render(<VehicleCard vehicle={mockVehicle} />);
+
+    const marks = Array.from(container.querySelectorAll('mark')).map((mark) => mark.textContent);
+    expect(marks).toEqual(['Camry', 'LE']);
+  });
+
+  it('shows a description excerpt when only the description matches', () => {
+    mockSearchParams.set('q', 'sunroof');
+
+    const { container } = render(
+      <VehicleCard vehicle={{ ...mockVehicle, description: 'Panoramic sunroof and heated seats' }} />
+    );
+
+    expect(container.querySelector('mark')?.textContent).toBe('sunroof');
+    expect(screen.getByText(/heated seats/)).toBeInTheDocument();
+  });
 });
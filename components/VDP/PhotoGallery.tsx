@@ -0,0 +1,286 @@
+'use client';
+
+import { ArrowRight, ChevronLeft, ChevronRight, Expand, X } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useClickTracking } from '@/hooks/useClickTracking';
+import * as gtag from '@/lib/google-analytics';
+import { cn } from '@/lib/utils';
+
+const PLACEHOLDER_IMAGE = '/placeholder-vehicle.svg';
+
+/** Minimum horizontal travel (px) for a touch gesture to count as a swipe */
+const SWIPE_THRESHOLD = 50;
+
+/**
+ * Keep Tab / Shift+Tab cycling through a dialog's controls
+ */
+function trapFocus(event: KeyboardEvent, dialog: HTMLElement) {
+  const focusable = Array.from(dialog.querySelectorAll<HTMLElement>('button, a[href]'));
+  if (focusable.length === 0) return;
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+
+  if (!dialog.contains(active)) {
+    event.preventDefault();
+    first.focus();
+  } else if (event.shiftKey && (active === first || active === dialog)) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && active === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
+interface PhotoGalleryProps {
+  images: string[];
+  alt: string;
+  vehicleId: string;
+  vehicleVin: string;
+  dealerId: string;
+  dealerVdpUrl: string;
+  payout?: number | null;
+}
+
+/**
+ * VDP photo gallery with a fullscreen lightbox
+ * Arrow keys / swipe move between photos, Escape closes the lightbox.
+ * The lightbox holds focus while open and hands it back to its opener on close.
+ * The lightbox's dealer link is tracked as a `photos` CTA click.
+ */
+export default function PhotoGallery({
+  images,
+  alt,
+  vehicleId,
+  vehicleVin,
+  dealerId,
+  dealerVdpUrl,
+  payout,
+}: PhotoGalleryProps) {
+  const photos = images.length > 0 ? images : [PLACEHOLDER_IMAGE];
+  const [index, setIndex] = useState(0);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const touchStartX = useRef<number | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const { createClickHandler } = useClickTracking();
+
+  const showPrevious = useCallback(() => {
+    setIndex((current) => (current - 1 + photos.length) % photos.length);
+  }, [photos.length]);
+
+  const showNext = useCallback(() => {
+    setIndex((current) => (current + 1) % photos.length);
+  }, [photos.length]);
+
+  const openLightbox = () => {
+    setLightboxOpen(true);
+    gtag.trackGalleryOpen(vehicleId, index);
+  };
+
+  // Lightbox keyboard controls + scroll lock
+  useEffect(() => {
+    if (!lightboxOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setLightboxOpen(false);
+      if (event.key === 'ArrowLeft') showPrevious();
+      if (event.key === 'ArrowRight') showNext();
+      if (event.key === 'Tab' && dialogRef.current) trapFocus(event, dialogRef.current);
+    };
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [lightboxOpen, showPrevious, showNext]);
+
+  // Move focus into the lightbox on open and back to whatever opened it on close
+  useEffect(() => {
+    if (!lightboxOpen) return;
+
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    dialogRef.current?.focus();
+
+    return () => opener?.focus();
+  }, [lightboxOpen]);
+
+  // Arrow keys on the inline gallery itself; buttons keep their own keys and the
+  // lightbox handles arrows while it is open
+  const handleInlineKeyDown = (event: React.KeyboardEvent) => {
+    if (lightboxOpen || (event.target as HTMLElement).closest('button')) return;
+    if (event.key === 'ArrowLeft') showPrevious();
+    if (event.key === 'ArrowRight') showNext();
+  };
+
+  const handleTouchStart = (event: React.TouchEvent) => {
+    touchStartX.current = event.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = event.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+
+    if (deltaX > SWIPE_THRESHOLD) showPrevious();
+    if (deltaX < -SWIPE_THRESHOLD) showNext();
+  };
+
+  const handleImageError = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    event.currentTarget.src = PLACEHOLDER_IMAGE;
+  };
+
+  const hasMultiple = photos.length > 1;
+  const counter = `${index + 1} / ${photos.length}`;
+
+  return (
+    <div>
+      {/* Main image */}
+      <div
+        role="region"
+        aria-roledescription="carousel"
+        aria-label="Vehicle photos"
+        tabIndex={0}
+        onKeyDown={handleInlineKeyDown}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+        className="relative rounded-xl overflow-hidden shadow-2xl dark:shadow-brand/20 border border-border mb-4 outline-none focus-visible:ring-2 focus-visible:ring-brand group"
+      >
+        <button
+          type="button"
+          onClick={openLightbox}
+          aria-label={`Open photo ${index + 1} of ${photos.length} fullscreen`}
+          className="block w-full cursor-zoom-in"
+        >
+          <img src={photos[index]} alt={`${alt} - photo ${index + 1}`} className="w-full h-auto" onError={handleImageError} />
+        </button>
+
+        {hasMultiple && (
+          <>
+            <button
+              type="button"
+              onClick={showPrevious}
+              aria-label="Previous photo"
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={showNext}
+              aria-label="Next photo"
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </>
+        )}
+
+        <div className="absolute bottom-2 right-2 flex items-center gap-1 px-2 py-1 bg-black/50 text-white text-xs font-medium rounded-sm backdrop-blur-sm pointer-events-none">
+          <Expand className="w-3 h-3" />
+          {counter}
+        </div>
+      </div>
+
+      {/* Thumbnails */}
+      {hasMultiple && (
+        <div className="flex gap-2 overflow-x-auto pb-2">
+          {photos.map((photo, photoIndex) => (
+            <button
+              key={`${photo}-${photoIndex}`}
+              type="button"
+              onClick={() => setIndex(photoIndex)}
+              aria-label={`Show photo ${photoIndex + 1}`}
+              aria-current={photoIndex === index}
+              className={cn(
+                'relative shrink-0 w-24 aspect-video rounded-lg overflow-hidden border-2 transition-colors',
+                photoIndex === index ? 'border-brand' : 'border-transparent opacity-70 hover:opacity-100'
+              )}
+            >
+              <img src={photo} alt="" loading="lazy" className="w-full h-full object-cover" onError={handleImageError} />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lightbox */}
+      {lightboxOpen && (
+        <div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Photo gallery"
+          tabIndex={-1}
+          className="fixed inset-0 z-[60] bg-black/95 flex flex-col outline-none"
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+        >
+          <div className="flex items-center justify-between px-4 py-3 text-white">
+            <span className="text-sm font-medium">{counter}</span>
+            <button
+              type="button"
+              onClick={() => setLightboxOpen(false)}
+              aria-label="Close gallery"
+              className="p-2 rounded-full hover:bg-white/10 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="relative flex-1 flex items-center justify-center min-h-0 px-4">
+            <img
+              src={photos[index]}
+              alt={`${alt} - photo ${index + 1}`}
+              className="max-h-full max-w-full object-contain"
+              onError={handleImageError}
+            />
+
+            {hasMultiple && (
+              <>
+                <button
+                  type="button"
+                  onClick={showPrevious}
+                  aria-label="Previous photo"
+                  className="absolute left-2 sm:left-6 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  <ChevronLeft className="w-6 h-6" />
+                </button>
+                <button
+                  type="button"
+                  onClick={showNext}
+                  aria-label="Next photo"
+                  className="absolute right-2 sm:right-6 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  <ChevronRight className="w-6 h-6" />
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="px-4 py-4 flex justify-center">
+            <a
+              href={dealerVdpUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={createClickHandler({
+                vehicleId,
+                dealerId,
+                vehicleVin,
+                ctaClicked: 'photos',
+                payout,
+              })}
+              className="group inline-flex items-center gap-2 bg-trust-blue hover:bg-trust-blue/90 text-white font-bold px-6 py-3 rounded-lg transition-colors"
+            >
+              Check Availability
+              <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
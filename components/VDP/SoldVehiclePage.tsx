@@ -0,0 +1,116 @@
+import Link from 'next/link';
+import { ArrowRight, CheckCircle2, MapPin, Search } from 'lucide-react';
+import { Vehicle } from '@/lib/supabase';
+import { Badge, Button } from '@/components/ui';
+
+interface SoldVehiclePageProps {
+  vehicle: Vehicle;
+  /** Active vehicles of the same make/model */
+  similarVehicles: Vehicle[];
+  flow?: string;
+}
+
+/**
+ * Shown instead of the bridge page when a VIN recently left the feed
+ * Paid traffic keeps landing on delisted VINs for a while, so point it at live inventory
+ * instead of a 404 (see lib/vehicle-lifecycle.ts for the window).
+ */
+export default function SoldVehiclePage({ vehicle, similarVehicles, flow = 'full' }: SoldVehiclePageProps) {
+  const searchParams = new URLSearchParams({ make: vehicle.make, model: vehicle.model });
+  if (flow !== 'full') searchParams.set('flow', flow);
+  const searchHref = `/search?${searchParams.toString()}`;
+  const flowSuffix = flow !== 'full' ? `?flow=${encodeURIComponent(flow)}` : '';
+
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-700 dark:from-slate-950 dark:via-slate-900 dark:to-slate-800 text-white py-3 px-4 sm:px-6">
+        <div className="max-w-7xl mx-auto flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-brand" />
+          <span className="text-sm font-medium">
+            Was located in: {vehicle.dealer_city}, {vehicle.dealer_state}
+          </span>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="grid md:grid-cols-2 gap-8 items-center">
+          <div className="relative rounded-xl overflow-hidden border border-border">
+            <img
+              src={(vehicle.primary_image_url && vehicle.primary_image_url.trim()) || '/placeholder-vehicle.svg'}
+              alt={`${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim || ''}`}
+              className="w-full h-auto grayscale opacity-75"
+            />
+            <Badge variant="default" className="absolute top-3 left-3 text-sm">
+              Sold
+            </Badge>
+          </div>
+
+          <div>
+            <div className="inline-flex items-center gap-2 text-success font-semibold mb-2">
+              <CheckCircle2 className="w-5 h-5" />
+              This vehicle has sold
+            </div>
+            <h1 className="text-3xl sm:text-4xl font-bold text-foreground mb-4">
+              {vehicle.year} {vehicle.make} {vehicle.model} {vehicle.trim || ''}
+            </h1>
+            <p className="text-lg text-muted-foreground mb-6">
+              {vehicle.dealer_name} no longer lists this {vehicle.make} {vehicle.model}, but similar vehicles
+              are available near you.
+            </p>
+            <Button asChild variant="primary" size="lg" className="gap-2 bg-trust-blue hover:bg-trust-blue/90">
+              <Link href={searchHref}>
+                <Search className="w-5 h-5" />
+                See Similar {vehicle.make} {vehicle.model}
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {similarVehicles.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold text-foreground mb-6">Available Now</h2>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {similarVehicles.map((similar) => (
+                <Link
+                  key={similar.vin}
+                  href={`/vehicles/${similar.vin}${flowSuffix}`}
+                  className="group bg-trust-card border border-border hover:border-foreground/30 transition-colors rounded-lg overflow-hidden"
+                >
+                  <img
+                    src={(similar.primary_image_url && similar.primary_image_url.trim()) || '/placeholder-vehicle.svg'}
+                    alt={`${similar.year} ${similar.make} ${similar.model}`}
+                    className="w-full h-36 object-cover"
+                  />
+                  <div className="p-4">
+                    <p className="text-sm font-semibold text-foreground line-clamp-1">
+                      {similar.year} {similar.make} {similar.model} {similar.trim || ''}
+                    </p>
+                    <p className="text-lg font-bold text-foreground">
+                      {similar.price > 0 ? formatPrice(similar.price) : 'Call for Price'}
+                    </p>
+                    <p className="text-xs text-muted-foreground line-clamp-1">
+                      {similar.dealer_city}, {similar.dealer_state}
+                    </p>
+                    <span className="inline-flex items-center gap-1 text-sm text-brand font-semibold mt-2">
+                      View Details
+                      <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                    </span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
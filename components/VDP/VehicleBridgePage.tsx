@@ -1,14 +1,20 @@
 'use client';
 
-import { ArrowRight, MapPin, Camera, Shield, Star, Calculator, Loader2 } from 'lucide-react';
+import { ArrowRight, MapPin, Camera, Shield, Star, Calculator, Loader2, TrendingDown } from 'lucide-react';
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Vehicle } from '@/lib/supabase';
 import { useClickTracking } from '@/hooks/useClickTracking';
 import { Badge, Button } from '@/components/ui';
 import { isVDPOnlyFlow, UserFlow } from '@/lib/flow-detection';
 import { getUserId, getSessionId, getUtmParams } from '@/lib/user-tracking';
 import { trackPurchase } from '@/lib/facebook-pixel';
+import { resolvePayout } from '@/lib/payout';
+import { getFeatureLabels } from '@/lib/vehicle-features';
+import { getDealerPath } from '@/lib/dealers';
 import * as gtag from '@/lib/google-analytics';
+import { getRecentPriceDrop } from '@/lib/price-history';
+import PhotoGallery from './PhotoGallery';
 
 interface VehicleBridgePageProps {
   vehicle: Vehicle;
@@ -56,12 +62,24 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
     maximumFractionDigits: 0
   }).format(vehicle.price);
 
+  const priceDrop = getRecentPriceDrop(vehicle);
+  const formattedPriceDrop = priceDrop
+    ? new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0
+      }).format(priceDrop)
+    : null;
+
   const formattedMileage = vehicle.miles
     ? new Intl.NumberFormat('en-US').format(vehicle.miles)
     : null;
 
-  // Calculate remaining photos for "+X More" button
-  const remainingPhotos = Math.max(0, (vehicle.total_photos || 15) - 3);
+  // Full photo set from the feed (older rows may only have the primary image)
+  const photos = vehicle.image_urls?.length
+    ? vehicle.image_urls
+    : [vehicle.primary_image_url?.trim()].filter((url): url is string => Boolean(url));
 
   // Condition with fallback
   const condition = vehicle.condition?.toLowerCase() === 'new' ? 'New' : 'Used';
@@ -71,23 +89,16 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
     ? vehicle.description.substring(0, 200) + (vehicle.description.length > 200 ? '...' : '')
     : `This ${vehicle.year} ${vehicle.make} ${vehicle.model} is in excellent condition and ready for its new owner.`;
 
-  // Key features (extract from options or use defaults)
-  const keyFeatures = [
-    vehicle.trim && `${vehicle.trim} Trim`,
-    vehicle.transmission && vehicle.transmission,
-    vehicle.drive_type && vehicle.drive_type,
-    vehicle.fuel_type && vehicle.fuel_type,
-  ].filter(Boolean) as string[];
-
-  // Ensure we have at least some features
-  if (keyFeatures.length === 0) {
-    keyFeatures.push(
-      `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
-      condition,
-      'Well Maintained',
-      'Ready to Drive'
-    );
-  }
+  // Key features: equipment parsed from the feed Options, falling back to core specs
+  const parsedFeatures = getFeatureLabels(vehicle.features);
+  const keyFeatures = parsedFeatures.length > 0
+    ? parsedFeatures
+    : ([
+        vehicle.trim && `${vehicle.trim} Trim`,
+        vehicle.transmission,
+        vehicle.drive_type,
+        vehicle.fuel_type,
+      ].filter(Boolean) as string[]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -117,55 +128,15 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
         <div className="grid lg:grid-cols-2 gap-6 lg:gap-12 mt-8">
           {/* Left Column - Visual */}
           <div>
-            <div className="relative rounded-xl overflow-hidden shadow-2xl dark:shadow-brand/20 border border-border mb-4">
-              <img
-                src={(vehicle.primary_image_url && vehicle.primary_image_url.trim()) || '/placeholder-vehicle.svg'}
-                alt={`${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim || ''}`}
-                className="w-full h-auto"
-                onError={(e) => {
-                  e.currentTarget.src = '/placeholder-vehicle.svg';
-                }}
-              />
-            </div>
-
-            {/* Photo Gallery Teaser - CSS Blur Effect */}
-            <div className="grid grid-cols-3 gap-3">
-              <div className="relative aspect-video bg-muted rounded-lg overflow-hidden">
-                <img
-                  src={(vehicle.primary_image_url && vehicle.primary_image_url.trim()) || '/placeholder-vehicle.svg'}
-                  alt="Thumbnail"
-                  className="w-full h-full object-cover blur opacity-60"
-                  onError={(e) => {
-                    e.currentTarget.src = '/placeholder-vehicle.svg';
-                  }}
-                />
-              </div>
-              <div className="relative aspect-video bg-muted rounded-lg overflow-hidden">
-                <img
-                  src={(vehicle.primary_image_url && vehicle.primary_image_url.trim()) || '/placeholder-vehicle.svg'}
-                  alt="Thumbnail"
-                  className="w-full h-full object-cover blur opacity-60 scale-x-[-1]"
-                  onError={(e) => {
-                    e.currentTarget.src = '/placeholder-vehicle.svg';
-                  }}
-                />
-              </div>
-              <a
-                href={vehicle.dealer_vdp_url}
-                target="_blank"
-                rel="noopener noreferrer"
-                onClick={createClickHandler({
-                  vehicleId: vehicle.id,
-                  dealerId: vehicle.dealer_id,
-                  ctaClicked: 'photos',
-                })}
-                className="relative aspect-video bg-gradient-to-br from-brand to-brand-hover rounded-lg overflow-hidden flex flex-col items-center justify-center text-white hover:from-brand-hover hover:to-brand transition-all duration-300 cursor-pointer group"
-              >
-                <Camera className="w-6 h-6 mb-1 group-hover:scale-110 transition-transform" />
-                <span className="text-lg font-bold">+{remainingPhotos}</span>
-                <span className="text-xs">More</span>
-              </a>
-            </div>
+            <PhotoGallery
+              images={photos}
+              alt={`${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim || ''}`.trim()}
+              vehicleId={vehicle.id}
+              vehicleVin={vehicle.vin}
+              dealerId={vehicle.dealer_id}
+              dealerVdpUrl={vehicle.dealer_vdp_url}
+              payout={vehicle.payout}
+            />
 
             <a
               href={vehicle.dealer_vdp_url}
@@ -174,12 +145,13 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
               onClick={createClickHandler({
                 vehicleId: vehicle.id,
                 dealerId: vehicle.dealer_id,
+                payout: vehicle.payout,
                 ctaClicked: 'photos',
               })}
               className="flex items-center justify-center gap-2 mt-4 text-brand hover:text-brand-hover font-semibold text-base group"
             >
               <Camera className="w-5 h-5" />
-              See All Photos
+              More Photos & Details at Dealer
               <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
             </a>
           </div>
@@ -190,6 +162,12 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
               <div className="mb-6">
                 <p className="text-muted-foreground text-sm font-medium mb-1">Price</p>
                 <p className="text-4xl sm:text-5xl font-bold text-foreground">{formattedPrice}</p>
+                {formattedPriceDrop && (
+                  <Badge variant="success" className="mt-2 gap-1">
+                    <TrendingDown className="w-3 h-3" />
+                    Price dropped {formattedPriceDrop}
+                  </Badge>
+                )}
               </div>
 
               {formattedMileage && (
@@ -213,6 +191,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
                   onClick={createClickHandler({
                     vehicleId: vehicle.id,
                     dealerId: vehicle.dealer_id,
+                    payout: vehicle.payout,
                     ctaClicked: 'primary',
                   })}
                 >
@@ -235,6 +214,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
                   onClick={createClickHandler({
                     vehicleId: vehicle.id,
                     dealerId: vehicle.dealer_id,
+                    payout: vehicle.payout,
                     ctaClicked: 'history',
                   })}
                   className="w-full flex items-center justify-between bg-background hover:bg-muted/30 dark:hover:bg-muted/20 border-2 border-border hover:border-brand text-foreground font-semibold px-5 py-4 rounded-lg transition-all duration-300 group"
@@ -253,6 +233,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
                   onClick={createClickHandler({
                     vehicleId: vehicle.id,
                     dealerId: vehicle.dealer_id,
+                    payout: vehicle.payout,
                     ctaClicked: 'payment',
                   })}
                   className="w-full flex items-center justify-between bg-background hover:bg-muted/30 dark:hover:bg-muted/20 border-2 border-border hover:border-brand text-foreground font-semibold px-5 py-4 rounded-lg transition-all duration-300 group"
@@ -272,8 +253,11 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
               <div>
                 <p className="font-semibold text-foreground text-sm">Verified Listing</p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  This vehicle is offered by {vehicle.dealer_name} in {vehicle.dealer_city},{' '}
-                  {vehicle.dealer_state}
+                  This vehicle is offered by{' '}
+                  <Link href={getDealerPath(vehicle.dealer_id, flow)} className="font-semibold text-brand hover:underline">
+                    {vehicle.dealer_name}
+                  </Link>{' '}
+                  in {vehicle.dealer_city}, {vehicle.dealer_state}
                 </p>
               </div>
             </div>
@@ -286,14 +270,16 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
           <div className="lg:col-span-2">
             <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-6">Key Features</h2>
             <div className="bg-background rounded-xl border-2 border-border p-6 sm:p-8 mb-8">
-              <ul className="space-y-4">
-                {keyFeatures.map((feature, index) => (
-                  <li key={index} className="flex items-center gap-3">
-                    <div className="w-2 h-2 bg-brand rounded-full flex-shrink-0"></div>
-                    <span className="text-lg text-foreground font-medium">{feature}</span>
-                  </li>
-                ))}
-              </ul>
+              {keyFeatures.length > 0 && (
+                <ul className="space-y-4">
+                  {keyFeatures.map((feature) => (
+                    <li key={feature} className="flex items-center gap-3">
+                      <div className="w-2 h-2 bg-brand rounded-full flex-shrink-0"></div>
+                      <span className="text-lg text-foreground font-medium">{feature}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
 
               <a
                 href={vehicle.dealer_vdp_url}
@@ -302,6 +288,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
                 onClick={createClickHandler({
                   vehicleId: vehicle.id,
                   dealerId: vehicle.dealer_id,
+                  payout: vehicle.payout,
                   ctaClicked: 'primary',
                 })}
                 className="inline-flex items-center gap-2 text-brand hover:text-brand-hover font-semibold mt-6 group"
@@ -325,6 +312,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
                 onClick={createClickHandler({
                   vehicleId: vehicle.id,
                   dealerId: vehicle.dealer_id,
+                  payout: vehicle.payout,
                   ctaClicked: 'primary',
                 })}
                 className="inline-flex items-center gap-2 text-brand hover:text-brand-hover font-semibold group"
@@ -367,10 +355,16 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
                 <div className="flex justify-between items-center pb-3 border-b border-border">
                   <span className="text-muted-foreground font-medium">MPG</span>
                   <span className="text-foreground font-semibold">
-                    {vehicle.mpg_city || '?'}/{vehicle.mpg_highway || '?'}
+                    {vehicle.mpg_city || '?'} city / {vehicle.mpg_highway || '?'} hwy
                   </span>
                 </div>
               )}
+              {vehicle.mpg_combined && (
+                <div className="flex justify-between items-center pb-3 border-b border-border">
+                  <span className="text-muted-foreground font-medium">Combined MPG</span>
+                  <span className="text-foreground font-semibold">{vehicle.mpg_combined}</span>
+                </div>
+              )}
               {vehicle.exterior_color && (
                 <div className="flex justify-between items-center">
                   <span className="text-muted-foreground font-medium">Exterior Color</span>
@@ -399,6 +393,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
             onClick={createClickHandler({
               vehicleId: vehicle.id,
               dealerId: vehicle.dealer_id,
+              payout: vehicle.payout,
               ctaClicked: 'primary',
             })}
             className="group inline-flex items-center gap-3 bg-trust-blue hover:bg-trust-blue/90 text-white font-bold text-lg px-10 py-5 rounded-xl shadow-2xl transition-all duration-300 hover:scale-105"
@@ -428,6 +423,7 @@ export default function VehicleBridgePage({ vehicle, flow = 'full' }: VehicleBri
               onClick={createClickHandler({
                 vehicleId: vehicle.id,
                 dealerId: vehicle.dealer_id,
+                payout: vehicle.payout,
                 ctaClicked: 'primary',
               })}
               className="group flex-shrink-0 inline-flex items-center gap-2 bg-trust-blue hover:bg-trust-blue/90 text-white font-bold text-sm px-6 py-3 rounded-lg shadow-xl transition-all duration-300 active:scale-95"
@@ -488,7 +484,7 @@ function VDPRedirect({ vehicle }: { vehicle: Vehicle }) {
     }).catch((err) => console.error('Failed to track impression:', err));
 
     // Fire Facebook Pixel Purchase event
-    trackPurchase();
+    trackPurchase(resolvePayout(vehicle.payout));
 
     // Track click
     fetch('/api/track-click', {
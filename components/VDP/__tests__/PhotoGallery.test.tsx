@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PhotoGallery from '../PhotoGallery';
+import * as gtag from '@/lib/google-analytics';
+
+const mockCreateClickHandler = vi.fn(() => vi.fn());
+
+vi.mock('@/hooks/useClickTracking', () => ({
+  useClickTracking: () => ({ createClickHandler: mockCreateClickHandler }),
+}));
+
+vi.mock('@/lib/google-analytics', () => ({
+  trackGalleryOpen: vi.fn(),
+}));
+
+const IMAGES = ['https://img.example.com/1.jpg', 'https://img.example.com/2.jpg', 'https://img.example.com/3.jpg'];
+
+function renderGallery(images = IMAGES) {
+  return render(
+    <PhotoGallery
+      images={images}
+      alt="2023 Toyota Camry LE"
+      vehicleId="v1"
+      vehicleVin="VIN123"
+      dealerId="d1"
+      dealerVdpUrl="https://dealer.com/vdp/123"
+      payout={1.2}
+    />
+  );
+}
+
+function mainImage() {
+  return screen.getByRole('button', { name: /fullscreen/ }).querySelector('img')!;
+}
+
+describe('PhotoGallery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders every photo as a thumbnail', () => {
+    renderGallery();
+
+    expect(screen.getAllByRole('button', { name: /Show photo/ })).toHaveLength(3);
+    expect(mainImage()).toHaveAttribute('src', IMAGES[0]);
+  });
+
+  it('navigates with buttons, thumbnails and arrow keys (wrapping around)', async () => {
+    renderGallery();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Next photo' }));
+    expect(mainImage()).toHaveAttribute('src', IMAGES[1]);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Show photo 3' }));
+    expect(mainImage()).toHaveAttribute('src', IMAGES[2]);
+
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Vehicle photos' }), { key: 'ArrowRight' });
+    expect(mainImage()).toHaveAttribute('src', IMAGES[0]);
+
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Vehicle photos' }), { key: 'ArrowLeft' });
+    expect(mainImage()).toHaveAttribute('src', IMAGES[2]);
+  });
+
+  it('changes photo on swipe', () => {
+    renderGallery();
+    const region = screen.getByRole('region', { name: 'Vehicle photos' });
+
+    fireEvent.touchStart(region, { touches: [{ clientX: 300 }] });
+    fireEvent.touchEnd(region, { changedTouches: [{ clientX: 100 }] });
+    expect(mainImage()).toHaveAttribute('src', IMAGES[1]);
+
+    // Short drags are ignored
+    fireEvent.touchStart(region, { touches: [{ clientX: 100 }] });
+    fireEvent.touchEnd(region, { changedTouches: [{ clientX: 130 }] });
+    expect(mainImage()).toHaveAttribute('src', IMAGES[1]);
+  });
+
+  it('opens a lightbox that responds to the keyboard and closes on Escape', async () => {
+    renderGallery();
+
+    await userEvent.click(screen.getByRole('button', { name: /fullscreen/ }));
+
+    const dialog = screen.getByRole('dialog', { name: 'Photo gallery' });
+    expect(dialog).toHaveTextContent('1 / 3');
+    expect(gtag.trackGalleryOpen).toHaveBeenCalledWith('v1', 0);
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(dialog).toHaveTextContent('2 / 3');
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('leaves Enter on the inline buttons to the buttons themselves', async () => {
+    const user = userEvent.setup();
+    renderGallery();
+
+    screen.getByRole('button', { name: 'Next photo' }).focus();
+    await user.keyboard('{Enter}');
+    expect(mainImage()).toHaveAttribute('src', IMAGES[1]);
+
+    screen.getByRole('button', { name: 'Show photo 3' }).focus();
+    await user.keyboard('{Enter}');
+    expect(mainImage()).toHaveAttribute('src', IMAGES[2]);
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(gtag.trackGalleryOpen).not.toHaveBeenCalled();
+  });
+
+  it('moves one photo per arrow key once the lightbox is open from the keyboard', async () => {
+    const user = userEvent.setup();
+    renderGallery();
+    const opener = screen.getByRole('button', { name: /fullscreen/ });
+
+    opener.focus();
+    await user.keyboard('{Enter}');
+
+    const dialog = screen.getByRole('dialog', { name: 'Photo gallery' });
+    expect(gtag.trackGalleryOpen).toHaveBeenCalledTimes(1);
+    expect(dialog).toHaveFocus();
+
+    await user.keyboard('{ArrowRight}');
+    expect(dialog).toHaveTextContent('2 / 3');
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(opener).toHaveFocus();
+  });
+
+  it('keeps focus inside the lightbox while it is open', async () => {
+    const user = userEvent.setup();
+    renderGallery();
+    await user.click(screen.getByRole('button', { name: /fullscreen/ }));
+    const dialog = screen.getByRole('dialog', { name: 'Photo gallery' });
+
+    // Close, Previous, Next, dealer link, then back to Close
+    for (let i = 0; i < 5; i++) {
+      await user.tab();
+      expect(dialog).toContainElement(document.activeElement as HTMLElement);
+    }
+    expect(screen.getByRole('button', { name: 'Close gallery' })).toHaveFocus();
+
+    await user.tab({ shift: true });
+    expect(screen.getByRole('link', { name: /Check Availability/ })).toHaveFocus();
+  });
+
+  it('tracks the lightbox dealer link as a photos CTA', async () => {
+    renderGallery();
+    await userEvent.click(screen.getByRole('button', { name: /fullscreen/ }));
+
+    expect(mockCreateClickHandler).toHaveBeenCalledWith({
+      vehicleId: 'v1',
+      dealerId: 'd1',
+      vehicleVin: 'VIN123',
+      ctaClicked: 'photos',
+      payout: 1.2,
+    });
+
+    const link = screen.getByRole('link', { name: /Check Availability/ });
+    expect(link).toHaveAttribute('href', 'https://dealer.com/vdp/123');
+    expect(link).toHaveAttribute('target', '_blank');
+  });
+
+  it('falls back to a placeholder without photos', () => {
+    renderGallery([]);
+
+    expect(mainImage()).toHaveAttribute('src', '/placeholder-vehicle.svg');
+    expect(screen.queryByRole('button', { name: 'Next photo' })).not.toBeInTheDocument();
+  });
+});
@@ -5,17 +5,22 @@ import { getUserId, getSessionId, getUtmParams } from '@/lib/user-tracking';
 import { trackPurchase } from '@/lib/facebook-pixel';
 import * as gtag from '@/lib/google-analytics';
 import { getFlowFromUrl } from '@/lib/flow-detection';
+import { resolvePayout } from '@/lib/payout';
 
 interface TrackClickOptions {
   vehicleId: string;
   dealerId: string;
   vehicleVin?: string;
   ctaClicked?: 'primary' | 'history' | 'payment' | 'photos';
+  /** Vehicle payout from the feed, used for client-side revenue events */
+  payout?: number | null;
 }
 
 interface TrackClickResponse {
   success: boolean;
   billable: boolean;
+  /** Payout recorded for the click (0 when not billable) */
+  payout?: number;
   message: string;
 }
 
@@ -38,9 +43,10 @@ export function useClickTracking() {
     dealerId,
     vehicleVin,
     ctaClicked = 'primary',
+    payout,
   }: TrackClickOptions): Promise<TrackClickResponse> => {
     // Fire Facebook Pixel Purchase event immediately (client-side)
-    trackPurchase();
+    trackPurchase(resolvePayout(payout));
 
     const utmParams = getUtmParams();
     const flow = getFlowFromUrl();
@@ -82,6 +88,7 @@ export function useClickTracking() {
         vehicleId,
         vehicleVin,
         isBillable: data.billable,
+        payout: data.payout ?? payout,
         ctaClicked,
         flow,
         utmSource: utmParams.source,
@@ -100,6 +107,7 @@ export function useClickTracking() {
         vehicleId,
         vehicleVin,
         isBillable: true, // Default assumption if API fails
+        payout,
         ctaClicked,
         flow,
         utmSource: utmParams.source,
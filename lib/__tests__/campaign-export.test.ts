@@ -2,10 +2,12 @@ import { describe, it, expect } from 'vitest';
 import { 
   calculateMetroLocations, 
   generateDestinationUrl, 
+  parseCampaignValue,
   generateCsvContent, 
   Vehicle, 
   MetroLocation 
 } from '../campaign-export';
+import { MULTI_VALUE_FILTERS, parseMultiValueParam } from '../search-utils';
 
 describe('campaign-export utils', () => {
   describe('calculateMetroLocations', () => {
@@ -58,7 +60,7 @@ describe('campaign-export utils', () => {
   describe('generateDestinationUrl', () => {
     it('should generate correct URL for body_style', () => {
       const url = generateDestinationUrl('body_style', 'suv');
-      expect(url).toBe('https://carzo.net/search?body_style=suv');
+      expect(url).toBe('https://carzo.net/search?bodyStyle=suv');
     });
 
     it('should generate correct URL for make', () => {
@@ -68,7 +70,7 @@ describe('campaign-export utils', () => {
 
     it('should generate correct URL for make_body_style', () => {
       const url = generateDestinationUrl('make_body_style', 'Kia suv');
-      expect(url).toBe('https://carzo.net/search?make=Kia&body_style=suv');
+      expect(url).toBe('https://carzo.net/search?make=Kia&bodyStyle=suv');
     });
 
     it('should generate correct URL for make_model', () => {
@@ -80,6 +82,38 @@ describe('campaign-export utils', () => {
       const url = generateDestinationUrl('make_model', 'Jeep Grand Cherokee');
       expect(url).toBe('https://carzo.net/search?make=Jeep&model=Grand+Cherokee');
     });
+
+    it('should target multi-value landing pages', () => {
+      expect(generateDestinationUrl('make', 'Honda, Toyota')).toBe(
+        'https://carzo.net/search?make=Honda%2CToyota'
+      );
+      expect(generateDestinationUrl('make_model', 'Jeep Wrangler,Grand Cherokee')).toBe(
+        'https://carzo.net/search?make=Jeep&model=Wrangler%2CGrand+Cherokee'
+      );
+    });
+
+    it('should produce URLs the search page parses back into the same filters', () => {
+      const params = new URL(generateDestinationUrl('make_body_style', 'Kia,Hyundai suv,truck')).searchParams;
+
+      expect([...params.keys()].every((key) => (MULTI_VALUE_FILTERS as readonly string[]).includes(key))).toBe(true);
+      expect(parseMultiValueParam(params.get('make'))).toEqual(['Kia', 'Hyundai']);
+      expect(parseMultiValueParam(params.get('bodyStyle'))).toEqual(['suv', 'truck']);
+    });
+  });
+
+  describe('parseCampaignValue', () => {
+    it('should split each part into its values', () => {
+      expect(parseCampaignValue('body_style', 'suv')).toEqual({ body_style: ['suv'] });
+      expect(parseCampaignValue('make_body_style', 'Kia, Hyundai suv,truck')).toEqual({
+        make: ['Kia', 'Hyundai'],
+        body_style: ['suv', 'truck'],
+      });
+    });
+
+    it('should return null when a part is missing', () => {
+      expect(parseCampaignValue('make_model', 'Jeep')).toBeNull();
+      expect(parseCampaignValue('make', ',')).toBeNull();
+    });
   });
 
   describe('generateCsvContent', () => {
@@ -56,6 +56,28 @@ describe('generateCampaignRecommendations', () => {
     expect(totalBudget).toBeLessThan(8000);
   });
 
+  it('should shift budget toward higher-payout metros when weighting by payout', () => {
+    const metros = [
+      { ...mockMetros[0], dma: 'Low Payout', avg_payout: 0.5 },
+      { ...mockMetros[0], dma: 'High Payout', avg_payout: 1.5 },
+    ];
+
+    const unweighted = generateCampaignRecommendations(metros, 6000);
+    const weighted = generateCampaignRecommendations(metros, 6000, true);
+    const budgetOf = (result: CampaignRecommendation[], dma: string) =>
+      result.find(r => r.metro === dma)!.recommended_daily_budget;
+
+    expect(budgetOf(unweighted, 'High Payout')).toBe(budgetOf(unweighted, 'Low Payout'));
+    expect(budgetOf(weighted, 'High Payout')).toBe(3 * budgetOf(weighted, 'Low Payout'));
+    expect(weighted.find(r => r.metro === 'High Payout')?.expected_payout).toBe(1.5);
+  });
+
+  it('should fall back to the flat payout for metros without payout data', () => {
+    const result = generateCampaignRecommendations(mockMetros, 7500);
+
+    expect(result[0].expected_payout).toBe(0.8);
+  });
+
   it('should handle empty metros array', () => {
     const result = generateCampaignRecommendations([], 7500);
 
@@ -161,6 +183,13 @@ describe('calculateBudgetAllocation', () => {
     expect(tampa.roi_pct).toBe(-44);
   });
 
+  it('should project revenue from the campaign expected payout', () => {
+    const result = calculateBudgetAllocation([{ ...mockCampaigns[0], expected_payout: 1.2 }], 7500, 0.50, 0.35);
+
+    // 2100 dealer clicks × $1.20 = $2520 revenue
+    expect(result.allocations[0].expected_revenue).toBe(2520);
+  });
+
   it('should filter out "avoid" tier campaigns', () => {
     const result = calculateBudgetAllocation(mockCampaigns, 7500, 0.50, 0.35);
 
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  formatDealerAddress,
+  getDealer,
+  getDealerInventory,
+  getDealerPath,
+  isDealerInventorySort,
+  parseDealerId,
+} from '../dealers';
+
+/**
+ * Tests for dealer page / admin dealer reads
+ */
+
+function mockClient(result: Record<string, unknown>) {
+  const calls: Array<[string, unknown[]]> = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of ['from', 'select', 'eq', 'order', 'range']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, args]);
+      return builder;
+    };
+  }
+  builder.maybeSingle = vi.fn(() => Promise.resolve(result));
+  builder.then = (resolve: (value: unknown) => void) => resolve(result);
+  return { client: builder as unknown as SupabaseClient, calls };
+}
+
+describe('parseDealerId', () => {
+  it('should trim and accept ids up to 50 characters', () => {
+    expect(parseDealerId(' D123 ')).toBe('D123');
+    expect(parseDealerId('x'.repeat(50))).toHaveLength(50);
+  });
+
+  it('should reject empty or oversized ids', () => {
+    expect(parseDealerId('')).toBeNull();
+    expect(parseDealerId('   ')).toBeNull();
+    expect(parseDealerId(undefined)).toBeNull();
+    expect(parseDealerId('x'.repeat(51))).toBeNull();
+  });
+});
+
+describe('getDealerPath', () => {
+  it('should encode the id and keep non-default flows', () => {
+    expect(getDealerPath('D 1')).toBe('/dealers/D%201');
+    expect(getDealerPath('D1', 'full')).toBe('/dealers/D1');
+    expect(getDealerPath('D1', 'direct')).toBe('/dealers/D1?flow=direct');
+  });
+});
+
+describe('formatDealerAddress', () => {
+  it('should join the parts that are present', () => {
+    expect(formatDealerAddress({ address: '1 Main St', city: 'Tampa', state: 'FL', zip: '33602' })).toBe(
+      '1 Main St, Tampa, FL 33602'
+    );
+    expect(formatDealerAddress({ address: null, city: 'Tampa', state: 'FL', zip: null })).toBe('Tampa, FL');
+    expect(formatDealerAddress({})).toBe('');
+  });
+});
+
+describe('isDealerInventorySort', () => {
+  it('should accept only known sorts', () => {
+    expect(isDealerInventorySort('price_asc')).toBe(true);
+    expect(isDealerInventorySort('toString')).toBe(false);
+  });
+});
+
+describe('getDealer', () => {
+  it('should return null for unknown dealers', async () => {
+    const { client } = mockClient({ data: null, error: null });
+    expect(await getDealer(client, 'NOPE')).toBeNull();
+  });
+
+  it('should throw query errors', async () => {
+    const { client } = mockClient({ data: null, error: new Error('DB error') });
+    await expect(getDealer(client, 'D1')).rejects.toThrow('DB error');
+  });
+});
+
+describe('getDealerInventory', () => {
+  it('should page active vehicles for the dealer', async () => {
+    const { client, calls } = mockClient({ data: [{ vin: 'V1' }], error: null, count: 30 });
+
+    const inventory = await getDealerInventory(client, 'D1', { page: 2, pageSize: 10, sortBy: 'price_asc' });
+
+    expect(inventory).toEqual({ vehicles: [{ vin: 'V1' }], total: 30, page: 2, totalPages: 3 });
+    expect(calls).toContainEqual(['eq', ['is_active', true]]);
+    expect(calls).toContainEqual(['eq', ['dealer_id', 'D1']]);
+    expect(calls).toContainEqual(['order', ['price', { ascending: true, nullsFirst: false }]]);
+    expect(calls).toContainEqual(['range', [10, 19]]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { checkDeactivation, getMaxDropPercent, DEFAULT_MAX_DROP_PERCENT } from '../feed-circuit-breaker';
+
+/**
+ * Tests for the mass-deactivation circuit breaker
+ */
+
+describe('checkDeactivation', () => {
+  const base = {
+    activeCount: 70000,
+    feedCount: 69500,
+    removedCount: 500,
+    recentFeedSizes: [70100, 69800, 70300],
+    maxDropPercent: 30,
+  };
+
+  it('should allow normal churn', () => {
+    const check = checkDeactivation(base);
+
+    expect(check.tripped).toBe(false);
+    expect(check.reason).toBeNull();
+    expect(check.dropPercent).toBeCloseTo(0.71, 1);
+  });
+
+  it('should trip when the sync would remove too much active inventory', () => {
+    const check = checkDeactivation({ ...base, feedCount: 20000, removedCount: 50000 });
+
+    expect(check.tripped).toBe(true);
+    expect(check.reason).toContain('deactivate 50000 of 70000');
+  });
+
+  it('should trip on an empty feed', () => {
+    const check = checkDeactivation({ ...base, feedCount: 0, removedCount: 70000 });
+
+    expect(check.tripped).toBe(true);
+    expect(check.dropPercent).toBe(100);
+  });
+
+  it('should trip when the feed shrinks far below recent history', () => {
+    // Active count already eroded (e.g. earlier override), but history still shows the normal size
+    const check = checkDeactivation({
+      ...base,
+      activeCount: 30000,
+      feedCount: 29000,
+      removedCount: 1000,
+    });
+
+    expect(check.tripped).toBe(true);
+    expect(check.historyDropPercent).toBeGreaterThan(50);
+    expect(check.reason).toContain('recent average');
+  });
+
+  it('should rely on the active count alone without history', () => {
+    const check = checkDeactivation({ ...base, recentFeedSizes: [] });
+
+    expect(check.tripped).toBe(false);
+    expect(check.historyDropPercent).toBeNull();
+  });
+
+  it('should never trip on the first sync of a source', () => {
+    const check = checkDeactivation({
+      activeCount: 0,
+      feedCount: 500,
+      removedCount: 0,
+      recentFeedSizes: [],
+      maxDropPercent: 30,
+    });
+
+    expect(check.tripped).toBe(false);
+  });
+
+  it('should not treat a growing feed as a drop', () => {
+    const check = checkDeactivation({ ...base, feedCount: 90000 });
+
+    expect(check.historyDropPercent).toBe(0);
+  });
+});
+
+describe('getMaxDropPercent', () => {
+  const env = (value?: string) =>
+    (value === undefined ? {} : { FEED_SYNC_MAX_DROP_PERCENT: value }) as unknown as NodeJS.ProcessEnv;
+
+  it('should read FEED_SYNC_MAX_DROP_PERCENT', () => {
+    expect(getMaxDropPercent(env('15'))).toBe(15);
+  });
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(getMaxDropPercent(env())).toBe(DEFAULT_MAX_DROP_PERCENT);
+    expect(getMaxDropPercent(env('abc'))).toBe(DEFAULT_MAX_DROP_PERCENT);
+    expect(getMaxDropPercent(env('0'))).toBe(DEFAULT_MAX_DROP_PERCENT);
+    expect(getMaxDropPercent(env('150'))).toBe(DEFAULT_MAX_DROP_PERCENT);
+  });
+});
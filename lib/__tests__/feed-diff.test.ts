@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { diffVehicle, feedDiffToCsv, formatFeedDiffSummary, type DiffSnapshot, type FeedDiff } from '../feed-diff';
+
+/**
+ * Tests for dry-run diff helpers
+ */
+
+const existing: DiffSnapshot = {
+  vin: '1HGBH41JXMN109186',
+  price: 24500,
+  miles: 32000,
+  primary_image_url: 'https://images.example.com/1.jpg',
+  total_photos: 12,
+  dealer_id: 'D1',
+  dealer_name: 'Test Motors',
+  dealer_vdp_url: 'https://dealer.example.com/vdp/1',
+};
+
+function buildDiff(overrides: Partial<FeedDiff> = {}): FeedDiff {
+  return {
+    source: 'lotlinx',
+    generatedAt: '2025-11-23T00:00:00.000Z',
+    activeVehicles: 3,
+    feedVehicles: 3,
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    rejected: 0,
+    rejectionsByRule: {},
+    circuitBreaker: null,
+    ...overrides,
+  };
+}
+
+describe('diffVehicle', () => {
+  it('should report no changes for identical rows', () => {
+    expect(diffVehicle(existing, { ...existing })).toEqual([]);
+  });
+
+  it('should treat numeric strings from the database as equal numbers', () => {
+    expect(diffVehicle({ ...existing, price: '24500.00' as unknown as number }, existing)).toEqual([]);
+  });
+
+  it('should report price and miles changes', () => {
+    const changes = diffVehicle(existing, { ...existing, price: 23999, miles: 32500 });
+
+    expect(changes).toEqual([
+      { field: 'price', before: '$24500.00', after: '$23999.00' },
+      { field: 'miles', before: '32000', after: '32500' },
+    ]);
+  });
+
+  it('should report image changes when the primary image or photo count changes', () => {
+    expect(diffVehicle(existing, { ...existing, total_photos: 20 }).map(c => c.field)).toEqual(['images']);
+    expect(diffVehicle(existing, { ...existing, primary_image_url: '' }).map(c => c.field)).toEqual(['images']);
+  });
+
+  it('should report dealer changes', () => {
+    const changes = diffVehicle(existing, { ...existing, dealer_vdp_url: 'https://dealer.example.com/vdp/2' });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].field).toBe('dealer');
+    expect(changes[0].after).toContain('/vdp/2');
+  });
+});
+
+describe('feedDiffToCsv', () => {
+  it('should write one row per added, removed, and changed field', () => {
+    const csv = feedDiffToCsv([
+      buildDiff({
+        added: ['NEWVIN00000000001'],
+        removed: ['OLDVIN00000000001'],
+        changed: [
+          {
+            vin: '1HGBH41JXMN109186',
+            changes: [{ field: 'dealer', before: 'D1 Smith, Jones & Co', after: 'D1 "Smith" Motors' }],
+          },
+        ],
+      }),
+    ]);
+
+    expect(csv.trim().split('\n')).toEqual([
+      'source,vin,change,field,before,after',
+      'lotlinx,NEWVIN00000000001,added,,,',
+      'lotlinx,OLDVIN00000000001,removed,,,',
+      'lotlinx,1HGBH41JXMN109186,changed,dealer,"D1 Smith, Jones & Co","D1 ""Smith"" Motors"',
+    ]);
+  });
+});
+
+describe('formatFeedDiffSummary', () => {
+  it('should summarize counts per changed field and rejection rule', () => {
+    const lines = formatFeedDiffSummary(
+      buildDiff({
+        changed: [
+          { vin: 'A', changes: [{ field: 'price', before: '$1.00', after: '$2.00' }] },
+          { vin: 'B', changes: [{ field: 'price', before: '$1.00', after: '$2.00' }] },
+        ],
+        rejected: 1,
+        rejectionsByRule: { invalid_vin: 1 },
+      })
+    );
+
+    expect(lines).toContain('   Changed: 2');
+    expect(lines).toContain('     price: 2');
+    expect(lines).toContain('     invalid_vin: 1');
+  });
+
+  it('should warn when the circuit breaker would trip', () => {
+    const lines = formatFeedDiffSummary(
+      buildDiff({
+        circuitBreaker: { tripped: true, dropPercent: 90, historyDropPercent: null, reason: 'too many' },
+      })
+    );
+
+    expect(lines[lines.length - 1]).toContain('Circuit breaker would trip: too many');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareHeader,
+  createNullRateCounts,
+  findNullRateIncreases,
+  formatMissingRequired,
+  formatSchemaDrift,
+  getNullRates,
+  hasSchemaDrift,
+  recordNulls,
+} from '../feed-schema';
+import { LotLinxFeedSource } from '../feed-sources';
+
+/**
+ * Tests for header contract checks and per-column null rates
+ */
+
+describe('compareHeader', () => {
+  const contract = {
+    columns: ['Vin', 'Price', 'ImageUrls', 'Drive', 'Dol'],
+    required: ['Vin', 'Price'],
+  };
+
+  it('should report no drift for a matching header in any order', () => {
+    const drift = compareHeader(['Price', 'Vin', 'Dol', 'Drive', 'ImageUrls'], contract);
+
+    expect(hasSchemaDrift(drift)).toBe(false);
+    expect(drift.missingRequired).toEqual([]);
+  });
+
+  it('should pair likely renames and keep the rest as added/removed', () => {
+    const drift = compareHeader(['Vin', 'SalePrice', 'ImageURLs', 'DriveTrain', 'StockNumber'], contract);
+
+    expect(drift.renamed).toEqual([
+      { from: 'Price', to: 'SalePrice' },
+      { from: 'ImageUrls', to: 'ImageURLs' },
+      { from: 'Drive', to: 'DriveTrain' },
+    ]);
+    expect(drift.removed).toEqual(['Dol']);
+    expect(drift.added).toEqual(['StockNumber']);
+    expect(drift.missingRequired).toEqual(['Price']);
+    expect(formatMissingRequired(drift)).toBe('Feed header is missing required column: Price (renamed to SalePrice?)');
+  });
+
+  it('should prefer a case-only rename over a looser match', () => {
+    const drift = compareHeader(['Vin', 'Price', 'ImageUrl', 'imageurls', 'Drive', 'Dol'], contract);
+
+    expect(drift.renamed).toEqual([{ from: 'ImageUrls', to: 'imageurls' }]);
+    expect(drift.added).toEqual(['ImageUrl']);
+  });
+
+  it('should format drift one kind per line', () => {
+    const drift = compareHeader(['Vin', 'Price', 'ImageUrls', 'DriveType', 'Extra'], contract);
+
+    expect(formatSchemaDrift(drift)).toEqual(['renamed: Drive -> DriveType', 'removed: Dol', 'added: Extra']);
+  });
+
+  it('should cover every LotLinxVehicle column in the LotLinx contract', () => {
+    const { columns } = new LotLinxFeedSource({ username: '', password: '', publisherId: '' });
+
+    expect(columns.columns).toHaveLength(34);
+    expect(columns.required).toEqual(['Vin', 'Year', 'Price', 'ImageUrls', 'DealerId', 'DealerName', 'Url']);
+  });
+});
+
+describe('null rates', () => {
+  it('should count empty and missing values per column', () => {
+    const counts = createNullRateCounts(['Vin', 'Payout', 'Dol']);
+    recordNulls(counts, { Vin: 'A', Payout: '1.25', Dol: '0' });
+    recordNulls(counts, { Vin: 'B', Payout: ' ' });
+    recordNulls(counts, { Vin: 'C', Payout: '', Dol: '3' });
+
+    expect(getNullRates(counts)).toEqual({ Vin: 0, Payout: 0.6667, Dol: 0.3333 });
+  });
+
+  it('should return null when no rows were counted', () => {
+    expect(getNullRates(createNullRateCounts(['Vin']))).toBeNull();
+  });
+
+  it('should flag columns well above their best recent rate', () => {
+    const history: Array<Record<string, number>> = [
+      { Payout: 0.15, Dol: 0.1 },
+      { Payout: 0.08, Dol: 0.1 },
+      { Payout: 0.02 },
+    ];
+
+    expect(findNullRateIncreases({ Payout: 0.3, Dol: 0.25, Miles: 0.9 }, history)).toEqual([
+      { column: 'Payout', baseline: 0.02, current: 0.3 },
+    ]);
+    expect(findNullRateIncreases({ Payout: 0.3 }, history, 30)).toEqual([]);
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import {
+  GenericFeedSource,
+  LotLinxFeedSource,
+  loadFeedSources,
+  validateGenericFeedSourceConfig,
+  type GenericFeedSourceConfig,
+  type LotLinxVehicle,
+} from '../feed-sources';
+
+/**
+ * Tests for feed source adapters (LotLinx + generic column-mapped)
+ */
+
+const SYNCED_AT = '2025-11-20T12:00:00.000Z';
+
+const baseConfig: GenericFeedSourceConfig = {
+  id: 'acme',
+  name: 'Acme Inventory',
+  url: 'https://feeds.acme.example/inventory',
+  format: 'csv',
+  columns: {
+    vin: 'VIN',
+    year: 'ModelYear',
+    make: 'Brand',
+    model: 'Model',
+    price: 'SellingPrice',
+    miles: 'Odometer',
+    image_urls: 'Photos',
+    dealer_id: 'StoreId',
+    dealer_name: 'StoreName',
+    dealer_vdp_url: 'DetailUrl',
+    latitude: 'Lat',
+    longitude: 'Lng',
+    certified: 'IsCpo',
+  },
+  imageUrlDelimiter: '|',
+};
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const row of rows) {
+    result.push(row);
+  }
+  return result;
+}
+
+describe('GenericFeedSource', () => {
+  describe('parse', () => {
+    it('should parse CSV with quoted fields', async () => {
+      const source = new GenericFeedSource(baseConfig);
+      const csv = 'VIN,Brand,Model\n1HGBH41JXMN109186,Honda,"Accord, Sport"\n';
+
+      const rows = await collect(source.parse(Readable.from([csv])));
+
+      expect(rows).toEqual([{ VIN: '1HGBH41JXMN109186', Brand: 'Honda', Model: 'Accord, Sport' }]);
+    });
+
+    it('should parse NDJSON one record per line', async () => {
+      const source = new GenericFeedSource({ ...baseConfig, format: 'ndjson' });
+      const ndjson = '{"VIN":"A1"}\n\n{"VIN":"B2"}\n';
+
+      const rows = await collect(source.parse(Readable.from([ndjson])));
+
+      expect(rows).toEqual([{ VIN: 'A1' }, { VIN: 'B2' }]);
+    });
+
+    it('should parse JSON records at a nested path', async () => {
+      const source = new GenericFeedSource({
+        ...baseConfig,
+        format: 'json',
+        recordsPath: 'data.vehicles',
+      });
+      const json = JSON.stringify({ data: { vehicles: [{ VIN: 'A1' }, { VIN: 'B2' }] } });
+
+      const rows = await collect(source.parse(Readable.from([json])));
+
+      expect(rows).toHaveLength(2);
+    });
+
+    it('should fail when JSON records path is missing', async () => {
+      const source = new GenericFeedSource({ ...baseConfig, format: 'json', recordsPath: 'items' });
+
+      await expect(collect(source.parse(Readable.from(['{"data":[]}'])))).rejects.toThrow(
+        'JSON feed has no records array at "items"'
+      );
+    });
+  });
+
+  describe('map', () => {
+    it('should map configured columns onto vehicle fields', () => {
+      const source = new GenericFeedSource(baseConfig);
+
+      const vehicle = source.map(
+        {
+          VIN: '1HGBH41JXMN109186',
+          ModelYear: 2021,
+          Brand: 'Honda',
+          Model: 'Accord',
+          SellingPrice: '24500.50',
+          Odometer: '12000',
+          Photos: 'https://img/1.jpg| https://img/2.jpg |',
+          StoreId: 'store-9',
+          StoreName: 'Acme Honda',
+          DetailUrl: 'https://acme.example/v/1',
+          Lat: 33.75,
+          Lng: -84.39,
+          IsCpo: true,
+        },
+        SYNCED_AT
+      );
+
+      expect(vehicle).toMatchObject({
+        vin: '1HGBH41JXMN109186',
+        year: 2021,
+        make: 'Honda',
+        price: 24500.5,
+        miles: 12000,
+        primary_image_url: 'https://img/1.jpg',
+        image_urls: ['https://img/1.jpg', 'https://img/2.jpg'],
+        total_photos: 2,
+        dealer_id: 'store-9',
+        latitude: 33.75,
+        longitude: -84.39,
+        certified: true,
+        source: 'acme',
+        is_active: true,
+        last_sync: SYNCED_AT,
+      });
+    });
+
+    it('should default unmapped and empty fields', () => {
+      const source = new GenericFeedSource({ ...baseConfig, defaultTargetingRadius: 50 });
+
+      const vehicle = source.map(
+        { VIN: 'A1', StoreId: 's', StoreName: 'n', DetailUrl: 'u', Odometer: '' },
+        SYNCED_AT
+      );
+
+      expect(vehicle.trim).toBeNull();
+      expect(vehicle.miles).toBeNull();
+      expect(vehicle.price).toBe(0);
+      expect(vehicle.primary_image_url).toBe('');
+      expect(vehicle.image_urls).toEqual([]);
+      expect(vehicle.total_photos).toBe(0);
+      expect(vehicle.targeting_radius).toBe(50);
+      expect(vehicle.certified).toBe(false);
+      expect(vehicle.payout).toBeNull();
+      expect(vehicle.priority).toBeNull();
+      expect(vehicle.features).toEqual([]);
+    });
+  });
+});
+
+describe('LotLinxFeedSource.map', () => {
+  it('should keep the LotLinx column mapping and tag the source', () => {
+    const source = new LotLinxFeedSource({ username: 'u', password: 'p', publisherId: '1' });
+
+    const vehicle = source.map(
+      {
+        Vin: '1HGBH41JXMN109186',
+        Year: '2021',
+        Price: '24500',
+        ImageUrls: 'https://img/1.jpg,https://img/2.jpg',
+        DealerId: 'dealer-1',
+        DealerName: 'Test Dealer',
+        Url: 'https://dealer/vdp',
+        Radius: '',
+        Certified: 'yes',
+        Dol: '0',
+        Payout: '$1.25',
+        Priority: '3',
+        Options: 'Moonroof, Heated Seats',
+      } as LotLinxVehicle,
+      SYNCED_AT
+    );
+
+    expect(vehicle).toMatchObject({
+      vin: '1HGBH41JXMN109186',
+      year: 2021,
+      price: 24500,
+      primary_image_url: 'https://img/1.jpg',
+      image_urls: ['https://img/1.jpg', 'https://img/2.jpg'],
+      total_photos: 2,
+      targeting_radius: 30,
+      certified: true,
+      dol: 0,
+      payout: 1.25,
+      priority: 3,
+      features: ['sunroof', 'heated_seats'],
+      source: 'lotlinx',
+      last_sync: SYNCED_AT,
+    });
+  });
+});
+
+describe('LotLinx payout parsing', () => {
+  const source = new LotLinxFeedSource({ username: 'u', password: 'p', publisherId: '1' });
+  const mapPayout = (Payout: string) =>
+    source.map({ Vin: 'V', DealerId: 'd', DealerName: 'n', Url: 'u', Payout } as LotLinxVehicle, SYNCED_AT).payout;
+
+  it('should round payouts to cents', () => {
+    expect(mapPayout('1.239')).toBe(1.24);
+    expect(mapPayout('2.5')).toBe(2.5);
+  });
+
+  it('should keep a zero payout', () => {
+    expect(mapPayout('0')).toBe(0);
+    expect(mapPayout('$0.00')).toBe(0);
+  });
+
+  it('should treat missing, unparseable and negative payouts as unknown', () => {
+    expect(mapPayout('')).toBeNull();
+    expect(mapPayout('-1')).toBeNull();
+    expect(mapPayout('N/A')).toBeNull();
+  });
+});
+
+describe('validateGenericFeedSourceConfig', () => {
+  it('should accept a valid config', () => {
+    expect(() => validateGenericFeedSourceConfig(baseConfig)).not.toThrow();
+  });
+
+  it('should reject ids that are not slug-like', () => {
+    expect(() => validateGenericFeedSourceConfig({ ...baseConfig, id: 'Acme Feed' })).toThrow(
+      'must be lowercase'
+    );
+  });
+
+  it('should reserve the lotlinx id', () => {
+    expect(() => validateGenericFeedSourceConfig({ ...baseConfig, id: 'lotlinx' })).toThrow('reserved');
+  });
+
+  it('should reject unsupported formats', () => {
+    expect(() =>
+      validateGenericFeedSourceConfig({
+        ...baseConfig,
+        format: 'xml' as GenericFeedSourceConfig['format'],
+      })
+    ).toThrow('unsupported format "xml"');
+  });
+
+  it('should require billing-critical columns', () => {
+    const columns = { ...baseConfig.columns, dealer_vdp_url: '' };
+    expect(() => validateGenericFeedSourceConfig({ ...baseConfig, columns })).toThrow(
+      'must map the "dealer_vdp_url" column'
+    );
+  });
+
+  it('should reject unknown vehicles columns', () => {
+    const columns = { ...baseConfig.columns, mileage: 'Odometer' } as GenericFeedSourceConfig['columns'];
+    expect(() => validateGenericFeedSourceConfig({ ...baseConfig, columns })).toThrow(
+      'unknown vehicles column "mileage"'
+    );
+  });
+});
+
+describe('loadFeedSources', () => {
+  const lotlinxEnv = {
+    LOTLINX_FEED_USERNAME: 'user',
+    LOTLINX_FEED_PASSWORD: 'pass',
+    LOTLINX_PUBLISHER_ID: '123',
+  } as unknown as NodeJS.ProcessEnv;
+
+  it('should return LotLinx when credentials are set', () => {
+    expect(loadFeedSources(lotlinxEnv).map((source) => source.id)).toEqual(['lotlinx']);
+  });
+
+  it('should return no sources when nothing is configured', () => {
+    expect(loadFeedSources({} as NodeJS.ProcessEnv)).toEqual([]);
+  });
+
+  it('should add generic sources from FEED_SOURCES', () => {
+    const env = { ...lotlinxEnv, FEED_SOURCES: JSON.stringify([baseConfig]) };
+    expect(loadFeedSources(env).map((source) => source.id)).toEqual(['lotlinx', 'acme']);
+  });
+
+  it('should reject invalid FEED_SOURCES JSON', () => {
+    expect(() => loadFeedSources({ FEED_SOURCES: '{not json' } as unknown as NodeJS.ProcessEnv)).toThrow(
+      'FEED_SOURCES must be valid JSON'
+    );
+  });
+
+  it('should reject duplicate source ids', () => {
+    const env = {
+      ...lotlinxEnv,
+      FEED_SOURCES: JSON.stringify([baseConfig, { ...baseConfig, name: 'Acme Again' }]),
+    };
+    expect(() => loadFeedSources(env)).toThrow('Duplicate feed source id "acme"');
+  });
+});
@@ -0,0 +1,485 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FeedSyncService, type FeedSyncProgress } from '../feed-sync';
+import { LotLinxFeedSource, type DbVehicle } from '../feed-sources';
+import { computeContentHash } from '../feed-content-hash';
+
+/**
+ * Content-hash change detection and exact sync counts
+ * Supabase is mocked; a local TSV stands in for the LotLinx download.
+ */
+
+const db = vi.hoisted(() => ({
+  activeCsv: 'vin,content_hash,price,price_drop,last_price_change\n',
+  /** Inactive rows found by the reactivation lookup (vin -> stored price) */
+  inactivePrices: {} as Record<string, number>,
+  upserted: [] as Array<Record<string, unknown>>,
+  priceHistory: [] as Array<Record<string, unknown>>,
+  lifecycleEvents: [] as Array<Record<string, unknown>>,
+  deactivated: [] as string[],
+  relisted: [] as string[],
+  logs: [] as Array<Record<string, unknown>>,
+  rpcCalls: [] as string[],
+  /** acquire_feed_sync_lock response */
+  lock: { acquired: true, previous: null } as { acquired: boolean; previous: Record<string, unknown> | null },
+  checkpoints: [] as Array<Record<string, unknown>>,
+  /** epa_fuel_economy rows */
+  epaRows: [] as Array<Record<string, unknown>>,
+  /** An admin asked the run to stop (checkpoints fail, cancel_requested_at is set) */
+  cancelRequested: false,
+  /** feed_sync_logs insert error (PostgREST rejects the row) */
+  logError: null as { message: string } | null,
+}));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({
+    rpc: (fn: string, args: Record<string, unknown>) => {
+      db.rpcCalls.push(fn);
+      if (fn === 'acquire_feed_sync_lock') return Promise.resolve({ data: db.lock, error: null });
+      if (fn === 'checkpoint_feed_sync') {
+        db.checkpoints.push(args);
+        return Promise.resolve({ data: !db.cancelRequested, error: null });
+      }
+      return Promise.resolve({ data: fn === 'refresh_dealers' ? 0 : true, error: null });
+    },
+    from: (table: string) => {
+      let operation = 'select';
+      let updatePayload: Record<string, unknown> = {};
+      let inValues: string[] = [];
+      const builder: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'not', 'order', 'limit', 'range', 'lt', 'delete']) {
+        builder[method] = () => builder;
+      }
+      builder.in = (_column: string, values: string[]) => {
+        inValues = values;
+        return builder;
+      };
+      builder.upsert = (rows: Array<Record<string, unknown>>) => {
+        db.upserted.push(...rows);
+        return builder;
+      };
+      builder.update = (payload: Record<string, unknown>) => {
+        operation = 'update';
+        updatePayload = payload;
+        return builder;
+      };
+      builder.insert = (row: Record<string, unknown> | Array<Record<string, unknown>>) => {
+        operation = 'insert';
+        if (table === 'feed_sync_logs') db.logs.push(row as Record<string, unknown>);
+        if (table === 'vehicle_price_history') db.priceHistory.push(...(row as Array<Record<string, unknown>>));
+        if (table === 'vehicle_lifecycle_events') db.lifecycleEvents.push(...(row as Array<Record<string, unknown>>));
+        return builder;
+      };
+      builder.csv = () => Promise.resolve({ data: db.activeCsv, error: null });
+      builder.then = (resolve: (value: unknown) => void) => {
+        if (table === 'feed_sync_logs' && operation === 'insert') {
+          return resolve({ data: null, error: db.logError });
+        }
+        if (table === 'epa_fuel_economy') {
+          return resolve({ data: db.epaRows, error: null });
+        }
+        if (table === 'feed_sync_checkpoints') {
+          return resolve({ data: [{ cancel_requested_at: db.cancelRequested ? '2025-12-07 10:00:00' : null }], error: null });
+        }
+        if (table === 'vehicles' && operation === 'update' && updatePayload.is_active === false) {
+          db.deactivated.push(...inValues);
+          return resolve({ data: inValues.map(vin => ({ vin, listed_at: '2025-11-01T00:00:00.000Z' })), error: null });
+        }
+        if (table === 'vehicles' && operation === 'update') {
+          db.relisted.push(...inValues);
+        }
+        if (table === 'vehicles' && operation === 'select') {
+          const data = inValues
+            .filter(vin => vin in db.inactivePrices)
+            .map(vin => ({ vin, content_hash: null, price: db.inactivePrices[vin], price_drop: null, last_price_change: null }));
+          return resolve({ data, error: null });
+        }
+        return resolve({ data: [], error: null });
+      };
+      return builder;
+    },
+  })),
+}));
+
+const TSV_HEADER = ['Vin', 'Year', 'Make', 'Model', 'Price', 'ImageUrls', 'DealerId', 'DealerName', 'Url'].join('\t');
+
+const VINS = {
+  same: '1HGBH41JXMN109186',
+  priceChange: '2T1BURHE8JC123456',
+  returning: '5YJ3E1EA6KF123456',
+  brandNew: '1FTFW1E50KFA12345',
+  gone: '3VWDX7AJ2DM123456',
+};
+
+function tsvRow(vin: string, price: string): string {
+  return [vin, '2021', 'Honda', 'Accord', price, 'https://img.example.com/1.jpg', 'D1', 'Test Motors', 'https://dealer.example.com/1'].join('\t');
+}
+
+describe('FeedSyncService - Change Detection', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'feed-change-'));
+  const feedFile = join(dir, 'master.tsv');
+  const source = new LotLinxFeedSource({ username: '', password: '', publisherId: '' });
+
+  beforeEach(() => {
+    db.upserted = [];
+    db.priceHistory = [];
+    db.lifecycleEvents = [];
+    db.deactivated = [];
+    db.relisted = [];
+    db.logs = [];
+    db.rpcCalls = [];
+    db.lock = { acquired: true, previous: null };
+    db.checkpoints = [];
+    db.epaRows = [];
+    db.cancelRequested = false;
+    db.logError = null;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should upsert only changed rows and report exact counts', async () => {
+    // First pass: capture the hashes the sync would store for the baseline feed
+    writeFileSync(
+      feedFile,
+      [TSV_HEADER, tsvRow(VINS.same, '24500'), tsvRow(VINS.priceChange, '15999')].join('\n')
+    );
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+    const hashes = new Map(db.upserted.map(row => [row.vin as string, row.content_hash as string]));
+
+    // Second pass: one unchanged, one price change, one returning, one new, one gone
+    db.activeCsv = [
+      'vin,content_hash,price,price_drop,last_price_change',
+      `${VINS.same},${hashes.get(VINS.same)},24500.00,,`,
+      `${VINS.priceChange},${hashes.get(VINS.priceChange)},15999.00,,`,
+      `${VINS.gone},stale,9000.00,,`,
+    ].join('\n');
+    db.inactivePrices = { [VINS.returning]: 31000 };
+    db.upserted = [];
+    db.lifecycleEvents = [];
+    db.logs = [];
+    db.rpcCalls = [];
+    db.checkpoints = [];
+    writeFileSync(
+      feedFile,
+      [
+        TSV_HEADER,
+        tsvRow(VINS.same, '24500'),
+        tsvRow(VINS.priceChange, '14999'),
+        tsvRow(VINS.returning, '31000'),
+        tsvRow(VINS.brandNew, '42000'),
+      ].join('\n')
+    );
+
+    // Generous threshold: this test is about counts, not the circuit breaker
+    const result = await new FeedSyncService('http://localhost', 'key', source, {
+      inputFile: feedFile,
+      maxDropPercent: 100,
+    }).syncFeed();
+
+    expect(result.success).toBe(true);
+    expect(result).toMatchObject({ added: 1, updated: 1, unchanged: 1, reactivated: 1, removed: 1 });
+    expect(db.upserted.map(row => row.vin).sort()).toEqual(
+      [VINS.priceChange, VINS.returning, VINS.brandNew].sort()
+    );
+    expect(db.deactivated).toEqual([VINS.gone]);
+    expect(db.rpcCalls).toEqual([
+      'acquire_feed_sync_lock',
+      'checkpoint_feed_sync', // before the first row
+      'checkpoint_feed_sync', // before deactivation
+      'checkpoint_feed_sync', // after the deactivation batch
+      'refresh_dealers',
+      'release_feed_sync_lock',
+    ]);
+    expect(db.checkpoints[1]).toMatchObject({ p_phase: 'deactivating', p_rows_processed: 4, p_rows_written: 3 });
+    expect(db.checkpoints[2]).toMatchObject({ p_phase: 'deactivating', p_vehicles_removed: 1 });
+    expect(db.logs[0]).toMatchObject({
+      price_changes: 1,
+      vehicles_added: 1,
+      vehicles_updated: 1,
+      vehicles_unchanged: 1,
+      vehicles_reactivated: 1,
+      vehicles_removed: 1,
+    });
+  });
+
+  it('should match a lowercase feed VIN to its stored vehicle', async () => {
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500')].join('\n'));
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+    const hash = db.upserted[0].content_hash as string;
+
+    db.activeCsv = ['vin,content_hash,price,price_drop,last_price_change', `${VINS.same},${hash},24500.00,,`].join('\n');
+    db.upserted = [];
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(` ${VINS.same.toLowerCase()}`, '24500')].join('\n'));
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result).toMatchObject({ success: true, added: 0, unchanged: 1, removed: 0 });
+    expect(db.upserted).toEqual([]);
+    expect(db.deactivated).toEqual([]);
+  });
+
+  it('should record listed, relisted, and delisted lifecycle events', async () => {
+    db.activeCsv = [
+      'vin,content_hash,price,price_drop,last_price_change',
+      `${VINS.same},stale,24500.00,,`,
+      `${VINS.gone},stale,9000.00,,`,
+    ].join('\n');
+    db.inactivePrices = { [VINS.returning]: 31000 };
+    writeFileSync(
+      feedFile,
+      [TSV_HEADER, tsvRow(VINS.same, '24500'), tsvRow(VINS.returning, '31000'), tsvRow(VINS.brandNew, '42000')].join(
+        '\n'
+      )
+    );
+
+    await new FeedSyncService('http://localhost', 'key', source, {
+      inputFile: feedFile,
+      maxDropPercent: 100,
+    }).syncFeed();
+
+    const events = Object.fromEntries(db.lifecycleEvents.map(event => [event.vin, event]));
+    expect(Object.keys(events).sort()).toEqual([VINS.brandNew, VINS.returning, VINS.gone].sort());
+    expect(events[VINS.brandNew]).toMatchObject({ event: 'listed', source: 'lotlinx' });
+    expect(events[VINS.returning]).toMatchObject({ event: 'relisted' });
+    expect(events[VINS.gone]).toMatchObject({ event: 'delisted' });
+    expect(events[VINS.gone].days_listed).toBeGreaterThanOrEqual(0);
+    // Returning VINs start a new listing period
+    expect(db.relisted).toEqual([VINS.returning]);
+    expect(db.deactivated).toEqual([VINS.gone]);
+  });
+
+  it('should record price changes and denormalize the latest drop', async () => {
+    db.activeCsv = [
+      'vin,content_hash,price,price_drop,last_price_change',
+      `${VINS.same},stale,24500.00,500.00,2025-11-01 00:00:00`,
+      `${VINS.priceChange},stale,15999.00,,`,
+    ].join('\n');
+    db.inactivePrices = { [VINS.returning]: 29000 };
+    writeFileSync(
+      feedFile,
+      [
+        TSV_HEADER,
+        tsvRow(VINS.same, '24500'),
+        tsvRow(VINS.priceChange, '14999'),
+        tsvRow(VINS.returning, '31000'),
+        tsvRow(VINS.brandNew, '42000'),
+      ].join('\n')
+    );
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result.priceChanges).toBe(2);
+    expect(db.priceHistory).toEqual([
+      expect.objectContaining({ vin: VINS.priceChange, source: 'lotlinx', old_price: 15999, new_price: 14999 }),
+      expect.objectContaining({ vin: VINS.returning, old_price: 29000, new_price: 31000 }),
+    ]);
+
+    const upserted = new Map(db.upserted.map(row => [row.vin, row]));
+    // Unchanged price keeps the previous drop even though the row was rewritten
+    expect(upserted.get(VINS.same)).toMatchObject({ price_drop: 500, last_price_change: '2025-11-01 00:00:00' });
+    expect(upserted.get(VINS.priceChange)).toMatchObject({ price_drop: 1000 });
+    expect(upserted.get(VINS.priceChange)?.last_price_change).toBeTruthy();
+    // Increases clear the badge
+    expect(upserted.get(VINS.returning)).toMatchObject({ price_drop: null });
+    expect(upserted.get(VINS.brandNew)).toMatchObject({ price_drop: null, last_price_change: null });
+  });
+
+  it('should fill a missing year/make from the VIN and flag mismatches', async () => {
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    writeFileSync(
+      feedFile,
+      [
+        TSV_HEADER,
+        [VINS.returning, '', '', 'Model 3', '31000', 'https://img.example.com/1.jpg', 'D1', 'Test Motors', 'https://dealer.example.com/1'].join('\t'),
+        tsvRow(VINS.brandNew, '42000'), // Ford VIN listed as a 2021 Honda
+      ].join('\n')
+    );
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result).toMatchObject({ vinFilled: 1, vinMismatches: 1, rejected: 0 });
+    const upserted = new Map(db.upserted.map(row => [row.vin, row]));
+    expect(upserted.get(VINS.returning)).toMatchObject({ year: 2019, make: 'Tesla', vin_mismatches: [] });
+    expect(upserted.get(VINS.brandNew)).toMatchObject({ year: 2021, make: 'Honda', vin_mismatches: ['year', 'make'] });
+    expect(db.logs[0]).toMatchObject({ vins_filled: 1, vins_mismatched: 1 });
+    expect(db.logs[0].column_null_rates).toMatchObject({ Vin: 0, Year: 0.5, Make: 0.5, Price: 0 });
+    expect(db.logs[0]).toMatchObject({ rows_read: 2, status: 'success' });
+    expect(db.logs[0]).not.toHaveProperty('success');
+    expect(Object.keys(db.logs[0].stage_timings as object)).toEqual([
+      'download',
+      'extract',
+      'parse',
+      'upsert',
+      'deactivate',
+    ]);
+  });
+
+  it('should report a sync log the database rejects', async () => {
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    db.logError = { message: 'column "sync_started_at" of relation "feed_sync_logs" does not exist' };
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500')].join('\n'));
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result.errors).toContain(`Failed to log sync: ${db.logError.message}`);
+  });
+
+  it('should skip the run while another sync holds the lock', async () => {
+    db.lock = {
+      acquired: false,
+      previous: { sync_run_id: 'other-run', status: 'running', lease_expires_at: '2025-12-03 12:05:00' },
+    };
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500')].join('\n'));
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result).toMatchObject({ success: false, status: 'skipped' });
+    expect(result.errors[0]).toContain('run other-run');
+    expect(db.upserted).toEqual([]);
+    expect(db.logs).toEqual([]);
+    expect(db.rpcCalls).toEqual(['acquire_feed_sync_lock']);
+  });
+
+  it('should log an interrupted run and roll it forward', async () => {
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    db.lock = {
+      acquired: true,
+      previous: {
+        sync_run_id: 'killed-run',
+        status: 'running',
+        phase: 'upserting',
+        rows_processed: 3000,
+        rows_written: 2000,
+        vehicles_removed: 0,
+        started_at: '2025-12-03 09:00:00',
+        heartbeat_at: '2025-12-03 09:04:50',
+      },
+    };
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500')].join('\n'));
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result.success).toBe(true);
+    expect(result.alerts[0]).toContain('killed-run was interrupted');
+    expect(db.logs[0]).toMatchObject({
+      sync_run_id: 'killed-run',
+      status: 'failed',
+      sync_started_at: '2025-12-03 09:00:00',
+    });
+    expect(db.logs[0].error_message).toContain('Interrupted during upserting after 3000 feed rows (2000 written');
+    expect(db.logs[0]).not.toHaveProperty('success');
+    expect(db.logs[1]).toMatchObject({ status: 'success', vehicles_added: 1 });
+    expect(db.rpcCalls.at(-1)).toBe('release_feed_sync_lock');
+  });
+
+  it('should fail before writing when a required column is renamed', async () => {
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    writeFileSync(
+      feedFile,
+      [TSV_HEADER.replace('Price', 'SalePrice') + '\tStockNumber', tsvRow(VINS.same, '24500') + '\tA1'].join('\n')
+    );
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toBe('Feed header is missing required column: Price (renamed to SalePrice?)');
+    expect(db.upserted).toEqual([]);
+    expect(db.logs[0]).toMatchObject({
+      status: 'failed',
+      schema_drift: {
+        renamed: [{ from: 'Price', to: 'SalePrice' }],
+        added: ['StockNumber'],
+        missingRequired: ['Price'],
+      },
+    });
+  });
+
+  it('should fill MPG from the EPA dataset', async () => {
+    const epa = { year: 2021, make: 'Honda', base_model: 'Accord', cylinders: 4, drive: 'Front-Wheel Drive', atv_type: null };
+    db.epaRows = [
+      { ...epa, epa_id: 1, model: 'Accord', mpg_city: 30, mpg_highway: 38, mpg_combined: 33 },
+      { ...epa, epa_id: 2, model: 'Accord Hybrid', atv_type: 'Hybrid', mpg_city: 48, mpg_highway: 47, mpg_combined: 48 },
+      { ...epa, epa_id: 3, model: 'Accord Sport', mpg_city: 29, mpg_highway: 35, mpg_combined: 32 },
+    ];
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500')].join('\n'));
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, { inputFile: feedFile }).syncFeed();
+
+    expect(result.success).toBe(true);
+    expect(db.upserted[0]).toMatchObject({ mpg_city: 30, mpg_highway: 38, mpg_combined: 33 });
+  });
+
+  it('should report progress through each phase', async () => {
+    db.activeCsv = ['vin,content_hash,price,price_drop,last_price_change', `${VINS.gone},stale,9000.00,,`].join('\n');
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500'), tsvRow(VINS.brandNew, '42000')].join('\n'));
+    const progress: FeedSyncProgress[] = [];
+
+    await new FeedSyncService('http://localhost', 'key', source, {
+      inputFile: feedFile,
+      maxDropPercent: 100,
+      onProgress: update => progress.push(update),
+    }).syncFeed();
+
+    expect([...new Set(progress.map(update => update.phase))]).toEqual(['starting', 'upserting', 'deactivating', 'finished']);
+    expect(progress.at(-1)).toMatchObject({
+      source: 'lotlinx',
+      rowsProcessed: 2,
+      rowsWritten: 2,
+      batches: 1,
+      added: 2,
+      removed: 1,
+      errors: [],
+    });
+  });
+
+  it('should stop at the next checkpoint when an admin cancels', async () => {
+    db.cancelRequested = true;
+    db.activeCsv = 'vin,content_hash,price,price_drop,last_price_change\n';
+    writeFileSync(feedFile, [TSV_HEADER, tsvRow(VINS.same, '24500')].join('\n'));
+    const progress: FeedSyncProgress[] = [];
+
+    const result = await new FeedSyncService('http://localhost', 'key', source, {
+      inputFile: feedFile,
+      onProgress: update => progress.push(update),
+    }).syncFeed();
+
+    expect(result).toMatchObject({ success: false, status: 'failed', cancelled: true });
+    expect(result.errors[0]).toBe('Sync cancelled by an admin during upserting after 0 feed rows');
+    expect(db.upserted).toEqual([]);
+    expect(db.logs[0]).toMatchObject({ status: 'failed' });
+    expect(db.rpcCalls.at(-1)).toBe('release_feed_sync_lock');
+    expect(progress.at(-1)).toMatchObject({ phase: 'finished', errors: result.errors });
+  });
+});
+
+describe('computeContentHash', () => {
+  const vehicle = {
+    vin: '1HGBH41JXMN109186',
+    price: 24500,
+    miles: 32000,
+    is_active: true,
+    last_sync: '2025-11-24T00:00:00.000Z',
+  } as unknown as DbVehicle;
+
+  it('should ignore sync bookkeeping columns', () => {
+    expect(computeContentHash({ ...vehicle, last_sync: '2030-01-01T00:00:00.000Z', is_active: false })).toBe(
+      computeContentHash(vehicle)
+    );
+  });
+
+  it('should not depend on key order', () => {
+    const reordered = { last_sync: vehicle.last_sync, miles: 32000, price: 24500, vin: vehicle.vin, is_active: true };
+    expect(computeContentHash(reordered as unknown as DbVehicle)).toBe(computeContentHash(vehicle));
+  });
+
+  it('should change when content changes', () => {
+    expect(computeContentHash({ ...vehicle, price: 23999 })).not.toBe(computeContentHash(vehicle));
+  });
+});
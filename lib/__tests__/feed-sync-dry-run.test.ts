@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FeedSyncService } from '../feed-sync';
+import { LotLinxFeedSource } from '../feed-sources';
+
+/**
+ * Dry-run mode against a local TSV file
+ * Supabase is mocked; the test asserts nothing is ever written.
+ */
+
+const writes = vi.hoisted(() => ({ calls: [] as string[] }));
+
+const ACTIVE_VEHICLES_CSV = [
+  'vin,price,miles,primary_image_url,total_photos,dealer_id,dealer_name,dealer_vdp_url',
+  '1HGBH41JXMN109186,24500.00,32000,https://img.example.com/a1.jpg,1,D1,"Test Motors, Inc",https://dealer.example.com/1',
+  '2T1BURHE8JC123456,15999.00,41000,https://img.example.com/b1.jpg,1,D2,Other Motors,https://dealer.example.com/2',
+].join('\n');
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({
+    from: (table: string) => {
+      const builder: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'not', 'order', 'limit', 'range']) {
+        builder[method] = () => builder;
+      }
+      for (const method of ['insert', 'upsert', 'update', 'delete']) {
+        builder[method] = () => {
+          writes.calls.push(`${table}.${method}`);
+          return builder;
+        };
+      }
+      builder.csv = () => Promise.resolve({ data: ACTIVE_VEHICLES_CSV, error: null });
+      builder.then = (resolve: (value: unknown) => void) => resolve({ data: [], error: null });
+      return builder;
+    },
+  })),
+}));
+
+const TSV_HEADER = [
+  'Vin', 'Year', 'Make', 'Model', 'Price', 'Miles', 'ImageUrls',
+  'DealerId', 'DealerName', 'Url', 'Latitude', 'Longitude',
+].join('\t');
+
+function tsvRow(fields: string[]): string {
+  return fields.join('\t');
+}
+
+describe('FeedSyncService - Dry Run', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'feed-dry-run-'));
+  const feedFile = join(dir, 'master.tsv');
+  const source = new LotLinxFeedSource({ username: '', password: '', publisherId: '' });
+
+  beforeEach(() => {
+    writes.calls = [];
+    writeFileSync(
+      feedFile,
+      [
+        TSV_HEADER,
+        // Price drop on an existing VIN
+        tsvRow(['1HGBH41JXMN109186', '2021', 'Honda', 'Accord', '23999', '32000', 'https://img.example.com/a1.jpg,https://img.example.com/a2.jpg', 'D1', 'Test Motors, Inc', 'https://dealer.example.com/1', '27.95', '-82.46']),
+        // New VIN
+        tsvRow(['5YJ3E1EA6KF123456', '2019', 'Tesla', 'Model 3', '31000', '22000', 'https://img.example.com/c1.jpg', 'D3', 'EV Lot', 'https://dealer.example.com/3', '27.95', '-82.46']),
+        // Rejected (bad VIN)
+        tsvRow(['BADVIN', '2020', 'Ford', 'F-150', '30000', '10000', 'https://img.example.com/d1.jpg', 'D4', 'Truck Lot', 'https://dealer.example.com/4', '27.95', '-82.46']),
+      ].join('\n')
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should compute new, removed, and changed VINs from a local TSV', async () => {
+    const service = new FeedSyncService('http://localhost', 'key', source, { dryRun: true, inputFile: feedFile });
+    const result = await service.syncFeed();
+
+    expect(result.success).toBe(true);
+    expect(result.diff).toBeDefined();
+
+    const diff = result.diff!;
+    expect(diff.activeVehicles).toBe(2);
+    expect(diff.feedVehicles).toBe(2);
+    expect(diff.added).toEqual(['5YJ3E1EA6KF123456']);
+    expect(diff.removed).toEqual(['2T1BURHE8JC123456']);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].vin).toBe('1HGBH41JXMN109186');
+    expect(diff.changed[0].changes.map(c => c.field)).toEqual(['price', 'images']);
+    expect(diff.rejected).toBe(1);
+    expect(diff.rejectionsByRule).toEqual({ invalid_vin: 1 });
+  });
+
+  it('should not write to any table', async () => {
+    const service = new FeedSyncService('http://localhost', 'key', source, { dryRun: true, inputFile: feedFile });
+    await service.syncFeed();
+
+    expect(writes.calls).toEqual([]);
+  });
+});
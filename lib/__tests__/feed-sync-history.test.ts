@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, getFeedFreshness, normalizeStageTimings } from '../feed-sync-history';
+
+/**
+ * Tests for sync run history helpers (stage timings, freshness)
+ */
+
+describe('normalizeStageTimings', () => {
+  it('should fill missing stages and drop unknown keys', () => {
+    expect(normalizeStageTimings({ download: 1200.4, parse: '300', bogus: 5 })).toEqual({
+      download: 1200,
+      extract: 0,
+      parse: 300,
+      upsert: 0,
+      deactivate: 0,
+    });
+  });
+
+  it('should treat runs logged before stage timings as all zero', () => {
+    expect(Object.values(normalizeStageTimings(null))).toEqual([0, 0, 0, 0, 0]);
+  });
+});
+
+describe('getFeedFreshness', () => {
+  const now = new Date('2025-12-04T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+  it('should grade by missed sync intervals', () => {
+    expect(getFeedFreshness(hoursAgo(2), now)).toBe('fresh');
+    expect(getFeedFreshness(hoursAgo(7), now)).toBe('fresh');
+    expect(getFeedFreshness(hoursAgo(9), now)).toBe('delayed');
+    expect(getFeedFreshness(hoursAgo(14), now)).toBe('stale');
+  });
+
+  it('should treat a source that never synced as stale', () => {
+    expect(getFeedFreshness(null, now)).toBe('stale');
+  });
+});
+
+describe('formatDuration', () => {
+  it('should pick a unit by size', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(12400)).toBe('12.4s');
+    expect(formatDuration(185000)).toBe('3m 05s');
+    expect(formatDuration(119700)).toBe('2m 00s');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import AdmZip from 'adm-zip';
+import { LotLinxFeedSource, type LotLinxVehicle } from '../feed-sources';
+
+/**
+ * Tests for the streaming download → unzip → parse pipeline
+ * Builds real ZIP archives in memory and feeds them in small chunks
+ */
+
+const TSV_HEADER = 'Vin\tYear\tMake\tModel\tPrice';
+
+function buildZip(entries: Record<string, string>): Buffer {
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(entries)) {
+    zip.addFile(name, Buffer.from(content));
+  }
+  return zip.toBuffer();
+}
+
+// Split into small chunks so entries straddle chunk boundaries
+function toChunkedStream(data: Buffer, chunkSize = 64): Readable {
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < data.length; i += chunkSize) {
+    chunks.push(data.subarray(i, i + chunkSize));
+  }
+  return Readable.from(chunks);
+}
+
+async function collect(rows: AsyncIterable<LotLinxVehicle>): Promise<LotLinxVehicle[]> {
+  const result: LotLinxVehicle[] = [];
+  for await (const row of rows) {
+    result.push(row);
+  }
+  return result;
+}
+
+describe('LotLinxFeedSource - Streaming Pipeline', () => {
+  const source = new LotLinxFeedSource({ username: 'user', password: 'pass', publisherId: '123' });
+
+  it('should stream rows out of the TSV entry', async () => {
+    const tsv = [
+      TSV_HEADER,
+      '1HGBH41JXMN109186\t2021\tHonda\tAccord\t24500',
+      '2T1BURHE8JC123456\t2018\tToyota\tCorolla\t15999',
+    ].join('\n');
+
+    const zipStream = toChunkedStream(buildZip({ 'master.tsv': tsv }));
+    const rows = await collect(source.parse(zipStream));
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].Vin).toBe('1HGBH41JXMN109186');
+    expect(rows[1].Make).toBe('Toyota');
+    expect(rows[1].Price).toBe('15999');
+  });
+
+  it('should handle large feeds without losing rows', async () => {
+    const lines = [TSV_HEADER];
+    for (let i = 0; i < 5000; i++) {
+      lines.push(`VIN${String(i).padStart(14, '0')}\t2020\tFord\tF-150\t${30000 + i}`);
+    }
+
+    const zipStream = toChunkedStream(buildZip({ 'master.tsv': lines.join('\n') }), 1024);
+    const rows = await collect(source.parse(zipStream));
+
+    expect(rows).toHaveLength(5000);
+    expect(rows[4999].Price).toBe('34999');
+  });
+
+  it('should report extract and parse time per stage', async () => {
+    const lines = [TSV_HEADER];
+    for (let i = 0; i < 500; i++) {
+      lines.push(`VIN${String(i).padStart(14, '0')}\t2020\tFord\tF-150\t${30000 + i}`);
+    }
+    const stageMs = { extract: 0, parse: 0 };
+    const calls = { extract: 0, parse: 0 };
+
+    const zipStream = toChunkedStream(buildZip({ 'master.tsv': lines.join('\n') }), 1024);
+    const rows = await collect(
+      source.parse(zipStream, {
+        onStageTime: (stage, ms) => {
+          stageMs[stage] += ms;
+          calls[stage]++;
+        },
+      })
+    );
+
+    expect(rows).toHaveLength(500);
+    expect(calls.extract).toBeGreaterThan(0);
+    expect(calls.parse).toBeGreaterThan(0);
+    expect(stageMs.extract).toBeGreaterThanOrEqual(0);
+    expect(stageMs.parse).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should skip non-TSV entries in the archive', async () => {
+    const zipStream = toChunkedStream(
+      buildZip({
+        'README.txt': 'not a feed',
+        'master.tsv': `${TSV_HEADER}\n1HGBH41JXMN109186\t2021\tHonda\tAccord\t24500`,
+      })
+    );
+    const rows = await collect(source.parse(zipStream));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].Model).toBe('Accord');
+  });
+
+  it('should reject a download that is not a ZIP file', async () => {
+    const zipStream = toChunkedStream(Buffer.from('<html>Login failed</html>'));
+
+    await expect(collect(source.parse(zipStream))).rejects.toThrow('missing PK header');
+  });
+
+  it('should fail when the ZIP has no TSV entry', async () => {
+    const zipStream = toChunkedStream(buildZip({ 'feed.csv': 'Vin,Year' }));
+
+    await expect(collect(source.parse(zipStream))).rejects.toThrow('No TSV file found in ZIP');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import type { DbVehicle } from '../feed-sources';
+import { validateVehicle, DEFAULT_VALIDATION_LIMITS } from '../feed-validation';
+
+/**
+ * Tests for row-level feed validation rules
+ */
+
+const NOW = new Date('2025-11-22T00:00:00Z');
+
+function buildVehicle(overrides: Partial<DbVehicle> = {}): DbVehicle {
+  return {
+    vin: '1HGBH41JXMN109186',
+    year: 2021,
+    make: 'Honda',
+    model: 'Accord',
+    trim: 'EX',
+    price: 24500,
+    miles: 32000,
+    condition: 'Used',
+    body_style: 'Sedan',
+    primary_image_url: 'https://images.example.com/1.jpg',
+    image_urls: ['https://images.example.com/1.jpg'],
+    transmission: 'Automatic',
+    fuel_type: 'Gasoline',
+    drive_type: 'FWD',
+    exterior_color: 'Blue',
+    interior_color: 'Black',
+    mpg_city: null,
+    mpg_highway: null,
+    mpg_combined: null,
+    doors: 4,
+    cylinders: 4,
+    description: null,
+    features: [],
+    options: null,
+    dealer_id: 'D1',
+    dealer_name: 'Test Motors',
+    dealer_address: null,
+    dealer_city: 'Tampa',
+    dealer_state: 'FL',
+    dealer_zip: '33601',
+    dealer_vdp_url: 'https://dealer.example.com/vdp/1',
+    total_photos: 1,
+    latitude: 27.95,
+    longitude: -82.46,
+    targeting_radius: 30,
+    dma: 'Tampa-St. Pete',
+    certified: false,
+    dol: 5,
+    payout: null,
+    priority: null,
+    source: 'lotlinx',
+    is_active: true,
+    last_sync: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+function reasonsFor(overrides: Partial<DbVehicle>) {
+  return validateVehicle(buildVehicle(overrides), DEFAULT_VALIDATION_LIMITS, NOW).map(v => v.reason);
+}
+
+describe('validateVehicle', () => {
+  it('should accept a complete vehicle', () => {
+    expect(reasonsFor({})).toEqual([]);
+  });
+
+  it('should reject VINs that are not 17 valid characters', () => {
+    expect(reasonsFor({ vin: 'ABC123' })).toEqual(['invalid_vin']);
+    expect(reasonsFor({ vin: '1HGBH41JXMN10918O' })).toEqual(['invalid_vin']); // letter O not allowed
+    expect(reasonsFor({ vin: '' })).toEqual(['invalid_vin']);
+  });
+
+  it('should reject VINs that fail the check digit', () => {
+    const [violation] = validateVehicle(buildVehicle({ vin: '1HGBH41J5MN109186' }), DEFAULT_VALIDATION_LIMITS, NOW);
+    expect(violation.reason).toBe('invalid_vin');
+    expect(violation.message).toContain('expected X');
+  });
+
+  it('should require a dealer id and name', () => {
+    expect(reasonsFor({ dealer_id: '' })).toEqual(['missing_dealer']);
+    expect(reasonsFor({ dealer_name: '' })).toEqual(['missing_dealer']);
+  });
+
+  it('should require an http(s) dealer VDP URL', () => {
+    expect(reasonsFor({ dealer_vdp_url: '' })).toEqual(['missing_dealer_url']);
+    expect(reasonsFor({ dealer_vdp_url: 'not a url' })).toEqual(['missing_dealer_url']);
+    expect(reasonsFor({ dealer_vdp_url: 'javascript:alert(1)' })).toEqual(['missing_dealer_url']);
+  });
+
+  it('should require a primary image', () => {
+    expect(reasonsFor({ primary_image_url: '' })).toEqual(['missing_image']);
+  });
+
+  it('should reject prices outside the configured range', () => {
+    expect(reasonsFor({ price: 0 })).toEqual(['price_out_of_range']);
+    expect(reasonsFor({ price: 1_000_000 })).toEqual(['price_out_of_range']);
+    expect(reasonsFor({ price: 500 })).toEqual([]);
+  });
+
+  it('should reject missing or implausible years', () => {
+    expect(reasonsFor({ year: null })).toEqual(['year_out_of_range']);
+    expect(reasonsFor({ year: 1975 })).toEqual(['year_out_of_range']);
+    expect(reasonsFor({ year: 2028 })).toEqual(['year_out_of_range']);
+    expect(reasonsFor({ year: 2027 })).toEqual([]);
+  });
+
+  it('should allow missing coordinates but reject non-US or partial ones', () => {
+    expect(reasonsFor({ latitude: null, longitude: null })).toEqual([]);
+    expect(reasonsFor({ latitude: 27.95, longitude: null })).toEqual(['invalid_coordinates']);
+    expect(reasonsFor({ latitude: 51.5, longitude: -0.12 })).toEqual(['invalid_coordinates']);
+    // Swapped lat/lon is a common feed bug
+    expect(reasonsFor({ latitude: -82.46, longitude: 27.95 })).toEqual(['invalid_coordinates']);
+  });
+
+  it('should report every failing rule for a row', () => {
+    expect(reasonsFor({ vin: 'BAD', price: 0, dealer_vdp_url: '' })).toEqual([
+      'invalid_vin',
+      'missing_dealer_url',
+      'price_out_of_range',
+    ]);
+  });
+
+  it('should respect custom limits', () => {
+    const violations = validateVehicle(
+      buildVehicle({ price: 800 }),
+      { ...DEFAULT_VALIDATION_LIMITS, minPrice: 1000 },
+      NOW
+    );
+    expect(violations.map(v => v.reason)).toEqual(['price_out_of_range']);
+  });
+});
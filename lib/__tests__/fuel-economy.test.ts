@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addToFuelEconomyIndex,
+  driveClasses,
+  matchFuelEconomy,
+  parseEpaRow,
+  type EpaVehicle,
+  type FuelEconomyVehicle,
+} from '../fuel-economy';
+
+/**
+ * Tests for EPA fuel economy parsing and matching
+ * EPA rows are trimmed-down fueleconomy.gov vehicles.csv entries.
+ */
+
+let nextId = 1;
+
+function epa(overrides: Partial<EpaVehicle>): EpaVehicle {
+  return {
+    epa_id: nextId++,
+    year: 2022,
+    make: 'Toyota',
+    model: 'Camry',
+    base_model: 'Camry',
+    cylinders: 4,
+    drive: 'Front-Wheel Drive',
+    fuel_type: 'Regular',
+    atv_type: null,
+    mpg_city: 28,
+    mpg_highway: 39,
+    mpg_combined: 32,
+    ...overrides,
+  };
+}
+
+const index = addToFuelEconomyIndex(new Map(), [
+  epa({}),
+  epa({ model: 'Camry XLE/XSE', mpg_city: 27, mpg_highway: 38, mpg_combined: 31 }),
+  epa({ model: 'Camry', cylinders: 6, mpg_city: 22, mpg_highway: 32, mpg_combined: 26 }),
+  epa({ model: 'Camry Hybrid LE', atv_type: 'Hybrid', mpg_city: 51, mpg_highway: 53, mpg_combined: 52 }),
+  epa({ make: 'Ford', model: 'F150 Pickup 2WD', base_model: 'F150 Pickup', cylinders: 6, drive: 'Rear-Wheel Drive', mpg_city: 20, mpg_highway: 26, mpg_combined: 22 }),
+  epa({ make: 'Ford', model: 'F150 Pickup 4WD', base_model: 'F150 Pickup', cylinders: 6, drive: '4-Wheel Drive', mpg_city: 18, mpg_highway: 24, mpg_combined: 20 }),
+  epa({ make: 'Chevrolet', model: 'Silverado 4WD', base_model: 'Silverado', cylinders: 8, drive: '4-Wheel Drive', mpg_city: 16, mpg_highway: 20, mpg_combined: 17 }),
+]);
+
+function vehicle(overrides: Partial<FuelEconomyVehicle>): FuelEconomyVehicle {
+  return {
+    year: 2022,
+    make: 'Toyota',
+    model: 'Camry',
+    trim: null,
+    cylinders: null,
+    drive_type: null,
+    fuel_type: null,
+    ...overrides,
+  };
+}
+
+describe('parseEpaRow', () => {
+  it('should map fueleconomy.gov columns', () => {
+    const row = parseEpaRow({
+      id: '44512',
+      year: '2022',
+      make: 'Toyota',
+      model: 'Camry',
+      baseModel: 'Camry',
+      cylinders: '4',
+      drive: 'Front-Wheel Drive',
+      fuelType: 'Regular',
+      atvType: '',
+      city08: '28',
+      highway08: '39',
+      comb08: '32',
+    });
+
+    expect(row).toEqual({
+      epa_id: 44512,
+      year: 2022,
+      make: 'Toyota',
+      model: 'Camry',
+      base_model: 'Camry',
+      cylinders: 4,
+      drive: 'Front-Wheel Drive',
+      fuel_type: 'Regular',
+      atv_type: null,
+      mpg_city: 28,
+      mpg_highway: 39,
+      mpg_combined: 32,
+    });
+  });
+
+  it('should skip rows without MPG figures', () => {
+    expect(parseEpaRow({ id: '1', year: '2022', make: 'Toyota', model: 'Camry', city08: '0' })).toBeNull();
+  });
+});
+
+describe('driveClasses', () => {
+  it('should normalize feed and EPA drive descriptions', () => {
+    expect(driveClasses('AWD')).toEqual(['awd']);
+    expect(driveClasses('4X4')).toEqual(['4wd']);
+    expect(driveClasses('Front Wheel Drive')).toEqual(['fwd']);
+    expect(driveClasses('4-Wheel or All-Wheel Drive')).toEqual(['awd', '4wd']);
+    expect(driveClasses('2-Wheel Drive')).toEqual(['fwd', 'rwd']);
+    expect(driveClasses(null)).toEqual([]);
+  });
+});
+
+describe('matchFuelEconomy', () => {
+  it('should prefer the exact model and rule out other cylinder counts', () => {
+    expect(matchFuelEconomy(index, vehicle({ cylinders: 4, trim: 'LE' }))).toEqual({
+      mpg_city: 28,
+      mpg_highway: 39,
+      mpg_combined: 32,
+    });
+    expect(matchFuelEconomy(index, vehicle({ cylinders: 6 }))).toMatchObject({ mpg_city: 22 });
+  });
+
+  it('should use trim words found in the EPA model name', () => {
+    expect(matchFuelEconomy(index, vehicle({ cylinders: 4, trim: 'XSE' }))).toMatchObject({ mpg_city: 27 });
+  });
+
+  it('should match hybrids to the hybrid powertrain', () => {
+    expect(matchFuelEconomy(index, vehicle({ fuel_type: 'Hybrid', trim: 'LE' }))).toMatchObject({ mpg_city: 51 });
+  });
+
+  it('should match on base model and drive, averaging ties', () => {
+    expect(matchFuelEconomy(index, vehicle({ make: 'Ford', model: 'F-150', drive_type: '4WD' }))).toMatchObject({
+      mpg_city: 18,
+    });
+    expect(matchFuelEconomy(index, vehicle({ make: 'Ford', model: 'F-150' }))).toEqual({
+      mpg_city: 19,
+      mpg_highway: 25,
+      mpg_combined: 21,
+    });
+    expect(matchFuelEconomy(index, vehicle({ make: 'Chevrolet', model: 'Silverado 1500' }))).toMatchObject({
+      mpg_city: 16,
+    });
+  });
+
+  it('should return null without a plausible match', () => {
+    expect(matchFuelEconomy(index, vehicle({ model: 'Corolla' }))).toBeNull();
+    expect(matchFuelEconomy(index, vehicle({ year: 2019 }))).toBeNull();
+    expect(matchFuelEconomy(index, vehicle({ make: 'Chevrolet', model: 'Silverado 1500', drive_type: 'FWD' }))).toBeNull();
+    expect(matchFuelEconomy(index, vehicle({ model: null }))).toBeNull();
+  });
+});
@@ -35,6 +35,14 @@ describe('Google Analytics', () => {
     });
   });
 
+  it('values dealer clicks at the vehicle payout, and non-billable clicks at zero', () => {
+    gtag.trackDealerClick({ dealerId: 'd1', vehicleId: 'v1', isBillable: true, payout: 1.4, ctaClicked: 'primary', flow: 'full' });
+    gtag.trackDealerClick({ dealerId: 'd1', vehicleId: 'v1', isBillable: false, payout: 1.4, ctaClicked: 'primary', flow: 'full' });
+
+    expect(window.gtag).toHaveBeenNthCalledWith(1, 'event', 'dealer_click', expect.objectContaining({ value: 1.4 }));
+    expect(window.gtag).toHaveBeenNthCalledWith(2, 'event', 'dealer_click', expect.objectContaining({ value: 0 }));
+  });
+
   it('tracks search with correct parameters', () => {
     gtag.trackSearch({
       make: 'Toyota',
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, get, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import sharp from 'sharp';
+import {
+  checkImage,
+  computeImageHash,
+  hammingDistance,
+  resolveImageFetchUrl,
+  scoreImageChecks,
+  selectImagesToCheck,
+  type ImageCheck,
+} from '../image-health';
+
+/**
+ * Tests for dealer photo checks
+ * Images are generated with sharp and served by a local HTTP server standing in for
+ * IMAGE_HEALTH_ENDPOINT (`/image?url=<original url>`).
+ */
+
+// tests/setup.ts mocks fetch globally, so send requests to the local server over plain http
+function httpFetch(url: string | URL | Request): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    get(String(url), res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve(new Response(Buffer.concat(chunks), { status: res.statusCode })));
+      res.on('error', reject);
+    }).on('error', reject);
+  });
+}
+
+// Wavy pattern: plenty of horizontal structure for a stable dHash
+function photo(width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      const value = 128 + 100 * Math.sin((x / width) * 5 * Math.PI) * Math.cos((y / height) * 3 * Math.PI);
+      pixels[i] = Math.round(value);
+      pixels[i + 1] = Math.round(value * 0.8);
+      pixels[i + 2] = 90;
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).jpeg().toBuffer();
+}
+
+// Grey "coming soon" card with a dark banner across the middle
+function stockCard(width: number, height: number): Promise<Buffer> {
+  const banner = { create: { width, height: Math.round(height / 4), channels: 3 as const, background: '#333333' } };
+  return sharp({ create: { width, height, channels: 3, background: '#cccccc' } })
+    .composite([{ input: { ...banner }, top: Math.round(height / 3), left: 0 }])
+    .png()
+    .toBuffer();
+}
+
+const images = new Map<string, Buffer>();
+let server: Server;
+let endpoint: string;
+
+beforeAll(async () => {
+  images.set('https://dealer.example.com/photo.jpg', await photo(640, 480));
+  images.set('https://dealer.example.com/thumb.jpg', await photo(120, 90));
+  images.set('https://dealer.example.com/coming-soon.png', await stockCard(800, 600));
+
+  server = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost').searchParams.get('url') || '';
+    if (url.endsWith('/not-an-image.jpg')) {
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html>Moved</html>');
+      return;
+    }
+    const image = images.get(url);
+    if (!image) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'image/jpeg' }).end(image);
+  });
+  await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/image`;
+  vi.mocked(fetch).mockImplementation(httpFetch);
+});
+
+afterAll(async () => {
+  await new Promise(done => server.close(done));
+});
+
+describe('computeImageHash', () => {
+  it('should match a resized, re-encoded copy of the same image', async () => {
+    const original = await computeImageHash(await stockCard(800, 600));
+    const copy = await computeImageHash(
+      await sharp(await stockCard(800, 600)).resize(400, 300).jpeg({ quality: 60 }).toBuffer()
+    );
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, copy)).toBeLessThanOrEqual(2);
+  });
+
+  it('should tell different images apart', async () => {
+    const card = await computeImageHash(await stockCard(800, 600));
+    const car = await computeImageHash(await photo(640, 480));
+
+    expect(hammingDistance(card, car)).toBeGreaterThan(10);
+  });
+});
+
+describe('checkImage', () => {
+  it('should accept a real photo', async () => {
+    const check = await checkImage('https://dealer.example.com/photo.jpg', { endpoint });
+
+    expect(check).toMatchObject({ issue: null, width: 640, height: 480 });
+  });
+
+  it('should flag dead links and bodies that are not images', async () => {
+    expect(await checkImage('https://dealer.example.com/missing.jpg', { endpoint })).toMatchObject({
+      issue: 'dead',
+      detail: 'HTTP 404',
+    });
+    expect(await checkImage('https://dealer.example.com/not-an-image.jpg', { endpoint })).toMatchObject({
+      issue: 'dead',
+    });
+  });
+
+  it('should flag images over the size limit', async () => {
+    const check = await checkImage('https://dealer.example.com/photo.jpg', { endpoint, maxBytes: 1024 });
+
+    expect(check).toMatchObject({ issue: 'dead', detail: 'Too large' });
+  });
+
+  it('should skip the download when Content-Length is over the size limit', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      new Response('partial', { status: 200, headers: { 'Content-Length': String(50 * 1024 * 1024) } })
+    );
+
+    const check = await checkImage('https://dealer.example.com/huge.jpg');
+
+    expect(check).toMatchObject({ issue: 'dead', detail: 'Too large' });
+  });
+
+  it('should flag tiny images', async () => {
+    const check = await checkImage('https://dealer.example.com/thumb.jpg', { endpoint });
+
+    expect(check).toMatchObject({ issue: 'tiny', detail: '120x90' });
+  });
+
+  it('should flag known stock photos by perceptual hash', async () => {
+    const hash = await computeImageHash(await sharp(await stockCard(800, 600)).resize(320, 240).toBuffer());
+    const check = await checkImage('https://dealer.example.com/coming-soon.png', {
+      endpoint,
+      stockHashes: [{ hash, label: 'Photo coming soon' }],
+    });
+
+    expect(check).toMatchObject({ issue: 'stock', detail: 'Photo coming soon' });
+  });
+
+  it('should fetch directly when no endpoint is configured', () => {
+    expect(resolveImageFetchUrl('https://dealer.example.com/a.jpg')).toBe('https://dealer.example.com/a.jpg');
+    expect(resolveImageFetchUrl('https://dealer.example.com/a.jpg?w=1', 'http://localhost:4000/image')).toBe(
+      'http://localhost:4000/image?url=https%3A%2F%2Fdealer.example.com%2Fa.jpg%3Fw%3D1'
+    );
+  });
+});
+
+describe('scoreImageChecks', () => {
+  const ok = (url: string): ImageCheck => ({ url, issue: null });
+  const bad = (url: string): ImageCheck => ({ url, issue: 'dead' });
+
+  it('should score the share of real photos', () => {
+    expect(scoreImageChecks([ok('a'), ok('b'), ok('c')])).toBe(100);
+    expect(scoreImageChecks([ok('a'), bad('b'), ok('c')])).toBe(67);
+  });
+
+  it('should cap the score when the primary photo is bad', () => {
+    expect(scoreImageChecks([bad('a'), ok('b'), ok('c')])).toBe(50);
+  });
+
+  it('should score 0 without any real photo', () => {
+    expect(scoreImageChecks([bad('a'), { url: 'b', issue: 'stock' }])).toBe(0);
+    expect(scoreImageChecks([])).toBe(0);
+  });
+});
+
+describe('selectImagesToCheck', () => {
+  it('should check the primary photo first without duplicates', () => {
+    expect(selectImagesToCheck('p.jpg', ['p.jpg', '', 'a.jpg', 'b.jpg', 'c.jpg'])).toEqual(['p.jpg', 'a.jpg', 'b.jpg']);
+    expect(selectImagesToCheck(null, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { createServer, request, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  getInventoryDropPercent,
+  getNotificationConfig,
+  getSyncNotifications,
+  sendNotifications,
+  toSlackPayload,
+  type Notification,
+  type NotificationConfig,
+} from '../notifications';
+import type { FeedSyncResult } from '../feed-sync';
+import { createStageTimings } from '../feed-sync-history';
+
+/**
+ * Tests for sync failure/anomaly webhooks
+ * A local HTTP server stands in for Slack and the JSON webhook; `/flaky` fails twice before
+ * accepting, `/broken` always fails, `/rejected` answers 400.
+ */
+
+// tests/setup.ts mocks fetch globally, so send requests to the local server over plain http
+function httpFetch(url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = request(String(url), { method: init?.method, headers: init?.headers as IncomingHttpHeaders }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve(new Response(Buffer.concat(chunks), { status: res.statusCode })));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end(init?.body as string | undefined);
+  });
+}
+
+const received: Array<{ path: string; body: Record<string, unknown> }> = [];
+const hits = new Map<string, number>();
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const path = req.url || '/';
+      const hit = (hits.get(path) || 0) + 1;
+      hits.set(path, hit);
+
+      if (path === '/broken' || (path === '/flaky' && hit <= 2)) {
+        res.writeHead(503).end();
+        return;
+      }
+      if (path === '/rejected') {
+        res.writeHead(400).end('invalid_payload');
+        return;
+      }
+
+      received.push({ path, body: JSON.parse(Buffer.concat(chunks).toString()) });
+      res.writeHead(200).end('ok');
+    });
+  });
+  await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.mocked(fetch).mockImplementation(httpFetch);
+});
+
+afterAll(async () => {
+  await new Promise(done => server.close(done));
+});
+
+beforeEach(() => {
+  received.length = 0;
+  hits.clear();
+});
+
+function syncResult(overrides: Partial<FeedSyncResult>): FeedSyncResult {
+  return {
+    success: true,
+    status: 'success',
+    source: 'lotlinx',
+    added: 0,
+    updated: 900,
+    unchanged: 0,
+    reactivated: 0,
+    removed: 100,
+    priceChanges: 0,
+    pendingRemoval: 0,
+    feedVehicles: 900,
+    rejected: 0,
+    rejectionsByRule: {},
+    vinFilled: 0,
+    vinMismatches: 0,
+    schemaDrift: null,
+    nullRates: null,
+    rowsRead: 900,
+    stageTimings: createStageTimings(),
+    errors: [],
+    alerts: [],
+    duration: 1000,
+    ...overrides,
+  };
+}
+
+function config(overrides: Partial<NotificationConfig> = {}): NotificationConfig {
+  return {
+    webhooks: [{ url: `${baseUrl}/json`, format: 'json' }],
+    mutedEvents: [],
+    inventoryDropPercent: 20,
+    retries: 2,
+    retryDelayMs: 1,
+    timeoutMs: 2000,
+    ...overrides,
+  };
+}
+
+const failed: Notification = getSyncNotifications(
+  syncResult({ success: false, status: 'failed', errors: ['Feed download failed: 502'] })
+)[0];
+
+describe('getNotificationConfig', () => {
+  it('should read webhooks, mutes and the drop threshold', () => {
+    const result = getNotificationConfig({
+      NOTIFY_SLACK_WEBHOOK_URLS: 'https://hooks.slack.com/services/T/B/X',
+      NOTIFY_WEBHOOK_URLS: 'https://ops.example.com/a, https://ops.example.com/b',
+      NOTIFY_MUTED_EVENTS: 'schema_drift,unknown',
+      NOTIFY_INVENTORY_DROP_PERCENT: '35',
+    } as unknown as NodeJS.ProcessEnv);
+
+    expect(result.webhooks).toEqual([
+      { url: 'https://hooks.slack.com/services/T/B/X', format: 'slack' },
+      { url: 'https://ops.example.com/a', format: 'json' },
+      { url: 'https://ops.example.com/b', format: 'json' },
+    ]);
+    expect(result.mutedEvents).toEqual(['schema_drift']);
+    expect(result.inventoryDropPercent).toBe(35);
+    expect(getNotificationConfig({} as NodeJS.ProcessEnv)).toMatchObject({ webhooks: [], inventoryDropPercent: 20 });
+  });
+});
+
+describe('getSyncNotifications', () => {
+  it('should raise sync_failed with the errors', () => {
+    expect(failed).toMatchObject({
+      event: 'sync_failed',
+      severity: 'critical',
+      source: 'lotlinx',
+      message: 'Feed download failed: 502',
+    });
+  });
+
+  it('should raise inventory_drop above the threshold', () => {
+    expect(getInventoryDropPercent(syncResult({}))).toBeCloseTo(10);
+    expect(getSyncNotifications(syncResult({}))).toEqual([]);
+
+    const [drop] = getSyncNotifications(
+      syncResult({ status: 'partial', updated: 500, removed: 0, pendingRemoval: 500, feedVehicles: 500 })
+    );
+    expect(drop).toMatchObject({
+      event: 'inventory_drop',
+      severity: 'critical',
+      details: { dropPercent: 50, pendingRemoval: 500 },
+    });
+  });
+
+  it('should raise zero_rows instead of inventory_drop for an empty feed', () => {
+    const notifications = getSyncNotifications(
+      syncResult({ status: 'partial', updated: 0, removed: 0, pendingRemoval: 1000, feedVehicles: 0, rowsRead: 0 })
+    );
+
+    expect(notifications.map(n => n.event)).toEqual(['zero_rows']);
+  });
+
+  it('should raise schema_drift, and nothing for skipped runs', () => {
+    const drift = { added: ['StockNumber'], removed: [], renamed: [], missingRequired: [] };
+
+    expect(getSyncNotifications(syncResult({ schemaDrift: drift }))).toMatchObject([
+      { event: 'schema_drift', severity: 'warning', message: 'added: StockNumber' },
+    ]);
+    expect(getSyncNotifications(syncResult({ status: 'skipped', schemaDrift: drift }))).toEqual([]);
+  });
+});
+
+describe('sendNotifications', () => {
+  it('should post the plain JSON event and the Slack payload', async () => {
+    const deliveries = await sendNotifications(
+      [failed],
+      config({
+        webhooks: [
+          { url: `${baseUrl}/json`, format: 'json' },
+          { url: `${baseUrl}/slack`, format: 'slack' },
+        ],
+      })
+    );
+
+    expect(deliveries.every(d => d.delivered)).toBe(true);
+    expect(received.find(r => r.path === '/json')?.body).toMatchObject({
+      event: 'sync_failed',
+      source: 'lotlinx',
+      details: { errors: ['Feed download failed: 502'] },
+    });
+    expect(received.find(r => r.path === '/slack')?.body).toEqual(toSlackPayload(failed));
+    expect(toSlackPayload(failed).text).toBe('🚨 *Feed sync failed: lotlinx*\nFeed download failed: 502');
+  });
+
+  it('should retry server errors until delivered', async () => {
+    const [delivery] = await sendNotifications([failed], config({ webhooks: [{ url: `${baseUrl}/flaky`, format: 'json' }] }));
+
+    expect(delivery).toMatchObject({ delivered: true, attempts: 3 });
+    expect(received).toHaveLength(1);
+  });
+
+  it('should give up after the retries, and not retry client errors', async () => {
+    const [broken, rejected] = await sendNotifications(
+      [failed],
+      config({
+        webhooks: [
+          { url: `${baseUrl}/broken`, format: 'json' },
+          { url: `${baseUrl}/rejected`, format: 'json' },
+        ],
+      })
+    );
+
+    expect(broken).toMatchObject({ delivered: false, attempts: 3, error: 'HTTP 503' });
+    expect(rejected).toMatchObject({ delivered: false, attempts: 1, error: 'HTTP 400' });
+  });
+
+  it('should skip muted events', async () => {
+    const deliveries = await sendNotifications([failed], config({ mutedEvents: ['sync_failed'] }));
+
+    expect(deliveries).toEqual([]);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PAYOUT, resolvePayout, sumBillableRevenue } from '../payout';
+
+describe('resolvePayout', () => {
+  it('should use the vehicle payout when present', () => {
+    expect(resolvePayout(1.25)).toBe(1.25);
+    expect(resolvePayout('2.10')).toBe(2.1); // DECIMAL columns can arrive as strings
+  });
+
+  it('should keep an explicit zero payout', () => {
+    expect(resolvePayout(0)).toBe(0);
+    expect(resolvePayout('0.00')).toBe(0);
+  });
+
+  it.each([null, undefined, '', -1, 'abc'])('should fall back to the flat rate for %s', (payout) => {
+    expect(resolvePayout(payout)).toBe(DEFAULT_PAYOUT);
+  });
+});
+
+describe('sumBillableRevenue', () => {
+  it('should sum payouts of billable clicks only', () => {
+    const revenue = sumBillableRevenue([
+      { is_billable: true, payout: 1.2 },
+      { is_billable: true, payout: '0.95' },
+      { is_billable: false, payout: 3 },
+    ]);
+
+    expect(revenue).toBe(2.15);
+  });
+
+  it('should value legacy billable clicks without a payout at the flat rate', () => {
+    expect(sumBillableRevenue([{ is_billable: true, payout: null }, { is_billable: true }])).toBe(1.6);
+  });
+
+  it('should not value zero-payout clicks at the flat rate', () => {
+    expect(sumBillableRevenue([{ is_billable: true, payout: 0 }, { is_billable: true, payout: 1.2 }])).toBe(1.2);
+  });
+});
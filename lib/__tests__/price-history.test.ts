@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getRecentPriceDrop, nextPriceState, priceChanged } from '../price-history';
+
+/**
+ * Tests for price-change bookkeeping and the "Price dropped" badge window
+ */
+
+const SYNCED_AT = '2025-11-25T06:00:00.000Z';
+
+describe('priceChanged', () => {
+  it('should compare to the cent', () => {
+    expect(priceChanged(24500, 24500.001)).toBe(false);
+    expect(priceChanged(24500, 24499.99)).toBe(true);
+  });
+});
+
+describe('nextPriceState', () => {
+  it('should start new VINs without a change', () => {
+    expect(nextPriceState(undefined, 24500, SYNCED_AT)).toEqual({
+      price: 24500,
+      price_drop: null,
+      last_price_change: null,
+    });
+  });
+
+  it('should record the drop amount on a decrease', () => {
+    const previous = { price: 24500, price_drop: null, last_price_change: null };
+    expect(nextPriceState(previous, 23250.5, SYNCED_AT)).toEqual({
+      price: 23250.5,
+      price_drop: 1249.5,
+      last_price_change: SYNCED_AT,
+    });
+  });
+
+  it('should clear the drop on an increase', () => {
+    const previous = { price: 23000, price_drop: 1500, last_price_change: '2025-11-01T00:00:00.000Z' };
+    expect(nextPriceState(previous, 23500, SYNCED_AT)).toEqual({
+      price: 23500,
+      price_drop: null,
+      last_price_change: SYNCED_AT,
+    });
+  });
+
+  it('should carry the previous change when the price is the same', () => {
+    const previous = { price: 23000, price_drop: 1500, last_price_change: '2025-11-01T00:00:00.000Z' };
+    expect(nextPriceState(previous, 23000, SYNCED_AT)).toEqual(previous);
+  });
+});
+
+describe('getRecentPriceDrop', () => {
+  const now = new Date('2025-11-25T00:00:00Z');
+
+  it('should return drops within the badge window', () => {
+    expect(getRecentPriceDrop({ price_drop: 1000, last_price_change: '2025-11-20T00:00:00Z' }, now)).toBe(1000);
+  });
+
+  it('should ignore stale drops', () => {
+    expect(getRecentPriceDrop({ price_drop: 1000, last_price_change: '2025-10-01T00:00:00Z' }, now)).toBeNull();
+  });
+
+  it('should ignore missing or non-positive drops', () => {
+    expect(getRecentPriceDrop({}, now)).toBeNull();
+    expect(getRecentPriceDrop({ price_drop: null, last_price_change: '2025-11-20T00:00:00Z' }, now)).toBeNull();
+    expect(getRecentPriceDrop({ price_drop: 1000, last_price_change: null }, now)).toBeNull();
+  });
+
+  it('should accept drops returned as strings (NUMERIC columns)', () => {
+    const drop = getRecentPriceDrop(
+      { price_drop: '750.00' as unknown as number, last_price_change: '2025-11-20T00:00:00Z' },
+      now
+    );
+    expect(drop).toBe(750);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchFacets, emptySearchFacets, keepOfferedValues, visibleFacetOptions } from '../search-facets';
+
+describe('buildSearchFacets', () => {
+  it('groups rows by dimension and sorts each list', () => {
+    const facets = buildSearchFacets([
+      { dimension: 'make', value: 'Toyota', vehicle_count: '12' },
+      { dimension: 'make', value: 'Honda', vehicle_count: 3 },
+      { dimension: 'year', value: '2022', vehicle_count: 4 },
+      { dimension: 'year', value: '2024', vehicle_count: 9 },
+      { dimension: 'doors', value: '4', vehicle_count: 10 },
+      { dimension: 'doors', value: '2', vehicle_count: 1 },
+      { dimension: 'certified', value: 'true', vehicle_count: '5' },
+    ]);
+
+    expect(facets.makes).toEqual([
+      { value: 'Honda', count: 3 },
+      { value: 'Toyota', count: 12 },
+    ]);
+    expect(facets.years.map((option) => option.value)).toEqual(['2024', '2022']);
+    expect(facets.doors.map((option) => option.value)).toEqual(['2', '4']);
+    expect(facets.certifiedCount).toBe(5);
+  });
+
+  it('drops zero counts and unknown dimensions', () => {
+    const facets = buildSearchFacets([
+      { dimension: 'make', value: 'Ford', vehicle_count: 0 },
+      { dimension: 'trim', value: 'XLE', vehicle_count: 2 },
+      { dimension: 'certified', value: 'true', vehicle_count: 0 },
+    ]);
+
+    expect(facets).toEqual(emptySearchFacets());
+  });
+
+  it('returns empty facets when the RPC returns nothing', () => {
+    expect(buildSearchFacets(null)).toEqual(emptySearchFacets());
+  });
+});
+
+describe('visibleFacetOptions', () => {
+  const options = [{ value: 'Honda', count: 3 }];
+
+  it('keeps a selected value that has no vehicles left', () => {
+    expect(visibleFacetOptions(options, 'Tesla')).toEqual([{ value: 'Tesla', count: 0 }, ...options]);
+  });
+
+  it('keeps every selected value of a multi-value filter', () => {
+    expect(visibleFacetOptions(options, ['Honda', 'Tesla', 'Rivian'])).toEqual([
+      { value: 'Tesla', count: 0 },
+      { value: 'Rivian', count: 0 },
+      ...options,
+    ]);
+  });
+
+  it('returns the options unchanged otherwise', () => {
+    expect(visibleFacetOptions(options, 'Honda')).toBe(options);
+    expect(visibleFacetOptions(options, ['Honda'])).toBe(options);
+    expect(visibleFacetOptions(options)).toBe(options);
+  });
+});
+
+describe('keepOfferedValues', () => {
+  it('drops selected values the facet no longer lists', () => {
+    const models = [{ value: 'Camry', count: 4 }, { value: 'RAV4', count: 2 }];
+
+    expect(keepOfferedValues(['Civic', 'Camry'], models)).toEqual(['Camry']);
+    expect(keepOfferedValues([], models)).toEqual([]);
+  });
+});
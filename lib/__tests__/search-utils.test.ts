@@ -1,6 +1,22 @@
 
 import { describe, it, expect } from 'vitest';
-import { shouldApplyDiversification } from '../search-utils';
+import {
+  compareByRelevance,
+  getKeywordExcerpt,
+  getKeywordTerms,
+  imageQualityFactor,
+  NO_PHOTO_RELEVANCE_FACTOR,
+  parseAndValidateNumber,
+  parseIntegerParam,
+  parseMultiValueField,
+  parseMultiValueParam,
+  parseSearchRadius,
+  relevanceScore,
+  RELEVANCE_DISTANCE_MILES,
+  shouldApplyDiversification,
+  splitHighlights,
+  toRadiusMiles,
+} from '../search-utils';
 
 describe('shouldApplyDiversification', () => {
   it.each([
@@ -18,3 +34,183 @@ describe('shouldApplyDiversification', () => {
     expect(shouldApplyDiversification(sortBy)).toBe(expected);
   });
 });
+
+describe('compareByRelevance', () => {
+  it('should rank a higher payout above a slightly closer vehicle', () => {
+    const near = { year: 2022, payout: 0.8, distance_miles: 5 };
+    const far = { year: 2022, payout: 2.0, distance_miles: 15 };
+
+    expect([near, far].sort(compareByRelevance)).toEqual([far, near]);
+  });
+
+  it('should discount payout by distance', () => {
+    expect(relevanceScore({ year: 2022, payout: 1.6, distance_miles: RELEVANCE_DISTANCE_MILES })).toBeCloseTo(0.8);
+    expect(relevanceScore({ year: 2022, payout: null, distance_miles: 0 })).toBe(0.8);
+  });
+
+  it('should rank a zero-payout vehicle below paying ones', () => {
+    const unpaid = { year: 2022, payout: 0, distance_miles: 1 };
+    const paid = { year: 2022, payout: 0.5, distance_miles: 50 };
+
+    expect(relevanceScore(unpaid)).toBe(0);
+    expect([unpaid, paid].sort(compareByRelevance)).toEqual([paid, unpaid]);
+  });
+
+  it('should sort by year then payout without a location', () => {
+    const older = { year: 2020, payout: 3 };
+    const newLow = { year: 2023, payout: 0.5 };
+    const newHigh = { year: 2023, payout: 1.5 };
+
+    expect([older, newLow, newHigh].sort(compareByRelevance)).toEqual([newHigh, newLow, older]);
+  });
+
+  it('should break ties by feed priority', () => {
+    const low = { year: 2022, payout: 1, distance_miles: 10, priority: 1 };
+    const high = { year: 2022, payout: 1, distance_miles: 10, priority: 5 };
+
+    expect([low, high].sort(compareByRelevance)).toEqual([high, low]);
+  });
+
+  it('should demote a nearby listing with no real photo below a farther one with photos', () => {
+    const noPhoto = { year: 2022, payout: 1, distance_miles: 2, image_quality_score: 0 };
+    const withPhotos = { year: 2022, payout: 1, distance_miles: 40, image_quality_score: 100 };
+
+    expect([noPhoto, withPhotos].sort(compareByRelevance)).toEqual([withPhotos, noPhoto]);
+  });
+
+  it('should rank listings with a real photo first without a location', () => {
+    const noPhoto = { year: 2024, payout: 2, image_quality_score: 0 };
+    const unchecked = { year: 2021, payout: 1, image_quality_score: null };
+
+    expect([noPhoto, unchecked].sort(compareByRelevance)).toEqual([unchecked, noPhoto]);
+  });
+});
+
+describe('imageQualityFactor', () => {
+  it('should scale relevance by photo quality', () => {
+    expect(imageQualityFactor(null)).toBe(1);
+    expect(imageQualityFactor(100)).toBe(1);
+    expect(imageQualityFactor(50)).toBe(0.75);
+    expect(imageQualityFactor(0)).toBe(NO_PHOTO_RELEVANCE_FACTOR);
+  });
+});
+
+describe('getKeywordTerms', () => {
+  it('should lower-case, de-duplicate and drop quotes, exclusions and "or"', () => {
+    expect(getKeywordTerms('"Tow Package" camry or -leather Camry')).toEqual(['tow', 'package', 'camry']);
+  });
+
+  it('should ignore empty queries and single characters', () => {
+    expect(getKeywordTerms(undefined)).toEqual([]);
+    expect(getKeywordTerms('  x  ')).toEqual([]);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('should mark terms at the start of a word, case-insensitively', () => {
+    expect(splitHighlights('2021 Toyota Camry SE', ['cam', 'toyota'])).toEqual([
+      { text: '2021 ', match: false },
+      { text: 'Toyota', match: true },
+      { text: ' ', match: false },
+      { text: 'Cam', match: true },
+      { text: 'ry SE', match: false },
+    ]);
+  });
+
+  it('should not mark a term inside a word', () => {
+    expect(splitHighlights('Silverado', ['ado'])).toEqual([{ text: 'Silverado', match: false }]);
+  });
+
+  it('should treat regex characters in terms literally', () => {
+    expect(splitHighlights('F-150 (4x4)', ['4x4)'])).toEqual([
+      { text: 'F-150 (', match: false },
+      { text: '4x4)', match: true },
+    ]);
+  });
+});
+
+describe('getKeywordExcerpt', () => {
+  const description = 'One owner, clean history. Equipped with a panoramic sunroof, heated seats and a tow package.';
+
+  it('should return null when nothing matches', () => {
+    expect(getKeywordExcerpt(description, ['convertible'])).toBeNull();
+    expect(getKeywordExcerpt(null, ['sunroof'])).toBeNull();
+  });
+
+  it('should cut an excerpt around the first match', () => {
+    const excerpt = getKeywordExcerpt(description, ['sunroof'], 40);
+
+    expect(excerpt).toContain('sunroof');
+    expect(excerpt?.startsWith('…')).toBe(true);
+    expect(excerpt?.endsWith('…')).toBe(true);
+  });
+
+  it('should return short text whole', () => {
+    expect(getKeywordExcerpt('Heated seats', ['heated'])).toBe('Heated seats');
+  });
+});
+
+describe('parseSearchRadius', () => {
+  it.each([
+    ['25', 25],
+    [100, 100],
+    ['any', 'any'],
+    [undefined, null],
+    ['', null],
+    ['30', null],
+    ['ten', null],
+    [true, null],
+  ])('should parse %s as %s', (value, expected) => {
+    expect(parseSearchRadius(value)).toBe(expected);
+  });
+});
+
+describe('toRadiusMiles', () => {
+  it('should map the default to NULL and "any" to 0', () => {
+    expect(toRadiusMiles(null)).toBeNull();
+    expect(toRadiusMiles('any')).toBe(0);
+    expect(toRadiusMiles(50)).toBe(50);
+  });
+});
+
+describe('parseAndValidateNumber', () => {
+  it('should parse numbers within range', () => {
+    expect(parseAndValidateNumber('15000.5', 0)).toBe(15000.5);
+    expect(parseAndValidateNumber('-74.0', -180, 180)).toBe(-74);
+  });
+
+  it.each([undefined, '', 'abc', '-1'])('should return null for %s', (value) => {
+    expect(parseAndValidateNumber(value, 0)).toBeNull();
+  });
+});
+
+describe('parseIntegerParam', () => {
+  it('should accept whole numbers at or above the minimum', () => {
+    expect(parseIntegerParam('4', 1)).toBe(4);
+  });
+
+  it.each(['0', '2.5', 'four', null])('should return null for %s', (value) => {
+    expect(parseIntegerParam(value, 1)).toBeNull();
+  });
+});
+
+describe('parseMultiValueParam', () => {
+  it('should split, trim and deduplicate comma-separated values', () => {
+    expect(parseMultiValueParam('Honda, Toyota,,Honda')).toEqual(['Honda', 'Toyota']);
+    expect(parseMultiValueParam('Land Rover')).toEqual(['Land Rover']);
+    expect(parseMultiValueParam(undefined)).toEqual([]);
+  });
+});
+
+describe('parseMultiValueField', () => {
+  it('should accept a string or an array of strings', () => {
+    expect(parseMultiValueField('Honda')).toEqual(['Honda']);
+    expect(parseMultiValueField(['Honda', ' Toyota ', ''])).toEqual(['Honda', 'Toyota']);
+    expect(parseMultiValueField(null)).toEqual([]);
+  });
+
+  it('should reject anything else', () => {
+    expect(parseMultiValueField(42)).toBeNull();
+    expect(parseMultiValueField(['Honda', 1])).toBeNull();
+  });
+});
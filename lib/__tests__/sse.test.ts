@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { formatSseEvent, parseSseEvents } from '../sse';
+
+describe('parseSseEvents', () => {
+  it('should round-trip formatted events and keep the unfinished tail', () => {
+    const stream = formatSseEvent('progress', { rows: 1000 }) + formatSseEvent('done', { status: 'success' });
+    const cut = stream.length - 5;
+
+    const first = parseSseEvents(stream.slice(0, cut));
+    expect(first.events).toEqual([{ event: 'progress', data: { rows: 1000 } }]);
+
+    const second = parseSseEvents(first.rest + stream.slice(cut));
+    expect(second).toEqual({ events: [{ event: 'done', data: { status: 'success' } }], rest: '' });
+  });
+
+  it('should ignore comments and default the event name', () => {
+    expect(parseSseEvents(': keep-alive\n\ndata: "hi"\n\n').events).toEqual([{ event: 'message', data: 'hi' }]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getFeatureLabels, parseFeatureParam, parseFeatures } from '../vehicle-features';
+
+describe('parseFeatures', () => {
+  it('should normalize a LotLinx options string into canonical features', () => {
+    const options =
+      'Power Moonroof, Leather Seats, Heated Front Seats, 3rd Row Seating, Apple CarPlay, ' +
+      'Android Auto, Trailer Hitch, Navigation System, Rear View Camera, Bluetooth';
+
+    expect(parseFeatures(options)).toEqual([
+      'sunroof',
+      'leather',
+      'third_row',
+      'apple_carplay',
+      'android_auto',
+      'tow_package',
+      'heated_seats',
+      'navigation',
+      'backup_camera',
+      'bluetooth',
+    ]);
+  });
+
+  it('should match common spelling variants', () => {
+    expect(parseFeatures('SUNROOF')).toEqual(['sunroof']);
+    expect(parseFeatures('Panoramic Glass Roof')).toEqual(['sunroof']);
+    expect(parseFeatures('Towing Package')).toEqual(['tow_package']);
+    expect(parseFeatures('Third-Row Seat; 8-Passenger')).toEqual(['third_row']);
+    expect(parseFeatures('Heated Driver Seat')).toEqual(['heated_seats']);
+    expect(parseFeatures('Ventilated Front Seats')).toEqual(['cooled_seats']);
+  });
+
+  it('should not treat leather-wrapped trim as leather seats', () => {
+    expect(parseFeatures('Leather-Wrapped Steering Wheel, Leather Shift Knob')).toEqual([]);
+    expect(parseFeatures('Leatherette Seats')).toEqual([]);
+  });
+
+  it('should return an empty list for missing options', () => {
+    expect(parseFeatures(null)).toEqual([]);
+    expect(parseFeatures('')).toEqual([]);
+    expect(parseFeatures('Floor Mats')).toEqual([]);
+  });
+});
+
+describe('getFeatureLabels', () => {
+  it('should label known ids in taxonomy order and skip unknown ids', () => {
+    expect(getFeatureLabels(['heated_seats', 'retired_feature', 'sunroof'])).toEqual([
+      'Sunroof / Moonroof',
+      'Heated Seats',
+    ]);
+    expect(getFeatureLabels(null)).toEqual([]);
+  });
+});
+
+describe('parseFeatureParam', () => {
+  it('should keep only known feature ids', () => {
+    expect(parseFeatureParam('leather, sunroof,bogus')).toEqual(['sunroof', 'leather']);
+    expect(parseFeatureParam(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { daysListed, isRecentlySold } from '../vehicle-lifecycle';
+
+/**
+ * Tests for lifecycle helpers used by the feed sync and the VDP
+ */
+
+describe('daysListed', () => {
+  it('should count whole days between listing and delisting', () => {
+    expect(daysListed('2025-11-01T12:00:00Z', '2025-11-11T11:59:59Z')).toBe(9);
+    expect(daysListed('2025-11-01T12:00:00Z', '2025-11-11T12:00:00Z')).toBe(10);
+  });
+
+  it('should return null when the listing start is unknown', () => {
+    expect(daysListed(null, '2025-11-11T00:00:00Z')).toBeNull();
+    expect(daysListed('not a date', '2025-11-11T00:00:00Z')).toBeNull();
+  });
+
+  it('should never go negative', () => {
+    expect(daysListed('2025-11-12T00:00:00Z', '2025-11-11T00:00:00Z')).toBe(0);
+  });
+});
+
+describe('isRecentlySold', () => {
+  const now = new Date('2025-11-26T00:00:00Z');
+
+  it('should accept vehicles delisted within the window', () => {
+    expect(isRecentlySold({ is_active: false, delisted_at: '2025-11-20T00:00:00Z' }, now)).toBe(true);
+  });
+
+  it('should reject active, stale, or undated vehicles', () => {
+    expect(isRecentlySold({ is_active: true, delisted_at: '2025-11-20T00:00:00Z' }, now)).toBe(false);
+    expect(isRecentlySold({ is_active: false, delisted_at: '2025-09-01T00:00:00Z' }, now)).toBe(false);
+    expect(isRecentlySold({ is_active: false, delisted_at: null }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import type { DbVehicle } from '../feed-sources';
+import {
+  computeCheckDigit,
+  decodeModelYear,
+  decodeVin,
+  getVinCountry,
+  isValidVin,
+  lookupWmi,
+  modelYearCandidates,
+  reconcileVehicleWithVin,
+} from '../vin';
+
+/**
+ * Tests for offline VIN decoding
+ */
+
+const HONDA_1991 = '1HGBH41JXMN109186';
+const TESLA_2019 = '5YJ3E1EA6KF123456';
+
+describe('computeCheckDigit / isValidVin', () => {
+  it('should compute the position-9 check digit', () => {
+    expect(computeCheckDigit(HONDA_1991)).toBe('X');
+    expect(computeCheckDigit(TESLA_2019)).toBe('6');
+    expect(isValidVin(HONDA_1991)).toBe(true);
+  });
+
+  it('should reject a wrong check digit', () => {
+    expect(isValidVin('5YJ3E1EA7KF123456')).toBe(false);
+  });
+
+  it('should reject malformed VINs', () => {
+    expect(computeCheckDigit('1HGBH41JXMN10918O')).toBeNull();
+    expect(isValidVin('ABC123')).toBe(false);
+    expect(isValidVin('')).toBe(false);
+  });
+});
+
+describe('model year', () => {
+  it('should list both 30-year cycles', () => {
+    expect(modelYearCandidates(HONDA_1991)).toEqual([1991, 2021]);
+    expect(modelYearCandidates('1HGBH41JXUN109186')).toEqual([]); // U is not a year code
+  });
+
+  it('should pick the cycle from position 7', () => {
+    expect(decodeModelYear(HONDA_1991)).toBe(1991); // digit
+    expect(decodeModelYear(TESLA_2019)).toBe(2019); // letter
+  });
+});
+
+describe('lookupWmi / getVinCountry', () => {
+  it('should look up the manufacturer from the bundled dataset', () => {
+    expect(lookupWmi(TESLA_2019)).toEqual({ manufacturer: 'Tesla, Inc.', makes: ['Tesla'] });
+    expect(lookupWmi('1C4RJFBG8FC123456')?.makes).toEqual(['Chrysler', 'Dodge', 'Jeep']);
+    expect(lookupWmi('9ZZ00000000000000')).toBeNull();
+  });
+
+  it('should decode the country of manufacture', () => {
+    expect(getVinCountry(TESLA_2019)).toBe('United States');
+    expect(getVinCountry('2T1BURHE8JC123456')).toBe('Canada');
+    expect(getVinCountry('JTDKN3DU0A0123456')).toBe('Japan');
+    expect(getVinCountry('WBA3A5C50CF123456')).toBe('Germany');
+  });
+});
+
+describe('decodeVin', () => {
+  it('should normalize case and decode everything', () => {
+    expect(decodeVin(' 5yj3e1ea6kf123456 ')).toEqual({
+      vin: TESLA_2019,
+      checkDigitValid: true,
+      modelYear: 2019,
+      manufacturer: 'Tesla, Inc.',
+      makes: ['Tesla'],
+      country: 'United States',
+    });
+  });
+
+  it('should return null for malformed VINs', () => {
+    expect(decodeVin('NOT-A-VIN')).toBeNull();
+  });
+});
+
+describe('reconcileVehicleWithVin', () => {
+  const vehicle = (overrides: Partial<DbVehicle>) =>
+    ({ vin: TESLA_2019, year: 2019, make: 'Tesla', ...overrides }) as DbVehicle;
+
+  it('should leave agreeing rows alone', () => {
+    const result = reconcileVehicleWithVin(vehicle({}));
+    expect(result.filled).toEqual([]);
+    expect(result.mismatches).toEqual([]);
+    expect(result.vehicle.vin_mismatches).toEqual([]);
+  });
+
+  it('should fill a missing year and make', () => {
+    const result = reconcileVehicleWithVin(vehicle({ year: null, make: '' }));
+    expect(result.filled).toEqual(['year', 'make']);
+    expect(result.vehicle.year).toBe(2019);
+    expect(result.vehicle.make).toBe('Tesla');
+  });
+
+  it('should not guess a make for shared WMIs', () => {
+    const result = reconcileVehicleWithVin(vehicle({ vin: '1C4RJFBG8FC123456', make: null }));
+    expect(result.filled).not.toContain('make');
+    expect(result.vehicle.make).toBeNull();
+  });
+
+  it('should flag disagreements but keep the feed values', () => {
+    const result = reconcileVehicleWithVin(vehicle({ year: 2015, make: 'Ford' }));
+    expect(result.mismatches).toEqual(['year', 'make']);
+    expect(result.vehicle).toMatchObject({ year: 2015, make: 'Ford', vin_mismatches: ['year', 'make'] });
+  });
+
+  it('should accept either year cycle and loosely formatted makes', () => {
+    const result = reconcileVehicleWithVin(
+      vehicle({ vin: '4JGDA5HB5HA123456', year: 2017, make: 'MERCEDES BENZ' })
+    );
+    expect(result.mismatches).toEqual([]);
+  });
+});
@@ -1,8 +1,22 @@
 import { supabaseAdmin } from '@/lib/supabase';
 import { unstable_cache } from 'next/cache';
+import type { RejectionReason } from '@/lib/feed-validation';
+import type { DaysToSellGroup } from '@/lib/vehicle-lifecycle';
+import type { Dealer } from '@/lib/supabase';
+import { getDealer, getDealerInventory, type DealerInventory, type DealerInventoryQuery } from '@/lib/dealers';
+import { sumBillableRevenue } from '@/lib/payout';
+import type { FeedSchemaDrift } from '@/lib/feed-schema';
+import {
+  getFeedFreshness,
+  normalizeStageTimings,
+  type FeedFreshness,
+  type StageTimings,
+} from '@/lib/feed-sync-history';
 
 const MAX_METRO_RESULTS = 10;
 const MAX_MAKE_RESULTS = 15;
+const MAX_RECENT_SYNC_LOGS = 20;
+const BILLING_WINDOW_DAYS = 30; // dealer_click_history window
 
 export interface InventoryCount {
   body_style?: string;
@@ -132,3 +146,600 @@ export const getCachedCombinations = unstable_cache(
   ['admin-data', 'combinations'],
   { revalidate: 300 } // 5 minutes
 );
+
+export interface FeedRejection {
+  id: string;
+  sync_run_id: string;
+  source: string;
+  vin: string | null;
+  dealer_id: string | null;
+  dealer_name: string | null;
+  reasons: RejectionReason[];
+  messages: string[];
+  vehicle: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface FeedRejectionSummary {
+  sync_run_id: string | null;
+  source: string;
+  synced_at: string | null;
+  vehicles_rejected: number;
+  rejections_by_rule: Partial<Record<RejectionReason, number>>;
+}
+
+export interface FeedRejectionsQuery {
+  reason?: RejectionReason;
+  source?: string;
+  syncRunId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FeedRejectionsData {
+  rejections: FeedRejection[];
+  total: number;
+  latest_syncs: FeedRejectionSummary[];
+}
+
+/**
+ * Fetches quarantined feed rows (newest first) plus the rejection summary
+ * of the most recent sync per source.
+ */
+export async function getFeedRejections(query: FeedRejectionsQuery = {}): Promise<FeedRejectionsData> {
+  try {
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    let rejectionsQuery = supabaseAdmin
+      .from('feed_rejections')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (query.reason) rejectionsQuery = rejectionsQuery.contains('reasons', [query.reason]);
+    if (query.source) rejectionsQuery = rejectionsQuery.eq('source', query.source);
+    if (query.syncRunId) rejectionsQuery = rejectionsQuery.eq('sync_run_id', query.syncRunId);
+
+    const [rejectionsResult, logsResult] = await Promise.all([
+      rejectionsQuery,
+      supabaseAdmin
+        .from('feed_sync_logs')
+        .select('sync_run_id, source, sync_completed_at, vehicles_rejected, rejections_by_rule')
+        .order('sync_completed_at', { ascending: false })
+        .limit(MAX_RECENT_SYNC_LOGS),
+    ]);
+
+    if (rejectionsResult.error) throw rejectionsResult.error;
+    if (logsResult.error) throw logsResult.error;
+
+    // Keep only the newest log per source
+    const latestSyncs = new Map<string, FeedRejectionSummary>();
+    for (const log of logsResult.data || []) {
+      if (latestSyncs.has(log.source)) continue;
+      latestSyncs.set(log.source, {
+        sync_run_id: log.sync_run_id,
+        source: log.source,
+        synced_at: log.sync_completed_at,
+        vehicles_rejected: log.vehicles_rejected || 0,
+        rejections_by_rule: log.rejections_by_rule || {},
+      });
+    }
+
+    return {
+      rejections: (rejectionsResult.data as FeedRejection[] | null) || [],
+      total: rejectionsResult.count || 0,
+      latest_syncs: Array.from(latestSyncs.values()),
+    };
+  } catch (error) {
+    console.error('Error fetching feed rejections:', error);
+    throw error;
+  }
+}
+
+export interface HeldDeactivation {
+  sync_log_id: string;
+  sync_run_id: string;
+  source: string;
+  sync_started_at: string;
+  vehicles_pending_removal: number;
+  alert_message: string | null;
+}
+
+/**
+ * Sources whose latest sync was held back by the deactivation circuit breaker
+ */
+export async function getHeldDeactivations(): Promise<HeldDeactivation[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('feed_sync_logs')
+      .select('id, sync_run_id, source, status, sync_started_at, vehicles_pending_removal, alert_message')
+      .order('sync_completed_at', { ascending: false })
+      .limit(MAX_RECENT_SYNC_LOGS);
+
+    if (error) throw error;
+
+    // Only the newest log per source matters - a later sync supersedes the hold
+    const seen = new Set<string>();
+    const held: HeldDeactivation[] = [];
+    for (const log of data || []) {
+      if (seen.has(log.source)) continue;
+      seen.add(log.source);
+      if (log.status !== 'partial') continue;
+      held.push({
+        sync_log_id: log.id,
+        sync_run_id: log.sync_run_id,
+        source: log.source,
+        sync_started_at: log.sync_started_at,
+        vehicles_pending_removal: log.vehicles_pending_removal || 0,
+        alert_message: log.alert_message,
+      });
+    }
+
+    return held;
+  } catch (error) {
+    console.error('Error fetching held deactivations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Admin override for the circuit breaker: deactivate the vehicles a held sync skipped
+ * The held VINs were recorded in feed_pending_deactivations by that run.
+ *
+ * @returns Number of vehicles deactivated, or null if the source has no held sync
+ */
+export async function forceHeldDeactivation(source: string): Promise<number | null> {
+  try {
+    const held = (await getHeldDeactivations()).find(h => h.source === source);
+    if (!held) return null;
+
+    const { data, error } = await supabaseAdmin.rpc('apply_pending_deactivations', {
+      p_sync_run_id: held.sync_run_id,
+    });
+
+    if (error) throw error;
+
+    const removed = Number(data) || 0;
+
+    const { error: logError } = await supabaseAdmin
+      .from('feed_sync_logs')
+      .update({
+        status: 'success',
+        vehicles_removed: removed,
+        vehicles_pending_removal: 0,
+        deactivation_forced_at: new Date().toISOString(),
+      })
+      .eq('id', held.sync_log_id);
+
+    if (logError) throw logError;
+
+    // Non-fatal: the next sync refreshes dealers anyway
+    const { error: dealersError } = await supabaseAdmin.rpc('refresh_dealers');
+    if (dealersError) {
+      console.error('Error refreshing dealers after forced deactivation:', dealersError);
+    }
+
+    return removed;
+  } catch (error) {
+    console.error('Error forcing held deactivation:', error);
+    throw error;
+  }
+}
+
+export interface CancelledFeedSync {
+  source: string;
+  sync_run_id: string;
+}
+
+/**
+ * Ask running syncs (one source, or all) to stop at their next checkpoint
+ * The run may be on another server instance, so the request goes through feed_sync_checkpoints.
+ *
+ * @returns Runs that were asked to stop (empty if none was running)
+ */
+export async function cancelFeedSync(source?: string): Promise<CancelledFeedSync[]> {
+  try {
+    const now = new Date().toISOString();
+    let query = supabaseAdmin
+      .from('feed_sync_checkpoints')
+      .update({ cancel_requested_at: now })
+      .eq('status', 'running')
+      .gt('lease_expires_at', now);
+
+    if (source) query = query.eq('source', source);
+
+    const { data, error } = await query.select('source, sync_run_id');
+
+    if (error) throw error;
+
+    return (data || []) as CancelledFeedSync[];
+  } catch (error) {
+    console.error('Error cancelling feed sync:', error);
+    throw error;
+  }
+}
+
+/** Logged sync statuses (skipped runs are never logged) */
+export const FEED_SYNC_LOG_STATUSES = ['success', 'partial', 'failed'] as const;
+
+export type FeedSyncLogStatus = (typeof FEED_SYNC_LOG_STATUSES)[number];
+
+/** Columns for the run list (drill-down reads the full row) */
+const FEED_SYNC_RUN_COLUMNS =
+  'id, sync_run_id, source, status, sync_started_at, sync_completed_at, duration_seconds, rows_read, total_vehicles, vehicles_added, vehicles_updated, vehicles_unchanged, vehicles_reactivated, vehicles_removed, vehicles_pending_removal, vehicles_rejected, price_changes, stage_timings, error_message, alert_message';
+
+export interface FeedSyncRun {
+  id: string;
+  sync_run_id: string | null;
+  source: string;
+  status: FeedSyncLogStatus;
+  sync_started_at: string | null;
+  sync_completed_at: string | null;
+  duration_seconds: number | null;
+  rows_read: number | null;
+  total_vehicles: number | null;
+  vehicles_added: number;
+  vehicles_updated: number;
+  vehicles_unchanged: number;
+  vehicles_reactivated: number;
+  vehicles_removed: number;
+  vehicles_pending_removal: number;
+  vehicles_rejected: number;
+  price_changes: number;
+  stage_timings: StageTimings;
+  error_message: string | null;
+  alert_message: string | null;
+}
+
+export interface FeedSyncRunDetail extends FeedSyncRun {
+  rejections_by_rule: Partial<Record<RejectionReason, number>>;
+  vins_filled: number;
+  vins_mismatched: number;
+  schema_drift: FeedSchemaDrift | null;
+  column_null_rates: Record<string, number> | null;
+  deactivation_forced_at: string | null;
+}
+
+export interface FeedSourceFreshness {
+  source: string;
+  freshness: FeedFreshness;
+  /** Completion of the newest success/partial run */
+  last_success_at: string | null;
+  last_run_at: string | null;
+  last_status: FeedSyncLogStatus | null;
+  /** A run holds the source's sync lock right now (feed_sync_checkpoints) */
+  running: boolean;
+}
+
+export interface FeedSyncRunsQuery {
+  source?: string;
+  status?: FeedSyncLogStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FeedSyncRunsData {
+  runs: FeedSyncRun[];
+  total: number;
+  freshness: FeedSourceFreshness[];
+}
+
+function toFeedSyncRun<T extends FeedSyncRun>(row: Record<string, unknown>): T {
+  return { ...row, stage_timings: normalizeStageTimings(row.stage_timings) } as T;
+}
+
+/**
+ * Sync run history (newest first) plus a freshness summary per source
+ */
+export async function getFeedSyncRuns(query: FeedSyncRunsQuery = {}): Promise<FeedSyncRunsData> {
+  try {
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    let runsQuery = supabaseAdmin
+      .from('feed_sync_logs')
+      .select(FEED_SYNC_RUN_COLUMNS, { count: 'exact' })
+      .order('sync_completed_at', { ascending: false, nullsFirst: false })
+      .range(offset, offset + limit - 1);
+
+    if (query.source) runsQuery = runsQuery.eq('source', query.source);
+    if (query.status) runsQuery = runsQuery.eq('status', query.status);
+
+    const [runsResult, freshness] = await Promise.all([runsQuery, getFeedFreshnessSummary()]);
+
+    if (runsResult.error) throw runsResult.error;
+
+    return {
+      runs: ((runsResult.data || []) as unknown as Record<string, unknown>[]).map(row => toFeedSyncRun(row)),
+      total: runsResult.count || 0,
+      freshness,
+    };
+  } catch (error) {
+    console.error('Error fetching feed sync runs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Freshness per source from its newest runs and the sync lock table
+ */
+async function getFeedFreshnessSummary(): Promise<FeedSourceFreshness[]> {
+  const [recentResult, successResult, locksResult] = await Promise.all([
+    supabaseAdmin
+      .from('feed_sync_logs')
+      .select('source, status, sync_completed_at')
+      .order('sync_completed_at', { ascending: false, nullsFirst: false })
+      .limit(MAX_RECENT_SYNC_LOGS),
+    supabaseAdmin
+      .from('feed_sync_logs')
+      .select('source, sync_completed_at')
+      .in('status', ['success', 'partial'])
+      .order('sync_completed_at', { ascending: false, nullsFirst: false })
+      .limit(MAX_RECENT_SYNC_LOGS),
+    supabaseAdmin.from('feed_sync_checkpoints').select('source, status, lease_expires_at'),
+  ]);
+
+  if (recentResult.error) throw recentResult.error;
+  if (successResult.error) throw successResult.error;
+  if (locksResult.error) throw locksResult.error;
+
+  const sources = new Map<string, FeedSourceFreshness>();
+  const entry = (source: string): FeedSourceFreshness => {
+    let summary = sources.get(source);
+    if (!summary) {
+      summary = {
+        source,
+        freshness: 'stale',
+        last_success_at: null,
+        last_run_at: null,
+        last_status: null,
+        running: false,
+      };
+      sources.set(source, summary);
+    }
+    return summary;
+  };
+
+  // Rows are newest first, so the first one per source wins
+  for (const log of recentResult.data || []) {
+    const summary = entry(log.source);
+    if (summary.last_status) continue;
+    summary.last_run_at = log.sync_completed_at;
+    summary.last_status = log.status;
+  }
+
+  for (const log of successResult.data || []) {
+    const summary = entry(log.source);
+    if (!summary.last_success_at) summary.last_success_at = log.sync_completed_at;
+  }
+
+  const now = new Date();
+  for (const lock of locksResult.data || []) {
+    entry(lock.source).running = lock.status === 'running' && new Date(lock.lease_expires_at) > now;
+  }
+
+  return Array.from(sources.values())
+    .map(summary => ({ ...summary, freshness: getFeedFreshness(summary.last_success_at, now) }))
+    .sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/**
+ * One sync run with everything it logged, or null if the id is unknown
+ */
+export async function getFeedSyncRun(id: string): Promise<FeedSyncRunDetail | null> {
+  try {
+    const { data, error } = await supabaseAdmin.from('feed_sync_logs').select('*').eq('id', id).maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const run = toFeedSyncRun<FeedSyncRunDetail>(data);
+    return {
+      ...run,
+      rejections_by_rule: run.rejections_by_rule || {},
+      vins_filled: run.vins_filled || 0,
+      vins_mismatched: run.vins_mismatched || 0,
+      schema_drift: run.schema_drift ?? null,
+      column_null_rates: run.column_null_rates ?? null,
+    };
+  } catch (error) {
+    console.error('Error fetching feed sync run:', error);
+    throw error;
+  }
+}
+
+export interface DaysToSellSegment {
+  make: string | null;
+  model: string | null;
+  dma: string | null;
+  delisted_count: number;
+  avg_days: number;
+  median_days: number;
+}
+
+export interface DaysToSellQuery {
+  groupBy?: DaysToSellGroup;
+  /** Lookback window for delisted events */
+  days?: number;
+  /** Hide segments with fewer delistings than this */
+  minCount?: number;
+}
+
+/**
+ * Days from listing to delisting per make, make/model, or DMA (fastest-turning first)
+ */
+export async function getDaysToSell(query: DaysToSellQuery = {}): Promise<DaysToSellSegment[]> {
+  try {
+    const { data, error } = await supabaseAdmin.rpc('get_days_to_sell', {
+      p_group_by: query.groupBy ?? 'make',
+      p_days: query.days ?? 90,
+      p_min_count: query.minCount ?? 5,
+    });
+
+    if (error) throw error;
+
+    return ((data as DaysToSellSegment[] | null) || []).map(row => ({
+      make: row.make,
+      model: row.model,
+      dma: row.dma,
+      delisted_count: Number(row.delisted_count),
+      avg_days: Number(row.avg_days),
+      median_days: Number(row.median_days),
+    }));
+  } catch (error) {
+    console.error('Error fetching days to sell:', error);
+    throw error;
+  }
+}
+
+export interface DealersQuery {
+  /** Case-insensitive match on name or city */
+  search?: string;
+  state?: string;
+  /** Only dealers with active vehicles (default true) */
+  activeOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DealersData {
+  dealers: Dealer[];
+  total: number;
+}
+
+/**
+ * Dealers (largest active inventory first), including admin settings
+ */
+export async function getDealers(query: DealersQuery = {}): Promise<DealersData> {
+  try {
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+
+    let dealersQuery = supabaseAdmin
+      .from('dealers')
+      .select('*', { count: 'exact' })
+      .order('active_vehicle_count', { ascending: false })
+      .order('dealer_id', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (query.activeOnly ?? true) dealersQuery = dealersQuery.gt('active_vehicle_count', 0);
+    if (query.state) dealersQuery = dealersQuery.eq('state', query.state.toUpperCase());
+    if (query.search) {
+      // Strip PostgREST filter syntax characters from the user's term
+      const term = query.search.replace(/[,()*%]/g, ' ').trim();
+      if (term) dealersQuery = dealersQuery.or(`name.ilike.%${term}%,city.ilike.%${term}%`);
+    }
+
+    const { data, error, count } = await dealersQuery;
+
+    if (error) throw error;
+
+    return { dealers: (data as Dealer[] | null) || [], total: count || 0 };
+  } catch (error) {
+    console.error('Error fetching dealers:', error);
+    throw error;
+  }
+}
+
+export interface DealerBilling {
+  /** Users whose first click on the dealer falls in the window (dealer_click_history) */
+  unique_users: number;
+  billable_clicks: number;
+  /** Sum of the payouts snapshotted on billable clicks */
+  revenue: number;
+  window_days: number;
+}
+
+export interface DealerDetail {
+  dealer: Dealer;
+  inventory: DealerInventory;
+  billing: DealerBilling;
+}
+
+/**
+ * Dealer with settings, a page of its inventory, and billing over the dealer_click_history window
+ * @returns null if the dealer id is unknown
+ */
+export async function getDealerDetail(
+  dealerId: string,
+  inventoryQuery: DealerInventoryQuery = {}
+): Promise<DealerDetail | null> {
+  try {
+    const dealer = await getDealer(supabaseAdmin, dealerId, '*');
+    if (!dealer) return null;
+
+    const since = new Date(Date.now() - BILLING_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [inventory, historyResult, clicksResult] = await Promise.all([
+      getDealerInventory(supabaseAdmin, dealerId, inventoryQuery),
+      supabaseAdmin
+        .from('dealer_click_history')
+        .select('id', { count: 'exact', head: true })
+        .eq('dealer_id', dealerId)
+        .gte('first_click_at', since),
+      supabaseAdmin
+        .from('clicks')
+        .select('is_billable, payout')
+        .eq('dealer_id', dealerId)
+        .eq('is_billable', true)
+        .gte('created_at', since),
+    ]);
+
+    if (historyResult.error) throw historyResult.error;
+    if (clicksResult.error) throw clicksResult.error;
+
+    const billableClicks = clicksResult.data || [];
+
+    return {
+      dealer,
+      inventory,
+      billing: {
+        unique_users: historyResult.count || 0,
+        billable_clicks: billableClicks.length,
+        revenue: sumBillableRevenue(billableClicks),
+        window_days: BILLING_WINDOW_DAYS,
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching dealer detail:', error);
+    throw error;
+  }
+}
+
+/**
+ * Merge keys into a dealer's settings (null values remove a key)
+ * @returns Updated dealer, or null if the dealer id is unknown
+ */
+export async function updateDealerSettings(
+  dealerId: string,
+  changes: Record<string, unknown>
+): Promise<Dealer | null> {
+  try {
+    const dealer = await getDealer(supabaseAdmin, dealerId, '*');
+    if (!dealer) return null;
+
+    const settings: Record<string, unknown> = { ...(dealer.settings || {}) };
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete settings[key];
+      } else {
+        settings[key] = value;
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('dealers')
+      .update({ settings, updated_at: new Date().toISOString() })
+      .eq('dealer_id', dealerId)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    return data as Dealer;
+  } catch (error) {
+    console.error('Error updating dealer settings:', error);
+    throw error;
+  }
+}
@@ -1,4 +1,5 @@
 import { csvRow } from '@/lib/csv';
+import { parseMultiValueParam, type MultiValueFilter } from '@/lib/search-utils';
 
 const METRO_RADIUS_MILES = 30;
 
@@ -28,6 +29,22 @@ export interface MetroLocation {
 export const VALID_CAMPAIGN_TYPES = ['body_style', 'make', 'make_body_style', 'make_model'] as const;
 export type CampaignType = typeof VALID_CAMPAIGN_TYPES[number];
 
+/**
+ * Vehicle columns a campaign targets, each with one or more values (any of them matches)
+ */
+export interface CampaignFilters {
+  make?: string[];
+  model?: string[];
+  body_style?: string[];
+}
+
+/** Search page URL param for each targeted column (app/search/page.tsx reads bodyStyle) */
+const SEARCH_PARAMS: Record<keyof CampaignFilters, MultiValueFilter> = {
+  make: 'make',
+  model: 'model',
+  body_style: 'bodyStyle',
+};
+
 export const VALID_PLATFORMS = ['facebook', 'google'] as const;
 export type Platform = typeof VALID_PLATFORMS[number];
 
@@ -60,37 +77,50 @@ export function calculateMetroLocations(
 }
 
 /**
- * Generate destination URL for the campaign landing page
+ * Parse a campaign value into the columns it targets
+ * Each part takes a comma-separated list for multi-value landing pages:
+ * - body_style: "suv" or "suv,truck"
+ * - make: "Toyota" or "Honda,Toyota"
+ * - make_body_style: "Kia suv" or "Kia,Hyundai suv"
+ * - make_model: "Jeep Grand Cherokee" or "Jeep Wrangler,Grand Cherokee"
+ * Returns null when a required part is missing.
  */
-export function generateDestinationUrl(campaignType: CampaignType, campaignValue: string): string {
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://carzo.net';
-  const searchPath = '/search';
-  const url = new URL(searchPath, baseUrl);
+export function parseCampaignValue(campaignType: CampaignType, campaignValue: string): CampaignFilters | null {
+  // "Honda, Toyota" -> "Honda,Toyota", so a list stays one space-separated part
+  const value = campaignValue.trim().replace(/\s*,\s*/g, ',');
 
   switch (campaignType) {
     case 'body_style':
-      url.searchParams.set('body_style', campaignValue);
-      break;
-    case 'make':
-      url.searchParams.set('make', campaignValue);
-      break;
-    case 'make_body_style': {
-      const parts = campaignValue.split(' ');
-      if (parts.length >= 2) {
-        url.searchParams.set('make', parts[0]);
-        url.searchParams.set('body_style', parts.slice(1).join(' '));
-      }
-      break;
+    case 'make': {
+      const values = parseMultiValueParam(value);
+      return values.length > 0 ? { [campaignType]: values } : null;
     }
+    case 'make_body_style':
     case 'make_model': {
-      const parts = campaignValue.split(' ');
-      if (parts.length >= 2) {
-        url.searchParams.set('make', parts[0]);
-        url.searchParams.set('model', parts.slice(1).join(' '));
-      }
-      break;
+      const [makePart, ...rest] = value.split(' ');
+      const makes = parseMultiValueParam(makePart);
+      const others = parseMultiValueParam(rest.join(' ')); // Handle multi-word body styles/models
+      if (makes.length === 0 || others.length === 0) return null;
+      return campaignType === 'make_body_style'
+        ? { make: makes, body_style: others }
+        : { make: makes, model: others };
     }
   }
+}
+
+/**
+ * Generate destination URL for the campaign landing page
+ * Multi-value filters are comma-separated (make=Honda,Toyota).
+ */
+export function generateDestinationUrl(campaignType: CampaignType, campaignValue: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://carzo.net';
+  const searchPath = '/search';
+  const url = new URL(searchPath, baseUrl);
+
+  const filters = parseCampaignValue(campaignType, campaignValue) ?? {};
+  for (const [column, values] of Object.entries(filters) as Array<[keyof CampaignFilters, string[]]>) {
+    url.searchParams.set(SEARCH_PARAMS[column], values.join(','));
+  }
 
   return url.toString();
 }
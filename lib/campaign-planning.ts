@@ -6,6 +6,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { resolvePayout } from './payout';
 
 export interface MetroInventory {
   dma: string;
@@ -14,6 +15,8 @@ export interface MetroInventory {
   diversity_score: number;
   top_body_styles: { body_style: string; count: number }[];
   avg_price: number;
+  /** Average feed payout of the metro's vehicles (null when none carry a payout) */
+  avg_payout?: number | null;
 }
 
 export interface BodyStyleInventory {
@@ -43,6 +46,8 @@ export interface CampaignRecommendation {
   dealers: number;
   diversity: number;
   recommended_daily_budget: number;
+  /** Expected revenue per billable click (defaults to the flat rate, see lib/payout.ts) */
+  expected_payout?: number;
   trend: 'growing' | 'stable' | 'declining';
   reason: string;
 }
@@ -95,23 +100,33 @@ export async function getMakeInventory(
   return data || [];
 }
 
+/**
+ * Inventory score used to split the budget across metros
+ * With weightByPayout, metros whose vehicles pay more per click get a larger share.
+ */
+function metroInventoryScore(metro: MetroInventory, weightByPayout: boolean): number {
+  const score = metro.vehicle_count * metro.diversity_score;
+  return weightByPayout ? score * resolvePayout(metro.avg_payout) : score;
+}
+
 /**
  * Generate campaign recommendations based on inventory depth
  */
 export function generateCampaignRecommendations(
   metros: MetroInventory[],
-  totalMonthlyBudget: number = 7500
+  totalMonthlyBudget: number = 7500,
+  weightByPayout: boolean = false
 ): CampaignRecommendation[] {
   const recommendations: CampaignRecommendation[] = [];
 
   // Calculate total inventory score across all metros
   const totalScore = metros.reduce(
-    (sum, metro) => sum + metro.vehicle_count * metro.diversity_score,
+    (sum, metro) => sum + metroInventoryScore(metro, weightByPayout),
     0
   );
 
   for (const metro of metros) {
-    const inventoryScore = metro.vehicle_count * metro.diversity_score;
+    const inventoryScore = metroInventoryScore(metro, weightByPayout);
     const budgetProportion = inventoryScore / totalScore;
     const recommendedDailyBudget = Math.round((totalMonthlyBudget * budgetProportion) / 30);
 
@@ -142,6 +157,7 @@ export function generateCampaignRecommendations(
       dealers: metro.dealer_count,
       diversity: metro.diversity_score,
       recommended_daily_budget: recommendedDailyBudget,
+      expected_payout: resolvePayout(metro.avg_payout),
       trend: 'stable', // TODO: Calculate from feed_sync_logs
       reason,
     });
@@ -195,7 +211,7 @@ export function calculateBudgetAllocation(
     const daily_budget = campaign.recommended_daily_budget;
     const expected_daily_clicks = daily_budget / safeCpc; // Protected from division by zero
     const expected_dealer_clicks = expected_daily_clicks * safeConversionRate;
-    const expected_daily_revenue = expected_dealer_clicks * 0.80;
+    const expected_daily_revenue = expected_dealer_clicks * resolvePayout(campaign.expected_payout);
     const expected_monthly_revenue = expected_daily_revenue * 30;
     const expected_monthly_profit = expected_monthly_revenue - monthly_budget;
     const roi_pct = monthly_budget > 0 ? (expected_monthly_profit / monthly_budget) * 100 : 0; // Protected from division by zero
@@ -1,7 +1,7 @@
 /**
  * Dealer Diversification Algorithm
  * CRITICAL: Maximizes revenue by rotating dealers in vehicle lists
- * Business Rule: $0.80 per UNIQUE dealer per user per 30 days
+ * Business Rule: each UNIQUE dealer per user per 30 days earns the vehicle payout (default $0.80)
  */
 
 /**
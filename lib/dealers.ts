@@ -0,0 +1,121 @@
+/**
+ * Dealers
+ * Reads for the dealers table (one row per feed dealer, refreshed by the sync via
+ * refresh_dealers()) and a dealer's active inventory. Shared by the public
+ * /dealers/[dealerId] page (anon client) and the admin dealer APIs (service client),
+ * so the client is passed in. No runtime Supabase import: the VDP uses getDealerPath client-side.
+ * Dealer ids are the same ones vehicles, clicks and dealer_click_history use.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Dealer, Vehicle } from './supabase';
+
+/** Columns the anon role can read (settings are admin-only) */
+export const DEALER_PUBLIC_COLUMNS =
+  'dealer_id, name, address, city, state, zip, latitude, longitude, dma, active_vehicle_count, total_vehicle_count, first_seen_at, last_seen_at, updated_at';
+
+export const DEALER_INVENTORY_PAGE_SIZE = 24;
+
+/** Inventory sort options -> [column, ascending] */
+export const DEALER_INVENTORY_SORTS = {
+  newest: ['listed_at', false],
+  price_asc: ['price', true],
+  price_desc: ['price', false],
+  year_desc: ['year', false],
+  mileage_asc: ['miles', true],
+} as const;
+
+export type DealerInventorySort = keyof typeof DEALER_INVENTORY_SORTS;
+
+export interface DealerInventoryQuery {
+  page?: number;
+  pageSize?: number;
+  sortBy?: DealerInventorySort;
+}
+
+export interface DealerInventory {
+  vehicles: Vehicle[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const MAX_DEALER_ID_LENGTH = 50; // dealers.dealer_id VARCHAR(50)
+
+/**
+ * Route param -> dealer id, or null if it can't be one (skips the query)
+ */
+export function parseDealerId(value: string | undefined | null): string | null {
+  const dealerId = value?.trim();
+  if (!dealerId || dealerId.length > MAX_DEALER_ID_LENGTH) return null;
+  return dealerId;
+}
+
+export function isDealerInventorySort(value: string): value is DealerInventorySort {
+  return Object.prototype.hasOwnProperty.call(DEALER_INVENTORY_SORTS, value);
+}
+
+/**
+ * Dealer page path (flow is preserved so A/B variants survive the hop)
+ */
+export function getDealerPath(dealerId: string, flow?: string): string {
+  const path = `/dealers/${encodeURIComponent(dealerId)}`;
+  return flow && flow !== 'full' ? `${path}?flow=${encodeURIComponent(flow)}` : path;
+}
+
+/**
+ * "Street, City, ST 12345" from whichever parts are present
+ */
+export function formatDealerAddress(dealer: Pick<Dealer, 'address' | 'city' | 'state' | 'zip'>): string {
+  const region = [dealer.state, dealer.zip].filter(Boolean).join(' ');
+  return [dealer.address, dealer.city, region].filter(Boolean).join(', ');
+}
+
+/**
+ * Single dealer, or null if the id is unknown
+ * @param columns - DEALER_PUBLIC_COLUMNS for the anon client, '*' (incl. settings) for admin
+ */
+export async function getDealer(
+  client: SupabaseClient,
+  dealerId: string,
+  columns: string = DEALER_PUBLIC_COLUMNS
+): Promise<Dealer | null> {
+  const { data, error } = await client.from('dealers').select(columns).eq('dealer_id', dealerId).maybeSingle();
+
+  if (error) throw error;
+
+  return (data as Dealer | null) ?? null;
+}
+
+/**
+ * One page of a dealer's active vehicles
+ */
+export async function getDealerInventory(
+  client: SupabaseClient,
+  dealerId: string,
+  query: DealerInventoryQuery = {}
+): Promise<DealerInventory> {
+  const pageSize = query.pageSize ?? DEALER_INVENTORY_PAGE_SIZE;
+  const page = Math.max(query.page ?? 1, 1);
+  const offset = (page - 1) * pageSize;
+  const [column, ascending] = DEALER_INVENTORY_SORTS[query.sortBy ?? 'newest'];
+
+  const { data, error, count } = await client
+    .from('vehicles')
+    .select('*', { count: 'exact' })
+    .eq('is_active', true)
+    .eq('dealer_id', dealerId)
+    .order(column, { ascending, nullsFirst: false })
+    .order('vin', { ascending: true })
+    .range(offset, offset + pageSize - 1);
+
+  if (error) throw error;
+
+  const total = count || 0;
+  return {
+    vehicles: (data as Vehicle[] | null) || [],
+    total,
+    page,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
@@ -1,3 +1,5 @@
+import { DEFAULT_PAYOUT } from './payout';
+
 type FacebookPixelFunction = {
   (command: 'track', eventName: string, params?: Record<string, unknown>): void;
   (command: 'init', pixelId: string): void;
@@ -38,6 +40,6 @@ export const event = (name: string, options = {}) => {
   }
 };
 
-export const trackPurchase = (value: number = 0.80, currency: string = 'USD') => {
+export const trackPurchase = (value: number = DEFAULT_PAYOUT, currency: string = 'USD') => {
   event('Purchase', { value, currency });
 };
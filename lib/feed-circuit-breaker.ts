@@ -0,0 +1,78 @@
+/**
+ * Feed Sync Circuit Breaker
+ * Stops a truncated or half-empty feed from taking inventory offline in one run.
+ *
+ * Before deactivating VINs missing from the feed, the sync checks the drop against:
+ * 1. the current active count for the source
+ * 2. the feed sizes of recent successful syncs (feed_sync_logs.total_vehicles)
+ * If either drop exceeds the threshold, deactivation is skipped and the sync is logged as "partial".
+ */
+
+/** Default maximum share of active inventory one sync may remove (percent) */
+export const DEFAULT_MAX_DROP_PERCENT = 30;
+
+/** How many recent successful syncs form the historical baseline */
+export const HISTORY_SYNC_COUNT = 5;
+
+export interface DeactivationCheckInput {
+  /** Active vehicles for the source before this sync */
+  activeCount: number;
+  /** Valid vehicles in the new feed */
+  feedCount: number;
+  /** Active vehicles that would be deactivated */
+  removedCount: number;
+  /** Feed sizes of recent successful syncs, newest first */
+  recentFeedSizes: number[];
+  maxDropPercent: number;
+}
+
+export interface DeactivationCheck {
+  tripped: boolean;
+  /** Share of active inventory the sync would remove */
+  dropPercent: number;
+  /** Feed size drop vs. the recent average (null without history) */
+  historyDropPercent: number | null;
+  reason: string | null;
+}
+
+/**
+ * Read FEED_SYNC_MAX_DROP_PERCENT (falls back to the default on missing/invalid values)
+ */
+export function getMaxDropPercent(env: NodeJS.ProcessEnv = process.env): number {
+  const value = parseFloat(env.FEED_SYNC_MAX_DROP_PERCENT || '');
+  return value > 0 && value <= 100 ? value : DEFAULT_MAX_DROP_PERCENT;
+}
+
+/**
+ * Decide whether removing `removedCount` VINs is safe
+ */
+export function checkDeactivation(input: DeactivationCheckInput): DeactivationCheck {
+  const { activeCount, feedCount, removedCount, recentFeedSizes, maxDropPercent } = input;
+
+  const dropPercent = activeCount > 0 ? (removedCount / activeCount) * 100 : 0;
+
+  const history = recentFeedSizes.filter(size => size > 0);
+  const historyAverage = history.length > 0 ? history.reduce((sum, size) => sum + size, 0) / history.length : null;
+  const historyDropPercent =
+    historyAverage !== null ? Math.max(0, ((historyAverage - feedCount) / historyAverage) * 100) : null;
+
+  if (dropPercent > maxDropPercent) {
+    return {
+      tripped: true,
+      dropPercent,
+      historyDropPercent,
+      reason: `Sync would deactivate ${removedCount} of ${activeCount} active vehicles (${dropPercent.toFixed(1)}% > ${maxDropPercent}%)`,
+    };
+  }
+
+  if (historyDropPercent !== null && historyDropPercent > maxDropPercent) {
+    return {
+      tripped: true,
+      dropPercent,
+      historyDropPercent,
+      reason: `Feed has ${feedCount} vehicles vs. recent average of ${Math.round(historyAverage!)} (${historyDropPercent.toFixed(1)}% drop > ${maxDropPercent}%)`,
+    };
+  }
+
+  return { tripped: false, dropPercent, historyDropPercent, reason: null };
+}
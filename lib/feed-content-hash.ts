@@ -0,0 +1,23 @@
+/**
+ * Vehicle Content Hash
+ * Fingerprint of every feed-derived column, stored in vehicles.content_hash.
+ * The sync skips the upsert when the stored hash matches, so unchanged rows cost no writes.
+ */
+
+import { createHash } from 'crypto';
+import type { DbVehicle } from './feed-sources';
+
+/** Sync bookkeeping columns that must not affect the hash */
+const EXCLUDED_FIELDS = new Set<string>(['is_active', 'last_sync']);
+
+/**
+ * SHA-256 of the vehicle's content columns (keys sorted, so adapter field order doesn't matter)
+ */
+export function computeContentHash(vehicle: DbVehicle): string {
+  const content = Object.keys(vehicle)
+    .filter(key => !EXCLUDED_FIELDS.has(key))
+    .sort()
+    .map(key => [key, vehicle[key as keyof DbVehicle] ?? null]);
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
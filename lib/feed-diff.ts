@@ -0,0 +1,157 @@
+/**
+ * Feed Diff
+ * Structured preview of what a sync would change, used by dry-run mode.
+ * Compares mapped feed rows against the source's active vehicles without writing anything.
+ */
+
+import type { DbVehicle } from './feed-sources';
+import type { RejectionReason } from './feed-validation';
+import type { DeactivationCheck } from './feed-circuit-breaker';
+
+/** Field groups compared per VIN */
+export type DiffField = 'price' | 'miles' | 'images' | 'dealer';
+
+/** vehicles columns loaded from the database for comparison */
+export const DIFF_COLUMNS = [
+  'vin',
+  'price',
+  'miles',
+  'primary_image_url',
+  'total_photos',
+  'dealer_id',
+  'dealer_name',
+  'dealer_vdp_url',
+] as const;
+
+export type DiffSnapshot = Pick<DbVehicle, (typeof DIFF_COLUMNS)[number]>;
+
+export interface FieldChange {
+  field: DiffField;
+  before: string;
+  after: string;
+}
+
+export interface VehicleChange {
+  vin: string;
+  changes: FieldChange[];
+}
+
+export interface FeedDiff {
+  source: string;
+  generatedAt: string;
+  /** Active vehicles for the source in the database */
+  activeVehicles: number;
+  /** Valid vehicles in the feed */
+  feedVehicles: number;
+  /** VINs in the feed but not currently active */
+  added: string[];
+  /** Active VINs missing from the feed (or now failing validation) */
+  removed: string[];
+  changed: VehicleChange[];
+  unchanged: number;
+  rejected: number;
+  rejectionsByRule: Partial<Record<RejectionReason, number>>;
+  /** Whether the circuit breaker would hold back deactivation */
+  circuitBreaker: DeactivationCheck | null;
+}
+
+function formatPrice(value: number | null): string {
+  return value === null ? '' : `$${Number(value).toFixed(2)}`;
+}
+
+function formatImages(vehicle: DiffSnapshot): string {
+  return `${vehicle.primary_image_url || '(none)'} (${vehicle.total_photos || 0} photos)`;
+}
+
+function formatDealer(vehicle: DiffSnapshot): string {
+  return `${vehicle.dealer_id} ${vehicle.dealer_name} <${vehicle.dealer_vdp_url}>`;
+}
+
+/**
+ * Compare the database copy of a vehicle with the incoming feed row
+ * @returns Changed field groups (empty array = unchanged)
+ */
+export function diffVehicle(existing: DiffSnapshot, incoming: DiffSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  if (Number(existing.price) !== Number(incoming.price)) {
+    changes.push({ field: 'price', before: formatPrice(existing.price), after: formatPrice(incoming.price) });
+  }
+
+  if ((existing.miles ?? null) !== (incoming.miles ?? null)) {
+    changes.push({ field: 'miles', before: String(existing.miles ?? ''), after: String(incoming.miles ?? '') });
+  }
+
+  if (
+    (existing.primary_image_url || '') !== (incoming.primary_image_url || '') ||
+    Number(existing.total_photos || 0) !== Number(incoming.total_photos || 0)
+  ) {
+    changes.push({ field: 'images', before: formatImages(existing), after: formatImages(incoming) });
+  }
+
+  if (
+    existing.dealer_id !== incoming.dealer_id ||
+    existing.dealer_name !== incoming.dealer_name ||
+    existing.dealer_vdp_url !== incoming.dealer_vdp_url
+  ) {
+    changes.push({ field: 'dealer', before: formatDealer(existing), after: formatDealer(incoming) });
+  }
+
+  return changes;
+}
+
+/**
+ * Human-readable summary lines for the CLI
+ */
+export function formatFeedDiffSummary(diff: FeedDiff): string[] {
+  const changedByField: Record<DiffField, number> = { price: 0, miles: 0, images: 0, dealer: 0 };
+  for (const vehicle of diff.changed) {
+    for (const change of vehicle.changes) {
+      changedByField[change.field]++;
+    }
+  }
+
+  const lines = [
+    `Dry run (${diff.source}) - nothing was written`,
+    `   Active in DB: ${diff.activeVehicles}`,
+    `   In feed: ${diff.feedVehicles}`,
+    `   New: ${diff.added.length}`,
+    `   Removed: ${diff.removed.length}`,
+    `   Changed: ${diff.changed.length}`,
+    ...Object.entries(changedByField)
+      .filter(([, count]) => count > 0)
+      .map(([field, count]) => `     ${field}: ${count}`),
+    `   Unchanged: ${diff.unchanged}`,
+    `   Rejected: ${diff.rejected}`,
+    ...Object.entries(diff.rejectionsByRule).map(([reason, count]) => `     ${reason}: ${count}`),
+  ];
+
+  if (diff.circuitBreaker?.tripped) {
+    lines.push(`   🚨 Circuit breaker would trip: ${diff.circuitBreaker.reason}`);
+  }
+
+  return lines;
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Flatten diffs to CSV: one row per new VIN, removed VIN, or changed field
+ */
+export function feedDiffToCsv(diffs: FeedDiff[]): string {
+  const rows: string[][] = [['source', 'vin', 'change', 'field', 'before', 'after']];
+
+  for (const diff of diffs) {
+    for (const vin of diff.added) rows.push([diff.source, vin, 'added', '', '', '']);
+    for (const vin of diff.removed) rows.push([diff.source, vin, 'removed', '', '', '']);
+    for (const vehicle of diff.changed) {
+      for (const change of vehicle.changes) {
+        rows.push([diff.source, vehicle.vin, 'changed', change.field, change.before, change.after]);
+      }
+    }
+  }
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,201 @@
+/**
+ * Feed Schema Drift
+ * Delimited feeds are parsed by header name, so a renamed or dropped column doesn't fail the
+ * parse - every row just maps it to null. The sync checks the header against the source's
+ * column contract (FeedSource.columns) before writing anything:
+ * - added, removed and renamed columns are logged (feed_sync_logs.schema_drift) and alerted
+ * - a missing required column fails the run
+ * Per-column null rates are stored on every run (feed_sync_logs.column_null_rates) and compared
+ * with recent runs, so a column that slowly empties out is caught before it's gone.
+ */
+
+import type { FeedColumnContract } from './feed-sources';
+
+/** Alert when a column's null rate is this many percentage points above its recent best */
+export const DEFAULT_NULL_RATE_ALERT_POINTS = 20;
+
+/** How many recent successful syncs form the null-rate baseline (one week at 4 syncs/day) */
+export const NULL_RATE_HISTORY_SYNC_COUNT = 28;
+
+export interface RenamedColumn {
+  /** Contract column */
+  from: string;
+  /** Header column that most likely replaced it */
+  to: string;
+}
+
+export interface FeedSchemaDrift {
+  /** Header columns the contract doesn't know */
+  added: string[];
+  /** Contract columns missing from the header (excluding likely renames) */
+  removed: string[];
+  renamed: RenamedColumn[];
+  /** Required contract columns not in the header, renamed or not (fails the run) */
+  missingRequired: string[];
+}
+
+export interface NullRateCounts {
+  rows: number;
+  /** Empty or missing values per tracked column */
+  nulls: Record<string, number>;
+}
+
+export interface NullRateIncrease {
+  column: string;
+  /** Lowest rate over the recent syncs (0-1) */
+  baseline: number;
+  current: number;
+}
+
+/** "ImageURLs" / "image_urls" / "Image Urls" compare equal */
+function normalizeColumn(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How closely a new header column resembles a missing contract column (0 = not a rename)
+ * Case/punctuation-only changes score highest, then prefixes/suffixes ("Price" -> "SalePrice"),
+ * then small typos on longer names.
+ */
+function renameScore(expected: string, actual: string): number {
+  const a = normalizeColumn(expected);
+  const b = normalizeColumn(actual);
+  if (!a || !b) return 0;
+  if (a === b) return 3;
+  if (Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a))) return 2;
+  if (Math.min(a.length, b.length) >= 5 && editDistance(a, b) <= 2) return 1;
+  return 0;
+}
+
+/**
+ * Compare a feed header with the source's column contract
+ * Each missing contract column is paired with at most one unknown header column (best match first).
+ */
+export function compareHeader(header: string[], contract: FeedColumnContract): FeedSchemaDrift {
+  const present = new Set(header);
+  const expected = new Set(contract.columns);
+  const missing = contract.columns.filter(column => !present.has(column));
+  const unknown = header.filter(column => column && !expected.has(column));
+
+  const renamed: RenamedColumn[] = [];
+  const candidates = missing
+    .flatMap(from => unknown.map(to => ({ from, to, score: renameScore(from, to) })))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const renamedFrom = new Set<string>();
+  const renamedTo = new Set<string>();
+  for (const { from, to } of candidates) {
+    if (renamedFrom.has(from) || renamedTo.has(to)) continue;
+    renamedFrom.add(from);
+    renamedTo.add(to);
+    renamed.push({ from, to });
+  }
+
+  return {
+    added: unknown.filter(column => !renamedTo.has(column)),
+    removed: missing.filter(column => !renamedFrom.has(column)),
+    renamed: contract.columns.flatMap(column => renamed.filter(r => r.from === column)),
+    missingRequired: contract.required.filter(column => !present.has(column)),
+  };
+}
+
+export function hasSchemaDrift(drift: FeedSchemaDrift): boolean {
+  return drift.added.length > 0 || drift.removed.length > 0 || drift.renamed.length > 0;
+}
+
+/**
+ * One line per kind of change, for alerts and logs
+ */
+export function formatSchemaDrift(drift: FeedSchemaDrift): string[] {
+  const lines: string[] = [];
+  if (drift.renamed.length > 0) {
+    lines.push(`renamed: ${drift.renamed.map(({ from, to }) => `${from} -> ${to}`).join(', ')}`);
+  }
+  if (drift.removed.length > 0) {
+    lines.push(`removed: ${drift.removed.join(', ')}`);
+  }
+  if (drift.added.length > 0) {
+    lines.push(`added: ${drift.added.join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Error message for a header missing required columns (names the likely replacement if any)
+ */
+export function formatMissingRequired(drift: FeedSchemaDrift): string {
+  const columns = drift.missingRequired.map(column => {
+    const rename = drift.renamed.find(r => r.from === column);
+    return rename ? `${column} (renamed to ${rename.to}?)` : column;
+  });
+  return `Feed header is missing required column${columns.length === 1 ? '' : 's'}: ${columns.join(', ')}`;
+}
+
+export function createNullRateCounts(columns: string[]): NullRateCounts {
+  return { rows: 0, nulls: Object.fromEntries(columns.map(column => [column, 0])) };
+}
+
+/**
+ * Count a raw feed row's empty values (missing keys count as empty: short rows are allowed)
+ */
+export function recordNulls(counts: NullRateCounts, row: Record<string, unknown>): void {
+  counts.rows++;
+  for (const column of Object.keys(counts.nulls)) {
+    const value = row[column];
+    if (value === null || value === undefined || String(value).trim() === '') {
+      counts.nulls[column]++;
+    }
+  }
+}
+
+/**
+ * Share of empty values per column (0-1, 4 decimals), or null if no rows were counted
+ */
+export function getNullRates(counts: NullRateCounts): Record<string, number> | null {
+  if (counts.rows === 0) return null;
+  return Object.fromEntries(
+    Object.entries(counts.nulls).map(([column, nulls]) => [column, Math.round((nulls / counts.rows) * 10000) / 10000])
+  );
+}
+
+/**
+ * Columns whose null rate rose more than `alertPoints` above their best rate in recent syncs
+ * Comparing against the best rate (not the last one) catches slow decay spread over many runs.
+ * Columns without history are skipped.
+ */
+export function findNullRateIncreases(
+  current: Record<string, number>,
+  history: Array<Record<string, number>>,
+  alertPoints: number = DEFAULT_NULL_RATE_ALERT_POINTS
+): NullRateIncrease[] {
+  const increases: NullRateIncrease[] = [];
+
+  for (const [column, rate] of Object.entries(current)) {
+    const previous = history.map(rates => rates[column]).filter(value => typeof value === 'number');
+    if (previous.length === 0) continue;
+
+    const baseline = Math.min(...previous);
+    if ((rate - baseline) * 100 > alertPoints) {
+      increases.push({ column, baseline, current: rate });
+    }
+  }
+
+  return increases;
+}
+
+export function formatNullRateIncrease({ column, baseline, current }: NullRateIncrease): string {
+  return `${column} is ${(current * 100).toFixed(1)}% empty (recent best ${(baseline * 100).toFixed(1)}%)`;
+}
@@ -0,0 +1,256 @@
+/**
+ * Generic Feed Source
+ * Config-driven adapter for CSV/TSV/JSON/NDJSON inventory feeds
+ *
+ * Onboarding a new publisher only needs a column mapping, e.g.:
+ * {
+ *   "id": "acme",
+ *   "url": "https://feeds.acme.example/inventory.csv",
+ *   "format": "csv",
+ *   "columns": { "vin": "VIN", "price": "SellingPrice", "dealer_id": "StoreId", ... }
+ * }
+ */
+
+import type { Readable } from 'stream';
+import type { DbVehicle, FeedParseOptions, FeedSource } from './types';
+import {
+  downloadStream,
+  extractZipEntry,
+  parseDelimited,
+  parseJsonArray,
+  parseNdjson,
+} from './streams';
+import { parseCertified, parseDol, parseImageUrls, parsePayout, parsePriority } from './parsers';
+import { parseFeatures } from '../vehicle-features';
+
+export type GenericFeedFormat = 'csv' | 'tsv' | 'json' | 'ndjson';
+
+type GenericRow = Record<string, unknown>;
+
+/**
+ * vehicles columns a publisher field can be mapped onto
+ * `image_urls` is split into image_urls, primary_image_url (first entry) and total_photos.
+ * `features` is derived from the mapped `options` column.
+ */
+export type MappableVehicleField =
+  | Exclude<
+      keyof DbVehicle,
+      | 'primary_image_url'
+      | 'total_photos'
+      | 'mpg_city'
+      | 'mpg_highway'
+      | 'mpg_combined'
+      | 'features'
+      | 'source'
+      | 'is_active'
+      | 'last_sync'
+    >
+  | 'image_urls';
+
+/** Required mappings - rows can't be shown or billed without them */
+export const REQUIRED_MAPPED_FIELDS = ['vin', 'dealer_id', 'dealer_name', 'dealer_vdp_url'] as const;
+
+export type GenericColumnMapping = Partial<Record<MappableVehicleField, string>> &
+  Record<(typeof REQUIRED_MAPPED_FIELDS)[number], string>;
+
+export interface GenericFeedSourceConfig {
+  /** Stable identifier stored in vehicles.source (lowercase, no spaces) */
+  id: string;
+  name?: string;
+  url: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  format: GenericFeedFormat;
+  /** Feed is delivered as a ZIP; the first entry matching the format extension is used */
+  zipped?: boolean;
+  /** JSON only: dot path to the records array (e.g. "data.vehicles") */
+  recordsPath?: string;
+  /** vehicles column → publisher field name */
+  columns: GenericColumnMapping;
+  /** Delimiter for the image_urls field (default: ',') */
+  imageUrlDelimiter?: string;
+  /** Used when the feed has no radius column (default: 30) */
+  defaultTargetingRadius?: number;
+}
+
+const MAPPABLE_FIELDS = new Set<string>([
+  'vin',
+  'year',
+  'make',
+  'model',
+  'trim',
+  'price',
+  'miles',
+  'condition',
+  'body_style',
+  'image_urls',
+  'transmission',
+  'fuel_type',
+  'drive_type',
+  'exterior_color',
+  'interior_color',
+  'doors',
+  'cylinders',
+  'description',
+  'options',
+  'dealer_id',
+  'dealer_name',
+  'dealer_address',
+  'dealer_city',
+  'dealer_state',
+  'dealer_zip',
+  'dealer_vdp_url',
+  'latitude',
+  'longitude',
+  'targeting_radius',
+  'dma',
+  'certified',
+  'dol',
+  'payout',
+  'priority',
+] satisfies MappableVehicleField[]);
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+export class GenericFeedSource implements FeedSource<GenericRow> {
+  readonly id: string;
+  readonly name: string;
+  private config: GenericFeedSourceConfig;
+
+  constructor(config: GenericFeedSourceConfig) {
+    this.config = config;
+    this.id = config.id;
+    this.name = config.name || config.id;
+  }
+
+  async fetch(): Promise<Readable> {
+    console.log(`Downloading from ${this.config.url}`);
+
+    return downloadStream(this.config.url, {
+      method: this.config.method || 'GET',
+      headers: this.config.headers,
+      body: this.config.body,
+    });
+  }
+
+  parse(stream: Readable, options: FeedParseOptions = {}): AsyncIterable<GenericRow> {
+    const { format, recordsPath } = this.config;
+    const zipped = options.zipped ?? this.config.zipped;
+    const extension = format === 'ndjson' ? '.ndjson' : `.${format}`;
+    const onExtractTime = options.onStageTime && ((ms: number) => options.onStageTime?.('extract', ms));
+    const input = zipped ? extractZipEntry(stream, extension, onExtractTime) : stream;
+
+    // JSON parse time is not split out (it counts as download)
+    switch (format) {
+      case 'csv':
+        return parseDelimited<GenericRow>(input, ',', options);
+      case 'tsv':
+        return parseDelimited<GenericRow>(input, '\t', options);
+      case 'ndjson':
+        return parseNdjson(input);
+      case 'json':
+        return parseJsonArray(input, recordsPath);
+    }
+  }
+
+  map(row: GenericRow, syncedAt: string): DbVehicle {
+    const { columns } = this.config;
+    const field = (name: MappableVehicleField): string => {
+      const column = columns[name];
+      return column ? toText(row[column]) : '';
+    };
+    const text = (name: MappableVehicleField): string | null => field(name) || null;
+    const integer = (name: MappableVehicleField): number | null => parseInt(field(name)) || null;
+    const decimal = (name: MappableVehicleField): number | null => parseFloat(field(name)) || null;
+
+    const imageUrls = parseImageUrls(field('image_urls'), this.config.imageUrlDelimiter);
+
+    return {
+      vin: field('vin'),
+      year: integer('year'),
+      make: text('make'),
+      model: text('model'),
+      trim: text('trim'),
+      price: decimal('price') || 0,
+      miles: integer('miles'),
+      condition: text('condition'),
+      body_style: text('body_style'),
+      primary_image_url: imageUrls[0] || '',
+      image_urls: imageUrls,
+      transmission: text('transmission'),
+      fuel_type: text('fuel_type'),
+      drive_type: text('drive_type'),
+      exterior_color: text('exterior_color'),
+      interior_color: text('interior_color'),
+      mpg_city: null,
+      mpg_highway: null,
+      mpg_combined: null,
+      doors: integer('doors'),
+      cylinders: integer('cylinders'),
+      description: text('description'),
+      features: parseFeatures(field('options')),
+      options: text('options'),
+      dealer_id: field('dealer_id'),
+      dealer_name: field('dealer_name'),
+      dealer_address: text('dealer_address'),
+      dealer_city: text('dealer_city'),
+      dealer_state: text('dealer_state'),
+      dealer_zip: text('dealer_zip'),
+      dealer_vdp_url: field('dealer_vdp_url'),
+      total_photos: imageUrls.length,
+      latitude: decimal('latitude'),
+      longitude: decimal('longitude'),
+      targeting_radius: integer('targeting_radius') || this.config.defaultTargetingRadius || 30,
+      dma: text('dma'),
+      certified: parseCertified(field('certified')),
+      dol: parseDol(field('dol')),
+      payout: parsePayout(field('payout')),
+      priority: parsePriority(field('priority')),
+      source: this.id,
+      is_active: true,
+      last_sync: syncedAt,
+    };
+  }
+}
+
+/**
+ * Validate a generic source config (e.g. parsed from FEED_SOURCES)
+ * Throws with a descriptive message so misconfiguration fails the sync loudly.
+ */
+export function validateGenericFeedSourceConfig(config: GenericFeedSourceConfig): void {
+  if (!config || typeof config !== 'object') {
+    throw new Error('Feed source config must be an object');
+  }
+
+  if (!config.id || !/^[a-z0-9_-]+$/.test(config.id)) {
+    throw new Error(`Feed source id "${config.id}" must be lowercase letters, digits, "-" or "_"`);
+  }
+
+  if (config.id === 'lotlinx') {
+    throw new Error('Feed source id "lotlinx" is reserved for the built-in LotLinx adapter');
+  }
+
+  if (!config.url) {
+    throw new Error(`Feed source "${config.id}" is missing url`);
+  }
+
+  if (!['csv', 'tsv', 'json', 'ndjson'].includes(config.format)) {
+    throw new Error(`Feed source "${config.id}" has unsupported format "${config.format}"`);
+  }
+
+  for (const required of REQUIRED_MAPPED_FIELDS) {
+    if (!config.columns?.[required]) {
+      throw new Error(`Feed source "${config.id}" must map the "${required}" column`);
+    }
+  }
+
+  for (const mapped of Object.keys(config.columns)) {
+    if (!MAPPABLE_FIELDS.has(mapped)) {
+      throw new Error(`Feed source "${config.id}" maps unknown vehicles column "${mapped}"`);
+    }
+  }
+}
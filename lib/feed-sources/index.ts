@@ -0,0 +1,70 @@
+/**
+ * Feed Sources
+ * Inventory publisher adapters used by FeedSyncService
+ */
+
+import type { FeedSource } from './types';
+import { LotLinxFeedSource } from './lotlinx';
+import {
+  GenericFeedSource,
+  validateGenericFeedSourceConfig,
+  type GenericFeedSourceConfig,
+} from './generic';
+
+export type { DbVehicle, FeedColumnContract, FeedParseOptions, FeedSource } from './types';
+export { LotLinxFeedSource, type LotLinxVehicle, type LotLinxFeedSourceConfig } from './lotlinx';
+export {
+  GenericFeedSource,
+  validateGenericFeedSourceConfig,
+  type GenericFeedSourceConfig,
+  type GenericFeedFormat,
+  type GenericColumnMapping,
+} from './generic';
+
+/**
+ * Build every feed source configured in the environment
+ *
+ * - LotLinx: enabled when LOTLINX_FEED_USERNAME/PASSWORD/PUBLISHER_ID are set
+ * - Others:  FEED_SOURCES, a JSON array of GenericFeedSourceConfig
+ */
+export function loadFeedSources(env: NodeJS.ProcessEnv = process.env): FeedSource[] {
+  const sources: FeedSource[] = [];
+
+  if (env.LOTLINX_FEED_USERNAME && env.LOTLINX_FEED_PASSWORD && env.LOTLINX_PUBLISHER_ID) {
+    sources.push(
+      new LotLinxFeedSource({
+        username: env.LOTLINX_FEED_USERNAME,
+        password: env.LOTLINX_FEED_PASSWORD,
+        publisherId: env.LOTLINX_PUBLISHER_ID,
+      })
+    );
+  }
+
+  if (env.FEED_SOURCES) {
+    let configs: GenericFeedSourceConfig[];
+    try {
+      configs = JSON.parse(env.FEED_SOURCES);
+    } catch {
+      throw new Error('FEED_SOURCES must be valid JSON');
+    }
+
+    if (!Array.isArray(configs)) {
+      throw new Error('FEED_SOURCES must be a JSON array');
+    }
+
+    for (const config of configs) {
+      validateGenericFeedSourceConfig(config);
+      sources.push(new GenericFeedSource(config));
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const source of sources) {
+    if (seen.has(source.id)) {
+      throw new Error(`Duplicate feed source id "${source.id}"`);
+    }
+    seen.add(source.id);
+  }
+
+  return sources;
+}
@@ -0,0 +1,207 @@
+/**
+ * LotLinx Feed Source
+ * Publisher feed delivered as a ZIP containing one TSV, downloaded via POST login
+ */
+
+import type { Readable } from 'stream';
+import type { DbVehicle, FeedColumnContract, FeedParseOptions, FeedSource } from './types';
+import { downloadStream, extractZipEntry, parseDelimited } from './streams';
+import { parseCertified, parseDol, parseImageUrls, parsePayout, parsePriority } from './parsers';
+import { parseFeatures } from '../vehicle-features';
+
+const LOTLINX_FEED_URL = 'https://feed.lotlinx.com/';
+
+// Feed field mapping (34 fields from LotLinx TSV)
+// Column names are capitalized in the feed
+export interface LotLinxVehicle {
+  Vin: string;
+  Year: string;
+  Make: string;
+  Model: string;
+  Trim: string;
+  Price: string;
+  Miles: string;
+  Condition: string;
+  BodyStyle: string;
+  ImageUrls: string; // Comma-separated image URLs
+  Transmission: string;
+  FuelType: string;
+  Drive: string;
+  ExteriorColor: string;
+  InteriorColor: string;
+  Doors: string;
+  Cylinders: string;
+  Description: string;
+  Options: string;
+  DealerId: string;
+  DealerName: string;
+  Address: string;
+  City: string;
+  State: string;
+  Zip: string;
+  Url: string; // Dealer VDP URL
+  Certified: string;
+  Latitude: string;
+  Longitude: string;
+  Dma: string;
+  Radius: string;
+  Payout: string;
+  Priority: string;
+  Dol: string;
+}
+
+/**
+ * Header contract: every LotLinxVehicle column, required where a missing column would get
+ * every row rejected by validation (lib/feed-validation.ts)
+ */
+const LOTLINX_COLUMNS = {
+  Vin: 'required',
+  Year: 'required',
+  Make: 'optional',
+  Model: 'optional',
+  Trim: 'optional',
+  Price: 'required',
+  Miles: 'optional',
+  Condition: 'optional',
+  BodyStyle: 'optional',
+  ImageUrls: 'required',
+  Transmission: 'optional',
+  FuelType: 'optional',
+  Drive: 'optional',
+  ExteriorColor: 'optional',
+  InteriorColor: 'optional',
+  Doors: 'optional',
+  Cylinders: 'optional',
+  Description: 'optional',
+  Options: 'optional',
+  DealerId: 'required',
+  DealerName: 'required',
+  Address: 'optional',
+  City: 'optional',
+  State: 'optional',
+  Zip: 'optional',
+  Url: 'required',
+  Certified: 'optional',
+  Latitude: 'optional',
+  Longitude: 'optional',
+  Dma: 'optional',
+  Radius: 'optional',
+  Payout: 'optional',
+  Priority: 'optional',
+  Dol: 'optional',
+} satisfies Record<keyof LotLinxVehicle, 'required' | 'optional'>;
+
+const LOTLINX_COLUMN_CONTRACT: FeedColumnContract = {
+  columns: Object.keys(LOTLINX_COLUMNS),
+  required: Object.entries(LOTLINX_COLUMNS)
+    .filter(([, status]) => status === 'required')
+    .map(([column]) => column),
+};
+
+export interface LotLinxFeedSourceConfig {
+  username: string;
+  password: string;
+  publisherId: string;
+  feedUrl?: string;
+}
+
+export class LotLinxFeedSource implements FeedSource<LotLinxVehicle> {
+  readonly id = 'lotlinx';
+  readonly name = 'LotLinx';
+  readonly columns = LOTLINX_COLUMN_CONTRACT;
+  private feedUrl: string;
+  private username: string;
+  private password: string;
+  private publisherId: string;
+
+  constructor(config: LotLinxFeedSourceConfig) {
+    this.username = config.username;
+    this.password = config.password;
+    this.publisherId = config.publisherId;
+    this.feedUrl = config.feedUrl || LOTLINX_FEED_URL;
+  }
+
+  /**
+   * Open a streaming download of the feed ZIP from LotLinx
+   */
+  async fetch(): Promise<Readable> {
+    // Use POST params as per documentation
+    const params = new URLSearchParams();
+    params.append('username', this.username);
+    params.append('password', this.password);
+
+    console.log(`Downloading from ${this.feedUrl}`);
+
+    return downloadStream(this.feedUrl, {
+      method: 'POST',
+      body: params,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+    });
+  }
+
+  /**
+   * Unzip the TSV entry and parse it into rows on the fly
+   * Pass `zipped: false` for an already-extracted TSV (e.g. a local file).
+   */
+  parse(stream: Readable, options: FeedParseOptions = {}): AsyncIterable<LotLinxVehicle> {
+    const zipped = options.zipped ?? true;
+    const onExtractTime = options.onStageTime && ((ms: number) => options.onStageTime?.('extract', ms));
+    const tsv = zipped ? extractZipEntry(stream, '.tsv', onExtractTime) : stream;
+    return parseDelimited<LotLinxVehicle>(tsv, '\t', options);
+  }
+
+  /**
+   * Map LotLinx vehicle to database schema
+   */
+  map(vehicle: LotLinxVehicle, syncedAt: string): DbVehicle {
+    const imageUrls = parseImageUrls(vehicle.ImageUrls);
+
+    return {
+      vin: vehicle.Vin,
+      year: parseInt(vehicle.Year) || null,
+      make: vehicle.Make || null,
+      model: vehicle.Model || null,
+      trim: vehicle.Trim || null,
+      price: parseFloat(vehicle.Price) || 0,
+      miles: parseInt(vehicle.Miles) || null,
+      condition: vehicle.Condition || null,
+      body_style: vehicle.BodyStyle || null,
+      primary_image_url: imageUrls[0] || '',
+      image_urls: imageUrls,
+      transmission: vehicle.Transmission || null,
+      fuel_type: vehicle.FuelType || null,
+      drive_type: vehicle.Drive || null,
+      exterior_color: vehicle.ExteriorColor || null,
+      interior_color: vehicle.InteriorColor || null,
+      mpg_city: null, // Not in feed
+      mpg_highway: null, // Not in feed
+      mpg_combined: null, // Not in feed
+      doors: parseInt(vehicle.Doors) || null,
+      cylinders: parseInt(vehicle.Cylinders) || null,
+      description: vehicle.Description || null,
+      features: parseFeatures(vehicle.Options),
+      options: vehicle.Options || null,
+      dealer_id: vehicle.DealerId,
+      dealer_name: vehicle.DealerName,
+      dealer_address: vehicle.Address || null,
+      dealer_city: vehicle.City || null,
+      dealer_state: vehicle.State || null,
+      dealer_zip: vehicle.Zip || null,
+      dealer_vdp_url: vehicle.Url,
+      total_photos: imageUrls.length,
+      latitude: parseFloat(vehicle.Latitude) || null,
+      longitude: parseFloat(vehicle.Longitude) || null,
+      targeting_radius: parseInt(vehicle.Radius) || 30,
+      dma: vehicle.Dma || null,
+      certified: parseCertified(vehicle.Certified),
+      dol: parseDol(vehicle.Dol),
+      payout: parsePayout(vehicle.Payout),
+      priority: parsePriority(vehicle.Priority),
+      source: this.id,
+      is_active: true,
+      last_sync: syncedAt,
+    };
+  }
+}
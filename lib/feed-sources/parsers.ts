@@ -0,0 +1,50 @@
+/**
+ * Feed Field Parsers
+ * Shared string → value conversions used by feed source adapters
+ */
+
+/**
+ * Parse certified field
+ * Handles: 'true', 'True', '1', 'yes', 'YES', etc.
+ */
+export function parseCertified(value: string | undefined): boolean {
+  return ['true', '1', 'yes'].includes(value?.toLowerCase() || '');
+}
+
+/**
+ * Parse days on lot field
+ * Critical: Preserves 0 (not null) for newly added vehicles
+ * Rejects negative values (days on lot cannot be negative)
+ */
+export function parseDol(value: string | undefined): number | null {
+  const parsed = parseInt(value || '', 10);
+  return !isNaN(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Split a delimited image URL list into trimmed, non-empty URLs
+ */
+export function parseImageUrls(value: string | undefined, delimiter = ','): string[] {
+  if (!value) return [];
+  return value
+    .split(delimiter)
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse payout field (dollars per billable click)
+ * Accepts "1.25" or "$1.25"; zero is kept, missing, unparseable or negative payouts become null
+ */
+export function parsePayout(value: string | undefined): number | null {
+  const parsed = parseFloat((value || '').replace(/[$,\s]/g, ''));
+  return !isNaN(parsed) && parsed >= 0 ? Math.round(parsed * 100) / 100 : null;
+}
+
+/**
+ * Parse priority field (higher = publisher wants the VIN promoted more)
+ */
+export function parsePriority(value: string | undefined): number | null {
+  const parsed = parseInt(value || '', 10);
+  return !isNaN(parsed) ? parsed : null;
+}
@@ -0,0 +1,202 @@
+/**
+ * Feed Stream Helpers
+ * Streaming download, unzip, and parse building blocks shared by feed source adapters
+ */
+
+import { Readable, Transform, pipeline } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { createInterface } from 'readline';
+import { parse } from 'csv-parse';
+import { Unzip, UnzipInflate } from 'fflate';
+import type { FeedParseOptions } from './types';
+
+const DOWNLOAD_TIMEOUT_MS = 60000; // 60s to connect and receive headers
+
+function toExtractError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error(`Failed to extract ZIP: ${message}`);
+}
+
+/**
+ * Open a streaming HTTP download
+ *
+ * Timeout only covers connecting and receiving headers. The body is consumed
+ * while batches are upserted, so the overall run is bounded by the cron maxDuration.
+ */
+export async function downloadStream(url: string, init: RequestInit = {}): Promise<Readable> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  if (!response.body) {
+    throw new Error('Feed response has no body');
+  }
+
+  return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+}
+
+/**
+ * Stream the first matching entry out of a ZIP stream using fflate
+ * Other entries are skipped without being inflated.
+ *
+ * @param onTime - Receives the time spent inflating each chunk (inflation is synchronous)
+ */
+export function extractZipEntry(zipStream: Readable, extension: string, onTime?: (ms: number) => void): Readable {
+  const unzip = new Unzip();
+  unzip.register(UnzipInflate);
+
+  let headerChecked = false;
+  let entryFound = false;
+
+  const entryStream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      // Verify it's a zip file (starts with PK)
+      if (!headerChecked) {
+        if (chunk.length < 2 || chunk[0] !== 0x50 || chunk[1] !== 0x4b) {
+          callback(new Error('Downloaded file is not a valid ZIP file (missing PK header)'));
+          return;
+        }
+        headerChecked = true;
+      }
+
+      try {
+        // Inflated data is pushed synchronously from the onfile handler below
+        const start = Date.now();
+        unzip.push(chunk);
+        onTime?.(Date.now() - start);
+        callback();
+      } catch (error) {
+        callback(toExtractError(error));
+      }
+    },
+    flush(callback) {
+      try {
+        unzip.push(new Uint8Array(0), true);
+
+        if (!entryFound) {
+          throw new Error(`No ${extension.toUpperCase().replace('.', '')} file found in ZIP`);
+        }
+
+        callback();
+      } catch (error) {
+        callback(toExtractError(error));
+      }
+    },
+  });
+
+  unzip.onfile = (file) => {
+    // Unstarted entries are skipped by fflate
+    if (entryFound || !file.name.toLowerCase().endsWith(extension)) return;
+
+    entryFound = true;
+    console.log(`Found ${extension} entry: ${file.name}`);
+
+    file.ondata = (error, data) => {
+      if (error) {
+        entryStream.destroy(toExtractError(error));
+        return;
+      }
+      if (data.length > 0) {
+        entryStream.push(Buffer.from(data));
+      }
+    };
+    file.start();
+  };
+
+  return pipeline(zipStream, entryStream, () => {
+    // Errors surface to the consumer through the destroyed entryStream
+  });
+}
+
+/**
+ * Parse a delimited (TSV/CSV) stream with a header row into records
+ * @param hooks.onHeader - Receives the header columns (for schema drift checks)
+ * @param hooks.onStageTime - Receives the time spent parsing each chunk as 'parse'
+ */
+export function parseDelimited<TRow = Record<string, string>>(
+  stream: Readable,
+  delimiter: string,
+  hooks: Pick<FeedParseOptions, 'onHeader' | 'onStageTime'> = {}
+): AsyncIterable<TRow> {
+  const { onHeader, onStageTime } = hooks;
+  const parser = parse({
+    delimiter,
+    columns: (header: string[]) => {
+      onHeader?.(header);
+      return header;
+    },
+    skip_empty_lines: true,
+    trim: true,
+    relax_quotes: true,
+    relax_column_count: true,
+    // TSV feeds have messy quotes, CSV feeds need them for embedded commas
+    quote: delimiter === '\t' ? false : '"',
+  });
+
+  // csv-parse parses each chunk synchronously inside _transform
+  if (onStageTime) {
+    const transform = parser._transform.bind(parser);
+    parser._transform = (chunk, encoding, callback) => {
+      const start = Date.now();
+      transform(chunk, encoding, callback);
+      onStageTime('parse', Date.now() - start);
+    };
+  }
+
+  return pipeline(stream, parser, () => {
+    // Errors surface to the consumer through the destroyed parser
+  });
+}
+
+/**
+ * Parse newline-delimited JSON (one object per line) into records
+ */
+export async function* parseNdjson(stream: Readable): AsyncIterable<Record<string, unknown>> {
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed) {
+      yield JSON.parse(trimmed) as Record<string, unknown>;
+    }
+  }
+}
+
+/**
+ * Parse a JSON document containing an array of records
+ * NOTE: Buffers the whole document - prefer NDJSON for large feeds.
+ *
+ * @param recordsPath - Dot path to the array (e.g. "data.vehicles"); omit for a top-level array
+ */
+export async function* parseJsonArray(
+  stream: Readable,
+  recordsPath?: string
+): AsyncIterable<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  let records: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  for (const key of recordsPath ? recordsPath.split('.') : []) {
+    records = (records as Record<string, unknown> | null)?.[key];
+  }
+
+  if (!Array.isArray(records)) {
+    throw new Error(`JSON feed has no records array${recordsPath ? ` at "${recordsPath}"` : ''}`);
+  }
+
+  for (const record of records) {
+    yield record as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Feed Source Types
+ * Shared contract between FeedSyncService and inventory publisher adapters
+ */
+
+import type { Readable } from 'stream';
+
+/**
+ * Row shape written to the vehicles table by the feed sync
+ */
+export interface DbVehicle {
+  vin: string;
+  year: number | null;
+  make: string | null;
+  model: string | null;
+  trim: string | null;
+  price: number;
+  miles: number | null;
+  condition: string | null;
+  body_style: string | null;
+  primary_image_url: string;
+  /** Full ordered photo list from the feed (primary_image_url is the first entry) */
+  image_urls: string[];
+  transmission: string | null;
+  fuel_type: string | null;
+  drive_type: string | null;
+  exterior_color: string | null;
+  interior_color: string | null;
+  /** EPA fuel economy; adapters leave these null and the sync fills them (see lib/fuel-economy.ts) */
+  mpg_city: number | null;
+  mpg_highway: number | null;
+  mpg_combined: number | null;
+  doors: number | null;
+  cylinders: number | null;
+  description: string | null;
+  /** Canonical feature ids parsed from options (see lib/vehicle-features.ts) */
+  features: string[];
+  options: string | null;
+  dealer_id: string;
+  dealer_name: string;
+  dealer_address: string | null;
+  dealer_city: string | null;
+  dealer_state: string | null;
+  dealer_zip: string | null;
+  dealer_vdp_url: string;
+  total_photos: number;
+  latitude: number | null;
+  longitude: number | null;
+  targeting_radius: number;
+  dma: string | null;
+  certified: boolean;
+  dol: number | null;
+  /** Dollars a billable click on this VIN earns (null = not in feed, see lib/payout.ts) */
+  payout: number | null;
+  /** Publisher priority, higher ranks first on relevance ties */
+  priority: number | null;
+  /** Feed fields that disagree with the VIN decode; set by the sync, not adapters (see lib/vin.ts) */
+  vin_mismatches?: string[];
+  /** Feed source id the row came from (see FeedSource.id) */
+  source: string;
+  is_active: boolean;
+  last_sync: string;
+}
+
+export interface FeedParseOptions {
+  /**
+   * Whether the stream is a ZIP archive (default: however the publisher delivers it)
+   * Lets a local, already-extracted feed file go through the same parser.
+   */
+  zipped?: boolean;
+  /** Called with the header row of delimited feeds, before the first row is yielded */
+  onHeader?: (columns: string[]) => void;
+  /** Reports busy time spent inflating the ZIP / parsing rows (feed_sync_logs.stage_timings) */
+  onStageTime?: (stage: 'extract' | 'parse', ms: number) => void;
+}
+
+/**
+ * Columns a delimited feed is expected to carry (checked by the sync, see lib/feed-schema.ts)
+ */
+export interface FeedColumnContract {
+  /** Every expected header column */
+  columns: string[];
+  /** Columns whose absence would break every row; a header missing one fails the run */
+  required: string[];
+}
+
+/**
+ * Inventory publisher adapter
+ *
+ * Each adapter owns the three publisher-specific steps of a sync:
+ * 1. fetch - open a byte stream of the raw feed
+ * 2. parse - turn that stream into raw rows (async, one row at a time)
+ * 3. map   - convert a raw row into a DbVehicle
+ *
+ * FeedSyncService handles everything after mapping (batching, upserts,
+ * deactivation, logging), scoped to the adapter's `id`.
+ */
+export interface FeedSource<TRow = unknown> {
+  /** Stable identifier stored in vehicles.source and feed_sync_logs.source */
+  readonly id: string;
+  /** Human-readable name for logs */
+  readonly name: string;
+  /** Header contract for drift detection (sources without one skip the check) */
+  readonly columns?: FeedColumnContract;
+  fetch(): Promise<Readable>;
+  parse(stream: Readable, options?: FeedParseOptions): AsyncIterable<TRow>;
+  map(row: TRow, syncedAt: string): DbVehicle;
+}
@@ -0,0 +1,84 @@
+/**
+ * Feed Sync History
+ * Stage timings recorded by FeedSyncService (feed_sync_logs.stage_timings) and the feed
+ * freshness rules shown on /admin/feed-syncs. No runtime imports, so client components can use it.
+ *
+ * The sync streams the feed, so download, extraction and parsing overlap. Stages are busy time:
+ * - extract / parse: time spent inflating the ZIP and parsing rows (measured in lib/feed-sources/streams.ts)
+ * - download: opening the feed, plus time spent waiting for rows beyond extract/parse work
+ * - upsert: loading stored VINs and EPA fuel economy, lookups, upserts, rejections, price history and lifecycle events
+ * - deactivate: circuit breaker checks and the removal pass
+ */
+
+export const SYNC_STAGES = ['download', 'extract', 'parse', 'upsert', 'deactivate'] as const;
+
+export type SyncStage = (typeof SYNC_STAGES)[number];
+
+/** Milliseconds per stage */
+export type StageTimings = Record<SyncStage, number>;
+
+export const SYNC_STAGE_LABELS: Record<SyncStage, string> = {
+  download: 'Download',
+  extract: 'Extract',
+  parse: 'Parse',
+  upsert: 'Upsert',
+  deactivate: 'Deactivate',
+};
+
+/** Cron schedule: 03:00, 09:00, 15:00, 21:00 (vercel.json) */
+export const SYNC_INTERVAL_HOURS = 6;
+
+/**
+ * fresh    - a successful sync within one interval (plus an hour of slack)
+ * delayed  - one scheduled sync missed or failed
+ * stale    - two or more missed, or never synced
+ */
+export type FeedFreshness = 'fresh' | 'delayed' | 'stale';
+
+export const FEED_FRESHNESS_LABELS: Record<FeedFreshness, string> = {
+  fresh: 'Fresh',
+  delayed: 'Delayed',
+  stale: 'Stale',
+};
+
+export function createStageTimings(): StageTimings {
+  return { download: 0, extract: 0, parse: 0, upsert: 0, deactivate: 0 };
+}
+
+/**
+ * Stored stage_timings -> complete timings (older runs have none, unknown keys are dropped)
+ */
+export function normalizeStageTimings(value: unknown): StageTimings {
+  const timings = createStageTimings();
+  if (value && typeof value === 'object') {
+    for (const stage of SYNC_STAGES) {
+      const ms = Number((value as Record<string, unknown>)[stage]);
+      if (ms > 0) timings[stage] = Math.round(ms);
+    }
+  }
+  return timings;
+}
+
+/**
+ * Freshness of a source from its last successful (or partial) sync
+ */
+export function getFeedFreshness(lastSuccessAt: string | null, now: Date = new Date()): FeedFreshness {
+  if (!lastSuccessAt) return 'stale';
+
+  const hours = (now.getTime() - new Date(lastSuccessAt).getTime()) / (60 * 60 * 1000);
+  if (hours <= SYNC_INTERVAL_HOURS + 1) return 'fresh';
+  if (hours <= SYNC_INTERVAL_HOURS * 2 + 1) return 'delayed';
+  return 'stale';
+}
+
+/**
+ * "850ms", "12.4s", "3m 05s"
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
@@ -1,363 +1,868 @@
 /**
- * LotLinx Feed Sync
- * Downloads, parses, and syncs vehicle data from LotLinx Publisher Feed
+ * Feed Sync
+ * Downloads, parses, and syncs vehicle data from inventory publisher feeds
+ * Publisher-specific fetch/parse/map logic lives in lib/feed-sources
  */
 
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { parse as parseCsv } from 'csv-parse/sync';
 import { createClient } from '@supabase/supabase-js';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as https from 'https';
-import { createReadStream, createWriteStream } from 'fs';
-import { parse } from 'csv-parse';
-import AdmZip from 'adm-zip';
-
-// Feed field mapping (34 fields from LotLinx TSV)
-// Column names are capitalized in the feed
-interface LotLinxVehicle {
-  Vin: string;
-  Year: string;
-  Make: string;
-  Model: string;
-  Trim: string;
-  Price: string;
-  Miles: string;
-  Condition: string;
-  BodyStyle: string;
-  ImageUrls: string; // Comma-separated image URLs
-  Transmission: string;
-  FuelType: string;
-  Drive: string;
-  ExteriorColor: string;
-  InteriorColor: string;
-  Doors: string;
-  Cylinders: string;
-  Description: string;
-  Options: string;
-  DealerId: string;
-  DealerName: string;
-  Address: string;
-  City: string;
-  State: string;
-  Zip: string;
-  Url: string; // Dealer VDP URL
-  Certified: string;
-  Latitude: string;
-  Longitude: string;
-  Dma: string;
-  Radius: string;
-  Payout: string;
-  Priority: string;
-  Dol: string;
+import type { DbVehicle, FeedSource } from './feed-sources';
+import { parseCertified, parseDol } from './feed-sources/parsers';
+import { validateVehicle, type RejectionReason } from './feed-validation';
+import { checkDeactivation, getMaxDropPercent, HISTORY_SYNC_COUNT } from './feed-circuit-breaker';
+import { computeContentHash } from './feed-content-hash';
+import { DIFF_COLUMNS, diffVehicle, formatFeedDiffSummary, type DiffSnapshot, type FeedDiff } from './feed-diff';
+import { nextPriceState, priceChanged, type PriceState } from './price-history';
+import { daysListed, type LifecycleEvent } from './vehicle-lifecycle';
+import { normalizeVin, reconcileVehicleWithVin } from './vin';
+import { getNotificationConfig, getSyncNotifications, sendNotifications, type NotificationConfig } from './notifications';
+import { addToFuelEconomyIndex, matchFuelEconomy, type EpaVehicle, type FuelEconomyIndex } from './fuel-economy';
+import {
+  compareHeader,
+  createNullRateCounts,
+  findNullRateIncreases,
+  formatMissingRequired,
+  formatNullRateIncrease,
+  formatSchemaDrift,
+  getNullRates,
+  hasSchemaDrift,
+  NULL_RATE_HISTORY_SYNC_COUNT,
+  recordNulls,
+  type FeedSchemaDrift,
+  type NullRateCounts,
+} from './feed-schema';
+import { createStageTimings, formatDuration, SYNC_STAGES, type StageTimings, type SyncStage } from './feed-sync-history';
+
+const BATCH_SIZE = 1000;
+const REJECTION_RETENTION_DAYS = 30;
+/** Sync lock lease, renewed at every checkpoint (a killed run frees its source this long after the last one) */
+const SYNC_LOCK_LEASE_SECONDS = 300;
+/** epa_fuel_economy columns used for matching */
+const EPA_COLUMNS =
+  'epa_id,year,make,model,base_model,cylinders,drive,fuel_type,atv_type,mpg_city,mpg_highway,mpg_combined';
+
+/** Matches feed_sync_logs.status ('skipped' = another run held the sync lock; never logged) */
+export type FeedSyncStatus = 'success' | 'partial' | 'failed' | 'skipped';
+
+/** Sync phases recorded in feed_sync_checkpoints */
+type SyncPhase = 'upserting' | 'deactivating';
+
+/** feed_sync_checkpoints row as returned by acquire_feed_sync_lock */
+interface SyncCheckpoint {
+  sync_run_id: string;
+  status: 'running' | 'complete' | 'failed';
+  phase: 'starting' | SyncPhase;
+  rows_processed: number;
+  rows_written: number;
+  vehicles_removed: number;
+  last_vin: string | null;
+  started_at: string;
+  heartbeat_at: string;
+  lease_expires_at: string;
+}
+
+export interface FeedSyncOptions {
+  /** Deactivate missing VINs even if the circuit breaker trips (admin override) */
+  forceDeactivation?: boolean;
+  /** Overrides FEED_SYNC_MAX_DROP_PERCENT */
+  maxDropPercent?: number;
+  /** Compute a diff against the vehicles table instead of writing (no upserts, rejections, or logs) */
+  dryRun?: boolean;
+  /** Read the feed from a local file instead of downloading (.zip, or an extracted TSV/CSV/JSON) */
+  inputFile?: string;
+  /** Overrides the NOTIFY_* webhook settings (see lib/notifications.ts) */
+  notifications?: NotificationConfig;
+  /** Called as the run moves through its phases and after every batch (e.g. the admin SSE stream) */
+  onProgress?: (progress: FeedSyncProgress) => void;
+}
+
+/** Where a run is: the checkpoint phases, bracketed by start and finish */
+export type FeedSyncProgressPhase = 'starting' | SyncPhase | 'finished';
+
+/** Snapshot passed to FeedSyncOptions.onProgress */
+export interface FeedSyncProgress {
+  source: string;
+  /** Run id to cancel (matches feed_sync_checkpoints / feed_sync_logs.sync_run_id) */
+  syncRunId: string;
+  phase: FeedSyncProgressPhase;
+  /** Feed rows read so far */
+  rowsProcessed: number;
+  /** Rows upserted so far */
+  rowsWritten: number;
+  /** Upsert batches written */
+  batches: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  reactivated: number;
+  rejected: number;
+  removed: number;
+  errors: string[];
 }
 
-interface FeedSyncResult {
+export interface FeedSyncResult {
   success: boolean;
+  /**
+   * 'partial' = vehicles upserted but deactivation held back by the circuit breaker
+   * 'skipped' = another run holds the source's sync lock (nothing read or written)
+   */
+  status: FeedSyncStatus;
+  source: string;
+  /** VINs never seen before */
   added: number;
+  /** Active VINs whose content changed */
   updated: number;
+  /** Active VINs skipped because their content hash matched */
+  unchanged: number;
+  /** Previously deactivated VINs back in the feed */
+  reactivated: number;
+  /** Active VINs deactivated because they left the feed */
   removed: number;
+  /** Price changes appended to vehicle_price_history */
+  priceChanges: number;
+  /** VINs the circuit breaker kept active (0 unless status is 'partial') */
+  pendingRemoval: number;
+  /** Valid vehicles in the feed */
+  feedVehicles: number;
+  /** Rows quarantined in feed_rejections instead of being upserted */
+  rejected: number;
+  /** Rejection counts per rule (a row failing several rules counts once per rule) */
+  rejectionsByRule: Partial<Record<RejectionReason, number>>;
+  /** Rows whose missing year/make was filled from the VIN */
+  vinFilled: number;
+  /** Rows whose feed year/make disagrees with the VIN (flagged in vehicles.vin_mismatches) */
+  vinMismatches: number;
+  /** Header vs. the source's column contract (null if the source has none or no header was read) */
+  schemaDrift: FeedSchemaDrift | null;
+  /** Share of empty values per contract column (0-1; null without a contract or rows) */
+  nullRates: Record<string, number> | null;
+  /** Feed rows read (valid, rejected and repeated VINs) */
+  rowsRead: number;
+  /** Busy milliseconds per stage (see lib/feed-sync-history.ts) */
+  stageTimings: StageTimings;
   errors: string[];
+  /** Operator-facing warnings (e.g. circuit breaker trips) */
+  alerts: string[];
   duration: number;
+  /** Dry run only: what the sync would have changed */
+  diff?: FeedDiff;
+  /** Stopped by an admin cancel request (status 'failed') */
+  cancelled?: boolean;
+}
+
+/** Counts produced by the database write phase of a sync */
+type DatabaseSyncResult = Pick<
+  FeedSyncResult,
+  | 'added'
+  | 'updated'
+  | 'unchanged'
+  | 'reactivated'
+  | 'removed'
+  | 'priceChanges'
+  | 'pendingRemoval'
+  | 'feedVehicles'
+  | 'rejected'
+  | 'rejectionsByRule'
+  | 'alerts'
+>;
+
+interface FeedRejectionRow {
+  sync_run_id: string;
+  source: string;
+  vin: string;
+  dealer_id: string | null;
+  dealer_name: string | null;
+  reasons: RejectionReason[];
+  messages: string[];
+  vehicle: DbVehicle;
+}
+
+interface PriceHistoryRow {
+  sync_run_id: string;
+  source: string;
+  vin: string;
+  old_price: number;
+  new_price: number;
+  changed_at: string;
 }
 
-interface DbVehicle {
+interface LifecycleEventRow {
+  sync_run_id: string;
+  source: string;
   vin: string;
-  year: number | null;
-  make: string | null;
-  model: string | null;
-  trim: string | null;
-  price: number;
-  miles: number | null;
-  condition: string | null;
-  body_style: string | null;
-  primary_image_url: string;
-  transmission: string | null;
-  fuel_type: string | null;
-  drive_type: string | null;
-  exterior_color: string | null;
-  interior_color: string | null;
-  mpg_city: null;
-  mpg_highway: null;
-  doors: number | null;
-  cylinders: number | null;
-  description: string | null;
-  features: null;
-  options: string | null;
-  dealer_id: string;
-  dealer_name: string;
-  dealer_address: string | null;
-  dealer_city: string | null;
-  dealer_state: string | null;
-  dealer_zip: string | null;
-  dealer_vdp_url: string;
-  total_photos: number;
-  latitude: number | null;
-  longitude: number | null;
-  targeting_radius: number;
-  dma: string | null;
-  certified: boolean;
-  dol: number | null;
-  is_active: boolean;
-  last_sync: string;
+  event: LifecycleEvent;
+  occurred_at: string;
+  /** Delisted only: how long the listing was up */
+  days_listed?: number | null;
+}
+
+/** Stored state of a VIN loaded before the sync */
+interface StoredVehicle extends PriceState {
+  content_hash: string;
+}
+
+/** Columns loaded for each stored VIN (content hash + price state) */
+const STORED_VEHICLE_COLUMNS = 'vin,content_hash,price,price_drop,last_price_change';
+
+function toStoredVehicle(record: Record<string, string | number | null>): StoredVehicle {
+  return {
+    content_hash: String(record.content_hash ?? ''),
+    price: Number(record.price) || 0,
+    price_drop: record.price_drop === null || record.price_drop === '' ? null : Number(record.price_drop),
+    last_price_change: record.last_price_change ? String(record.last_price_change) : null,
+  };
 }
 
 export class FeedSyncService {
   private supabase;
-  private feedUrl: string;
-  private username: string;
-  private password: string;
-  private publisherId: string;
-
-  constructor(
-    supabaseUrl: string,
-    supabaseKey: string,
-    feedUsername: string,
-    feedPassword: string,
-    publisherId: string
-  ) {
+  private source: FeedSource;
+  private options: FeedSyncOptions;
+  private syncRunId = randomUUID();
+  private vinStats = { filled: 0, mismatched: 0 };
+  /** EPA rows for the model years seen so far (loaded on first use, see fillFuelEconomy) */
+  private fuelEconomy: FuelEconomyIndex = new Map();
+  private fuelEconomyYears = new Set<number>();
+  private mpgStats = { matched: 0, unmatched: 0 };
+  private header: string[] | null = null;
+  private schemaDrift: FeedSchemaDrift | null = null;
+  private nullCounts: NullRateCounts | null = null;
+  private hasLock = false;
+  /** Alerts raised before the write phase (e.g. rolling forward an interrupted run) */
+  private runAlerts: string[] = [];
+  private timings = createStageTimings();
+  /** Time spent waiting on the parsed row stream (download + extract + parse) */
+  private rowWaitMs = 0;
+  private rowsRead = 0;
+  private cancelled = false;
+  private progress: FeedSyncProgress;
+
+  constructor(supabaseUrl: string, supabaseKey: string, source: FeedSource, options: FeedSyncOptions = {}) {
     this.supabase = createClient(supabaseUrl, supabaseKey);
-    this.username = feedUsername;
-    this.password = feedPassword;
-    this.publisherId = publisherId;
-    this.feedUrl = 'https://feed.lotlinx.com/';
+    this.source = source;
+    this.options = options;
+    this.progress = {
+      source: source.id,
+      syncRunId: this.syncRunId,
+      phase: 'starting',
+      rowsProcessed: 0,
+      rowsWritten: 0,
+      batches: 0,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      reactivated: 0,
+      rejected: 0,
+      removed: 0,
+      errors: [],
+    };
   }
 
   /**
    * Main sync process
+   *
+   * Streams the feed end-to-end: fetch → parse → map → batched upsert.
+   * Rows are never buffered in full and nothing is written to disk, so memory stays
+   * flat no matter how large the feed grows.
    */
   async syncFeed(): Promise<FeedSyncResult> {
     const startTime = Date.now();
     const result: FeedSyncResult = {
       success: false,
+      status: 'failed',
+      source: this.source.id,
       added: 0,
       updated: 0,
+      unchanged: 0,
+      reactivated: 0,
       removed: 0,
+      priceChanges: 0,
+      pendingRemoval: 0,
+      feedVehicles: 0,
+      rejected: 0,
+      rejectionsByRule: {},
+      vinFilled: 0,
+      vinMismatches: 0,
+      schemaDrift: null,
+      nullRates: null,
+      rowsRead: 0,
+      stageTimings: createStageTimings(),
       errors: [],
+      alerts: [],
       duration: 0,
     };
 
-    let zipPath = '';
-    let tsvPath = '';
-
     try {
-      console.log('🚀 Starting feed sync...');
+      console.log(`🚀 Starting feed sync (${this.source.name})...`);
+      this.reportProgress({});
+
+      // Dry runs never write, so they don't need the lock
+      if (!this.options.dryRun) {
+        const holder = await this.acquireLock();
+        if (holder) {
+          const message = `Sync already running for ${this.source.name} (run ${holder.sync_run_id}, lease until ${holder.lease_expires_at})`;
+          console.warn(`⏭️  ${message}`);
+          result.status = 'skipped';
+          result.errors.push(message);
+          result.duration = Date.now() - startTime;
+          this.reportProgress({ phase: 'finished', errors: result.errors });
+          return result;
+        }
+      }
 
-      // Step 1: Download feed
-      console.log('📥 Downloading feed...');
-      zipPath = await this.downloadFeed();
-      console.log(`✅ Downloaded: ${zipPath}`);
+      // Step 1: Open feed download (or local file) stream
+      const { inputFile } = this.options;
+      let feedStream;
+      if (inputFile) {
+        console.log(`📂 Reading feed from ${inputFile}...`);
+        feedStream = createReadStream(inputFile);
+      } else {
+        console.log('📥 Downloading feed...');
+        feedStream = await this.timed('download', () => this.source.fetch());
+      }
+
+      // Step 2: Parse and map on the fly
+      console.log('📦 Streaming vehicles from feed...');
+      const zipped = inputFile ? inputFile.toLowerCase().endsWith('.zip') : undefined;
+      const onHeader = (columns: string[]) => {
+        this.header = columns;
+      };
+      const onStageTime = (stage: SyncStage, ms: number) => {
+        this.timings[stage] += ms;
+      };
+      const vehicles = this.mapVehicles(this.source.parse(feedStream, { zipped, onHeader, onStageTime }));
 
-      // Step 2: Extract TSV
-      console.log('📦 Extracting TSV...');
-      tsvPath = await this.extractTSV(zipPath);
-      console.log(`✅ Extracted: ${tsvPath}`);
+      if (this.options.dryRun) {
+        console.log('🔍 Comparing with database (dry run)...');
+        const diff = await this.diffAgainstDatabase(vehicles);
+        result.diff = diff;
+        result.added = diff.added.length;
+        result.updated = diff.changed.length;
+        result.unchanged = diff.unchanged;
+        result.removed = diff.removed.length;
+        result.feedVehicles = diff.feedVehicles;
+        result.rejected = diff.rejected;
+        result.rejectionsByRule = diff.rejectionsByRule;
+        result.vinFilled = this.vinStats.filled;
+        result.vinMismatches = this.vinStats.mismatched;
+        result.schemaDrift = this.schemaDrift;
+        result.nullRates = this.nullCounts && getNullRates(this.nullCounts);
+        result.alerts = await this.getSchemaAlerts(result.nullRates);
+        result.rowsRead = this.rowsRead;
+        result.stageTimings = this.getStageTimings();
+        result.success = true;
+        result.status = 'success';
+        result.duration = Date.now() - startTime;
 
-      // Step 3: Parse vehicles
-      console.log('🔍 Parsing vehicles...');
-      const vehicles = await this.parseTSV(tsvPath);
-      console.log(`✅ Parsed ${vehicles.length} vehicles`);
+        for (const line of formatFeedDiffSummary(diff)) {
+          console.log(line);
+        }
+        console.log(`   VIN decode: ${result.vinFilled} filled, ${result.vinMismatches} mismatched`);
+        console.log(`   Fuel economy: ${this.mpgStats.matched} matched, ${this.mpgStats.unmatched} unmatched`);
+        console.log(`   Duration: ${(result.duration / 1000).toFixed(2)}s`);
+
+        this.reportProgress({ phase: 'finished' });
+        return result;
+      }
 
-      // Step 4: Sync to database
+      // Step 3: Sync to database as rows arrive
       console.log('💾 Syncing to database...');
       const syncResult = await this.syncToDatabase(vehicles);
-      result.added = syncResult.added;
-      result.updated = syncResult.updated;
-      result.removed = syncResult.removed;
+      Object.assign(result, syncResult);
+      result.vinFilled = this.vinStats.filled;
+      result.vinMismatches = this.vinStats.mismatched;
+      result.schemaDrift = this.schemaDrift;
+      result.nullRates = this.nullCounts && getNullRates(this.nullCounts);
+      result.alerts = [...this.runAlerts, ...(await this.getSchemaAlerts(result.nullRates)), ...syncResult.alerts];
+      result.rowsRead = this.rowsRead;
+
+      await this.refreshDealers();
 
-      // Step 5: Cleanup temp files (done in finally block)
-      
       result.success = true;
+      result.status = syncResult.pendingRemoval > 0 ? 'partial' : 'success';
+      result.stageTimings = this.getStageTimings();
       result.duration = Date.now() - startTime;
 
       console.log('✨ Feed sync complete!');
       console.log(`   Added: ${result.added}`);
       console.log(`   Updated: ${result.updated}`);
+      console.log(`   Unchanged: ${result.unchanged}`);
+      console.log(`   Reactivated: ${result.reactivated}`);
       console.log(`   Removed: ${result.removed}`);
+      console.log(`   Price changes: ${result.priceChanges}`);
+      if (result.pendingRemoval > 0) {
+        console.log(`   Held back: ${result.pendingRemoval} (circuit breaker)`);
+      }
+      console.log(`   Rejected: ${result.rejected}`);
+      for (const [reason, count] of Object.entries(result.rejectionsByRule)) {
+        console.log(`     ${reason}: ${count}`);
+      }
+      console.log(`   VIN decode: ${result.vinFilled} filled, ${result.vinMismatches} mismatched`);
+      console.log(`   Fuel economy: ${this.mpgStats.matched} matched, ${this.mpgStats.unmatched} unmatched`);
+      console.log(`   Stages: ${SYNC_STAGES.map(stage => `${stage} ${formatDuration(result.stageTimings[stage])}`).join(', ')}`);
       console.log(`   Duration: ${(result.duration / 1000).toFixed(2)}s`);
 
       // Log sync to database
       await this.logSync(result);
+      await this.releaseLock('complete');
+      await this.notify(result);
+      this.reportProgress({ phase: 'finished', removed: result.removed });
 
       return result;
     } catch (error) {
       result.errors.push(error instanceof Error ? error.message : String(error));
+      if (this.cancelled) result.cancelled = true;
+      result.alerts = [...this.runAlerts, ...result.alerts];
+      result.schemaDrift = this.schemaDrift;
+      result.rowsRead = this.rowsRead;
+      result.stageTimings = this.getStageTimings();
       result.duration = Date.now() - startTime;
       console.error('❌ Feed sync failed:', error);
 
-      // Log failed sync
-      await this.logSync(result);
+      // Log failed sync (dry runs never write)
+      if (!this.options.dryRun) {
+        await this.logSync(result);
+        await this.releaseLock('failed');
+        await this.notify(result);
+      }
 
+      this.reportProgress({ phase: 'finished', errors: result.errors });
       return result;
-    } finally {
-      // Cleanup temp files
-      try {
-        if (zipPath && fs.existsSync(zipPath)) fs.unlinkSync(zipPath);
-        if (tsvPath && fs.existsSync(tsvPath)) fs.unlinkSync(tsvPath);
-      } catch (cleanupError) {
-        console.error('Error cleaning up temp files:', cleanupError);
-      }
     }
   }
 
   /**
-   * Download feed ZIP from LotLinx
+   * Pass the run's progress to the onProgress listener
+   * A throwing listener (e.g. a closed stream) must not fail the sync.
    */
-  private async downloadFeed(): Promise<string> {
-    const tempDir = path.join(process.cwd(), 'temp');
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
-    }
-
-    const zipPath = path.join(tempDir, `feed-${Date.now()}.zip`);
-    
-    // Use fetch with POST params as per documentation
-    const params = new URLSearchParams();
-    params.append('username', this.username);
-    params.append('password', this.password);
-
-    console.log(`Downloading from ${this.feedUrl}`);
-
-    const response = await fetch(this.feedUrl, {
-      method: 'POST',
-      body: params,
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      signal: AbortSignal.timeout(60000), // 60s timeout
+  private reportProgress(update: Partial<FeedSyncProgress>): void {
+    Object.assign(this.progress, update);
+    if (!this.options.onProgress) return;
+
+    try {
+      this.options.onProgress({ ...this.progress, errors: [...this.progress.errors] });
+    } catch (error) {
+      console.error('Sync progress listener error:', error);
+    }
+  }
+
+  /**
+   * Post failure/anomaly events for this run to the configured webhooks (lib/notifications.ts)
+   * Cancelled runs were stopped on purpose, so they don't raise sync_failed.
+   */
+  private async notify(result: FeedSyncResult): Promise<void> {
+    if (this.cancelled) return;
+    const config = this.options.notifications ?? getNotificationConfig();
+    await sendNotifications(getSyncNotifications(result, config.inventoryDropPercent), config);
+  }
+
+  /**
+   * Take this source's sync lock (feed_sync_checkpoints)
+   * A previous run still marked running whose lease expired was interrupted (timeout, crash):
+   * it's logged as failed and this run rolls it forward - rows it wrote already carry their
+   * new content hash and are skipped, and the deactivation pass it never reached runs here.
+   *
+   * @returns The run holding the lock, or null once this run has it
+   */
+  private async acquireLock(): Promise<SyncCheckpoint | null> {
+    const { data, error } = await this.supabase.rpc('acquire_feed_sync_lock', {
+      p_source: this.source.id,
+      p_sync_run_id: this.syncRunId,
+      p_lease_seconds: SYNC_LOCK_LEASE_SECONDS,
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (error) {
+      console.error('Failed to acquire sync lock:', error);
+      throw error;
     }
 
-    const buffer = await response.arrayBuffer();
-    const data = Buffer.from(buffer);
+    const { acquired, previous } = data as { acquired: boolean; previous: SyncCheckpoint | null };
+    if (!acquired) return previous;
+
+    this.hasLock = true;
 
-    // Verify it's a zip file (starts with PK)
-    if (data.length < 4 || data[0] !== 0x50 || data[1] !== 0x4B) {
-       throw new Error('Downloaded file is not a valid ZIP file (missing PK header)');
+    if (previous?.status === 'running') {
+      await this.logInterruptedRun(previous);
     }
 
-    fs.writeFileSync(zipPath, data);
-    return zipPath;
+    return null;
   }
 
   /**
-   * Extract TSV from ZIP using adm-zip
+   * Record progress and renew the lease
+   * Throws if the lease expired and another run took the lock: two runs must never write at once.
+   * Also throws when an admin asked the run to stop; the lock is still held, so it's released as failed.
    */
-  private async extractTSV(zipPath: string): Promise<string> {
-    const tempDir = path.dirname(zipPath);
+  private async checkpoint(
+    phase: SyncPhase,
+    progress: { rowsProcessed: number; rowsWritten: number; vehiclesRemoved?: number; lastVin?: string | null }
+  ): Promise<void> {
+    if (!this.hasLock) return;
 
-    try {
-      const zip = new AdmZip(zipPath);
-      const zipEntries = zip.getEntries();
-      
-      // Find the first TSV file in the zip
-      const tsvEntry = zipEntries.find(entry => entry.entryName.endsWith('.tsv'));
-
-      if (!tsvEntry) {
-        throw new Error('No TSV file found in ZIP');
+    const { data, error } = await this.supabase.rpc('checkpoint_feed_sync', {
+      p_source: this.source.id,
+      p_sync_run_id: this.syncRunId,
+      p_phase: phase,
+      p_rows_processed: progress.rowsProcessed,
+      p_rows_written: progress.rowsWritten,
+      p_vehicles_removed: progress.vehiclesRemoved ?? 0,
+      p_last_vin: progress.lastVin ?? null,
+      p_lease_seconds: SYNC_LOCK_LEASE_SECONDS,
+    });
+
+    if (error) {
+      console.error('Sync checkpoint error:', error);
+      throw error;
+    }
+
+    if (data === false) {
+      if (await this.isCancelRequested()) {
+        this.cancelled = true;
+        throw new Error(`Sync cancelled by an admin during ${phase} after ${progress.rowsProcessed} feed rows`);
       }
+      this.hasLock = false;
+      throw new Error(`Sync lock for ${this.source.name} was lost (lease expired and another run took over)`);
+    }
+  }
+
+  /**
+   * Whether an admin asked this run to stop (feed_sync_checkpoints.cancel_requested_at)
+   */
+  private async isCancelRequested(): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('feed_sync_checkpoints')
+      .select('cancel_requested_at')
+      .eq('source', this.source.id)
+      .eq('sync_run_id', this.syncRunId)
+      .eq('status', 'running')
+      .limit(1);
+
+    if (error) {
+      console.error('Failed to check for a cancel request:', error);
+      return false;
+    }
+
+    return Boolean(data?.[0]?.cancel_requested_at);
+  }
+
+  /**
+   * Mark the run finished and free the lock
+   * Non-fatal: an unreleased lock just expires with its lease.
+   */
+  private async releaseLock(status: 'complete' | 'failed'): Promise<void> {
+    if (!this.hasLock) return;
+    this.hasLock = false;
+
+    const { error } = await this.supabase.rpc('release_feed_sync_lock', {
+      p_source: this.source.id,
+      p_sync_run_id: this.syncRunId,
+      p_status: status,
+    });
+
+    if (error) {
+      console.error('Failed to release sync lock:', error);
+    }
+  }
+
+  /**
+   * Log an interrupted run as failed from its last checkpoint (unless it got as far as logging itself)
+   */
+  private async logInterruptedRun(previous: SyncCheckpoint): Promise<void> {
+    const message = `Interrupted during ${previous.phase} after ${previous.rows_processed} feed rows (${previous.rows_written} written, ${previous.vehicles_removed} deactivated); rolled forward by run ${this.syncRunId}`;
+    const alert = `Previous ${this.source.name} sync ${previous.sync_run_id} was interrupted; rolling it forward`;
+    console.warn(`⚠️  ${alert}: ${message}`);
+    this.runAlerts.push(alert);
+
+    try {
+      const { data: logged } = await this.supabase
+        .from('feed_sync_logs')
+        .select('id')
+        .eq('sync_run_id', previous.sync_run_id)
+        .limit(1);
 
-      console.log(`Found TSV entry: ${tsvEntry.entryName}`);
+      if (logged && logged.length > 0) return;
 
-      // Extract to temp directory
-      zip.extractEntryTo(tsvEntry.entryName, tempDir, false, true);
-      
-      // Return path to the extracted file
-      return path.join(tempDir, tsvEntry.entryName);
+      const { error } = await this.supabase.from('feed_sync_logs').insert({
+        source: this.source.id,
+        sync_run_id: previous.sync_run_id,
+        sync_started_at: previous.started_at,
+        sync_completed_at: previous.heartbeat_at,
+        status: 'failed',
+        error_message: message,
+      });
+      if (error) console.error('Failed to log interrupted sync:', error);
     } catch (error) {
-      console.error('Zip extraction error:', error);
-      throw new Error(`Failed to extract ZIP: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Failed to log interrupted sync:', error);
     }
   }
 
   /**
-   * Parse TSV file into vehicle objects
+   * Map raw feed rows to database rows with a shared sync timestamp
+   * The header is checked against the source's column contract before the first row is
+   * mapped, and empty values are counted per column (lib/feed-schema.ts).
+   * VINs are normalized (trimmed, uppercased) so a case change never reads as a new vehicle.
+   * Each row is checked against its VIN (lib/vin.ts): a missing year/make is filled,
+   * disagreements are flagged in vin_mismatches. MPG is then filled from the EPA dataset.
    */
-  private async parseTSV(tsvPath: string): Promise<LotLinxVehicle[]> {
-    const vehicles: LotLinxVehicle[] = [];
-
-    return new Promise((resolve, reject) => {
-      const parser = parse({
-        delimiter: '\t',
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-        relax_quotes: true,
-        relax_column_count: true,
-        quote: false, // Disable quote processing (TSV with messy quotes)
+  private async *mapVehicles(rows: AsyncIterable<unknown>): AsyncIterable<DbVehicle> {
+    const syncedAt = new Date().toISOString();
+    const iterator = rows[Symbol.asyncIterator]();
+
+    while (true) {
+      const waitStart = Date.now();
+      const next = await iterator.next();
+      this.rowWaitMs += Date.now() - waitStart;
+      if (next.done) break;
+
+      const row = next.value;
+      this.rowsRead++;
+      this.checkHeader();
+      if (this.nullCounts) recordNulls(this.nullCounts, row as Record<string, unknown>);
+
+      const mapped = this.source.map(row, syncedAt);
+      const { vehicle, filled, mismatches } = reconcileVehicleWithVin({
+        ...mapped,
+        vin: normalizeVin(mapped.vin || ''),
       });
+      if (filled.length > 0) this.vinStats.filled++;
+      if (mismatches.length > 0) this.vinStats.mismatched++;
+      yield await this.fillFuelEconomy(vehicle);
+    }
 
-      const stream = createReadStream(tsvPath);
+    // Header-only feeds
+    this.checkHeader();
+  }
 
-      stream.pipe(parser)
-        .on('data', (row) => {
-          vehicles.push(row as LotLinxVehicle);
-        })
-        .on('end', () => {
-          resolve(vehicles);
-        })
-        .on('error', reject);
-    });
+  /**
+   * Fill MPG from the EPA dataset when the feed has none (lib/fuel-economy.ts)
+   * MPG is part of the content hash, so vehicles pick up a fresh EPA import on the next sync.
+   */
+  private async fillFuelEconomy(vehicle: DbVehicle): Promise<DbVehicle> {
+    const { year } = vehicle;
+    if (!year || vehicle.mpg_city !== null || vehicle.mpg_highway !== null) {
+      return vehicle;
+    }
+
+    if (!this.fuelEconomyYears.has(year)) {
+      this.fuelEconomyYears.add(year);
+      addToFuelEconomyIndex(this.fuelEconomy, await this.timed('upsert', () => this.loadFuelEconomy(year)));
+    }
+
+    const mpg = matchFuelEconomy(this.fuelEconomy, vehicle);
+    if (!mpg) {
+      this.mpgStats.unmatched++;
+      return vehicle;
+    }
+
+    this.mpgStats.matched++;
+    return { ...vehicle, ...mpg };
   }
 
   /**
-   * Sync vehicles to Supabase (upsert in batches)
+   * EPA rows for one model year (paged: PostgREST caps responses at 1000 rows)
+   * Fatal: syncing without them would write null MPG over every vehicle of that year.
    */
-  private async syncToDatabase(vehicles: LotLinxVehicle[]): Promise<{
-    added: number;
-    updated: number;
-    removed: number;
-  }> {
-    const BATCH_SIZE = 1000;
+  private async loadFuelEconomy(year: number): Promise<EpaVehicle[]> {
+    const rows: EpaVehicle[] = [];
+
+    for (let from = 0; ; from += BATCH_SIZE) {
+      const { data, error } = await this.supabase
+        .from('epa_fuel_economy')
+        .select(EPA_COLUMNS)
+        .eq('year', year)
+        .order('epa_id')
+        .range(from, from + BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load EPA fuel economy for ${year}: ${error.message}`);
+      }
+
+      rows.push(...((data || []) as EpaVehicle[]));
+      if (!data || data.length < BATCH_SIZE) return rows;
+    }
+  }
+
+  /**
+   * Add the time spent in `work` to a stage
+   */
+  private async timed<T>(stage: SyncStage, work: () => PromiseLike<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await work();
+    } finally {
+      this.timings[stage] += Date.now() - start;
+    }
+  }
+
+  /**
+   * Stage timings so far; row-stream waiting not spent extracting or parsing counts as download
+   */
+  private getStageTimings(): StageTimings {
+    const { extract, parse } = this.timings;
+    return {
+      ...this.timings,
+      download: this.timings.download + Math.max(0, this.rowWaitMs - extract - parse),
+    };
+  }
+
+  /**
+   * Compare the parsed header with the source's column contract (once per run)
+   * Throws when a required column is missing: every row would map it to null.
+   */
+  private checkHeader(): void {
+    const contract = this.source.columns;
+    if (!contract || !this.header || this.schemaDrift) return;
+
+    const drift = compareHeader(this.header, contract);
+    this.schemaDrift = drift;
+
+    if (hasSchemaDrift(drift)) {
+      console.warn(`⚠️  ${this.source.name} feed header changed:`);
+      for (const line of formatSchemaDrift(drift)) {
+        console.warn(`   ${line}`);
+      }
+    }
+
+    if (drift.missingRequired.length > 0) {
+      throw new Error(formatMissingRequired(drift));
+    }
+
+    const header = new Set(this.header);
+    this.nullCounts = createNullRateCounts(contract.columns.filter(column => header.has(column)));
+  }
+
+  /**
+   * Operator alerts for header drift and columns emptying out vs. recent syncs
+   * (drift was already logged by checkHeader)
+   */
+  private async getSchemaAlerts(nullRates: Record<string, number> | null): Promise<string[]> {
+    const alerts: string[] = [];
+
+    if (this.schemaDrift && hasSchemaDrift(this.schemaDrift)) {
+      alerts.push(`${this.source.name} feed header changed (${formatSchemaDrift(this.schemaDrift).join('; ')})`);
+    }
+
+    if (nullRates) {
+      const increases = findNullRateIncreases(nullRates, await this.getRecentNullRates());
+      if (increases.length > 0) {
+        const alert = `${this.source.name} feed columns emptying out: ${increases.map(formatNullRateIncrease).join(', ')}`;
+        console.warn(`⚠️  ${alert}`);
+        alerts.push(alert);
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Sync vehicles to Supabase (upsert in batches as rows stream in)
+   * Removal tracking is scoped to this source so feeds never deactivate each other's inventory.
+   * Rows failing validation are quarantined and treated as absent from the feed, so a
+   * previously valid listing that turns bad is deactivated rather than left stale.
+   * Rows whose content hash matches the stored one are skipped (no write, last_sync untouched).
+   * Price changes on written rows are appended to vehicle_price_history (lib/price-history.ts).
+   * Listings, delistings and relistings are appended to vehicle_lifecycle_events (lib/vehicle-lifecycle.ts).
+   * Deactivation is guarded by the circuit breaker (lib/feed-circuit-breaker.ts).
+   */
+  private async syncToDatabase(vehicles: AsyncIterable<DbVehicle>): Promise<DatabaseSyncResult> {
     let added = 0;
     let updated = 0;
+    let unchanged = 0;
+    let reactivated = 0;
+    let priceChanges = 0;
+    let rejected = 0;
+    const rejectionsByRule: Partial<Record<RejectionReason, number>> = {};
 
-    // Get all current VINs to track removals
+    // Get all current VINs (with content hashes and prices) to detect changes and track removals
     // We need to fetch ALL active VINs, so we use CSV export or a high limit
     // Using .csv() is efficient for large datasets
-    const { data: csvData, error } = await this.supabase
-      .from('vehicles')
-      .select('vin')
-      .eq('is_active', true)
-      .csv();
+    const { data: csvData, error } = await this.timed('upsert', () =>
+      this.supabase
+        .from('vehicles')
+        .select(STORED_VEHICLE_COLUMNS)
+        .eq('is_active', true)
+        .eq('source', this.source.id)
+        .csv()
+    );
 
     if (error) {
       console.error('Error fetching current VINs:', error);
       throw error;
     }
 
-    // Parse CSV to get VINs (skip header)
-    // CSV format: "vin"\n"VIN1"\n"VIN2"...
-    const currentVins = new Set<string>();
-    
-    if (csvData) {
-      // Simple CSV parsing (assuming just one column 'vin')
-      const lines = (csvData as string).split('\n');
-      // Skip header (index 0)
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line) {
-          // Remove quotes if present
-          const vin = line.replace(/^"|"$/g, '');
-          if (vin) currentVins.add(vin);
-        }
-      }
+    const current = new Map<string, StoredVehicle>();
+    const records: Record<string, string>[] = csvData
+      ? parseCsv(csvData as string, { columns: true, skip_empty_lines: true })
+      : [];
+    for (const record of records) {
+      if (record.vin) current.set(record.vin, toStoredVehicle(record));
     }
 
-    console.log(`Found ${currentVins.size} active vehicles in DB`);
+    console.log(`Found ${current.size} active ${this.source.name} vehicles in DB`);
+    await this.checkpoint('upserting', { rowsProcessed: 0, rowsWritten: 0 });
+    this.reportProgress({ phase: 'upserting' });
+
+    // Only VINs are retained across batches (needed for the removal pass)
+    const feedVins = new Set<string>();
+    let batch: Array<DbVehicle & { content_hash: string }> = [];
+    let synced = 0;
+    let processed = 0;
+    let batches = 0;
+
+    const reportCounts = () =>
+      this.reportProgress({
+        rowsProcessed: processed,
+        rowsWritten: synced,
+        batches,
+        added,
+        updated,
+        unchanged,
+        reactivated,
+        rejected,
+      });
+
+    const flushBatch = async () => {
+      // VINs not active for this source are either brand new or returning (inactive row exists)
+      const candidates = batch.filter(vehicle => !current.has(vehicle.vin)).map(vehicle => vehicle.vin);
+      const existing = new Map<string, StoredVehicle>();
 
-    const feedVins = new Set(vehicles.map(v => v.Vin));
+      if (candidates.length > 0) {
+        const { data: rows, error: lookupError } = await this.supabase
+          .from('vehicles')
+          .select(STORED_VEHICLE_COLUMNS)
+          .in('vin', candidates);
+
+        if (lookupError) {
+          console.error('Existing VIN lookup error:', lookupError);
+          throw lookupError;
+        }
 
-    // Process in batches
-    for (let i = 0; i < vehicles.length; i += BATCH_SIZE) {
-      const batch = vehicles.slice(i, i + BATCH_SIZE);
+        for (const row of (rows || []) as unknown as Record<string, string | number | null>[]) {
+          existing.set(String(row.vin), toStoredVehicle(row));
+        }
+      }
 
-      const dbVehicles = batch.map(v => this.mapVehicleToDb(v));
+      // Every row carries its price columns so a batch never nulls another row's drop
+      const priceHistory: PriceHistoryRow[] = [];
+      const rows = batch.map(vehicle => {
+        const previous = current.get(vehicle.vin) ?? existing.get(vehicle.vin);
+        if (previous && priceChanged(previous.price, vehicle.price)) {
+          priceHistory.push({
+            sync_run_id: this.syncRunId,
+            source: this.source.id,
+            vin: vehicle.vin,
+            old_price: previous.price,
+            new_price: vehicle.price,
+            changed_at: vehicle.last_sync,
+          });
+        }
+        return { ...vehicle, ...nextPriceState(previous, vehicle.price, vehicle.last_sync) };
+      });
 
       const { error } = await this.supabase
         .from('vehicles')
-        .upsert(dbVehicles, {
+        .upsert(rows, {
           onConflict: 'vin',
           ignoreDuplicates: false,
         });
@@ -367,52 +872,462 @@ export class FeedSyncService {
         throw error;
       }
 
-      // Count new vs updated (rough estimate based on existence)
+      if (priceHistory.length > 0) {
+        const { error: historyError } = await this.supabase.from('vehicle_price_history').insert(priceHistory);
+
+        if (historyError) {
+          console.error('Price history insert error:', historyError);
+          throw historyError;
+        }
+
+        priceChanges += priceHistory.length;
+      }
+
+      // New rows get first_seen_at/listed_at from column defaults; returning rows start a new listing
+      const events: LifecycleEventRow[] = [];
+      const relistedVins: string[] = [];
       for (const vehicle of batch) {
-        if (currentVins.has(vehicle.Vin)) {
+        if (current.has(vehicle.vin)) {
           updated++;
+          continue;
+        }
+
+        const event: LifecycleEvent = existing.has(vehicle.vin) ? 'relisted' : 'listed';
+        if (event === 'relisted') {
+          reactivated++;
+          relistedVins.push(vehicle.vin);
         } else {
           added++;
         }
+        events.push({
+          sync_run_id: this.syncRunId,
+          source: this.source.id,
+          vin: vehicle.vin,
+          event,
+          occurred_at: vehicle.last_sync,
+        });
       }
 
-      console.log(`   Synced ${Math.min(i + BATCH_SIZE, vehicles.length)}/${vehicles.length}`);
-    }
+      if (relistedVins.length > 0) {
+        const { error: relistError } = await this.supabase
+          .from('vehicles')
+          .update({ listed_at: batch[0].last_sync, delisted_at: null })
+          .in('vin', relistedVins);
 
-    // Mark removed vehicles as inactive
-    const removedVins = Array.from(currentVins).filter(vin => !feedVins.has(vin));
+        if (relistError) {
+          console.error('Relist update error:', relistError);
+          throw relistError;
+        }
+      }
 
-    if (removedVins.length > 0) {
-      // Batch the removal updates too
-      for (let i = 0; i < removedVins.length; i += BATCH_SIZE) {
-        const removeBatch = removedVins.slice(i, i + BATCH_SIZE);
-        await this.supabase
-          .from('vehicles')
-          .update({ is_active: false })
-          .in('vin', removeBatch);
+      await this.recordLifecycleEvents(events);
+
+      synced += batch.length;
+      batches++;
+      batch = [];
+      console.log(`   Synced ${synced}`);
+      reportCounts();
+    };
+
+    let rejectionBatch: FeedRejectionRow[] = [];
+
+    const flushRejections = async () => {
+      const { error } = await this.supabase.from('feed_rejections').insert(rejectionBatch);
+
+      if (error) {
+        console.error('Rejection insert error:', error);
+        throw error;
+      }
+
+      rejectionBatch = [];
+    };
+
+    let lastVin: string | null = null;
+
+    for await (const vehicle of vehicles) {
+      // Checkpoint every BATCH_SIZE feed rows, so all-unchanged stretches still renew the lease
+      if (processed > 0 && processed % BATCH_SIZE === 0) {
+        await this.checkpoint('upserting', { rowsProcessed: processed, rowsWritten: synced, lastVin });
+        reportCounts();
+      }
+      processed++;
+      lastVin = vehicle.vin;
+
+      const violations = validateVehicle(vehicle);
+
+      if (violations.length > 0) {
+        rejected++;
+        for (const { reason } of violations) {
+          rejectionsByRule[reason] = (rejectionsByRule[reason] || 0) + 1;
+        }
+        rejectionBatch.push({
+          sync_run_id: this.syncRunId,
+          source: this.source.id,
+          vin: vehicle.vin,
+          dealer_id: vehicle.dealer_id || null,
+          dealer_name: vehicle.dealer_name || null,
+          reasons: violations.map(v => v.reason),
+          messages: violations.map(v => v.message),
+          vehicle,
+        });
+
+        if (rejectionBatch.length >= BATCH_SIZE) {
+          await this.timed('upsert', flushRejections);
+        }
+        continue;
+      }
+
+      // Count each VIN once even if the feed repeats it (first row wins)
+      if (feedVins.has(vehicle.vin)) continue;
+      feedVins.add(vehicle.vin);
+
+      const contentHash = computeContentHash(vehicle);
+      if (current.get(vehicle.vin)?.content_hash === contentHash) {
+        unchanged++;
+        continue;
+      }
+
+      batch.push({ ...vehicle, content_hash: contentHash });
+
+      if (batch.length >= BATCH_SIZE) {
+        await this.timed('upsert', flushBatch);
       }
     }
 
-    return {
+    if (batch.length > 0) {
+      await this.timed('upsert', flushBatch);
+    }
+
+    if (rejectionBatch.length > 0) {
+      await this.timed('upsert', flushRejections);
+    }
+
+    console.log(`✅ Parsed ${feedVins.size + rejected} vehicles (${synced} written, ${unchanged} unchanged, ${rejected} rejected)`);
+
+    await this.timed('upsert', () => this.pruneRejections());
+
+    const counts = {
       added,
       updated,
-      removed: removedVins.length,
+      unchanged,
+      reactivated,
+      priceChanges,
+      feedVehicles: feedVins.size,
+      rejected,
+      rejectionsByRule,
+    };
+
+    await this.checkpoint('deactivating', { rowsProcessed: processed, rowsWritten: synced, lastVin });
+    reportCounts();
+    this.reportProgress({ phase: 'deactivating' });
+
+    const deactivateStart = Date.now();
+    try {
+      // Mark removed vehicles as inactive
+      const removedVins = Array.from(current.keys()).filter(vin => !feedVins.has(vin));
+      const alerts: string[] = [];
+
+      if (removedVins.length > 0) {
+        const maxDropPercent = this.options.maxDropPercent ?? getMaxDropPercent();
+        const check = checkDeactivation({
+          activeCount: current.size,
+          feedCount: feedVins.size,
+          removedCount: removedVins.length,
+          recentFeedSizes: await this.getRecentFeedSizes(),
+          maxDropPercent,
+        });
+
+        if (check.tripped && !this.options.forceDeactivation) {
+          const alert = `Circuit breaker tripped for ${this.source.name}: ${check.reason}. Deactivation skipped; force it from the admin dashboard or with --force-deactivation.`;
+          console.error(`🚨 ${alert}`);
+          alerts.push(alert);
+
+          await this.holdDeactivation(removedVins);
+
+          return { ...counts, removed: 0, pendingRemoval: removedVins.length, alerts };
+        }
+
+        if (check.tripped) {
+          const alert = `Circuit breaker override for ${this.source.name}: ${check.reason}. Deactivating anyway.`;
+          console.warn(`⚠️  ${alert}`);
+          alerts.push(alert);
+        }
+
+        // Batch the removal updates too
+        const delistedAt = new Date().toISOString();
+        for (let i = 0; i < removedVins.length; i += BATCH_SIZE) {
+          const removeBatch = removedVins.slice(i, i + BATCH_SIZE);
+          const { data: delisted, error: removeError } = await this.supabase
+            .from('vehicles')
+            .update({ is_active: false, delisted_at: delistedAt })
+            .in('vin', removeBatch)
+            .select('vin, listed_at');
+
+          if (removeError) {
+            console.error('Deactivation update error:', removeError);
+            throw removeError;
+          }
+
+          await this.recordLifecycleEvents(
+            (delisted || []).map(row => ({
+              sync_run_id: this.syncRunId,
+              source: this.source.id,
+              vin: row.vin,
+              event: 'delisted' as const,
+              occurred_at: delistedAt,
+              days_listed: daysListed(row.listed_at, delistedAt),
+            }))
+          );
+
+          await this.checkpoint('deactivating', {
+            rowsProcessed: processed,
+            rowsWritten: synced,
+            vehiclesRemoved: i + removeBatch.length,
+          });
+          this.reportProgress({ removed: i + removeBatch.length });
+        }
+      }
+
+      return { ...counts, removed: removedVins.length, pendingRemoval: 0, alerts };
+    } finally {
+      this.timings.deactivate += Date.now() - deactivateStart;
+    }
+  }
+
+  /**
+   * Append lifecycle events (listed / relisted / delisted)
+   */
+  private async recordLifecycleEvents(events: LifecycleEventRow[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const { error } = await this.supabase.from('vehicle_lifecycle_events').insert(events);
+
+    if (error) {
+      console.error('Lifecycle event insert error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the VINs a tripped circuit breaker kept active
+   * An admin override applies exactly this list (apply_pending_deactivations); older
+   * holds for the source are superseded by this run.
+   */
+  private async holdDeactivation(vins: string[]): Promise<void> {
+    const { error: clearError } = await this.supabase
+      .from('feed_pending_deactivations')
+      .delete()
+      .eq('source', this.source.id);
+
+    if (clearError) {
+      console.error('Failed to clear previous pending deactivations:', clearError);
+      throw clearError;
+    }
+
+    for (let i = 0; i < vins.length; i += BATCH_SIZE) {
+      const { error } = await this.supabase.from('feed_pending_deactivations').insert(
+        vins.slice(i, i + BATCH_SIZE).map(vin => ({
+          sync_run_id: this.syncRunId,
+          source: this.source.id,
+          vin,
+        }))
+      );
+
+      if (error) {
+        console.error('Failed to record pending deactivations:', error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Dry run: compare the feed with this source's active vehicles without writing
+   * Applies the same validation and circuit breaker checks as a real sync.
+   */
+  private async diffAgainstDatabase(vehicles: AsyncIterable<DbVehicle>): Promise<FeedDiff> {
+    const { data: csvData, error } = await this.supabase
+      .from('vehicles')
+      .select(DIFF_COLUMNS.join(','))
+      .eq('is_active', true)
+      .eq('source', this.source.id)
+      .csv();
+
+    if (error) {
+      console.error('Error fetching current vehicles:', error);
+      throw error;
+    }
+
+    const records: Record<string, string>[] = csvData
+      ? parseCsv(csvData as string, { columns: true, skip_empty_lines: true })
+      : [];
+
+    const current = new Map<string, DiffSnapshot>();
+    for (const record of records) {
+      current.set(record.vin, {
+        vin: record.vin,
+        price: Number(record.price) || 0,
+        miles: record.miles ? Number(record.miles) : null,
+        primary_image_url: record.primary_image_url || '',
+        total_photos: Number(record.total_photos) || 0,
+        dealer_id: record.dealer_id || '',
+        dealer_name: record.dealer_name || '',
+        dealer_vdp_url: record.dealer_vdp_url || '',
+      });
+    }
+
+    console.log(`Found ${current.size} active ${this.source.name} vehicles in DB`);
+
+    const diff: FeedDiff = {
+      source: this.source.id,
+      generatedAt: new Date().toISOString(),
+      activeVehicles: current.size,
+      feedVehicles: 0,
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 0,
+      rejected: 0,
+      rejectionsByRule: {},
+      circuitBreaker: null,
     };
+
+    const feedVins = new Set<string>();
+
+    for await (const vehicle of vehicles) {
+      const violations = validateVehicle(vehicle);
+
+      if (violations.length > 0) {
+        diff.rejected++;
+        for (const { reason } of violations) {
+          diff.rejectionsByRule[reason] = (diff.rejectionsByRule[reason] || 0) + 1;
+        }
+        continue;
+      }
+
+      // Count each VIN once even if the feed repeats it
+      if (feedVins.has(vehicle.vin)) continue;
+      feedVins.add(vehicle.vin);
+
+      const existing = current.get(vehicle.vin);
+      if (!existing) {
+        diff.added.push(vehicle.vin);
+        continue;
+      }
+
+      const changes = diffVehicle(existing, vehicle);
+      if (changes.length > 0) {
+        diff.changed.push({ vin: vehicle.vin, changes });
+      } else {
+        diff.unchanged++;
+      }
+    }
+
+    diff.feedVehicles = feedVins.size;
+    diff.removed = Array.from(current.keys()).filter(vin => !feedVins.has(vin));
+
+    if (diff.removed.length > 0) {
+      diff.circuitBreaker = checkDeactivation({
+        activeCount: current.size,
+        feedCount: feedVins.size,
+        removedCount: diff.removed.length,
+        recentFeedSizes: await this.getRecentFeedSizes(),
+        maxDropPercent: this.options.maxDropPercent ?? getMaxDropPercent(),
+      });
+    }
+
+    return diff;
   }
 
   /**
-   * Parse certified field from LotLinx feed
+   * Feed sizes of this source's recent successful syncs (newest first)
+   * History is advisory: a failed lookup falls back to the active-count check alone.
+   */
+  private async getRecentFeedSizes(): Promise<number[]> {
+    const { data, error } = await this.supabase
+      .from('feed_sync_logs')
+      .select('total_vehicles')
+      .eq('source', this.source.id)
+      .eq('status', 'success')
+      .not('total_vehicles', 'is', null)
+      .order('sync_completed_at', { ascending: false })
+      .limit(HISTORY_SYNC_COUNT);
+
+    if (error) {
+      console.error('Failed to load sync history for circuit breaker:', error);
+      return [];
+    }
+
+    return (data || []).map(log => Number(log.total_vehicles));
+  }
+
+  /**
+   * Per-column null rates of this source's recent successful syncs (newest first)
+   * Advisory like the feed size history: a failed lookup just skips the decay check.
+   */
+  private async getRecentNullRates(): Promise<Array<Record<string, number>>> {
+    const { data, error } = await this.supabase
+      .from('feed_sync_logs')
+      .select('column_null_rates')
+      .eq('source', this.source.id)
+      .eq('status', 'success')
+      .not('column_null_rates', 'is', null)
+      .order('sync_completed_at', { ascending: false })
+      .limit(NULL_RATE_HISTORY_SYNC_COUNT);
+
+    if (error) {
+      console.error('Failed to load null rate history:', error);
+      return [];
+    }
+
+    return (data || []).map(log => log.column_null_rates as Record<string, number>);
+  }
+
+  /**
+   * Drop quarantined rows older than the retention window for this source
+   * Non-fatal: a failed prune shouldn't fail an otherwise good sync.
+   */
+  private async pruneRejections(): Promise<void> {
+    const cutoff = new Date(Date.now() - REJECTION_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { error } = await this.supabase
+      .from('feed_rejections')
+      .delete()
+      .eq('source', this.source.id)
+      .lt('created_at', cutoff);
+
+    if (error) {
+      console.error('Failed to prune old feed rejections:', error);
+    }
+  }
+
+  /**
+   * Rebuild dealers (details, geo, active counts) from vehicles
+   * Non-fatal: dealers are derived data and the next sync refreshes them again.
+   */
+  private async refreshDealers(): Promise<void> {
+    const { data, error } = await this.supabase.rpc('refresh_dealers');
+
+    if (error) {
+      console.error('Failed to refresh dealers:', error);
+      return;
+    }
+
+    console.log(`🏪 Refreshed ${data ?? 0} dealers`);
+  }
+
+  /**
+   * Parse certified field from feed
    * Handles: 'true', 'True', '1', 'yes', 'YES', etc.
    *
    * Exported as public static for testing purposes.
    * Tests validate this exact production logic.
    */
   public static parseCertified(value: string | undefined): boolean {
-    return ['true', '1', 'yes'].includes(value?.toLowerCase() || '');
+    return parseCertified(value);
   }
 
   /**
-   * Parse days on lot field from LotLinx feed
+   * Parse days on lot field from feed
    * Critical: Preserves 0 (not null) for newly added vehicles
    * Rejects negative values (days on lot cannot be negative)
    *
@@ -420,68 +1335,7 @@ export class FeedSyncService {
    * Tests validate this exact production logic.
    */
   public static parseDol(value: string | undefined): number | null {
-    const parsed = parseInt(value || '', 10);
-    return !isNaN(parsed) && parsed >= 0 ? parsed : null;
-  }
-
-  /**
-   * Map LotLinx vehicle to database schema
-   */
-  private mapVehicleToDb(vehicle: LotLinxVehicle): DbVehicle {
-    // Extract primary image URL from ImageUrls (comma-separated)
-    const getFirstImageUrl = (imageUrls: string): string => {
-      if (!imageUrls) return '';
-      const urls = imageUrls.split(',');
-      return urls[0]?.trim() || '';
-    };
-
-    // Count total photos
-    const getTotalPhotos = (imageUrls: string): number => {
-      if (!imageUrls) return 0;
-      const urls = imageUrls.split(',').filter(u => u.trim());
-      return urls.length;
-    };
-
-    return {
-      vin: vehicle.Vin,
-      year: parseInt(vehicle.Year) || null,
-      make: vehicle.Make || null,
-      model: vehicle.Model || null,
-      trim: vehicle.Trim || null,
-      price: parseFloat(vehicle.Price) || 0,
-      miles: parseInt(vehicle.Miles) || null,
-      condition: vehicle.Condition || null,
-      body_style: vehicle.BodyStyle || null,
-      primary_image_url: getFirstImageUrl(vehicle.ImageUrls),
-      transmission: vehicle.Transmission || null,
-      fuel_type: vehicle.FuelType || null,
-      drive_type: vehicle.Drive || null,
-      exterior_color: vehicle.ExteriorColor || null,
-      interior_color: vehicle.InteriorColor || null,
-      mpg_city: null, // Not in feed
-      mpg_highway: null, // Not in feed
-      doors: parseInt(vehicle.Doors) || null,
-      cylinders: parseInt(vehicle.Cylinders) || null,
-      description: vehicle.Description || null,
-      features: null, // Not in feed
-      options: vehicle.Options || null,
-      dealer_id: vehicle.DealerId,
-      dealer_name: vehicle.DealerName,
-      dealer_address: vehicle.Address || null,
-      dealer_city: vehicle.City || null,
-      dealer_state: vehicle.State || null,
-      dealer_zip: vehicle.Zip || null,
-      dealer_vdp_url: vehicle.Url,
-      total_photos: getTotalPhotos(vehicle.ImageUrls),
-      latitude: parseFloat(vehicle.Latitude) || null,
-      longitude: parseFloat(vehicle.Longitude) || null,
-      targeting_radius: parseInt(vehicle.Radius) || 30,
-      dma: vehicle.Dma || null,
-      certified: FeedSyncService.parseCertified(vehicle.Certified),
-      dol: FeedSyncService.parseDol(vehicle.Dol),
-      is_active: true,
-      last_sync: new Date().toISOString(),
-    };
+    return parseDol(value);
   }
 
   /**
@@ -489,16 +1343,38 @@ export class FeedSyncService {
    */
   private async logSync(result: FeedSyncResult): Promise<void> {
     try {
-      await this.supabase.from('feed_sync_logs').insert({
+      const { error } = await this.supabase.from('feed_sync_logs').insert({
+        source: result.source,
         sync_started_at: new Date(Date.now() - result.duration).toISOString(),
         sync_completed_at: new Date().toISOString(),
         vehicles_added: result.added,
         vehicles_updated: result.updated,
+        vehicles_unchanged: result.unchanged,
+        vehicles_reactivated: result.reactivated,
         vehicles_removed: result.removed,
-        success: result.success,
+        price_changes: result.priceChanges,
+        vehicles_pending_removal: result.pendingRemoval,
+        total_vehicles: result.success ? result.feedVehicles : null,
+        vehicles_rejected: result.rejected,
+        rejections_by_rule: result.rejectionsByRule,
+        vins_filled: result.vinFilled,
+        vins_mismatched: result.vinMismatches,
+        schema_drift: result.schemaDrift,
+        column_null_rates: result.nullRates,
+        rows_read: result.rowsRead,
+        stage_timings: result.stageTimings,
+        sync_run_id: this.syncRunId,
+        status: result.status,
         error_message: result.errors.length > 0 ? result.errors.join('; ') : null,
+        alert_message: result.alerts.length > 0 ? result.alerts.join('; ') : null,
         duration_seconds: Math.round(result.duration / 1000),
       });
+
+      // supabase-js returns a rejected insert (e.g. an unknown column) instead of throwing
+      if (error) {
+        console.error('Failed to log sync:', error);
+        result.errors.push(`Failed to log sync: ${error.message}`);
+      }
     } catch (error) {
       console.error('Failed to log sync:', error);
     }
@@ -0,0 +1,133 @@
+/**
+ * Feed Row Validation
+ * Rules applied to every mapped vehicle before it is upserted.
+ * Failing rows are quarantined in feed_rejections instead of being shown to paid traffic.
+ */
+
+import type { DbVehicle } from './feed-sources';
+import { computeCheckDigit } from './vin';
+
+export type RejectionReason =
+  | 'invalid_vin'
+  | 'missing_dealer'
+  | 'missing_dealer_url'
+  | 'missing_image'
+  | 'price_out_of_range'
+  | 'year_out_of_range'
+  | 'invalid_coordinates';
+
+export interface RuleViolation {
+  reason: RejectionReason;
+  message: string;
+}
+
+export interface ValidationLimits {
+  minPrice: number;
+  maxPrice: number;
+  minYear: number;
+  /** Years past the current calendar year (next model year goes on sale early) */
+  maxYearAhead: number;
+}
+
+export const DEFAULT_VALIDATION_LIMITS: ValidationLimits = {
+  minPrice: 500,
+  maxPrice: 500000,
+  minYear: 1981, // 17-character VINs start with model year 1981
+  maxYearAhead: 2,
+};
+
+/** Human-readable labels for reason codes (admin UI) */
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  invalid_vin: 'Invalid VIN',
+  missing_dealer: 'Missing dealer',
+  missing_dealer_url: 'Missing dealer URL',
+  missing_image: 'Missing image',
+  price_out_of_range: 'Price out of range',
+  year_out_of_range: 'Year out of range',
+  invalid_coordinates: 'Invalid coordinates',
+};
+
+export const REJECTION_REASONS = Object.keys(REJECTION_REASON_LABELS) as RejectionReason[];
+
+// Continental US, Alaska, Hawaii, and Puerto Rico
+const US_BOUNDS = { minLat: 17, maxLat: 72, minLon: -180, maxLon: -64 };
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run every rule against a mapped vehicle
+ * @returns All violations (empty array = row is valid)
+ */
+export function validateVehicle(
+  vehicle: DbVehicle,
+  limits: ValidationLimits = DEFAULT_VALIDATION_LIMITS,
+  now: Date = new Date()
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  const checkDigit = computeCheckDigit(vehicle.vin || '');
+  if (checkDigit === null) {
+    violations.push({ reason: 'invalid_vin', message: `VIN "${vehicle.vin || ''}" is not 17 valid characters` });
+  } else if (vehicle.vin[8] !== checkDigit) {
+    violations.push({
+      reason: 'invalid_vin',
+      message: `VIN "${vehicle.vin}" fails its check digit (position 9 is ${vehicle.vin[8]}, expected ${checkDigit})`,
+    });
+  }
+
+  if (!vehicle.dealer_id || !vehicle.dealer_name) {
+    violations.push({ reason: 'missing_dealer', message: 'Dealer id and name are required for billing' });
+  }
+
+  if (!vehicle.dealer_vdp_url || !isHttpUrl(vehicle.dealer_vdp_url)) {
+    violations.push({ reason: 'missing_dealer_url', message: 'Dealer VDP URL is missing or not an http(s) URL' });
+  }
+
+  if (!vehicle.primary_image_url) {
+    violations.push({ reason: 'missing_image', message: 'No image URLs in feed' });
+  }
+
+  if (vehicle.price < limits.minPrice || vehicle.price > limits.maxPrice) {
+    violations.push({
+      reason: 'price_out_of_range',
+      message: `Price ${vehicle.price} outside ${limits.minPrice}-${limits.maxPrice}`,
+    });
+  }
+
+  const maxYear = now.getFullYear() + limits.maxYearAhead;
+  if (vehicle.year === null || vehicle.year < limits.minYear || vehicle.year > maxYear) {
+    violations.push({
+      reason: 'year_out_of_range',
+      message: `Year ${vehicle.year ?? 'missing'} outside ${limits.minYear}-${maxYear}`,
+    });
+  }
+
+  // Missing coordinates are allowed (vehicle just won't match location searches),
+  // but present coordinates must be a real US location
+  const { latitude, longitude } = vehicle;
+  if (latitude !== null || longitude !== null) {
+    const valid =
+      latitude !== null &&
+      longitude !== null &&
+      latitude >= US_BOUNDS.minLat &&
+      latitude <= US_BOUNDS.maxLat &&
+      longitude >= US_BOUNDS.minLon &&
+      longitude <= US_BOUNDS.maxLon;
+
+    if (!valid) {
+      violations.push({
+        reason: 'invalid_coordinates',
+        message: `Coordinates (${latitude ?? 'missing'}, ${longitude ?? 'missing'}) are not a US location`,
+      });
+    }
+  }
+
+  return violations;
+}
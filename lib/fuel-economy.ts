@@ -0,0 +1,235 @@
+/**
+ * Fuel Economy
+ * Feeds carry no MPG, so the sync fills mpg_city / mpg_highway / mpg_combined from the EPA
+ * fuel economy dataset (fueleconomy.gov vehicles.csv, imported into epa_fuel_economy by
+ * scripts/import-epa-fuel-economy.ts).
+ *
+ * Matching, within the vehicle's year and make:
+ * - model: EPA model equal to the feed model, then EPA model starting with it, then EPA base model
+ * - trim: each feed trim word found in the EPA model name counts (e.g. "XSE" in "Camry XLE/XSE")
+ * - cylinders and drive: a known mismatch rules the EPA row out
+ * - powertrain: a hybrid/electric mismatch counts against the row
+ * EPA rows tied for the best score (e.g. 2WD/4WD variants when the feed has no drive) are averaged.
+ */
+
+import type { DbVehicle } from './feed-sources';
+
+/** epa_fuel_economy row */
+export interface EpaVehicle {
+  /** fueleconomy.gov vehicle id */
+  epa_id: number;
+  year: number;
+  make: string;
+  model: string;
+  base_model: string | null;
+  cylinders: number | null;
+  /** e.g. "Front-Wheel Drive", "4-Wheel or All-Wheel Drive" */
+  drive: string | null;
+  fuel_type: string | null;
+  /** Alternative powertrain: "Hybrid", "EV", "Plug-in Hybrid", "FFV", ... (empty for gas) */
+  atv_type: string | null;
+  mpg_city: number;
+  mpg_highway: number;
+  mpg_combined: number;
+}
+
+export interface FuelEconomy {
+  mpg_city: number;
+  mpg_highway: number;
+  mpg_combined: number;
+}
+
+export type FuelEconomyVehicle = Pick<
+  DbVehicle,
+  'year' | 'make' | 'model' | 'trim' | 'cylinders' | 'drive_type' | 'fuel_type'
+>;
+
+/** EPA rows grouped by `${year}|${make}` (see addToFuelEconomyIndex) */
+export type FuelEconomyIndex = Map<string, EpaVehicle[]>;
+
+type DriveClass = 'fwd' | 'rwd' | 'awd' | '4wd';
+
+type Powertrain = 'electric' | 'hybrid' | 'combustion';
+
+const MODEL_EXACT_SCORE = 3;
+const MODEL_PREFIX_SCORE = 2;
+const BASE_MODEL_SCORE = 1;
+const TRIM_WORD_SCORE = 2;
+const POWERTRAIN_MISMATCH_PENALTY = 3;
+
+/**
+ * Lowercase letters and digits only ("F-150" -> "f150")
+ */
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function words(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function indexKey(year: number, make: string): string {
+  return `${year}|${compact(make)}`;
+}
+
+function toNumber(value: string | undefined): number | null {
+  const number = parseFloat(value ?? '');
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Drive classes a drive description allows (empty = unknown)
+ * EPA's "4-Wheel or All-Wheel Drive" and "2-Wheel Drive" cover two classes each.
+ */
+export function driveClasses(value: string | null | undefined): DriveClass[] {
+  const drive = (value || '').toLowerCase();
+  if (!drive) return [];
+  if (/4-wheel or all-wheel/.test(drive)) return ['awd', '4wd'];
+  if (/\bawd\b|all[\s-]*wheel/.test(drive)) return ['awd'];
+  if (/\b4wd\b|\b4x4\b|4-wheel|four[\s-]*wheel/.test(drive)) return ['4wd'];
+  if (/\bfwd\b|front[\s-]*wheel/.test(drive)) return ['fwd'];
+  if (/\brwd\b|rear[\s-]*wheel/.test(drive)) return ['rwd'];
+  if (/\b2wd\b|\b4x2\b|2-wheel|two[\s-]*wheel/.test(drive)) return ['fwd', 'rwd'];
+  return [];
+}
+
+function drivesCompatible(a: DriveClass[], b: DriveClass[]): boolean {
+  return a.length === 0 || b.length === 0 || a.some(drive => b.includes(drive));
+}
+
+/**
+ * Feed powertrain from fuel type and name (combustion unless something says otherwise)
+ */
+function vehiclePowertrain(vehicle: FuelEconomyVehicle): Powertrain {
+  const fuel = (vehicle.fuel_type || '').toLowerCase();
+  const name = `${vehicle.model || ''} ${vehicle.trim || ''}`.toLowerCase();
+  if (/hybrid/.test(fuel) || /\bhybrid\b/.test(name)) return 'hybrid';
+  if (/electric/.test(fuel)) return 'electric';
+  return 'combustion';
+}
+
+function epaPowertrain(epa: EpaVehicle): Powertrain {
+  const atv = (epa.atv_type || '').toLowerCase();
+  if (atv === 'ev') return 'electric';
+  if (atv.includes('hybrid')) return 'hybrid';
+  return 'combustion';
+}
+
+/**
+ * fueleconomy.gov vehicles.csv row -> epa_fuel_economy row
+ * Rows without a year, make, model or MPG figures are skipped (null).
+ */
+export function parseEpaRow(row: Record<string, string>): EpaVehicle | null {
+  const epaId = toNumber(row.id);
+  const year = toNumber(row.year);
+  const city = toNumber(row.city08);
+  const highway = toNumber(row.highway08);
+  const combined = toNumber(row.comb08);
+  const make = row.make?.trim();
+  const model = row.model?.trim();
+
+  if (!epaId || !year || !make || !model || !city || !highway || !combined) {
+    return null;
+  }
+
+  return {
+    epa_id: epaId,
+    year,
+    make,
+    model,
+    base_model: row.baseModel?.trim() || null,
+    cylinders: toNumber(row.cylinders),
+    drive: row.drive?.trim() || null,
+    fuel_type: row.fuelType?.trim() || null,
+    atv_type: row.atvType?.trim() || null,
+    mpg_city: city,
+    mpg_highway: highway,
+    mpg_combined: combined,
+  };
+}
+
+/**
+ * Add EPA rows to an index (created empty by the caller, filled per model year as needed)
+ */
+export function addToFuelEconomyIndex(index: FuelEconomyIndex, rows: EpaVehicle[]): FuelEconomyIndex {
+  for (const row of rows) {
+    const key = indexKey(row.year, row.make);
+    const group = index.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      index.set(key, [row]);
+    }
+  }
+  return index;
+}
+
+/**
+ * How well an EPA row fits the vehicle (null = can't be the same vehicle)
+ */
+function scoreMatch(vehicle: FuelEconomyVehicle, epa: EpaVehicle): number | null {
+  const model = compact(vehicle.model || '');
+  const epaModel = compact(epa.model);
+  const baseModel = compact(epa.base_model || '');
+
+  let score: number;
+  if (epaModel === model) {
+    score = MODEL_EXACT_SCORE;
+  } else if (epaModel.startsWith(model)) {
+    score = MODEL_PREFIX_SCORE;
+  } else if (baseModel && model.startsWith(baseModel)) {
+    score = BASE_MODEL_SCORE;
+  } else {
+    return null;
+  }
+
+  if (vehicle.cylinders && epa.cylinders && vehicle.cylinders !== epa.cylinders) {
+    return null;
+  }
+
+  if (!drivesCompatible(driveClasses(vehicle.drive_type), driveClasses(epa.drive))) {
+    return null;
+  }
+
+  const modelWords = new Set(words(epa.model));
+  const trimWords = words(vehicle.trim || '').filter(word => !model.includes(word));
+  score += trimWords.filter(word => modelWords.has(word)).length * TRIM_WORD_SCORE;
+
+  if (vehiclePowertrain(vehicle) !== epaPowertrain(epa)) {
+    score -= POWERTRAIN_MISMATCH_PENALTY;
+  }
+
+  return score;
+}
+
+/**
+ * EPA fuel economy for a vehicle, or null when nothing in the index matches
+ */
+export function matchFuelEconomy(index: FuelEconomyIndex, vehicle: FuelEconomyVehicle): FuelEconomy | null {
+  if (!vehicle.year || !vehicle.make || !vehicle.model || !compact(vehicle.model)) {
+    return null;
+  }
+
+  let best: EpaVehicle[] = [];
+  let bestScore = -Infinity;
+  for (const epa of index.get(indexKey(vehicle.year, vehicle.make)) || []) {
+    const score = scoreMatch(vehicle, epa);
+    if (score === null || score < bestScore) continue;
+    if (score > bestScore) {
+      best = [];
+      bestScore = score;
+    }
+    best.push(epa);
+  }
+
+  if (best.length === 0) return null;
+
+  const average = (field: keyof FuelEconomy) =>
+    Math.round(best.reduce((sum, epa) => sum + epa[field], 0) / best.length);
+
+  return {
+    mpg_city: average('mpg_city'),
+    mpg_highway: average('mpg_highway'),
+    mpg_combined: average('mpg_combined'),
+  };
+}
@@ -1,3 +1,5 @@
+import { resolvePayout } from './payout';
+
 type GTagEvent = {
   action: string;
   category?: string;
@@ -25,6 +27,8 @@ export interface DealerClickParams {
   vehicleId: string;
   vehicleVin?: string;
   isBillable?: boolean;
+  /** Vehicle payout (see lib/payout.ts); only billable clicks carry revenue */
+  payout?: number | null;
   ctaClicked: string;
   flow: string;
   utmSource?: string;
@@ -37,7 +41,7 @@ export const trackDealerClick = (params: DealerClickParams) => {
     action: 'dealer_click',
     category: 'revenue',
     label: params.dealerId,
-    value: 0.80, // Fixed value per click
+    value: params.isBillable === false ? 0 : resolvePayout(params.payout),
     currency: 'USD',
     dealer_id: params.dealerId,
     vehicle_id: params.vehicleId,
@@ -53,6 +57,7 @@ export const trackDealerClick = (params: DealerClickParams) => {
 
 // 2. User Journey Events
 export interface SearchParams {
+  query?: string;
   make?: string;
   model?: string;
   condition?: string;
@@ -70,7 +75,7 @@ export const trackSearch = (params: SearchParams) => {
   sendEvent({
     action: 'search',
     category: 'engagement',
-    search_term: `${params.make || 'all'} ${params.model || 'all'}`,
+    search_term: params.query || `${params.make || 'all'} ${params.model || 'all'}`,
     ...params,
   });
 };
@@ -170,8 +175,27 @@ export const trackRadiusChange = (radius: number) => {
 };
 
 // 5. Engagement Events
+export type FilterType =
+  | 'make'
+  | 'model'
+  | 'body_style'
+  | 'condition'
+  | 'price'
+  | 'year'
+  | 'features'
+  | 'mpg'
+  | 'keyword'
+  | 'mileage'
+  | 'transmission'
+  | 'fuel_type'
+  | 'drivetrain'
+  | 'color'
+  | 'doors'
+  | 'certified'
+  | 'sort';
+
 export interface FilterChangeParams {
-  filterType: 'make' | 'model' | 'body_style' | 'condition' | 'price' | 'year' | 'sort';
+  filterType: FilterType;
   filterValue: string;
   resultCount?: number;
 }
@@ -196,6 +220,15 @@ export const trackRelatedVehiclesView = (vehicleId: string, count: number) => {
   });
 };
 
+export const trackGalleryOpen = (vehicleId: string, photoIndex: number) => {
+  sendEvent({
+    action: 'open_photo_gallery',
+    category: 'engagement',
+    label: vehicleId,
+    photo_index: photoIndex,
+  });
+};
+
 // 6. Error Events
 export const trackNoResults = (searchParams: SearchParams) => {
   // Create readable label string like "make:Toyota, model:Camry"
@@ -0,0 +1,162 @@
+/**
+ * Image Health Service
+ * Background job behind /api/cron/check-images: picks active vehicles whose photos are unchecked,
+ * changed, or due a recheck (get_vehicles_for_image_check), checks their photos (lib/image-health.ts)
+ * and stores vehicles.image_quality_score for search ranking.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  checkImage,
+  scoreImageChecks,
+  selectImagesToCheck,
+  type ImageCheck,
+  type ImageIssue,
+  type StockImageHash,
+} from './image-health';
+
+export const DEFAULT_IMAGE_HEALTH_BATCH_SIZE = 500;
+
+/** Vehicles checked in parallel (each checks its photos one at a time) */
+const CONCURRENCY = 4;
+
+/** Stop taking new vehicles after this long, leaving headroom under the cron's 300s maxDuration */
+const TIME_BUDGET_MS = 240000;
+
+export interface ImageHealthOptions {
+  /** Image fetch endpoint (see ImageCheckOptions.endpoint) */
+  endpoint?: string;
+  batchSize?: number;
+  timeBudgetMs?: number;
+}
+
+export interface ImageHealthResult {
+  success: boolean;
+  checked: number;
+  /** Vehicles left with no real photo (score 0) */
+  noPhoto: number;
+  /** Images per issue across all checked vehicles */
+  issues: Record<ImageIssue, number>;
+  errors: string[];
+  duration: number;
+}
+
+/** Row returned by get_vehicles_for_image_check */
+interface VehicleImages {
+  id: string;
+  vin: string;
+  primary_image_url: string | null;
+  image_urls: string[] | null;
+}
+
+/**
+ * Image health config from the environment
+ * IMAGE_HEALTH_ENDPOINT - optional image fetch endpoint; IMAGE_HEALTH_BATCH_SIZE - vehicles per run
+ */
+export function getImageHealthOptions(env: NodeJS.ProcessEnv = process.env): ImageHealthOptions {
+  const batchSize = parseInt(env.IMAGE_HEALTH_BATCH_SIZE || '');
+  return {
+    endpoint: env.IMAGE_HEALTH_ENDPOINT || undefined,
+    batchSize: batchSize > 0 ? batchSize : DEFAULT_IMAGE_HEALTH_BATCH_SIZE,
+  };
+}
+
+export class ImageHealthService {
+  private supabase;
+  private options: ImageHealthOptions;
+
+  constructor(supabaseUrl: string, supabaseKey: string, options: ImageHealthOptions = {}) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+    this.options = options;
+  }
+
+  /**
+   * Check one batch of vehicles and store their scores
+   */
+  async run(): Promise<ImageHealthResult> {
+    const startTime = Date.now();
+    const deadline = startTime + (this.options.timeBudgetMs ?? TIME_BUDGET_MS);
+    const result: ImageHealthResult = {
+      success: false,
+      checked: 0,
+      noPhoto: 0,
+      issues: { dead: 0, stock: 0, tiny: 0 },
+      errors: [],
+      duration: 0,
+    };
+
+    try {
+      console.log('🖼️  Starting image health check...');
+
+      const stockHashes = await this.getStockHashes();
+      const vehicles = await this.getVehiclesToCheck();
+      console.log(`   ${vehicles.length} vehicles due, ${stockHashes.length} known stock images`);
+
+      let next = 0;
+      const worker = async () => {
+        while (next < vehicles.length && Date.now() < deadline) {
+          const vehicle = vehicles[next++];
+          try {
+            const checks = await this.checkVehicle(vehicle, stockHashes);
+            result.checked++;
+            if (scoreImageChecks(checks) === 0) result.noPhoto++;
+            for (const check of checks) {
+              if (check.issue) result.issues[check.issue]++;
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            result.errors.push(`${vehicle.vin}: ${message}`);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+      result.success = result.errors.length === 0;
+      console.log(
+        `✅ Checked ${result.checked}/${vehicles.length} vehicles: ${result.noPhoto} without a real photo ` +
+          `(${result.issues.dead} dead, ${result.issues.stock} stock, ${result.issues.tiny} tiny images)`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ Image health check failed:', message);
+      result.errors.push(message);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  private async getStockHashes(): Promise<StockImageHash[]> {
+    const { data, error } = await this.supabase.from('stock_image_hashes').select('hash, label');
+    if (error) throw new Error(`Failed to load stock image hashes: ${error.message}`);
+    return data || [];
+  }
+
+  private async getVehiclesToCheck(): Promise<VehicleImages[]> {
+    const { data, error } = await this.supabase.rpc('get_vehicles_for_image_check', {
+      p_limit: this.options.batchSize ?? DEFAULT_IMAGE_HEALTH_BATCH_SIZE,
+    });
+    if (error) throw new Error(`Failed to load vehicles for image check: ${error.message}`);
+    return data || [];
+  }
+
+  private async checkVehicle(vehicle: VehicleImages, stockHashes: StockImageHash[]): Promise<ImageCheck[]> {
+    const checks: ImageCheck[] = [];
+    for (const url of selectImagesToCheck(vehicle.primary_image_url, vehicle.image_urls)) {
+      checks.push(await checkImage(url, { endpoint: this.options.endpoint, stockHashes }));
+    }
+
+    const { error } = await this.supabase
+      .from('vehicles')
+      .update({
+        image_quality_score: scoreImageChecks(checks),
+        image_checks: checks.map(({ url, issue, detail, width, height }) => ({ url, issue, detail, width, height })),
+        image_checked_url: vehicle.primary_image_url,
+        image_checked_at: new Date().toISOString(),
+      })
+      .eq('id', vehicle.id);
+
+    if (error) throw new Error(`Failed to store image score: ${error.message}`);
+    return checks;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Image Health
+ * Dealer photos are often dead links, thumbnails, or a "photo coming soon" stock image.
+ * ImageHealthService (lib/image-health-service.ts) fetches a few photos per vehicle, checks them
+ * with sharp, and stores an image quality score that search relevance uses to demote listings
+ * without a real photo (lib/search-utils.ts).
+ *
+ * Checks per image:
+ * - dead: HTTP error, timeout, a body over MAX_IMAGE_BYTES, or a body sharp can't decode
+ * - stock: perceptual hash (dHash) within STOCK_HASH_MAX_DISTANCE bits of a known stock image
+ * - tiny: smaller than MIN_IMAGE_WIDTH x MIN_IMAGE_HEIGHT
+ */
+
+import sharp from 'sharp';
+
+/** Smallest image that still counts as a real photo (VehicleCard renders ~400px wide) */
+export const MIN_IMAGE_WIDTH = 320;
+export const MIN_IMAGE_HEIGHT = 240;
+
+/** Hashes this close (out of 64 bits) count as the same image despite resizing/recompression */
+export const STOCK_HASH_MAX_DISTANCE = 6;
+
+/** Primary photo plus the next two gallery photos */
+export const IMAGES_CHECKED_PER_VEHICLE = 3;
+
+export const IMAGE_FETCH_TIMEOUT_MS = 10000;
+
+/** Largest image body downloaded; the job checks several images in parallel */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Score cap when the primary photo (the one VehicleCard shows) is bad */
+const BAD_PRIMARY_MAX_SCORE = 50;
+
+export type ImageIssue = 'dead' | 'stock' | 'tiny';
+
+export const IMAGE_ISSUE_LABELS: Record<ImageIssue, string> = {
+  dead: 'Dead link',
+  stock: 'Stock photo',
+  tiny: 'Too small',
+};
+
+export interface ImageCheck {
+  url: string;
+  /** null = real photo */
+  issue: ImageIssue | null;
+  /** HTTP status, decode error, or matched stock image label */
+  detail?: string;
+  width?: number;
+  height?: number;
+  /** dHash as 16 hex characters */
+  hash?: string;
+}
+
+export interface StockImageHash {
+  hash: string;
+  label: string;
+}
+
+export interface ImageCheckOptions {
+  /**
+   * Fetch images through this endpoint as `<endpoint>?url=<image url>` instead of directly
+   * (IMAGE_HEALTH_ENDPOINT - an image proxy in production, a local stub in tests)
+   */
+  endpoint?: string;
+  stockHashes?: StockImageHash[];
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+/**
+ * URL the image is actually fetched from
+ */
+export function resolveImageFetchUrl(url: string, endpoint?: string): string {
+  if (!endpoint) return url;
+  const fetchUrl = new URL(endpoint);
+  fetchUrl.searchParams.set('url', url);
+  return fetchUrl.toString();
+}
+
+/**
+ * Photos to check for a vehicle: primary first, then gallery photos, de-duplicated
+ */
+export function selectImagesToCheck(
+  primaryImageUrl: string | null | undefined,
+  imageUrls: string[] | null | undefined,
+  max: number = IMAGES_CHECKED_PER_VEHICLE
+): string[] {
+  const urls = [primaryImageUrl, ...(imageUrls || [])]
+    .map(url => url?.trim())
+    .filter((url): url is string => !!url);
+  return Array.from(new Set(urls)).slice(0, max);
+}
+
+/**
+ * Difference hash: 9x8 greyscale thumbnail, one bit per horizontal neighbour pair
+ * Survives resizing and recompression, so a dealer's re-encoded copy of a stock image still matches.
+ */
+export async function computeImageHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Closest known stock image within STOCK_HASH_MAX_DISTANCE, if any
+ */
+export function findStockImage(hash: string, stockHashes: StockImageHash[]): StockImageHash | null {
+  let match: StockImageHash | null = null;
+  let best = STOCK_HASH_MAX_DISTANCE + 1;
+  for (const stock of stockHashes) {
+    const distance = hammingDistance(hash, stock.hash);
+    if (distance < best) {
+      best = distance;
+      match = stock;
+    }
+  }
+  return match;
+}
+
+/**
+ * Read a response body, or null once it exceeds maxBytes
+ * Content-Length is checked first; the stream is still capped since it may be absent or wrong.
+ */
+async function readImageBody(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch one image and classify it
+ * Never throws: network and decode failures are reported as a dead image.
+ */
+export async function checkImage(url: string, options: ImageCheckOptions = {}): Promise<ImageCheck> {
+  let body: Buffer;
+  try {
+    const response = await fetch(resolveImageFetchUrl(url, options.endpoint), {
+      signal: AbortSignal.timeout(options.timeoutMs ?? IMAGE_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return { url, issue: 'dead', detail: `HTTP ${response.status}` };
+    }
+    const image = await readImageBody(response, options.maxBytes ?? MAX_IMAGE_BYTES);
+    if (!image) {
+      return { url, issue: 'dead', detail: 'Too large' };
+    }
+    body = image;
+  } catch (error) {
+    return { url, issue: 'dead', detail: error instanceof Error ? error.message : String(error) };
+  }
+
+  let width: number | undefined;
+  let height: number | undefined;
+  let hash: string;
+  try {
+    ({ width, height } = await sharp(body).metadata());
+    hash = await computeImageHash(body);
+  } catch {
+    return { url, issue: 'dead', detail: 'Not a decodable image' };
+  }
+
+  const stock = findStockImage(hash, options.stockHashes || []);
+  if (stock) {
+    return { url, issue: 'stock', detail: stock.label, width, height, hash };
+  }
+
+  if (!width || !height || width < MIN_IMAGE_WIDTH || height < MIN_IMAGE_HEIGHT) {
+    return { url, issue: 'tiny', detail: `${width}x${height}`, width, height, hash };
+  }
+
+  return { url, issue: null, width, height, hash };
+}
+
+/**
+ * Image quality score (0-100) from a vehicle's checked photos, primary first
+ * - 0: no real photo at all (or nothing to check)
+ * - share of real photos otherwise, capped at 50 when the primary photo is bad
+ */
+export function scoreImageChecks(checks: ImageCheck[]): number {
+  const real = checks.filter(check => check.issue === null).length;
+  if (real === 0) return 0;
+
+  const score = Math.round((real / checks.length) * 100);
+  return checks[0].issue ? Math.min(score, BAD_PRIMARY_MAX_SCORE) : score;
+}
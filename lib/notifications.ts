@@ -0,0 +1,292 @@
+/**
+ * Notifications
+ * Posts feed sync failures and anomalies to operator webhooks, so a broken sync doesn't
+ * only leave a console.error and a 500 in the cron logs.
+ *
+ * Webhooks (comma-separated URLs):
+ * - NOTIFY_SLACK_WEBHOOK_URLS - Slack incoming webhooks (or anything Slack-compatible): `{ text, blocks }`
+ * - NOTIFY_WEBHOOK_URLS       - plain JSON: the Notification object below
+ *
+ * Events (mute any with NOTIFY_MUTED_EVENTS):
+ * - sync_failed     - a source's sync failed, or the cron run couldn't start
+ * - inventory_drop  - the feed is more than NOTIFY_INVENTORY_DROP_PERCENT smaller than active inventory
+ * - schema_drift    - the feed header no longer matches the source's column contract
+ * - zero_rows       - the feed parsed to no rows at all (replaces inventory_drop for that run)
+ *
+ * Delivery is retried on network errors, 429 and 5xx. Nothing here throws: a webhook outage
+ * must never fail the sync it reports on.
+ */
+
+import type { FeedSyncResult } from './feed-sync';
+import { formatSchemaDrift, hasSchemaDrift } from './feed-schema';
+
+export const NOTIFICATION_EVENTS = ['sync_failed', 'inventory_drop', 'schema_drift', 'zero_rows'] as const;
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export type NotificationSeverity = 'critical' | 'warning';
+
+/** Plain JSON webhook payload */
+export interface Notification {
+  event: NotificationEvent;
+  severity: NotificationSeverity;
+  /** Feed source id ('all' when the run failed before any source started) */
+  source: string;
+  title: string;
+  message: string;
+  /** Event-specific figures (errors, counts, drift) */
+  details: Record<string, unknown>;
+  occurredAt: string;
+}
+
+export type WebhookFormat = 'slack' | 'json';
+
+export interface Webhook {
+  url: string;
+  format: WebhookFormat;
+}
+
+export interface NotificationConfig {
+  webhooks: Webhook[];
+  mutedEvents: NotificationEvent[];
+  /** inventory_drop threshold (percent of active inventory) */
+  inventoryDropPercent: number;
+  /** Extra attempts after the first failed delivery */
+  retries: number;
+  /** Delay before the first retry, doubled for each one after */
+  retryDelayMs: number;
+  timeoutMs: number;
+}
+
+export interface NotificationDelivery {
+  url: string;
+  event: NotificationEvent;
+  delivered: boolean;
+  attempts: number;
+  /** Last HTTP status or network error when not delivered */
+  error?: string;
+}
+
+export const DEFAULT_INVENTORY_DROP_PERCENT = 20;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const SEVERITY_EMOJI: Record<NotificationSeverity, string> = {
+  critical: '🚨',
+  warning: '⚠️',
+};
+
+function isNotificationEvent(value: string): value is NotificationEvent {
+  return (NOTIFICATION_EVENTS as readonly string[]).includes(value);
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Notification config from the environment (no webhooks configured = notifications off)
+ * NOTIFY_SLACK_WEBHOOK_URLS, NOTIFY_WEBHOOK_URLS, NOTIFY_MUTED_EVENTS, NOTIFY_INVENTORY_DROP_PERCENT
+ */
+export function getNotificationConfig(env: NodeJS.ProcessEnv = process.env): NotificationConfig {
+  const dropPercent = parseFloat(env.NOTIFY_INVENTORY_DROP_PERCENT || '');
+  return {
+    webhooks: [
+      ...splitList(env.NOTIFY_SLACK_WEBHOOK_URLS).map(url => ({ url, format: 'slack' as const })),
+      ...splitList(env.NOTIFY_WEBHOOK_URLS).map(url => ({ url, format: 'json' as const })),
+    ],
+    mutedEvents: splitList(env.NOTIFY_MUTED_EVENTS).filter(isNotificationEvent),
+    inventoryDropPercent: dropPercent > 0 && dropPercent <= 100 ? dropPercent : DEFAULT_INVENTORY_DROP_PERCENT,
+    retries: DEFAULT_RETRIES,
+    retryDelayMs: DEFAULT_RETRY_DELAY_MS,
+    timeoutMs: WEBHOOK_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Share of the source's active inventory missing from the feed (percent)
+ * Active vehicles before the run were either in the feed (updated/unchanged) or missing from it
+ * (removed, or held back by the circuit breaker).
+ */
+export function getInventoryDropPercent(result: FeedSyncResult): number {
+  const active = result.updated + result.unchanged + result.removed + result.pendingRemoval;
+  if (active === 0) return 0;
+  return Math.max(0, ((active - result.feedVehicles) / active) * 100);
+}
+
+/**
+ * sync_failed for a source, or for the whole run ('all') when it failed before any source started
+ */
+export function createSyncFailedNotification(
+  source: string,
+  errors: string[],
+  details: Record<string, unknown> = {}
+): Notification {
+  return {
+    event: 'sync_failed',
+    severity: 'critical',
+    source,
+    title: `Feed sync failed: ${source}`,
+    message: errors.join('; ') || 'Unknown error',
+    details: { errors, ...details },
+    occurredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Events raised by one source's sync (none for skipped runs)
+ */
+export function getSyncNotifications(
+  result: FeedSyncResult,
+  inventoryDropPercent: number = DEFAULT_INVENTORY_DROP_PERCENT
+): Notification[] {
+  if (result.status === 'skipped') return [];
+
+  const notifications: Notification[] = [];
+  const occurredAt = new Date().toISOString();
+  const base = { source: result.source, occurredAt };
+
+  if (result.status === 'failed') {
+    notifications.push(
+      createSyncFailedNotification(result.source, result.errors, {
+        rowsRead: result.rowsRead,
+        duration: result.duration,
+      })
+    );
+  }
+
+  if (result.schemaDrift && hasSchemaDrift(result.schemaDrift)) {
+    notifications.push({
+      ...base,
+      event: 'schema_drift',
+      severity: result.schemaDrift.missingRequired.length > 0 ? 'critical' : 'warning',
+      title: `Feed header changed: ${result.source}`,
+      message: formatSchemaDrift(result.schemaDrift).join('; '),
+      details: { schemaDrift: result.schemaDrift },
+    });
+  }
+
+  // A failed run may not have read anything yet; sync_failed already covers it
+  if (result.status === 'failed') return notifications;
+
+  if (result.rowsRead === 0) {
+    notifications.push({
+      ...base,
+      event: 'zero_rows',
+      severity: 'critical',
+      title: `Feed parsed zero rows: ${result.source}`,
+      message: 'The feed downloaded but contained no vehicle rows.',
+      details: { pendingRemoval: result.pendingRemoval, removed: result.removed },
+    });
+    return notifications;
+  }
+
+  const dropPercent = getInventoryDropPercent(result);
+  if (dropPercent > inventoryDropPercent) {
+    notifications.push({
+      ...base,
+      event: 'inventory_drop',
+      severity: result.status === 'partial' ? 'critical' : 'warning',
+      title: `Inventory dropped ${dropPercent.toFixed(1)}%: ${result.source}`,
+      message:
+        result.status === 'partial'
+          ? `${result.pendingRemoval} vehicles missing from the feed were kept active by the circuit breaker.`
+          : `${result.removed} vehicles left the feed and were deactivated.`,
+      details: {
+        dropPercent: Math.round(dropPercent * 10) / 10,
+        thresholdPercent: inventoryDropPercent,
+        feedVehicles: result.feedVehicles,
+        removed: result.removed,
+        pendingRemoval: result.pendingRemoval,
+      },
+    });
+  }
+
+  return notifications;
+}
+
+/**
+ * Slack incoming webhook body (text doubles as the notification preview)
+ */
+export function toSlackPayload(notification: Notification): Record<string, unknown> {
+  const text = `${SEVERITY_EMOJI[notification.severity]} *${notification.title}*\n${notification.message}`;
+  return {
+    text,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `${notification.event} · ${notification.source} · ${notification.occurredAt}`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function shouldRetry(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+async function deliver(webhook: Webhook, notification: Notification, config: NotificationConfig): Promise<NotificationDelivery> {
+  const body = JSON.stringify(webhook.format === 'slack' ? toSlackPayload(notification) : notification);
+  const delivery: NotificationDelivery = { url: webhook.url, event: notification.event, delivered: false, attempts: 0 };
+
+  for (let attempt = 0; attempt <= config.retries; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, config.retryDelayMs * 2 ** (attempt - 1)));
+    }
+    delivery.attempts++;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+      if (response.ok) {
+        delivery.delivered = true;
+        delete delivery.error;
+        return delivery;
+      }
+      delivery.error = `HTTP ${response.status}`;
+      if (!shouldRetry(response.status)) return delivery;
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return delivery;
+}
+
+/**
+ * Post notifications to every configured webhook, skipping muted events
+ * Never throws; failed deliveries are logged and returned.
+ */
+export async function sendNotifications(
+  notifications: Notification[],
+  config: NotificationConfig = getNotificationConfig()
+): Promise<NotificationDelivery[]> {
+  const active = notifications.filter(notification => !config.mutedEvents.includes(notification.event));
+  if (active.length === 0 || config.webhooks.length === 0) return [];
+
+  const deliveries = await Promise.all(
+    active.flatMap(notification => config.webhooks.map(webhook => deliver(webhook, notification, config)))
+  );
+
+  for (const delivery of deliveries) {
+    if (!delivery.delivered) {
+      console.error(`Failed to deliver ${delivery.event} notification after ${delivery.attempts} attempts: ${delivery.error}`);
+    }
+  }
+
+  return deliveries;
+}
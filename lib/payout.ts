@@ -0,0 +1,32 @@
+/**
+ * Dealer Click Payout
+ * The feed carries a per-vehicle Payout (what a billable click on that VIN earns) and
+ * Priority. The sync stores both on vehicles, and /api/track-click snapshots the payout
+ * onto each billable click so revenue reflects what was actually earned.
+ */
+
+/** Flat rate for vehicles whose feed row has no usable Payout (and for clicks recorded before payouts were stored) */
+export const DEFAULT_PAYOUT = 0.8;
+
+/**
+ * Payout a billable click on this vehicle earns
+ * An explicit 0 is kept (the VIN earns nothing); missing or unusable values get the flat rate.
+ */
+export function resolvePayout(payout: number | string | null | undefined): number {
+  if (payout === null || payout === undefined || payout === '') return DEFAULT_PAYOUT;
+  const value = Number(payout);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_PAYOUT;
+}
+
+/**
+ * Revenue from a set of clicks (only billable clicks earn their payout)
+ */
+export function sumBillableRevenue(
+  clicks: Array<{ is_billable: boolean; payout?: number | string | null }>
+): number {
+  const total = clicks.reduce(
+    (sum, click) => (click.is_billable ? sum + resolvePayout(click.payout) : sum),
+    0
+  );
+  return Math.round(total * 100) / 100;
+}
@@ -0,0 +1,56 @@
+/**
+ * Vehicle Price History
+ * The feed sync appends a vehicle_price_history row whenever a VIN's price changes and
+ * denormalizes the latest change onto vehicles (price_drop / last_price_change) so
+ * search can return it without a join.
+ */
+
+/** How long a drop keeps its "Price dropped" badge */
+export const PRICE_DROP_BADGE_DAYS = 30;
+
+/** Price columns stored on vehicles */
+export interface PriceState {
+  price: number;
+  /** Amount of the latest change if it was a decrease, otherwise null */
+  price_drop: number | null;
+  /** When the price last changed (null = unchanged since first listed) */
+  last_price_change: string | null;
+}
+
+/** Whether two prices differ by at least a cent (DECIMAL(10,2) vs. parsed feed floats) */
+export function priceChanged(previous: number, next: number): boolean {
+  return Math.round(Number(previous) * 100) !== Math.round(Number(next) * 100);
+}
+
+/**
+ * Price columns to write for an incoming row
+ * @param previous - Stored state (undefined for VINs never seen before)
+ * @param price - Price from the feed
+ * @param changedAt - Sync timestamp recorded as last_price_change
+ */
+export function nextPriceState(previous: PriceState | undefined, price: number, changedAt: string): PriceState {
+  if (!previous) {
+    return { price, price_drop: null, last_price_change: null };
+  }
+
+  if (!priceChanged(previous.price, price)) {
+    return { price, price_drop: previous.price_drop, last_price_change: previous.last_price_change };
+  }
+
+  const drop = Math.round((Number(previous.price) - price) * 100) / 100;
+  return { price, price_drop: drop > 0 ? drop : null, last_price_change: changedAt };
+}
+
+/**
+ * Drop amount to advertise, or null when there's no recent drop
+ */
+export function getRecentPriceDrop(
+  vehicle: { price_drop?: number | null; last_price_change?: string | null },
+  now: Date = new Date()
+): number | null {
+  const drop = Number(vehicle.price_drop);
+  if (!vehicle.last_price_change || !(drop > 0)) return null;
+
+  const ageMs = now.getTime() - new Date(vehicle.last_price_change).getTime();
+  return ageMs <= PRICE_DROP_BADGE_DAYS * 24 * 60 * 60 * 1000 ? drop : null;
+}
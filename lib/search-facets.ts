@@ -0,0 +1,117 @@
+/**
+ * Search Facets
+ * Filter options with vehicle counts from the get_search_facets RPC. Each dimension is counted
+ * under every current filter except its own ("exclude own dimension"), so the sidebar shows how
+ * many vehicles picking another value would return.
+ */
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  makes: FacetOption[];
+  /** Counted under the make filter, so it lists the chosen makes' models */
+  models: FacetOption[];
+  bodyStyles: FacetOption[];
+  conditions: FacetOption[];
+  years: FacetOption[];
+  transmissions: FacetOption[];
+  fuelTypes: FacetOption[];
+  driveTypes: FacetOption[];
+  exteriorColors: FacetOption[];
+  doors: FacetOption[];
+  /** Certified pre-owned vehicles under the other filters */
+  certifiedCount: number;
+}
+
+/** One get_search_facets row */
+export interface FacetRow {
+  dimension: string;
+  value: string;
+  vehicle_count: number | string;
+}
+
+/** RPC dimension -> SearchFacets list */
+const FACET_KEYS: Record<string, Exclude<keyof SearchFacets, 'certifiedCount'>> = {
+  make: 'makes',
+  model: 'models',
+  body_style: 'bodyStyles',
+  condition: 'conditions',
+  year: 'years',
+  transmission: 'transmissions',
+  fuel_type: 'fuelTypes',
+  drive_type: 'driveTypes',
+  exterior_color: 'exteriorColors',
+  doors: 'doors',
+};
+
+export function emptySearchFacets(): SearchFacets {
+  return {
+    makes: [],
+    models: [],
+    bodyStyles: [],
+    conditions: [],
+    years: [],
+    transmissions: [],
+    fuelTypes: [],
+    driveTypes: [],
+    exteriorColors: [],
+    doors: [],
+    certifiedCount: 0,
+  };
+}
+
+/**
+ * Group RPC rows into facet lists
+ * Years are newest first, doors ascending, everything else alphabetical.
+ * Unknown dimensions and zero counts are dropped.
+ */
+export function buildSearchFacets(rows: FacetRow[] | null | undefined): SearchFacets {
+  const facets = emptySearchFacets();
+
+  for (const row of rows ?? []) {
+    // BIGINT counts can arrive as strings
+    const count = Number(row.vehicle_count);
+    if (!(count > 0)) continue;
+
+    if (row.dimension === 'certified') {
+      facets.certifiedCount = count;
+      continue;
+    }
+
+    const key = FACET_KEYS[row.dimension];
+    if (key) facets[key].push({ value: row.value, count });
+  }
+
+  for (const key of Object.values(FACET_KEYS)) {
+    if (key === 'years') facets.years.sort((a, b) => Number(b.value) - Number(a.value));
+    else if (key === 'doors') facets.doors.sort((a, b) => Number(a.value) - Number(b.value));
+    else facets[key].sort((a, b) => a.value.localeCompare(b.value));
+  }
+
+  return facets;
+}
+
+/**
+ * Options to list in a filter control: the non-empty facets, plus any selected value that has
+ * dropped to zero (so it stays visible and can be cleared)
+ */
+export function visibleFacetOptions(options: FacetOption[], selected?: string | string[]): FacetOption[] {
+  const selectedValues = typeof selected === 'string' ? [selected] : selected ?? [];
+  const missing = selectedValues.filter(
+    (value) => value && !options.some((option) => option.value === value)
+  );
+  if (missing.length === 0) return options;
+  return [...missing.map((value) => ({ value, count: 0 })), ...options];
+}
+
+/**
+ * Selected values the facet still lists
+ * After a make change the model facet only holds the remaining makes' models, so this drops
+ * models that would match nothing alongside them.
+ */
+export function keepOfferedValues(selected: string[], options: FacetOption[]): string[] {
+  return selected.filter((value) => options.some((option) => option.value === value));
+}
@@ -1,3 +1,4 @@
+import { resolvePayout } from './payout';
 
 /**
  * Determines if dealer diversification should be applied based on the sort order.
@@ -23,3 +24,209 @@ export function shouldApplyDiversification(sortBy?: string): boolean {
   return diversifiedSorts.includes(sortBy);
 }
 
+
+/** Distance (miles) at which a vehicle's relevance is halved */
+export const RELEVANCE_DISTANCE_MILES = 25;
+
+/** Relevance multiplier for a listing with no real photo (image_quality_score 0) */
+export const NO_PHOTO_RELEVANCE_FACTOR = 0.1;
+
+interface RankableVehicle {
+  year: number;
+  payout?: number | null;
+  priority?: number | null;
+  distance_miles?: number;
+  image_quality_score?: number | null;
+}
+
+/**
+ * Relevance multiplier from the image health score (lib/image-health.ts)
+ * Unchecked vehicles (null) aren't penalised; partly bad photo sets lose up to half.
+ */
+export function imageQualityFactor(score: number | null | undefined): number {
+  if (score === null || score === undefined) return 1;
+  if (score <= 0) return NO_PHOTO_RELEVANCE_FACTOR;
+  return 0.5 + Math.min(score, 100) / 200;
+}
+
+/**
+ * Relevance score: expected payout discounted by distance and photo quality
+ * A $1.60 vehicle 25 miles away ranks level with a $0.80 vehicle next door.
+ */
+export function relevanceScore(vehicle: RankableVehicle): number {
+  const distance = vehicle.distance_miles ?? 0;
+  return (
+    (resolvePayout(vehicle.payout) * imageQualityFactor(vehicle.image_quality_score)) /
+    (1 + distance / RELEVANCE_DISTANCE_MILES)
+  );
+}
+
+/**
+ * Sort comparator for the default "relevance" order
+ *
+ * - With a user location: highest relevanceScore first
+ * - Without one: listings with a real photo first, then newest, then highest payout
+ * Remaining ties go to the higher feed priority.
+ */
+export function compareByRelevance(a: RankableVehicle, b: RankableVehicle): number {
+  const hasDistance = a.distance_miles !== undefined && b.distance_miles !== undefined;
+  const primary = hasDistance
+    ? relevanceScore(b) - relevanceScore(a)
+    : Number(a.image_quality_score === 0) - Number(b.image_quality_score === 0) ||
+      b.year - a.year ||
+      resolvePayout(b.payout) - resolvePayout(a.payout);
+
+  return primary || (b.priority ?? 0) - (a.priority ?? 0);
+}
+
+/** Search radius choices (miles); "any" drops the distance limit */
+export const SEARCH_RADIUS_OPTIONS = [10, 25, 50, 100] as const;
+
+/**
+ * Shopper-selected search radius
+ * Without one, each vehicle is shown within its dealer's targeting radius (capped at 100 miles).
+ */
+export type SearchRadius = (typeof SEARCH_RADIUS_OPTIONS)[number] | 'any';
+
+/**
+ * Parse the radius URL param or API field ("25", 25 or "any")
+ * Returns null when unset or not one of the choices.
+ */
+export function parseSearchRadius(value: unknown): SearchRadius | null {
+  if (value === 'any') return 'any';
+  const miles = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return SEARCH_RADIUS_OPTIONS.find((option) => option === miles) ?? null;
+}
+
+/** "Within 25 mi" / "Any distance" */
+export function formatSearchRadius(radius: SearchRadius): string {
+  return radius === 'any' ? 'Any distance' : `Within ${radius} mi`;
+}
+
+/**
+ * p_radius_miles for the spatial RPCs: NULL = dealer targeting radius, 0 = any distance
+ */
+export function toRadiusMiles(radius: SearchRadius | null): number | null {
+  if (radius === null) return null;
+  return radius === 'any' ? 0 : radius;
+}
+
+/**
+ * Numeric URL param, or null when missing, not a number or outside [min, max]
+ */
+export function parseAndValidateNumber(value: string | undefined | null, min?: number, max?: number): number | null {
+  if (!value) return null;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) return null;
+  if (min !== undefined && parsed < min) return null;
+  if (max !== undefined && parsed > max) return null;
+  return parsed;
+}
+
+/**
+ * Whole-number URL param (doors, max miles, MPG), or null when missing, fractional or below min
+ */
+export function parseIntegerParam(value: string | undefined | null, min?: number): number | null {
+  const parsed = parseAndValidateNumber(value, min);
+  return parsed !== null && Number.isInteger(parsed) ? parsed : null;
+}
+
+/** Filters that take several values (any of them matches) */
+export const MULTI_VALUE_FILTERS = ['make', 'model', 'bodyStyle', 'condition'] as const;
+
+export type MultiValueFilter = (typeof MULTI_VALUE_FILTERS)[number];
+
+/**
+ * Values of a multi-value URL param ("Honda,Toyota")
+ * Trimmed and deduplicated; empty when unset.
+ */
+export function parseMultiValueParam(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return [...new Set(value.split(',').map((item) => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Values of a multi-value API field: a single string or an array of strings
+ * Returns null when the field is neither.
+ */
+export function parseMultiValueField(value: unknown): string[] | null {
+  if (value == null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every((item) => typeof item === 'string')) return null;
+  return [...new Set(values.map((item) => item.trim()).filter(Boolean))];
+}
+
+/** Longest keyword query (q) accepted by search */
+export const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Words of a keyword query worth highlighting
+ * Mirrors websearch_to_tsquery syntax: quotes are dropped, "-word" exclusions and "or" are
+ * skipped. Single characters are ignored.
+ */
+export function getKeywordTerms(query: string | null | undefined): string[] {
+  if (!query) return [];
+
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => !word.startsWith('-') && word !== 'or')
+    .map((word) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter((word) => word.length > 1);
+
+  return [...new Set(terms)];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into plain and matched segments for highlighting
+ * A term matches at the start of a word, case-insensitively ("cam" marks "Camry").
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) return text ? [{ text, match: false }] : [];
+
+  const escaped = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join('|')})`, 'giu');
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: text.slice(lastIndex, index), match: false });
+    segments.push({ text: match[0], match: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+
+  return segments;
+}
+
+/**
+ * Short excerpt of text around the first matched term ("…heated seats and a…"), or null if
+ * nothing matches. Shows why a vehicle matched when the hit is only in its description.
+ */
+export function getKeywordExcerpt(
+  text: string | null | undefined,
+  terms: string[],
+  maxLength = 90
+): string | null {
+  if (!text) return null;
+
+  const segments = splitHighlights(text, terms);
+  const firstMatch = segments.findIndex((segment) => segment.match);
+  if (firstMatch === -1) return null;
+
+  const matchStart = segments
+    .slice(0, firstMatch)
+    .reduce((length, segment) => length + segment.text.length, 0);
+  const start = Math.max(0, Math.min(matchStart - Math.floor(maxLength / 3), text.length - maxLength));
+  const end = Math.min(text.length, start + maxLength);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
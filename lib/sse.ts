@@ -0,0 +1,47 @@
+/**
+ * Server-Sent Events
+ * Encodes named JSON events for streaming responses, and splits them back out of a
+ * fetch() body on the client (EventSource can't POST, so streams are read by hand).
+ */
+
+export interface SseEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+/**
+ * One `event:` / `data:` frame (JSON data never contains a raw newline)
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Complete events in the buffer, plus the unfinished tail to prepend to the next chunk
+ * Comment lines (`: keep-alive`) and frames without data are ignored.
+ */
+export function parseSseEvents(buffer: string): { events: SseEvent[]; rest: string } {
+  const frames = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = frames.pop() ?? '';
+  const events: SseEvent[] = [];
+
+  for (const frame of frames) {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+
+    if (data.length === 0) continue;
+
+    try {
+      events.push({ event, data: JSON.parse(data.join('\n')) });
+    } catch {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
@@ -46,6 +46,8 @@ export interface Vehicle {
   condition?: string;
   body_style?: string;
   primary_image_url: string;
+  /** Full ordered photo list (primary_image_url is the first entry) */
+  image_urls?: string[] | null;
   total_photos?: number;
   transmission?: string;
   fuel_type?: string;
@@ -54,6 +56,7 @@ export interface Vehicle {
   interior_color?: string;
   mpg_city?: number;
   mpg_highway?: number;
+  mpg_combined?: number;
   doors?: number;
   cylinders?: number;
   description?: string;
@@ -78,6 +81,24 @@ export interface Vehicle {
   certified: boolean;
   /** Days on lot from LotLinx (0 = newly added, null = unknown, validated >= 0 by parser) */
   dol?: number;
+  /** Dollars a billable click earns (null = feed had no payout, see lib/payout.ts) */
+  payout?: number | null;
+  /** Publisher priority from the feed (higher ranks first on relevance ties) */
+  priority?: number | null;
+  /** Share of checked photos that are real (0 = no real photo, null = not checked, see lib/image-health.ts) */
+  image_quality_score?: number | null;
+  /** Feed source id the vehicle was synced from ('lotlinx' or a FEED_SOURCES adapter id) */
+  source?: string;
+  /** Amount of the latest price change if it was a decrease (see lib/price-history.ts) */
+  price_drop?: number | null;
+  /** When the feed price last changed */
+  last_price_change?: string | null;
+  /** When the VIN first appeared in a feed */
+  first_seen_at?: string;
+  /** Start of the current (or last) listing period */
+  listed_at?: string;
+  /** When the VIN last left the feed (null while listed, see lib/vehicle-lifecycle.ts) */
+  delisted_at?: string | null;
 }
 
 // PostGIS spatial query response (includes distance calculation)
@@ -93,6 +114,8 @@ export interface Click {
   user_id: string;
   session_id?: string;
   is_billable: boolean;
+  /** Vehicle payout at click time (billable clicks only) */
+  payout?: number | null;
   cta_clicked?: string;
   utm_source?: string;
   utm_medium?: string;
@@ -100,6 +123,27 @@ export interface Click {
   created_at: string;
 }
 
+// Row of the dealers table (maintained by refresh_dealers() after each feed sync)
+export interface Dealer {
+  dealer_id: string;
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  dma?: string | null;
+  active_vehicle_count: number;
+  total_vehicle_count: number;
+  /** Admin-only (not readable with the anon key) */
+  settings?: Record<string, unknown>;
+  first_seen_at?: string;
+  /** Last refresh that found an active vehicle */
+  last_seen_at?: string | null;
+  updated_at?: string;
+}
+
 export interface DealerClickHistory {
   id: string;
   user_id: string;
@@ -9,6 +9,8 @@ export interface MetroInventoryRow {
   dealer_concentration: number;
   top_body_styles: Array<{ body_style: string; count: number }>;
   avg_price: number;
+  /** Average vehicles.payout in the metro (null when no vehicle has one) */
+  avg_payout: number | null;
 }
 
 export interface BodyStyleInventoryRow {
@@ -38,6 +40,8 @@ export interface CampaignRecommendation {
   dealers: number;
   dealer_concentration: number;
   recommended_daily_budget: number;
+  /** Expected revenue per billable click in this metro */
+  expected_payout: number;
   trend: 'growing' | 'stable' | 'declining';
   reason: string;
 }
@@ -47,6 +51,7 @@ export interface BudgetAllocation {
   metro: string;
   monthly_budget: number;
   daily_budget: number;
+  expected_payout: number;
   expected_clicks: number;
   expected_revenue: number;
   expected_profit: number;
@@ -0,0 +1,122 @@
+/**
+ * Vehicle Feature Taxonomy
+ * Feeds send equipment as a free-text Options string ("Moonroof, Leather Seats, Heated Front Seats, ...").
+ * The sync normalizes it into canonical feature ids stored in vehicles.features, which search
+ * filters on and the VDP lists as key features.
+ */
+
+interface FeatureDefinition {
+  label: string;
+  /** Matched against the lowercased Options text */
+  patterns: RegExp[];
+}
+
+/** Canonical features in display order */
+const FEATURE_DEFINITIONS = {
+  sunroof: {
+    label: 'Sunroof / Moonroof',
+    patterns: [/\b(?:sun|moon)[\s-]*roof/, /\bpanoramic\s+(?:glass\s+|power\s+)?roof\b/, /\bglass\s+roof\b/],
+  },
+  leather: {
+    label: 'Leather Seats',
+    // Leather-wrapped wheels and shift knobs are not leather seating
+    patterns: [/\bleather\b(?![\s-]*(?:wrapped|steering|shift|trimmed\s+steering))/],
+  },
+  third_row: {
+    label: 'Third-Row Seating',
+    patterns: [/\b(?:3rd|third)[\s-]*row\b/, /\b[78][\s-]*passenger\b/],
+  },
+  apple_carplay: {
+    label: 'Apple CarPlay',
+    patterns: [/\bapple\s*car\s*play\b/],
+  },
+  android_auto: {
+    label: 'Android Auto',
+    patterns: [/\bandroid\s*auto\b/],
+  },
+  tow_package: {
+    label: 'Tow Package',
+    patterns: [/\btow(?:ing)?[\s-]*(?:package|pkg|pack|hitch|prep)/, /\btrailer[\s-]*(?:tow|hitch)/],
+  },
+  heated_seats: {
+    label: 'Heated Seats',
+    patterns: [/\bheated\s+(?:(?:front|rear|driver|passenger|power|leather)\s+)*seats?\b/],
+  },
+  cooled_seats: {
+    label: 'Ventilated Seats',
+    patterns: [/\b(?:ventilated|cooled|air[\s-]*conditioned)\s+(?:(?:front|driver|power|leather)\s+)*seats?\b/],
+  },
+  navigation: {
+    label: 'Navigation System',
+    patterns: [/\bnavigation\b/, /\bnav\s+system\b/, /\bgps\b/],
+  },
+  backup_camera: {
+    label: 'Backup Camera',
+    patterns: [/\b(?:back[\s-]*up|rear[\s-]*view|reverse|rear)\s+camera\b/, /\b360[\s-]*(?:degree\s+)?camera\b/, /\bsurround[\s-]*view\b/],
+  },
+  blind_spot: {
+    label: 'Blind Spot Monitoring',
+    patterns: [/\bblind[\s-]*spot\b/],
+  },
+  adaptive_cruise: {
+    label: 'Adaptive Cruise Control',
+    patterns: [/\badaptive\s+cruise\b/, /\bradar\s+cruise\b/, /\bsmart\s+cruise\b/],
+  },
+  remote_start: {
+    label: 'Remote Start',
+    patterns: [/\bremote\s+(?:engine\s+)?start/],
+  },
+  keyless_entry: {
+    label: 'Keyless Entry',
+    patterns: [/\bkeyless\b/, /\bpush[\s-]*button\s+start/, /\b(?:smart|proximity|intelligent)\s+key\b/],
+  },
+  bluetooth: {
+    label: 'Bluetooth',
+    patterns: [/\bbluetooth\b/],
+  },
+  premium_audio: {
+    label: 'Premium Audio',
+    patterns: [
+      /\bpremium\s+(?:audio|sound)\b/,
+      /\b(?:bose|harman[\s/-]*kardon|jbl|mark\s+levinson|burmester|bowers\s*&\s*wilkins|bang\s*&\s*olufsen)\b/,
+    ],
+  },
+} satisfies Record<string, FeatureDefinition>;
+
+export type FeatureId = keyof typeof FEATURE_DEFINITIONS;
+
+/** Canonical feature ids in display order */
+export const FEATURE_IDS = Object.keys(FEATURE_DEFINITIONS) as FeatureId[];
+
+export function isFeatureId(value: string): value is FeatureId {
+  return Object.prototype.hasOwnProperty.call(FEATURE_DEFINITIONS, value);
+}
+
+export function getFeatureLabel(id: FeatureId): string {
+  return FEATURE_DEFINITIONS[id].label;
+}
+
+/**
+ * Normalize a feed Options string into canonical feature ids (display order, no duplicates)
+ */
+export function parseFeatures(options: string | null | undefined): FeatureId[] {
+  if (!options) return [];
+  const text = options.toLowerCase();
+  return FEATURE_IDS.filter(id => FEATURE_DEFINITIONS[id].patterns.some(pattern => pattern.test(text)));
+}
+
+/**
+ * Display labels for stored features, skipping ids that are no longer in the taxonomy
+ */
+export function getFeatureLabels(features: string[] | null | undefined): string[] {
+  return FEATURE_IDS.filter(id => features?.includes(id)).map(getFeatureLabel);
+}
+
+/**
+ * Parse the `features` search param ("sunroof,leather") into known feature ids
+ */
+export function parseFeatureParam(value: string | null | undefined): FeatureId[] {
+  if (!value) return [];
+  const requested = new Set(value.split(',').map(id => id.trim()));
+  return FEATURE_IDS.filter(id => requested.has(id));
+}
@@ -0,0 +1,38 @@
+/**
+ * Vehicle Lifecycle
+ * The feed sync stamps vehicles.first_seen_at / listed_at / delisted_at and appends
+ * vehicle_lifecycle_events rows, so we know how long each listing stayed up.
+ */
+
+/** Matches vehicle_lifecycle_events.event */
+export type LifecycleEvent = 'listed' | 'delisted' | 'relisted';
+
+/** How long a delisted VIN's page shows a "sold" notice before returning 404 */
+export const RECENTLY_SOLD_DAYS = 30;
+
+/** Segments the days-to-sell report can group by */
+export const DAYS_TO_SELL_GROUPS = ['make', 'model', 'dma'] as const;
+export type DaysToSellGroup = (typeof DAYS_TO_SELL_GROUPS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days a listing was up (null when the listing start is unknown)
+ */
+export function daysListed(listedAt: string | null | undefined, delistedAt: string): number | null {
+  if (!listedAt) return null;
+  const listed = new Date(listedAt).getTime();
+  if (Number.isNaN(listed)) return null;
+  return Math.max(0, Math.floor((new Date(delistedAt).getTime() - listed) / DAY_MS));
+}
+
+/**
+ * Whether an inactive vehicle left the feed recently enough to show a "sold" page
+ */
+export function isRecentlySold(
+  vehicle: { is_active?: boolean; delisted_at?: string | null },
+  now: Date = new Date()
+): boolean {
+  if (vehicle.is_active !== false || !vehicle.delisted_at) return false;
+  return now.getTime() - new Date(vehicle.delisted_at).getTime() <= RECENTLY_SOLD_DAYS * DAY_MS;
+}
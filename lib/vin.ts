@@ -0,0 +1,228 @@
+/**
+ * VIN Decoding
+ * Offline checks on 17-character VINs (ISO 3779 / 49 CFR 565): check digit, model year,
+ * and manufacturer from the WMI (first three characters) via the bundled data/vin-wmi.json.
+ * The feed sync uses it to fill a missing year/make and flag rows whose feed values disagree
+ * with the VIN; the VDP route uses it to reject malformed VINs before querying.
+ */
+
+import type { DbVehicle } from './feed-sources';
+import wmiData from '../data/vin-wmi.json';
+
+export interface WmiInfo {
+  manufacturer: string;
+  /** Makes sold under this WMI (several for shared platforms, e.g. Chrysler/Dodge/Jeep) */
+  makes: string[];
+}
+
+export interface VinDecode {
+  vin: string;
+  checkDigitValid: boolean;
+  /** Null when position 10 is not a model-year code */
+  modelYear: number | null;
+  manufacturer: string | null;
+  makes: string[];
+  country: string | null;
+}
+
+/** Feed fields compared against the VIN */
+export type VinField = 'year' | 'make';
+
+export interface VinReconciliation {
+  vehicle: DbVehicle;
+  /** Fields that were missing in the feed and filled from the VIN */
+  filled: VinField[];
+  /** Fields where the feed disagrees with the VIN (feed value is kept) */
+  mismatches: VinField[];
+}
+
+// 17 characters, no I/O/Q
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/** Position 10 codes, cycling every 30 years from 1980 */
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_BASE = 1980;
+const MODEL_YEAR_CYCLE = 30;
+
+/** Second-character order used by the ISO 3779 region ranges */
+const REGION_ORDER = 'ABCDEFGHJKLMNPRSTUVWXYZ1234567890';
+
+/** Country ranges by first character and second-character span (common origins for US inventory) */
+const COUNTRY_RANGES: Array<{ first: string; from: string; to: string; country: string }> = [
+  { first: '1', from: 'A', to: '0', country: 'United States' },
+  { first: '4', from: 'A', to: '0', country: 'United States' },
+  { first: '5', from: 'A', to: '0', country: 'United States' },
+  { first: '7', from: 'F', to: '0', country: 'United States' },
+  { first: '2', from: 'A', to: '0', country: 'Canada' },
+  { first: '3', from: 'A', to: 'W', country: 'Mexico' },
+  { first: '9', from: 'A', to: 'E', country: 'Brazil' },
+  { first: '6', from: 'A', to: 'W', country: 'Australia' },
+  { first: 'J', from: 'A', to: '0', country: 'Japan' },
+  { first: 'K', from: 'L', to: 'R', country: 'South Korea' },
+  { first: 'L', from: 'A', to: '0', country: 'China' },
+  { first: 'M', from: 'A', to: 'E', country: 'India' },
+  { first: 'M', from: 'L', to: 'R', country: 'Thailand' },
+  { first: 'S', from: 'A', to: 'M', country: 'United Kingdom' },
+  { first: 'S', from: 'N', to: 'T', country: 'Germany' },
+  { first: 'T', from: 'J', to: 'P', country: 'Czech Republic' },
+  { first: 'T', from: 'R', to: 'V', country: 'Hungary' },
+  { first: 'V', from: 'F', to: 'R', country: 'France' },
+  { first: 'V', from: 'S', to: 'W', country: 'Spain' },
+  { first: 'W', from: 'A', to: '0', country: 'Germany' },
+  { first: 'X', from: 'P', to: '0', country: 'Russia' },
+  { first: 'Y', from: 'S', to: 'W', country: 'Sweden' },
+  { first: 'Z', from: 'A', to: 'R', country: 'Italy' },
+];
+
+const WMI_TABLE: Record<string, WmiInfo> = wmiData;
+
+/**
+ * Trim and uppercase (VINs arrive in mixed case from URLs and some feeds)
+ */
+export function normalizeVin(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+/**
+ * 17 characters from the VIN alphabet (no I, O, Q)
+ */
+export function isWellFormedVin(vin: string): boolean {
+  return VIN_PATTERN.test(vin);
+}
+
+/**
+ * Expected position-9 check digit ('0'-'9' or 'X'), or null for malformed VINs
+ */
+export function computeCheckDigit(vin: string): string | null {
+  if (!isWellFormedVin(vin)) return null;
+
+  let sum = 0;
+  for (let i = 0; i < vin.length; i++) {
+    const char = vin[i];
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char];
+    sum += value * POSITION_WEIGHTS[i];
+  }
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * Well-formed with a matching check digit
+ */
+export function isValidVin(vin: string): boolean {
+  return computeCheckDigit(vin) === vin[8];
+}
+
+/**
+ * Every model year the position-10 code can stand for (one per 30-year cycle, oldest first)
+ */
+export function modelYearCandidates(vin: string): number[] {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9] ?? '');
+  if (index === -1) return [];
+  return [MODEL_YEAR_BASE + index, MODEL_YEAR_BASE + MODEL_YEAR_CYCLE + index];
+}
+
+/**
+ * Model year from position 10
+ * Cars and light trucks from 2010 on carry a letter in position 7 (a digit before),
+ * which picks the 30-year cycle.
+ */
+export function decodeModelYear(vin: string): number | null {
+  const candidates = modelYearCandidates(vin);
+  if (candidates.length === 0) return null;
+  return /\d/.test(vin[6]) ? candidates[0] : candidates[1];
+}
+
+/**
+ * Manufacturer and makes for the VIN's WMI, or null if it's not in the bundled dataset
+ */
+export function lookupWmi(vin: string): WmiInfo | null {
+  return WMI_TABLE[vin.slice(0, 3)] ?? null;
+}
+
+/**
+ * Country of manufacture from the first two characters
+ */
+export function getVinCountry(vin: string): string | null {
+  const second = REGION_ORDER.indexOf(vin[1] ?? '');
+  if (second === -1) return null;
+
+  const range = COUNTRY_RANGES.find(
+    ({ first, from, to }) =>
+      first === vin[0] && second >= REGION_ORDER.indexOf(from) && second <= REGION_ORDER.indexOf(to)
+  );
+  return range?.country ?? null;
+}
+
+/**
+ * Everything decodable offline, or null for malformed VINs
+ */
+export function decodeVin(value: string): VinDecode | null {
+  const vin = normalizeVin(value);
+  if (!isWellFormedVin(vin)) return null;
+
+  const wmi = lookupWmi(vin);
+  return {
+    vin,
+    checkDigitValid: isValidVin(vin),
+    modelYear: decodeModelYear(vin),
+    manufacturer: wmi?.manufacturer ?? null,
+    makes: wmi?.makes ?? [],
+    country: getVinCountry(vin),
+  };
+}
+
+/** "Mercedes Benz" / "MERCEDES-BENZ" / "mercedes-benz" compare equal */
+function normalizeMake(make: string): string {
+  return make.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Compare a mapped feed row with its VIN
+ * A missing year, or a missing make under a single-make WMI, is filled from the VIN. Present values
+ * are never overwritten: disagreements are returned (and stored in vin_mismatches) for review.
+ * The year only mismatches if it's in neither 30-year cycle of the position-10 code.
+ */
+export function reconcileVehicleWithVin(vehicle: DbVehicle): VinReconciliation {
+  const filled: VinField[] = [];
+  const mismatches: VinField[] = [];
+  const decoded = decodeVin(vehicle.vin || '');
+
+  if (!decoded) {
+    return { vehicle: { ...vehicle, vin_mismatches: [] }, filled, mismatches };
+  }
+
+  let { year, make } = vehicle;
+
+  if (year === null) {
+    if (decoded.modelYear !== null) {
+      year = decoded.modelYear;
+      filled.push('year');
+    }
+  } else if (decoded.modelYear !== null && !modelYearCandidates(decoded.vin).includes(year)) {
+    mismatches.push('year');
+  }
+
+  if (!make) {
+    if (decoded.makes.length === 1) {
+      make = decoded.makes[0];
+      filled.push('make');
+    }
+  } else if (decoded.makes.length > 0) {
+    const feedMake = normalizeMake(make);
+    if (!decoded.makes.some(m => normalizeMake(m) === feedMake)) {
+      mismatches.push('make');
+    }
+  }
+
+  return { vehicle: { ...vehicle, year, make, vin_mismatches: mismatches }, filled, mismatches };
+}
@@ -0,0 +1,104 @@
+/**
+ * Image Health Check Script
+ * Run one batch manually:  npx tsx scripts/check-images.ts [--limit=<vehicles>]
+ * Register a stock photo:  npx tsx scripts/check-images.ts --add-stock=<image url|file> --label="<name>"
+ * Run via cron: Called by /app/api/cron/check-images/route.ts
+ */
+
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+// Load environment variables
+config({ path: resolve(__dirname, '../.env.local') });
+
+import { createClient } from '@supabase/supabase-js';
+import { computeImageHash } from '../lib/image-health';
+import { ImageHealthService, getImageHealthOptions } from '../lib/image-health-service';
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function readImage(source: string): Promise<Buffer> {
+  if (!/^https?:\/\//.test(source)) {
+    return readFileSync(source);
+  }
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${source}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function addStockImage(supabaseUrl: string, supabaseKey: string, source: string, label: string) {
+  const hash = await computeImageHash(await readImage(source));
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  const { error } = await supabase
+    .from('stock_image_hashes')
+    .upsert({ hash, label, source_url: source }, { onConflict: 'hash' });
+
+  if (error) {
+    throw new Error(`Failed to save stock image hash: ${error.message}`);
+  }
+
+  console.log(`✅ Stock image "${label}" registered (hash ${hash})`);
+  console.log('   Vehicles showing it are demoted once their next check runs.');
+}
+
+async function main() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY; // Use service role for admin operations
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('❌ Missing required environment variables');
+    console.error('Required:');
+    console.error('  - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  - SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  // Optional: --add-stock=<url|file> --label=<name> to register a placeholder photo
+  const stockSource = getArg('add-stock');
+  if (stockSource) {
+    const label = getArg('label');
+    if (!label) {
+      console.error('❌ --add-stock needs a --label');
+      process.exit(1);
+    }
+    try {
+      await addStockImage(supabaseUrl, supabaseKey, stockSource, label);
+      process.exit(0);
+    } catch (error) {
+      console.error('❌', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
+  // Optional: --limit=<n> to override IMAGE_HEALTH_BATCH_SIZE
+  const options = getImageHealthOptions();
+  const limit = parseInt(getArg('limit') || '');
+  if (limit > 0) {
+    options.batchSize = limit;
+  }
+
+  console.log('🖼️  Carzo Image Health Check');
+  console.log('===========================');
+  console.log(`Supabase: ${supabaseUrl}`);
+  console.log(`Batch: ${options.batchSize} vehicles`);
+  if (options.endpoint) {
+    console.log(`Image endpoint: ${options.endpoint}`);
+  }
+  console.log('');
+
+  const result = await new ImageHealthService(supabaseUrl, supabaseKey, options).run();
+
+  if (result.errors.length > 0) {
+    console.error('Errors:', result.errors);
+  }
+  process.exit(result.success ? 0 : 1);
+}
+
+main();
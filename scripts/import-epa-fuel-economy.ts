@@ -0,0 +1,98 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import the EPA fuel economy dataset into epa_fuel_economy
+ * Source: https://www.fueleconomy.gov/feg/download.shtml (vehicles.csv, unzipped)
+ *
+ * Usage: npx tsx scripts/import-epa-fuel-economy.ts [--file=<path to vehicles.csv>] [--min-year=<year>]
+ * Default file: data/epa-vehicles.csv
+ *
+ * Re-running replaces rows by EPA id, so a newer download just updates the table.
+ * Vehicles pick up the new figures on their next feed sync (lib/fuel-economy.ts).
+ */
+
+import { config } from 'dotenv';
+import { existsSync, createReadStream } from 'fs';
+import { join, resolve } from 'path';
+import { parse } from 'csv-parse';
+import { createClient } from '@supabase/supabase-js';
+import { parseEpaRow, type EpaVehicle } from '../lib/fuel-economy';
+
+config({ path: join(__dirname, '../.env.local') });
+
+const BATCH_SIZE = 1000;
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function importFuelEconomy() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('❌ Missing required environment variables');
+    console.error('Required:');
+    console.error('  - NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  - SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const csvPath = resolve(getArg('file') || join(__dirname, '../data/epa-vehicles.csv'));
+  if (!existsSync(csvPath)) {
+    console.error(`❌ ${csvPath} not found`);
+    console.error('   Download vehicles.csv from https://www.fueleconomy.gov/feg/download.shtml');
+    process.exit(1);
+  }
+
+  // Optional: --min-year=<year> to skip model years no dealer still lists
+  const minYear = parseInt(getArg('min-year') || '') || 0;
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const parser = createReadStream(csvPath).pipe(parse({ columns: true, skip_empty_lines: true, bom: true }));
+
+  console.log(`⛽ Importing EPA fuel economy from ${csvPath}...\n`);
+
+  let batch: EpaVehicle[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    const { error } = await supabase.from('epa_fuel_economy').upsert(batch, { onConflict: 'epa_id' });
+
+    if (error) {
+      console.error(`❌ Error importing rows ${imported + 1}-${imported + batch.length}:`, error.message);
+      process.exit(1);
+    }
+
+    imported += batch.length;
+    batch = [];
+    console.log(`✅ ${imported} rows imported`);
+  };
+
+  for await (const row of parser) {
+    const vehicle = parseEpaRow(row);
+    if (!vehicle || vehicle.year < minYear) {
+      skipped++;
+      continue;
+    }
+
+    batch.push(vehicle);
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  console.log(`\n🎉 Imported ${imported} EPA vehicles (${skipped} skipped)`);
+  console.log('   MPG is filled on the next feed sync.');
+}
+
+importFuelEconomy().catch(error => {
+  console.error('❌ Import failed:', error);
+  process.exit(1);
+});
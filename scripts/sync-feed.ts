@@ -1,59 +1,130 @@
 /**
  * Feed Sync Script
- * Run manually: npx tsx scripts/sync-feed.ts
+ * Run manually: npx tsx scripts/sync-feed.ts [--source=<id>] [--force-deactivation]
+ * Preview only:  npx tsx scripts/sync-feed.ts --dry-run [--file=<feed.zip|feed.tsv>] [--output=<diff.json|diff.csv>]
  * Run via cron: Called by /app/api/cron/sync-feed/route.ts
  */
 
 import { config } from 'dotenv';
+import { writeFileSync } from 'fs';
 import { resolve } from 'path';
 
 // Load environment variables
 config({ path: resolve(__dirname, '../.env.local') });
 
-import { FeedSyncService } from '../lib/feed-sync';
+import { FeedSyncService, type FeedSyncResult } from '../lib/feed-sync';
+import { loadFeedSources, LotLinxFeedSource } from '../lib/feed-sources';
+import { feedDiffToCsv, type FeedDiff } from '../lib/feed-diff';
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
 
 async function main() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY; // Use service role for admin operations
-  const feedUsername = process.env.LOTLINX_FEED_USERNAME;
-  const feedPassword = process.env.LOTLINX_FEED_PASSWORD;
-  const publisherId = process.env.LOTLINX_PUBLISHER_ID;
 
-  if (!supabaseUrl || !supabaseKey || !feedUsername || !feedPassword || !publisherId) {
+  // Optional: --source=<id> to sync a single publisher
+  const sourceId = getArg('source');
+
+  // Optional: --force-deactivation to override the mass-deactivation circuit breaker
+  const forceDeactivation = process.argv.includes('--force-deactivation');
+
+  // Optional: --dry-run to preview the diff, --file to read a local feed, --output to save the diff
+  const dryRun = process.argv.includes('--dry-run');
+  const inputFile = getArg('file');
+  const outputFile = getArg('output');
+
+  if (outputFile && !dryRun) {
+    console.error('❌ --output is only supported with --dry-run');
+    process.exit(1);
+  }
+
+  const sources = loadFeedSources().filter(source => !sourceId || source.id === sourceId);
+
+  // A local LotLinx file needs no feed credentials
+  if (inputFile && sources.length === 0 && (!sourceId || sourceId === 'lotlinx')) {
+    sources.push(new LotLinxFeedSource({ username: '', password: '', publisherId: '' }));
+  }
+
+  if (inputFile && sources.length > 1) {
+    console.error('❌ --file needs a single source; add --source=<id>');
+    process.exit(1);
+  }
+
+  if (!supabaseUrl || !supabaseKey || sources.length === 0) {
     console.error('❌ Missing required environment variables');
     console.error('Required:');
     console.error('  - NEXT_PUBLIC_SUPABASE_URL');
     console.error('  - SUPABASE_SERVICE_ROLE_KEY');
-    console.error('  - LOTLINX_FEED_USERNAME');
-    console.error('  - LOTLINX_FEED_PASSWORD');
-    console.error('  - LOTLINX_PUBLISHER_ID');
+    console.error('At least one feed source:');
+    console.error('  - LOTLINX_FEED_USERNAME, LOTLINX_FEED_PASSWORD, LOTLINX_PUBLISHER_ID');
+    console.error('  - FEED_SOURCES (JSON array of generic source configs)');
+    if (sourceId) {
+      console.error(`No configured source matches --source=${sourceId}`);
+    }
     process.exit(1);
   }
 
   console.log('🚀 Carzo Feed Sync');
   console.log('==================');
-  console.log(`Publisher ID: ${publisherId}`);
+  console.log(`Sources: ${sources.map(source => source.id).join(', ')}`);
   console.log(`Supabase: ${supabaseUrl}`);
+  if (inputFile) {
+    console.log(`Feed file: ${inputFile}`);
+  }
+  if (dryRun) {
+    console.log('🔍 Dry run: no changes will be written');
+  }
+  if (forceDeactivation) {
+    console.log('⚠️  Circuit breaker override: missing VINs will be deactivated regardless of drop size');
+  }
   console.log('');
 
-  const syncService = new FeedSyncService(
-    supabaseUrl,
-    supabaseKey,
-    feedUsername,
-    feedPassword,
-    publisherId
-  );
+  const failed: FeedSyncResult[] = [];
+  const partial: FeedSyncResult[] = [];
+  const diffs: FeedDiff[] = [];
 
-  const result = await syncService.syncFeed();
+  for (const source of sources) {
+    const syncService = new FeedSyncService(supabaseUrl, supabaseKey, source, {
+      forceDeactivation,
+      dryRun,
+      inputFile,
+    });
+    const result = await syncService.syncFeed();
+    // A skipped run (another sync holds the lock) counts as failed: nothing was synced
+    if (!result.success) failed.push(result);
+    if (result.status === 'partial') partial.push(result);
+    if (result.diff) diffs.push(result.diff);
+  }
+
+  if (outputFile && diffs.length > 0) {
+    const contents = outputFile.toLowerCase().endsWith('.csv')
+      ? feedDiffToCsv(diffs)
+      : JSON.stringify(diffs, null, 2);
+    writeFileSync(outputFile, contents);
+    console.log(`📝 Diff written to ${outputFile}`);
+  }
 
-  if (result.success) {
+  if (failed.length === 0) {
     console.log('');
-    console.log('✅ Sync completed successfully!');
+    if (partial.length > 0) {
+      console.warn('⚠️  Sync completed with deactivation held back:');
+      for (const result of partial) {
+        console.warn(`   ${result.source}: ${result.pendingRemoval} vehicles kept active`);
+      }
+      console.warn('   Re-run with --force-deactivation once the feed is confirmed good.');
+    } else {
+      console.log(dryRun ? '✅ Dry run complete (nothing written)' : '✅ Sync completed successfully!');
+    }
     process.exit(0);
   } else {
     console.log('');
     console.error('❌ Sync failed!');
-    console.error('Errors:', result.errors);
+    for (const result of failed) {
+      console.error(`Errors (${result.source}):`, result.errors);
+    }
     process.exit(1);
   }
 }
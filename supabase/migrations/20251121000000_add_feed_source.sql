@@ -0,0 +1,17 @@
+-- Record which inventory publisher each vehicle came from
+-- Enables multiple feed sources (LotLinx + generic CSV/JSON adapters) to sync side by side
+--
+-- Existing rows all came from LotLinx, so the default backfills them.
+-- Each sync only deactivates vehicles from its own source.
+
+ALTER TABLE vehicles
+ADD COLUMN IF NOT EXISTS source VARCHAR(50) NOT NULL DEFAULT 'lotlinx';
+
+-- Feed sync loads active VINs per source for removal tracking
+CREATE INDEX IF NOT EXISTS idx_vehicles_source_active ON vehicles(source, is_active);
+
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS source VARCHAR(50) NOT NULL DEFAULT 'lotlinx';
+
+COMMENT ON COLUMN vehicles.source IS 'Feed source id the vehicle was synced from (lotlinx, or a FEED_SOURCES adapter id)';
+COMMENT ON COLUMN feed_sync_logs.source IS 'Feed source id the sync ran against';
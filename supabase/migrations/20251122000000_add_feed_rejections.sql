@@ -0,0 +1,38 @@
+-- Quarantine table for feed rows that fail validation (lib/feed-validation.ts)
+-- Rejected rows are never upserted into vehicles, so they can't reach paid traffic.
+--
+-- Each row keeps the mapped vehicle payload so ops can see exactly what the
+-- publisher sent. FeedSyncService prunes rows older than 30 days per source.
+
+CREATE TABLE IF NOT EXISTS feed_rejections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sync_run_id UUID NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  vin VARCHAR(50),
+  dealer_id VARCHAR(255),
+  dealer_name VARCHAR(255),
+  reasons TEXT[] NOT NULL,
+  messages TEXT[] NOT NULL DEFAULT '{}',
+  vehicle JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_rejections_created_at ON feed_rejections(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feed_rejections_sync_run ON feed_rejections(sync_run_id);
+CREATE INDEX IF NOT EXISTS idx_feed_rejections_source ON feed_rejections(source, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feed_rejections_reasons ON feed_rejections USING GIN(reasons);
+
+-- Admin-only data: no public policies, service role bypasses RLS
+ALTER TABLE feed_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Per-sync rejection summary
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS sync_run_id UUID,
+ADD COLUMN IF NOT EXISTS vehicles_rejected INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS rejections_by_rule JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON TABLE feed_rejections IS 'Feed rows that failed validation during sync (quarantined, not shown to users)';
+COMMENT ON COLUMN feed_rejections.reasons IS 'Reason codes: invalid_vin, missing_dealer, missing_dealer_url, missing_image, price_out_of_range, year_out_of_range, invalid_coordinates';
+COMMENT ON COLUMN feed_rejections.vehicle IS 'Mapped vehicle row as it would have been upserted';
+COMMENT ON COLUMN feed_sync_logs.sync_run_id IS 'Links a sync log to its feed_rejections rows';
+COMMENT ON COLUMN feed_sync_logs.rejections_by_rule IS 'Rejection counts keyed by reason code';
@@ -0,0 +1,19 @@
+-- Mass-deactivation circuit breaker (lib/feed-circuit-breaker.ts)
+-- When a feed is much smaller than current inventory or recent history, the sync
+-- upserts what it got but skips deactivation and logs status = 'partial'.
+--
+-- total_vehicles now records the feed size of each run and forms the history baseline.
+-- An admin can push the held deactivation through from /admin (deactivation_forced_at).
+
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS vehicles_pending_removal INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS alert_message TEXT,
+ADD COLUMN IF NOT EXISTS deactivation_forced_at TIMESTAMP;
+
+-- Circuit breaker reads recent successful runs per source
+CREATE INDEX IF NOT EXISTS idx_feed_sync_logs_source_status ON feed_sync_logs(source, status);
+
+COMMENT ON COLUMN feed_sync_logs.total_vehicles IS 'Valid vehicles in the feed for this run (circuit breaker history baseline)';
+COMMENT ON COLUMN feed_sync_logs.vehicles_pending_removal IS 'VINs missing from the feed that the circuit breaker kept active';
+COMMENT ON COLUMN feed_sync_logs.alert_message IS 'Operator-facing warnings raised during the sync';
+COMMENT ON COLUMN feed_sync_logs.deactivation_forced_at IS 'When an admin forced a held deactivation through';
@@ -0,0 +1,67 @@
+-- Content-hash change detection for feed sync (lib/feed-content-hash.ts)
+-- The sync only upserts rows whose hash differs from the stored one, so unchanged
+-- vehicles cost no writes and keep their last_sync (= last time content changed).
+--
+-- Existing rows start with a NULL hash and are rewritten once on the next sync.
+
+ALTER TABLE vehicles
+ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+COMMENT ON COLUMN vehicles.content_hash IS 'SHA-256 of feed-derived columns; sync skips the upsert when unchanged';
+COMMENT ON COLUMN vehicles.last_sync IS 'When the feed sync last wrote this row (content changed, added, or reactivated)';
+
+-- Exact per-sync counts
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS vehicles_unchanged INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vehicles_reactivated INT DEFAULT 0;
+
+COMMENT ON COLUMN feed_sync_logs.vehicles_added IS 'VINs never seen before';
+COMMENT ON COLUMN feed_sync_logs.vehicles_updated IS 'Active VINs whose content hash changed';
+COMMENT ON COLUMN feed_sync_logs.vehicles_unchanged IS 'Active VINs skipped because their content hash matched';
+COMMENT ON COLUMN feed_sync_logs.vehicles_reactivated IS 'Previously deactivated VINs back in the feed';
+
+-- Unchanged rows no longer get a fresh last_sync, so a held deactivation can't be
+-- reconstructed from timestamps. The circuit breaker records the exact VINs instead.
+CREATE TABLE IF NOT EXISTS feed_pending_deactivations (
+  sync_run_id UUID NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  vin VARCHAR(17) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (sync_run_id, vin)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_pending_deactivations_source ON feed_pending_deactivations(source);
+
+-- Admin-only data: no public policies, service role bypasses RLS
+ALTER TABLE feed_pending_deactivations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE feed_pending_deactivations IS 'VINs a tripped circuit breaker kept active, applied by an admin override';
+
+-- Apply a held deactivation in one statement (admin override)
+CREATE OR REPLACE FUNCTION apply_pending_deactivations(p_sync_run_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  removed_count INTEGER;
+BEGIN
+  UPDATE vehicles v
+  SET is_active = false
+  FROM feed_pending_deactivations p
+  WHERE p.sync_run_id = p_sync_run_id
+    AND v.vin = p.vin
+    AND v.source = p.source
+    AND v.is_active = true;
+
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  DELETE FROM feed_pending_deactivations WHERE sync_run_id = p_sync_run_id;
+
+  RETURN removed_count;
+END;
+$$;
+
+-- Service role only (called from /api/admin/force-deactivation)
+REVOKE EXECUTE ON FUNCTION apply_pending_deactivations FROM PUBLIC;
+
+COMMENT ON FUNCTION apply_pending_deactivations IS 'Deactivate the VINs held back by a circuit breaker trip and clear the hold';
@@ -0,0 +1,161 @@
+-- Vehicle price history and price-drop exposure (lib/price-history.ts)
+-- The feed sync used to overwrite vehicles.price in place. It now appends a
+-- vehicle_price_history row whenever a VIN's price changes and keeps the latest
+-- change on vehicles so search results can show a "Price dropped $X" badge.
+
+CREATE TABLE IF NOT EXISTS vehicle_price_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sync_run_id UUID NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  vin VARCHAR(17) NOT NULL,
+  old_price DECIMAL(10,2) NOT NULL,
+  new_price DECIMAL(10,2) NOT NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_price_history_vin ON vehicle_price_history(vin, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_price_history_changed_at ON vehicle_price_history(changed_at DESC);
+
+-- Admin-only data: no public policies, service role bypasses RLS
+ALTER TABLE vehicle_price_history ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE vehicle_price_history IS 'Append-only log of feed price changes per VIN';
+
+-- Latest change, denormalized so search needs no join
+ALTER TABLE vehicles
+ADD COLUMN IF NOT EXISTS price_drop DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS last_price_change TIMESTAMP;
+
+COMMENT ON COLUMN vehicles.price_drop IS 'Amount of the latest price change if it was a decrease, otherwise NULL';
+COMMENT ON COLUMN vehicles.last_price_change IS 'When the feed price last changed (NULL = unchanged since first listed)';
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_price_drop ON vehicles(last_price_change DESC) WHERE price_drop IS NOT NULL;
+
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS price_changes INT DEFAULT 0;
+
+COMMENT ON COLUMN feed_sync_logs.price_changes IS 'Rows appended to vehicle_price_history by this sync';
+
+-- Return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS search_vehicles_by_location(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION search_vehicles_by_location(
+  user_lat DOUBLE PRECISION,
+  user_lon DOUBLE PRECISION,
+  p_make TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_body_style TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_year INTEGER DEFAULT NULL,
+  p_max_year INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  vin VARCHAR(17),
+  year INTEGER,
+  make VARCHAR(100),
+  model VARCHAR(100),
+  "trim" VARCHAR(100),
+  price NUMERIC(10,2),
+  miles INTEGER,
+  condition VARCHAR(20),
+  body_style VARCHAR(50),
+  primary_image_url TEXT,
+  transmission VARCHAR(50),
+  fuel_type VARCHAR(50),
+  drive_type VARCHAR(50),
+  exterior_color VARCHAR(50),
+  interior_color VARCHAR(50),
+  doors INTEGER,
+  cylinders INTEGER,
+  description TEXT,
+  dealer_id VARCHAR(50),
+  dealer_name VARCHAR(255),
+  dealer_city VARCHAR(100),
+  dealer_state VARCHAR(2),
+  dealer_zip VARCHAR(10),
+  dealer_vdp_url TEXT,
+  total_photos INTEGER,
+  latitude DECIMAL(10,7),
+  longitude DECIMAL(10,7),
+  targeting_radius INTEGER,
+  price_drop NUMERIC(10,2),
+  last_price_change TIMESTAMP,
+  distance_miles DOUBLE PRECISION,
+  total_results BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.vin,
+    v.year,
+    v.make,
+    v.model,
+    v."trim",
+    v.price,
+    v.miles,
+    v.condition,
+    v.body_style,
+    v.primary_image_url,
+    v.transmission,
+    v.fuel_type,
+    v.drive_type,
+    v.exterior_color,
+    v.interior_color,
+    v.doors,
+    v.cylinders,
+    v.description,
+    v.dealer_id,
+    v.dealer_name,
+    v.dealer_city,
+    v.dealer_state,
+    v.dealer_zip,
+    v.dealer_vdp_url,
+    v.total_photos,
+    v.latitude,
+    v.longitude,
+    v.targeting_radius,
+    v.price_drop,
+    v.last_price_change,
+    -- Calculate distance in miles
+    ST_Distance(
+      v.location,
+      ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography
+    ) / 1609.34 AS distance_miles,
+    -- Total count of matching records (window function)
+    count(*) OVER() AS total_results
+  FROM vehicles v
+  WHERE v.is_active = true
+    AND v.location IS NOT NULL
+    -- ST_DWithin: Fast spatial query using GIST index
+    -- Cap maximum radius at 100 miles for relevant local results
+    AND ST_DWithin(
+      v.location,
+      ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography,
+      LEAST(COALESCE(v.targeting_radius, 30), 100) * 1609.34
+    )
+    -- Apply filters
+    AND (p_make IS NULL OR v.make = p_make)
+    AND (p_model IS NULL OR v.model = p_model)
+    AND (p_condition IS NULL OR v.condition = p_condition)
+    AND (p_body_style IS NULL OR v.body_style = p_body_style)
+    AND (p_min_price IS NULL OR v.price >= p_min_price)
+    AND (p_max_price IS NULL OR v.price <= p_max_price)
+    AND (p_min_year IS NULL OR v.year >= p_min_year)
+    AND (p_max_year IS NULL OR v.year <= p_max_year)
+  ORDER BY distance_miles ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_vehicles_by_location TO authenticated, anon;
+
+COMMENT ON FUNCTION search_vehicles_by_location IS 'Fast spatial search using PostGIS ST_DWithin. Returns vehicles within their targeting radius, sorted by distance, with the latest price drop.';
@@ -0,0 +1,131 @@
+-- Vehicle lifecycle tracking (lib/vehicle-lifecycle.ts)
+-- A VIN leaving the feed used to only flip is_active. The sync now stamps when a
+-- VIN was first seen, when its current listing started and when it left, and
+-- appends listed / delisted / relisted events for days-to-sell reporting.
+
+ALTER TABLE vehicles
+ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMP DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS listed_at TIMESTAMP DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS delisted_at TIMESTAMP;
+
+-- Best available history for existing rows; delisted_at stays NULL (unknown) for
+-- vehicles that were already inactive
+UPDATE vehicles
+SET first_seen_at = created_at,
+    listed_at = created_at
+WHERE created_at IS NOT NULL;
+
+COMMENT ON COLUMN vehicles.first_seen_at IS 'When the VIN first appeared in a feed';
+COMMENT ON COLUMN vehicles.listed_at IS 'Start of the current (or last) listing period; reset on relist';
+COMMENT ON COLUMN vehicles.delisted_at IS 'When the VIN last left the feed (NULL while listed)';
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_delisted_at ON vehicles(delisted_at DESC) WHERE is_active = false;
+
+CREATE TABLE IF NOT EXISTS vehicle_lifecycle_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sync_run_id UUID,
+  source VARCHAR(50) NOT NULL,
+  vin VARCHAR(17) NOT NULL,
+  event VARCHAR(10) NOT NULL CHECK (event IN ('listed', 'delisted', 'relisted')),
+  occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  days_listed INT
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_lifecycle_events_vin ON vehicle_lifecycle_events(vin, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_lifecycle_events_event ON vehicle_lifecycle_events(event, occurred_at DESC);
+
+-- Admin-only data: no public policies, service role bypasses RLS
+ALTER TABLE vehicle_lifecycle_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE vehicle_lifecycle_events IS 'Append-only listed / delisted / relisted events written by the feed sync';
+COMMENT ON COLUMN vehicle_lifecycle_events.days_listed IS 'Delisted events only: whole days since listed_at';
+
+-- The admin circuit breaker override delists vehicles too, so it records events the same way
+CREATE OR REPLACE FUNCTION apply_pending_deactivations(p_sync_run_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  removed_count INTEGER;
+BEGIN
+  WITH delisted AS (
+    UPDATE vehicles v
+    SET is_active = false,
+        delisted_at = NOW()
+    FROM feed_pending_deactivations p
+    WHERE p.sync_run_id = p_sync_run_id
+      AND v.vin = p.vin
+      AND v.source = p.source
+      AND v.is_active = true
+    RETURNING v.vin, v.source, v.listed_at
+  )
+  INSERT INTO vehicle_lifecycle_events (sync_run_id, source, vin, event, occurred_at, days_listed)
+  SELECT
+    p_sync_run_id,
+    d.source,
+    d.vin,
+    'delisted',
+    NOW(),
+    GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (NOW() - d.listed_at)) / 86400))::INT
+  FROM delisted d;
+
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  DELETE FROM feed_pending_deactivations WHERE sync_run_id = p_sync_run_id;
+
+  RETURN removed_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_pending_deactivations FROM PUBLIC;
+
+-- Days-to-sell by segment over delisted events in the lookback window
+-- Delisting is our proxy for "sold": the dealer pulled the listing from the feed.
+CREATE OR REPLACE FUNCTION get_days_to_sell(
+  p_group_by TEXT DEFAULT 'make',
+  p_days INTEGER DEFAULT 90,
+  p_min_count INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  make TEXT,
+  model TEXT,
+  dma TEXT,
+  delisted_count BIGINT,
+  avg_days NUMERIC,
+  median_days NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF p_group_by NOT IN ('make', 'model', 'dma') THEN
+    RAISE EXCEPTION 'Invalid p_group_by: % (expected make, model, or dma)', p_group_by;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN p_group_by IN ('make', 'model') THEN v.make::TEXT END,
+    CASE WHEN p_group_by = 'model' THEN v.model::TEXT END,
+    CASE WHEN p_group_by = 'dma' THEN v.dma::TEXT END,
+    COUNT(*),
+    ROUND(AVG(e.days_listed), 1),
+    ROUND((PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY e.days_listed))::NUMERIC, 1)
+  FROM vehicle_lifecycle_events e
+  JOIN vehicles v ON v.vin = e.vin
+  WHERE e.event = 'delisted'
+    AND e.days_listed IS NOT NULL
+    AND e.occurred_at >= NOW() - make_interval(days => p_days)
+    AND (p_group_by = 'dma' OR v.make IS NOT NULL)
+    AND (p_group_by <> 'model' OR v.model IS NOT NULL)
+    AND (p_group_by <> 'dma' OR v.dma IS NOT NULL)
+  GROUP BY 1, 2, 3
+  HAVING COUNT(*) >= p_min_count
+  -- Positional ORDER BY avoids ambiguity with the OUT columns
+  ORDER BY 6 ASC, 4 DESC;
+END;
+$$;
+
+-- Service role only (called from /api/admin/days-to-sell)
+REVOKE EXECUTE ON FUNCTION get_days_to_sell FROM PUBLIC;
+
+COMMENT ON FUNCTION get_days_to_sell IS 'Average and median days listed before delisting, grouped by make, make+model, or DMA';
@@ -0,0 +1,23 @@
+-- Offline VIN decoding in the feed sync (lib/vin.ts)
+-- A missing year/make is filled from the VIN (model-year code, WMI dataset). Feed values
+-- that disagree with the VIN are kept but flagged in vin_mismatches for review.
+-- The invalid_vin rule now also checks the ISO 3779 check digit, so listings with
+-- mistyped VINs are quarantined in feed_rejections instead of being shown.
+--
+-- The new column is part of the content hash, so each vehicle is rewritten once on
+-- the next sync, which also backfills vin_mismatches.
+
+ALTER TABLE vehicles
+ADD COLUMN IF NOT EXISTS vin_mismatches TEXT[] DEFAULT '{}';
+
+COMMENT ON COLUMN vehicles.vin_mismatches IS 'Feed fields (year, make) that disagree with the VIN decode (see lib/vin.ts)';
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_vin_mismatches ON vehicles(source)
+WHERE is_active = true AND cardinality(vin_mismatches) > 0;
+
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS vins_filled INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vins_mismatched INT DEFAULT 0;
+
+COMMENT ON COLUMN feed_sync_logs.vins_filled IS 'Feed rows whose missing year/make was filled from the VIN';
+COMMENT ON COLUMN feed_sync_logs.vins_mismatched IS 'Feed rows whose year/make disagrees with the VIN';
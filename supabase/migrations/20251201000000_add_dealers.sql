@@ -0,0 +1,128 @@
+-- Normalized dealers table (lib/dealers.ts)
+-- Dealer details stay denormalized on vehicles (search, diversification and billing read
+-- them there), but each dealer now also has one row here: latest name/address/geo from
+-- its vehicles, active vehicle counts, and admin-only settings. Rows are keyed by the
+-- same dealer_id as vehicles, clicks and dealer_click_history.
+--
+-- refresh_dealers() is called by the feed sync after every write phase and by the
+-- admin deactivation override. Existing dealers are backfilled at the end.
+
+CREATE TABLE IF NOT EXISTS dealers (
+  dealer_id VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  address VARCHAR(255),
+  city VARCHAR(100),
+  state VARCHAR(2),
+  zip VARCHAR(10),
+  latitude DECIMAL(10,7),
+  longitude DECIMAL(10,7),
+  location GEOGRAPHY(Point, 4326),
+  dma VARCHAR(100),
+  source VARCHAR(50),
+  active_vehicle_count INT NOT NULL DEFAULT 0,
+  total_vehicle_count INT NOT NULL DEFAULT 0,
+  settings JSONB NOT NULL DEFAULT '{}',
+  first_seen_at TIMESTAMP DEFAULT NOW(),
+  last_seen_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dealers_location ON dealers USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_dealers_active ON dealers(active_vehicle_count DESC) WHERE active_vehicle_count > 0;
+CREATE INDEX IF NOT EXISTS idx_dealers_state ON dealers(state);
+
+-- Same lat/lon -> location trigger as vehicles
+DROP TRIGGER IF EXISTS trg_update_dealer_location ON dealers;
+
+CREATE TRIGGER trg_update_dealer_location
+  BEFORE INSERT OR UPDATE OF latitude, longitude
+  ON dealers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vehicle_location();
+
+-- Dealer pages are public, settings are not: anon/authenticated only get the listed columns
+ALTER TABLE dealers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view dealers"
+  ON dealers FOR SELECT
+  USING (true);
+
+REVOKE SELECT ON dealers FROM anon, authenticated;
+GRANT SELECT (
+  dealer_id, name, address, city, state, zip, latitude, longitude, dma,
+  active_vehicle_count, total_vehicle_count, first_seen_at, last_seen_at, updated_at
+) ON dealers TO anon, authenticated;
+
+COMMENT ON TABLE dealers IS 'One row per feed dealer, maintained by refresh_dealers() after each sync';
+COMMENT ON COLUMN dealers.active_vehicle_count IS 'Active vehicles as of the last refresh';
+COMMENT ON COLUMN dealers.total_vehicle_count IS 'All vehicles ever synced for the dealer (active or not)';
+COMMENT ON COLUMN dealers.settings IS 'Admin-only per-dealer settings (not readable by anon)';
+COMMENT ON COLUMN dealers.last_seen_at IS 'Last refresh that found an active vehicle for the dealer';
+
+-- Upsert every dealer from vehicles. Details come from the dealer's most recently synced
+-- vehicle (active ones first), so a dealer that changes address picks it up on the next sync.
+CREATE OR REPLACE FUNCTION refresh_dealers()
+RETURNS INTEGER AS $$
+DECLARE
+  refreshed INTEGER;
+BEGIN
+  INSERT INTO dealers (
+    dealer_id, name, address, city, state, zip, latitude, longitude, dma, source,
+    active_vehicle_count, total_vehicle_count, last_seen_at, updated_at
+  )
+  SELECT DISTINCT ON (v.dealer_id)
+    v.dealer_id,
+    v.dealer_name,
+    v.dealer_address,
+    v.dealer_city,
+    v.dealer_state,
+    v.dealer_zip,
+    v.latitude,
+    v.longitude,
+    v.dma,
+    v.source,
+    (COUNT(*) FILTER (WHERE v.is_active) OVER (PARTITION BY v.dealer_id))::INT,
+    (COUNT(*) OVER (PARTITION BY v.dealer_id))::INT,
+    CASE WHEN bool_or(v.is_active) OVER (PARTITION BY v.dealer_id) THEN NOW() END,
+    NOW()
+  FROM vehicles v
+  WHERE v.dealer_id IS NOT NULL AND v.dealer_id <> ''
+  ORDER BY v.dealer_id, v.is_active DESC, v.last_sync DESC NULLS LAST
+  ON CONFLICT (dealer_id) DO UPDATE SET
+    name = EXCLUDED.name,
+    address = EXCLUDED.address,
+    city = EXCLUDED.city,
+    state = EXCLUDED.state,
+    zip = EXCLUDED.zip,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    dma = EXCLUDED.dma,
+    source = EXCLUDED.source,
+    active_vehicle_count = EXCLUDED.active_vehicle_count,
+    total_vehicle_count = EXCLUDED.total_vehicle_count,
+    last_seen_at = COALESCE(EXCLUDED.last_seen_at, dealers.last_seen_at),
+    updated_at = NOW();
+
+  GET DIAGNOSTICS refreshed = ROW_COUNT;
+  RETURN refreshed;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION refresh_dealers IS 'Upsert dealers (details, geo, vehicle counts) from vehicles; returns dealers refreshed';
+
+-- Dashboard dealer count now reads the dealers table
+CREATE OR REPLACE FUNCTION get_unique_dealer_count()
+RETURNS BIGINT AS $$
+BEGIN
+  RETURN (
+    SELECT COUNT(*)
+    FROM dealers
+    WHERE active_vehicle_count > 0
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION get_unique_dealer_count IS 'Returns count of dealers with active vehicles (not total vehicles)';
+
+-- Backfill
+SELECT refresh_dealers();
@@ -0,0 +1,15 @@
+-- Feed schema drift detection (lib/feed-schema.ts)
+-- Delimited feeds are parsed by header name, so a renamed or dropped column used to turn
+-- into silent nulls. The sync now checks the header against the source's column contract:
+-- added, removed and renamed columns are recorded here (and alerted), and a missing
+-- required column fails the run before anything is written.
+--
+-- Per-column null rates are stored on every run; a column whose rate climbs well above
+-- its best rate over the last week of successful syncs raises an alert.
+
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS schema_drift JSONB,
+ADD COLUMN IF NOT EXISTS column_null_rates JSONB;
+
+COMMENT ON COLUMN feed_sync_logs.schema_drift IS 'Header vs. column contract: {added, removed, renamed: [{from, to}], missingRequired} (null if not checked)';
+COMMENT ON COLUMN feed_sync_logs.column_null_rates IS 'Share of empty values per contract column (0-1), e.g. {"Payout": 0.02}';
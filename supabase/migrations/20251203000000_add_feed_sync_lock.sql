@@ -0,0 +1,133 @@
+-- Feed sync overlap lock and batch checkpoints (lib/feed-sync.ts)
+-- One row per source. A run holds the lock while status = 'running' and its lease hasn't
+-- expired; every checkpoint (each 1000 feed rows and each deactivation batch) renews the
+-- lease, so a run killed mid-sync (e.g. the 300s cron maxDuration) frees the source
+-- SYNC_LOCK_LEASE_SECONDS after its last checkpoint. Overlapping runs (cron vs. a manual
+-- trigger) are skipped instead of racing each other.
+--
+-- A run that takes over an expired lease still marked 'running' rolls the interrupted run
+-- forward: rows it already wrote carry their new content hash and are skipped, and the
+-- deactivation pass it never reached runs. The interrupted run gets a 'failed' sync log
+-- built from its last checkpoint.
+
+CREATE TABLE IF NOT EXISTS feed_sync_checkpoints (
+  source VARCHAR(50) PRIMARY KEY,
+  sync_run_id UUID NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'complete', 'failed')),
+  phase VARCHAR(20) NOT NULL DEFAULT 'starting' CHECK (phase IN ('starting', 'upserting', 'deactivating')),
+  rows_processed INT NOT NULL DEFAULT 0,
+  rows_written INT NOT NULL DEFAULT 0,
+  vehicles_removed INT NOT NULL DEFAULT 0,
+  last_vin VARCHAR(17),
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  heartbeat_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  lease_expires_at TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP
+);
+
+-- Admin-only data: no public policies, service role bypasses RLS
+ALTER TABLE feed_sync_checkpoints ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE feed_sync_checkpoints IS 'Per-source sync lock (lease) and progress of the latest run';
+COMMENT ON COLUMN feed_sync_checkpoints.sync_run_id IS 'Run holding (or that last held) the lock; matches feed_sync_logs.sync_run_id';
+COMMENT ON COLUMN feed_sync_checkpoints.rows_processed IS 'Feed rows read so far (written, unchanged or rejected)';
+COMMENT ON COLUMN feed_sync_checkpoints.rows_written IS 'Rows upserted so far';
+COMMENT ON COLUMN feed_sync_checkpoints.last_vin IS 'Last feed VIN covered by the checkpoint';
+COMMENT ON COLUMN feed_sync_checkpoints.lease_expires_at IS 'Lock is free once this passes, even if status is still running';
+
+-- Take the source's lock unless another run holds an unexpired lease.
+-- Returns {acquired, previous} where previous is the row as it was (null for a first run),
+-- so the caller can tell a clean hand-over from an interrupted run.
+CREATE OR REPLACE FUNCTION acquire_feed_sync_lock(p_source VARCHAR, p_sync_run_id UUID, p_lease_seconds INT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  existing feed_sync_checkpoints%ROWTYPE;
+  lease INTERVAL := make_interval(secs => p_lease_seconds);
+BEGIN
+  INSERT INTO feed_sync_checkpoints (source, sync_run_id, lease_expires_at)
+  VALUES (p_source, p_sync_run_id, NOW() + lease)
+  ON CONFLICT (source) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('acquired', true, 'previous', NULL);
+  END IF;
+
+  SELECT * INTO existing FROM feed_sync_checkpoints WHERE source = p_source FOR UPDATE;
+
+  IF existing.status = 'running' AND existing.lease_expires_at > NOW() THEN
+    RETURN jsonb_build_object('acquired', false, 'previous', to_jsonb(existing));
+  END IF;
+
+  UPDATE feed_sync_checkpoints
+  SET sync_run_id = p_sync_run_id,
+      status = 'running',
+      phase = 'starting',
+      rows_processed = 0,
+      rows_written = 0,
+      vehicles_removed = 0,
+      last_vin = NULL,
+      started_at = NOW(),
+      heartbeat_at = NOW(),
+      lease_expires_at = NOW() + lease,
+      completed_at = NULL
+  WHERE source = p_source;
+
+  RETURN jsonb_build_object('acquired', true, 'previous', to_jsonb(existing));
+END;
+$$;
+
+-- Record progress and renew the lease. Returns false if the run no longer holds the lock
+-- (its lease expired and another run took over), in which case it must stop writing.
+CREATE OR REPLACE FUNCTION checkpoint_feed_sync(
+  p_source VARCHAR,
+  p_sync_run_id UUID,
+  p_phase VARCHAR,
+  p_rows_processed INT,
+  p_rows_written INT,
+  p_vehicles_removed INT,
+  p_last_vin VARCHAR,
+  p_lease_seconds INT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE feed_sync_checkpoints
+  SET phase = p_phase,
+      rows_processed = p_rows_processed,
+      rows_written = p_rows_written,
+      vehicles_removed = p_vehicles_removed,
+      last_vin = COALESCE(p_last_vin, last_vin),
+      heartbeat_at = NOW(),
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE source = p_source
+    AND sync_run_id = p_sync_run_id
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Finish a run ('complete' or 'failed') and free the lock
+CREATE OR REPLACE FUNCTION release_feed_sync_lock(p_source VARCHAR, p_sync_run_id UUID, p_status VARCHAR)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE feed_sync_checkpoints
+  SET status = p_status,
+      completed_at = NOW(),
+      lease_expires_at = NOW()
+  WHERE source = p_source
+    AND sync_run_id = p_sync_run_id
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION acquire_feed_sync_lock IS 'Take the per-source sync lock unless an unexpired lease is held; returns {acquired, previous}';
+COMMENT ON FUNCTION checkpoint_feed_sync IS 'Record sync progress and renew the lease; false = lock lost';
+COMMENT ON FUNCTION release_feed_sync_lock IS 'Mark the run complete/failed and free the lock';
@@ -0,0 +1,52 @@
+-- Reconcile feed_sync_logs with what the sync writes, and add per-stage timings
+-- The initial schema had sync_timestamp (defaulting to insert time, i.e. completion),
+-- while FeedSyncService.logSync inserted sync_started_at / sync_completed_at / success.
+-- PostgREST rejects inserts naming unknown columns, so sync runs were never logged and
+-- the circuit breaker / rejection summary lookups ordering by sync_completed_at failed.
+--
+-- sync_timestamp becomes sync_started_at (existing rows keep their value), completion is
+-- derived from duration_seconds, and `success` is dropped from the writer (status is
+-- the single source of truth). Run history is browsed at /admin/feed-syncs.
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'feed_sync_logs' AND column_name = 'sync_timestamp'
+  ) THEN
+    ALTER TABLE feed_sync_logs RENAME COLUMN sync_timestamp TO sync_started_at;
+  END IF;
+END $$;
+
+ALTER TABLE feed_sync_logs
+ADD COLUMN IF NOT EXISTS sync_started_at TIMESTAMP DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS sync_completed_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS rows_read INT,
+ADD COLUMN IF NOT EXISTS stage_timings JSONB DEFAULT '{}'::jsonb;
+
+UPDATE feed_sync_logs
+SET sync_completed_at = sync_started_at + make_interval(secs => COALESCE(duration_seconds, 0))
+WHERE sync_completed_at IS NULL;
+
+ALTER TABLE feed_sync_logs
+ALTER COLUMN sync_completed_at SET DEFAULT NOW();
+
+ALTER TABLE feed_sync_logs
+DROP CONSTRAINT IF EXISTS feed_sync_logs_status_check;
+
+ALTER TABLE feed_sync_logs
+ADD CONSTRAINT feed_sync_logs_status_check CHECK (status IN ('success', 'partial', 'failed'));
+
+DROP INDEX IF EXISTS idx_sync_timestamp;
+CREATE INDEX IF NOT EXISTS idx_feed_sync_logs_completed ON feed_sync_logs(sync_completed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feed_sync_logs_source_completed ON feed_sync_logs(source, sync_completed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feed_sync_logs_run ON feed_sync_logs(sync_run_id);
+
+-- Admin-only data: no public policies, service role bypasses RLS
+ALTER TABLE feed_sync_logs ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE feed_sync_logs IS 'One row per feed sync run (per source), written by FeedSyncService.logSync';
+COMMENT ON COLUMN feed_sync_logs.sync_started_at IS 'When the run started';
+COMMENT ON COLUMN feed_sync_logs.sync_completed_at IS 'When the run finished (or its last checkpoint, for interrupted runs)';
+COMMENT ON COLUMN feed_sync_logs.rows_read IS 'Feed rows read (valid, rejected and repeated VINs)';
+COMMENT ON COLUMN feed_sync_logs.stage_timings IS 'Milliseconds per stage: {download, extract, parse, upsert, deactivate} (see lib/feed-sync-history.ts)';
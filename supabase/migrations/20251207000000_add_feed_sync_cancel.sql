@@ -0,0 +1,87 @@
+-- Admin cancellation of a running feed sync (POST /api/admin/feed-sync/cancel)
+-- The admin sets cancel_requested_at on the source's running checkpoint row. The run's next
+-- checkpoint (every 1000 feed rows, each deactivation batch) then returns false, the run sees
+-- the request, stops writing and releases the lock as failed. The run can be on any server
+-- instance, so the request goes through the lock table rather than in-process state.
+
+ALTER TABLE feed_sync_checkpoints ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMP;
+
+COMMENT ON COLUMN feed_sync_checkpoints.cancel_requested_at IS 'Set by an admin to stop the running sync at its next checkpoint';
+
+-- Same as 20251203000000_add_feed_sync_lock.sql, plus clearing a previous run's cancel request
+CREATE OR REPLACE FUNCTION acquire_feed_sync_lock(p_source VARCHAR, p_sync_run_id UUID, p_lease_seconds INT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  existing feed_sync_checkpoints%ROWTYPE;
+  lease INTERVAL := make_interval(secs => p_lease_seconds);
+BEGIN
+  INSERT INTO feed_sync_checkpoints (source, sync_run_id, lease_expires_at)
+  VALUES (p_source, p_sync_run_id, NOW() + lease)
+  ON CONFLICT (source) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('acquired', true, 'previous', NULL);
+  END IF;
+
+  SELECT * INTO existing FROM feed_sync_checkpoints WHERE source = p_source FOR UPDATE;
+
+  IF existing.status = 'running' AND existing.lease_expires_at > NOW() THEN
+    RETURN jsonb_build_object('acquired', false, 'previous', to_jsonb(existing));
+  END IF;
+
+  UPDATE feed_sync_checkpoints
+  SET sync_run_id = p_sync_run_id,
+      status = 'running',
+      phase = 'starting',
+      rows_processed = 0,
+      rows_written = 0,
+      vehicles_removed = 0,
+      last_vin = NULL,
+      started_at = NOW(),
+      heartbeat_at = NOW(),
+      lease_expires_at = NOW() + lease,
+      completed_at = NULL,
+      cancel_requested_at = NULL
+  WHERE source = p_source;
+
+  RETURN jsonb_build_object('acquired', true, 'previous', to_jsonb(existing));
+END;
+$$;
+
+-- Record progress and renew the lease. Returns false if the run no longer holds the lock
+-- (lease expired and another run took over) or an admin asked it to stop; the caller tells
+-- the two apart from cancel_requested_at.
+CREATE OR REPLACE FUNCTION checkpoint_feed_sync(
+  p_source VARCHAR,
+  p_sync_run_id UUID,
+  p_phase VARCHAR,
+  p_rows_processed INT,
+  p_rows_written INT,
+  p_vehicles_removed INT,
+  p_last_vin VARCHAR,
+  p_lease_seconds INT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE feed_sync_checkpoints
+  SET phase = p_phase,
+      rows_processed = p_rows_processed,
+      rows_written = p_rows_written,
+      vehicles_removed = p_vehicles_removed,
+      last_vin = COALESCE(p_last_vin, last_vin),
+      heartbeat_at = NOW(),
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE source = p_source
+    AND sync_run_id = p_sync_run_id
+    AND status = 'running'
+    AND cancel_requested_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION checkpoint_feed_sync IS 'Record sync progress and renew the lease; false = lock lost or cancel requested';
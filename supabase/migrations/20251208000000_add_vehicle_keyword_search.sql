@@ -0,0 +1,212 @@
+-- Keyword search (q) across make, model, trim, options and description
+-- Full-text search (websearch_to_tsquery syntax: quoted phrases, -exclusions, "or") does the
+-- matching; pg_trgm word similarity on make/model/trim catches typos ("camery", "silverdo").
+-- Both are expression indexes, so no stored columns are added to vehicles.
+--
+-- search_vehicles_by_location takes p_query; search_vehicles_by_keyword serves the
+-- non-location search path, which chains its other filters onto the RPC result.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION vehicle_search_document(
+  p_make TEXT,
+  p_model TEXT,
+  p_trim TEXT,
+  p_options TEXT,
+  p_description TEXT
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, coalesce(p_make, '') || ' ' || coalesce(p_model, '') || ' ' || coalesce(p_trim, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(p_options, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(p_description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION vehicle_search_name(
+  p_make TEXT,
+  p_model TEXT,
+  p_trim TEXT
+)
+RETURNS TEXT AS $$
+  SELECT lower(coalesce(p_make, '') || ' ' || coalesce(p_model, '') || ' ' || coalesce(p_trim, ''));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_search_document ON vehicles
+USING GIN (vehicle_search_document(make, model, "trim", options, description))
+WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_search_name_trgm ON vehicles
+USING GIN (vehicle_search_name(make, model, "trim") gin_trgm_ops)
+WHERE is_active = true;
+
+COMMENT ON FUNCTION vehicle_search_document IS 'Full-text document for keyword search: make/model/trim (weight A), options (B), description (C)';
+COMMENT ON FUNCTION vehicle_search_name IS 'Lower-cased "make model trim" for trigram (typo-tolerant) keyword matching';
+
+-- New parameter, so the old signature has to be dropped first
+DROP FUNCTION IF EXISTS search_vehicles_by_location(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT[], INTEGER, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION search_vehicles_by_location(
+  user_lat DOUBLE PRECISION,
+  user_lon DOUBLE PRECISION,
+  p_make TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_body_style TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_year INTEGER DEFAULT NULL,
+  p_max_year INTEGER DEFAULT NULL,
+  p_features TEXT[] DEFAULT NULL,
+  p_min_mpg INTEGER DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  vin VARCHAR(17),
+  year INTEGER,
+  make VARCHAR(100),
+  model VARCHAR(100),
+  "trim" VARCHAR(100),
+  price NUMERIC(10,2),
+  miles INTEGER,
+  condition VARCHAR(20),
+  body_style VARCHAR(50),
+  primary_image_url TEXT,
+  image_urls TEXT[],
+  transmission VARCHAR(50),
+  fuel_type VARCHAR(50),
+  drive_type VARCHAR(50),
+  exterior_color VARCHAR(50),
+  interior_color VARCHAR(50),
+  doors INTEGER,
+  cylinders INTEGER,
+  mpg_city INTEGER,
+  mpg_highway INTEGER,
+  mpg_combined INTEGER,
+  description TEXT,
+  features TEXT[],
+  dealer_id VARCHAR(50),
+  dealer_name VARCHAR(255),
+  dealer_city VARCHAR(100),
+  dealer_state VARCHAR(2),
+  dealer_zip VARCHAR(10),
+  dealer_vdp_url TEXT,
+  total_photos INTEGER,
+  latitude DECIMAL(10,7),
+  longitude DECIMAL(10,7),
+  targeting_radius INTEGER,
+  price_drop NUMERIC(10,2),
+  last_price_change TIMESTAMP,
+  payout NUMERIC(10,2),
+  priority INTEGER,
+  image_quality_score SMALLINT,
+  distance_miles DOUBLE PRECISION,
+  total_results BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.vin,
+    v.year,
+    v.make,
+    v.model,
+    v."trim",
+    v.price,
+    v.miles,
+    v.condition,
+    v.body_style,
+    v.primary_image_url,
+    v.image_urls,
+    v.transmission,
+    v.fuel_type,
+    v.drive_type,
+    v.exterior_color,
+    v.interior_color,
+    v.doors,
+    v.cylinders,
+    v.mpg_city,
+    v.mpg_highway,
+    v.mpg_combined,
+    v.description,
+    v.features,
+    v.dealer_id,
+    v.dealer_name,
+    v.dealer_city,
+    v.dealer_state,
+    v.dealer_zip,
+    v.dealer_vdp_url,
+    v.total_photos,
+    v.latitude,
+    v.longitude,
+    v.targeting_radius,
+    v.price_drop,
+    v.last_price_change,
+    v.payout,
+    v.priority,
+    v.image_quality_score,
+    -- Calculate distance in miles
+    ST_Distance(
+      v.location,
+      ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography
+    ) / 1609.34 AS distance_miles,
+    -- Total count of matching records (window function)
+    count(*) OVER() AS total_results
+  FROM vehicles v
+  WHERE v.is_active = true
+    AND v.location IS NOT NULL
+    -- ST_DWithin: Fast spatial query using GIST index
+    -- Cap maximum radius at 100 miles for relevant local results
+    AND ST_DWithin(
+      v.location,
+      ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography,
+      LEAST(COALESCE(v.targeting_radius, 30), 100) * 1609.34
+    )
+    -- Apply filters
+    AND (p_make IS NULL OR v.make = p_make)
+    AND (p_model IS NULL OR v.model = p_model)
+    AND (p_condition IS NULL OR v.condition = p_condition)
+    AND (p_body_style IS NULL OR v.body_style = p_body_style)
+    AND (p_min_price IS NULL OR v.price >= p_min_price)
+    AND (p_max_price IS NULL OR v.price <= p_max_price)
+    AND (p_min_year IS NULL OR v.year >= p_min_year)
+    AND (p_max_year IS NULL OR v.year <= p_max_year)
+    -- Vehicle must have every requested feature (GIN indexed)
+    AND (p_features IS NULL OR cardinality(p_features) = 0 OR v.features @> p_features)
+    -- Vehicles without EPA data are excluded once a minimum is set
+    AND (p_min_mpg IS NULL OR v.mpg_combined >= p_min_mpg)
+    -- Keyword search: full-text match, or a near-miss spelling of make/model/trim
+    AND (
+      p_query IS NULL
+      OR vehicle_search_document(v.make, v.model, v."trim", v.options, v.description) @@ websearch_to_tsquery('english', p_query)
+      OR lower(p_query) <% vehicle_search_name(v.make, v.model, v."trim")
+    )
+  ORDER BY distance_miles ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_vehicles_by_location TO authenticated, anon;
+
+COMMENT ON FUNCTION search_vehicles_by_location IS 'Fast spatial search using PostGIS ST_DWithin. Returns vehicles within their targeting radius, sorted by distance, with the latest price drop, full photo list, payout/priority/image quality for relevance ranking, an all-of feature filter, EPA MPG with a minimum combined MPG filter, and keyword search (p_query: full-text plus trigram typo tolerance).';
+
+-- Non-location search: PostgREST applies the remaining filters, ordering and count on top
+CREATE OR REPLACE FUNCTION search_vehicles_by_keyword(p_query TEXT)
+RETURNS SETOF vehicles AS $$
+  SELECT v.*
+  FROM vehicles v
+  WHERE v.is_active = true
+    AND (
+      vehicle_search_document(v.make, v.model, v."trim", v.options, v.description) @@ websearch_to_tsquery('english', p_query)
+      OR lower(p_query) <% vehicle_search_name(v.make, v.model, v."trim")
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_vehicles_by_keyword TO authenticated, anon;
+
+COMMENT ON FUNCTION search_vehicles_by_keyword IS 'Active vehicles matching a keyword query (same matching as search_vehicles_by_location p_query), for the non-location search path';
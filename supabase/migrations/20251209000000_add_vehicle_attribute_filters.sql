@@ -0,0 +1,267 @@
+-- Search filters for the remaining feed attributes: mileage, transmission, fuel type,
+-- drivetrain, exterior color, doors and certified pre-owned status.
+--
+-- search_vehicles_by_location takes the new filters (and returns certified);
+-- get_filter_options_by_location takes them too and returns the values available for each.
+
+-- "Under 50k miles" and "certified only" are the most used filters
+CREATE INDEX IF NOT EXISTS idx_vehicles_miles ON vehicles(miles) WHERE is_active = true AND miles IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vehicles_certified ON vehicles(certified) WHERE is_active = true AND certified = true;
+
+-- Parameters and return type change, so the functions have to be dropped first
+DROP FUNCTION IF EXISTS search_vehicles_by_location(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT[], INTEGER, TEXT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION search_vehicles_by_location(
+  user_lat DOUBLE PRECISION,
+  user_lon DOUBLE PRECISION,
+  p_make TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_body_style TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_year INTEGER DEFAULT NULL,
+  p_max_year INTEGER DEFAULT NULL,
+  p_features TEXT[] DEFAULT NULL,
+  p_min_mpg INTEGER DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_max_miles INTEGER DEFAULT NULL,
+  p_transmission TEXT DEFAULT NULL,
+  p_fuel_type TEXT DEFAULT NULL,
+  p_drive_type TEXT DEFAULT NULL,
+  p_exterior_color TEXT DEFAULT NULL,
+  p_doors INTEGER DEFAULT NULL,
+  p_certified BOOLEAN DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  vin VARCHAR(17),
+  year INTEGER,
+  make VARCHAR(100),
+  model VARCHAR(100),
+  "trim" VARCHAR(100),
+  price NUMERIC(10,2),
+  miles INTEGER,
+  condition VARCHAR(20),
+  body_style VARCHAR(50),
+  primary_image_url TEXT,
+  image_urls TEXT[],
+  transmission VARCHAR(50),
+  fuel_type VARCHAR(50),
+  drive_type VARCHAR(50),
+  exterior_color VARCHAR(50),
+  interior_color VARCHAR(50),
+  doors INTEGER,
+  cylinders INTEGER,
+  mpg_city INTEGER,
+  mpg_highway INTEGER,
+  mpg_combined INTEGER,
+  description TEXT,
+  features TEXT[],
+  dealer_id VARCHAR(50),
+  dealer_name VARCHAR(255),
+  dealer_city VARCHAR(100),
+  dealer_state VARCHAR(2),
+  dealer_zip VARCHAR(10),
+  dealer_vdp_url TEXT,
+  total_photos INTEGER,
+  latitude DECIMAL(10,7),
+  longitude DECIMAL(10,7),
+  targeting_radius INTEGER,
+  price_drop NUMERIC(10,2),
+  last_price_change TIMESTAMP,
+  payout NUMERIC(10,2),
+  priority INTEGER,
+  image_quality_score SMALLINT,
+  certified BOOLEAN,
+  distance_miles DOUBLE PRECISION,
+  total_results BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.vin,
+    v.year,
+    v.make,
+    v.model,
+    v."trim",
+    v.price,
+    v.miles,
+    v.condition,
+    v.body_style,
+    v.primary_image_url,
+    v.image_urls,
+    v.transmission,
+    v.fuel_type,
+    v.drive_type,
+    v.exterior_color,
+    v.interior_color,
+    v.doors,
+    v.cylinders,
+    v.mpg_city,
+    v.mpg_highway,
+    v.mpg_combined,
+    v.description,
+    v.features,
+    v.dealer_id,
+    v.dealer_name,
+    v.dealer_city,
+    v.dealer_state,
+    v.dealer_zip,
+    v.dealer_vdp_url,
+    v.total_photos,
+    v.latitude,
+    v.longitude,
+    v.targeting_radius,
+    v.price_drop,
+    v.last_price_change,
+    v.payout,
+    v.priority,
+    v.image_quality_score,
+    v.certified,
+    -- Calculate distance in miles
+    ST_Distance(
+      v.location,
+      ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography
+    ) / 1609.34 AS distance_miles,
+    -- Total count of matching records (window function)
+    count(*) OVER() AS total_results
+  FROM vehicles v
+  WHERE v.is_active = true
+    AND v.location IS NOT NULL
+    -- ST_DWithin: Fast spatial query using GIST index
+    -- Cap maximum radius at 100 miles for relevant local results
+    AND ST_DWithin(
+      v.location,
+      ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography,
+      LEAST(COALESCE(v.targeting_radius, 30), 100) * 1609.34
+    )
+    -- Apply filters
+    AND (p_make IS NULL OR v.make = p_make)
+    AND (p_model IS NULL OR v.model = p_model)
+    AND (p_condition IS NULL OR v.condition = p_condition)
+    AND (p_body_style IS NULL OR v.body_style = p_body_style)
+    AND (p_min_price IS NULL OR v.price >= p_min_price)
+    AND (p_max_price IS NULL OR v.price <= p_max_price)
+    AND (p_min_year IS NULL OR v.year >= p_min_year)
+    AND (p_max_year IS NULL OR v.year <= p_max_year)
+    -- Vehicle must have every requested feature (GIN indexed)
+    AND (p_features IS NULL OR cardinality(p_features) = 0 OR v.features @> p_features)
+    -- Vehicles without EPA data are excluded once a minimum is set
+    AND (p_min_mpg IS NULL OR v.mpg_combined >= p_min_mpg)
+    -- Keyword search: full-text match, or a near-miss spelling of make/model/trim
+    AND (
+      p_query IS NULL
+      OR vehicle_search_document(v.make, v.model, v."trim", v.options, v.description) @@ websearch_to_tsquery('english', p_query)
+      OR lower(p_query) <% vehicle_search_name(v.make, v.model, v."trim")
+    )
+    -- Vehicles without a mileage are excluded once a maximum is set
+    AND (p_max_miles IS NULL OR v.miles <= p_max_miles)
+    AND (p_transmission IS NULL OR v.transmission = p_transmission)
+    AND (p_fuel_type IS NULL OR v.fuel_type = p_fuel_type)
+    AND (p_drive_type IS NULL OR v.drive_type = p_drive_type)
+    AND (p_exterior_color IS NULL OR v.exterior_color = p_exterior_color)
+    AND (p_doors IS NULL OR v.doors = p_doors)
+    AND (p_certified IS NULL OR v.certified = p_certified)
+  ORDER BY distance_miles ASC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_vehicles_by_location TO authenticated, anon;
+
+COMMENT ON FUNCTION search_vehicles_by_location IS 'Fast spatial search using PostGIS ST_DWithin. Returns vehicles within their targeting radius, sorted by distance, with the latest price drop, full photo list, payout/priority/image quality for relevance ranking, an all-of feature filter, EPA MPG with a minimum combined MPG filter, keyword search (p_query: full-text plus trigram typo tolerance), and mileage/transmission/fuel/drivetrain/color/doors/certified filters.';
+
+DROP FUNCTION IF EXISTS get_filter_options_by_location(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION get_filter_options_by_location(
+  user_lat DOUBLE PRECISION,
+  user_lon DOUBLE PRECISION,
+  p_make TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_body_style TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_year INTEGER DEFAULT NULL,
+  p_max_year INTEGER DEFAULT NULL,
+  p_max_miles INTEGER DEFAULT NULL,
+  p_transmission TEXT DEFAULT NULL,
+  p_fuel_type TEXT DEFAULT NULL,
+  p_drive_type TEXT DEFAULT NULL,
+  p_exterior_color TEXT DEFAULT NULL,
+  p_doors INTEGER DEFAULT NULL,
+  p_certified BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (
+  makes TEXT[],
+  body_styles TEXT[],
+  conditions TEXT[],
+  years INTEGER[],
+  transmissions TEXT[],
+  fuel_types TEXT[],
+  drive_types TEXT[],
+  exterior_colors TEXT[],
+  doors INTEGER[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH filtered_vehicles AS (
+    SELECT
+      v.make,
+      v.body_style,
+      v.condition,
+      v.year,
+      v.transmission,
+      v.fuel_type,
+      v.drive_type,
+      v.exterior_color,
+      v.doors
+    FROM vehicles v
+    WHERE v.is_active = true
+      AND v.location IS NOT NULL
+      AND ST_DWithin(
+        v.location,
+        ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography,
+        LEAST(COALESCE(v.targeting_radius, 30), 100) * 1609.34
+      )
+      AND (p_make IS NULL OR v.make = p_make)
+      AND (p_model IS NULL OR v.model = p_model)
+      AND (p_condition IS NULL OR v.condition = p_condition)
+      AND (p_body_style IS NULL OR v.body_style = p_body_style)
+      AND (p_min_price IS NULL OR v.price >= p_min_price)
+      AND (p_max_price IS NULL OR v.price <= p_max_price)
+      AND (p_min_year IS NULL OR v.year >= p_min_year)
+      AND (p_max_year IS NULL OR v.year <= p_max_year)
+      AND (p_max_miles IS NULL OR v.miles <= p_max_miles)
+      AND (p_transmission IS NULL OR v.transmission = p_transmission)
+      AND (p_fuel_type IS NULL OR v.fuel_type = p_fuel_type)
+      AND (p_drive_type IS NULL OR v.drive_type = p_drive_type)
+      AND (p_exterior_color IS NULL OR v.exterior_color = p_exterior_color)
+      AND (p_doors IS NULL OR v.doors = p_doors)
+      AND (p_certified IS NULL OR v.certified = p_certified)
+  )
+  SELECT
+    ARRAY(SELECT DISTINCT fv.make::TEXT FROM filtered_vehicles fv WHERE fv.make IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.body_style::TEXT FROM filtered_vehicles fv WHERE fv.body_style IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.condition::TEXT FROM filtered_vehicles fv WHERE fv.condition IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.year FROM filtered_vehicles fv WHERE fv.year IS NOT NULL ORDER BY 1 DESC),
+    ARRAY(SELECT DISTINCT fv.transmission::TEXT FROM filtered_vehicles fv WHERE fv.transmission IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.fuel_type::TEXT FROM filtered_vehicles fv WHERE fv.fuel_type IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.drive_type::TEXT FROM filtered_vehicles fv WHERE fv.drive_type IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.exterior_color::TEXT FROM filtered_vehicles fv WHERE fv.exterior_color IS NOT NULL ORDER BY 1),
+    ARRAY(SELECT DISTINCT fv.doors FROM filtered_vehicles fv WHERE fv.doors IS NOT NULL ORDER BY 1);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_filter_options_by_location TO authenticated, anon;
+
+COMMENT ON FUNCTION get_filter_options_by_location IS 'Get available filter options (makes, body styles, conditions, years, transmissions, fuel types, drivetrains, exterior colors, doors) for vehicles within radius. Uses spatial index for performance.';
@@ -0,0 +1,249 @@
+-- Faceted filter options with counts, computed in SQL
+-- Replaces get_filter_options_by_location and the search page's capped (1000-row) DISTINCT
+-- queries. One call serves both the location and non-location search paths.
+--
+-- "Exclude own dimension": each facet is counted under every current filter except its own,
+-- so picking a make still lists the other makes (with how many vehicles each would show),
+-- while the other facets narrow to that make. Model, price, features, MPG, keyword and
+-- mileage have no facet and always apply.
+
+CREATE OR REPLACE FUNCTION get_search_facets(
+  user_lat DOUBLE PRECISION DEFAULT NULL,
+  user_lon DOUBLE PRECISION DEFAULT NULL,
+  p_make TEXT DEFAULT NULL,
+  p_model TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_body_style TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_year INTEGER DEFAULT NULL,
+  p_max_year INTEGER DEFAULT NULL,
+  p_features TEXT[] DEFAULT NULL,
+  p_min_mpg INTEGER DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_max_miles INTEGER DEFAULT NULL,
+  p_transmission TEXT DEFAULT NULL,
+  p_fuel_type TEXT DEFAULT NULL,
+  p_drive_type TEXT DEFAULT NULL,
+  p_exterior_color TEXT DEFAULT NULL,
+  p_doors INTEGER DEFAULT NULL,
+  p_certified BOOLEAN DEFAULT NULL,
+  p_radius_miles INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  dimension TEXT,
+  value TEXT,
+  vehicle_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      v.make,
+      v.body_style,
+      v.condition,
+      v.year,
+      v.transmission,
+      v.fuel_type,
+      v.drive_type,
+      v.exterior_color,
+      v.doors,
+      v.certified,
+      (p_make IS NULL OR v.make = p_make) AS match_make,
+      (p_body_style IS NULL OR v.body_style = p_body_style) AS match_body_style,
+      (p_condition IS NULL OR v.condition = p_condition) AS match_condition,
+      ((p_min_year IS NULL OR v.year >= p_min_year) AND (p_max_year IS NULL OR v.year <= p_max_year)) AS match_year,
+      (p_transmission IS NULL OR v.transmission = p_transmission) AS match_transmission,
+      (p_fuel_type IS NULL OR v.fuel_type = p_fuel_type) AS match_fuel_type,
+      (p_drive_type IS NULL OR v.drive_type = p_drive_type) AS match_drive_type,
+      (p_exterior_color IS NULL OR v.exterior_color = p_exterior_color) AS match_exterior_color,
+      (p_doors IS NULL OR v.doors = p_doors) AS match_doors,
+      (p_certified IS NULL OR v.certified = p_certified) AS match_certified
+    FROM vehicles v
+    WHERE v.is_active = true
+      -- Without a location every active vehicle counts; with one, the search_vehicles_by_location
+      -- radius rule applies (dealer targeting radius capped at 100, or p_radius_miles, 0 = any)
+      AND (
+        user_lat IS NULL
+        OR user_lon IS NULL
+        OR (
+          v.location IS NOT NULL
+          AND (
+            (p_radius_miles IS NULL AND ST_DWithin(
+              v.location,
+              ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography,
+              LEAST(COALESCE(v.targeting_radius, 30), 100) * 1609.34
+            ))
+            OR (p_radius_miles > 0 AND ST_DWithin(
+              v.location,
+              ST_SetSRID(ST_MakePoint(user_lon, user_lat), 4326)::geography,
+              p_radius_miles * 1609.34
+            ))
+            OR p_radius_miles = 0
+          )
+        )
+      )
+      -- Filters without a facet
+      AND (p_model IS NULL OR v.model = p_model)
+      AND (p_min_price IS NULL OR v.price >= p_min_price)
+      AND (p_max_price IS NULL OR v.price <= p_max_price)
+      AND (p_features IS NULL OR cardinality(p_features) = 0 OR v.features @> p_features)
+      AND (p_min_mpg IS NULL OR v.mpg_combined >= p_min_mpg)
+      AND (
+        p_query IS NULL
+        OR vehicle_search_document(v.make, v.model, v."trim", v.options, v.description) @@ websearch_to_tsquery('english', p_query)
+        OR lower(p_query) <% vehicle_search_name(v.make, v.model, v."trim")
+      )
+      AND (p_max_miles IS NULL OR v.miles <= p_max_miles)
+  )
+  SELECT 'make'::TEXT, c.make::TEXT, count(*)
+  FROM candidates c
+  WHERE c.make IS NOT NULL
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.make
+  UNION ALL
+  SELECT 'body_style'::TEXT, c.body_style::TEXT, count(*)
+  FROM candidates c
+  WHERE c.body_style IS NOT NULL
+    AND c.match_make
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.body_style
+  UNION ALL
+  SELECT 'condition'::TEXT, c.condition::TEXT, count(*)
+  FROM candidates c
+  WHERE c.condition IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.condition
+  UNION ALL
+  SELECT 'year'::TEXT, c.year::TEXT, count(*)
+  FROM candidates c
+  WHERE c.year IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.year
+  UNION ALL
+  SELECT 'transmission'::TEXT, c.transmission::TEXT, count(*)
+  FROM candidates c
+  WHERE c.transmission IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.transmission
+  UNION ALL
+  SELECT 'fuel_type'::TEXT, c.fuel_type::TEXT, count(*)
+  FROM candidates c
+  WHERE c.fuel_type IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.fuel_type
+  UNION ALL
+  SELECT 'drive_type'::TEXT, c.drive_type::TEXT, count(*)
+  FROM candidates c
+  WHERE c.drive_type IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_exterior_color
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.drive_type
+  UNION ALL
+  SELECT 'exterior_color'::TEXT, c.exterior_color::TEXT, count(*)
+  FROM candidates c
+  WHERE c.exterior_color IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_doors
+    AND c.match_certified
+  GROUP BY c.exterior_color
+  UNION ALL
+  SELECT 'doors'::TEXT, c.doors::TEXT, count(*)
+  FROM candidates c
+  WHERE c.doors IS NOT NULL
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_certified
+  GROUP BY c.doors
+  UNION ALL
+  SELECT 'certified'::TEXT, 'true'::TEXT, count(*)
+  FROM candidates c
+  WHERE c.certified
+    AND c.match_make
+    AND c.match_body_style
+    AND c.match_condition
+    AND c.match_year
+    AND c.match_transmission
+    AND c.match_fuel_type
+    AND c.match_drive_type
+    AND c.match_exterior_color
+    AND c.match_doors
+  HAVING count(*) > 0;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_search_facets TO authenticated, anon;
+
+COMMENT ON FUNCTION get_search_facets IS 'Filter options with vehicle counts (one row per dimension/value) under the current filters, excluding each dimension''s own filter. Optional location applies the search_vehicles_by_location radius rule.';
+
+-- Superseded by get_search_facets
+DROP FUNCTION IF EXISTS get_filter_options_by_location(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER,
+  INTEGER, TEXT, TEXT, TEXT, TEXT, INTEGER, BOOLEAN, INTEGER
+);